@@ -23,15 +23,30 @@ import {
   Body,
   Param,
   Query,
+  Req,
+  Res,
   HttpException,
   HttpStatus,
 } from '@nestjs/common';
+import type { Request, Response } from 'express';
 import { AdminService } from './admin.service';
+import { TopologyBuilderService } from './topology-builder.service';
+import { PoiTextIndexService } from '../fuseki/poi-text-index.service';
+import { RoadNetworkService } from '../overpass/road-network.service';
+import { AnomalyDetectionService } from '../influxdb/anomaly-detection.service';
+import { setPaginationHeaders } from '../common/pagination';
 import { CreatePoiDto } from './dto/CreatePoiDto';
+import type { TopologyRules } from '../common/topology';
 
 @Controller('admin')
 export class AdminController {
-  constructor(private readonly adminService: AdminService) {}
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly topologyBuilder: TopologyBuilderService,
+    private readonly poiTextIndex: PoiTextIndexService,
+    private readonly roadNetwork: RoadNetworkService,
+    private readonly anomalyDetection: AnomalyDetectionService,
+  ) {}
 
   /**
    * GET /admin/stats
@@ -117,19 +132,31 @@ export class AdminController {
   /**
    * GET /admin/pois
    * Lấy danh sách POIs từ Named Graphs với filter
-   * Query params: type (school, bus-stop, play-ground, drinking-water, toilet, all), page, limit
+   * Query params: type (school, bus-stop, play-ground, drinking-water, toilet, all), page, limit,
+   * cursor (nextCursor của trang trước, thay cho page), count
    */
   @Get('pois')
   async getPois(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
     @Query('type') type?: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('count') count?: string,
   ) {
     try {
       const pageNum = page ? parseInt(page, 10) : 1;
       const limitNum = limit ? parseInt(limit, 10) : 10;
 
-      const result = await this.adminService.getPois(type, pageNum, limitNum);
+      const result = await this.adminService.getPois(type, pageNum, limitNum, {
+        cursor,
+        count: count === 'true',
+      });
+      setPaginationHeaders(req, res, {
+        nextCursor: result.pagination.nextCursor,
+        totalCount: result.pagination.total,
+      });
       return result;
     } catch (error) {
       throw new HttpException(
@@ -168,6 +195,143 @@ export class AdminController {
     }
   }
 
+  /**
+   * GET /admin/topology
+   * Trạng thái và báo cáo lần tính topology gần nhất
+   */
+  @Get('topology')
+  getTopologyStatus() {
+    return {
+      success: true,
+      data: this.topologyBuilder.getStatus(),
+    };
+  }
+
+  /**
+   * POST /admin/topology/rebuild
+   * Tính lại toàn bộ quan hệ topology từ hình học POI
+   * Body: dryRun (chỉ báo cáo thay đổi), rules (ghi đè ngưỡng khoảng cách theo cặp loại)
+   */
+  @Post('topology/rebuild')
+  async rebuildTopology(
+    @Body('dryRun') dryRun?: boolean,
+    @Body('rules') rules?: Partial<TopologyRules>,
+  ) {
+    try {
+      const report = await this.topologyBuilder.rebuild({ dryRun, rules });
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error) {
+      const { message, status } = error as Error & { status?: number };
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to rebuild topology',
+          error: message,
+        },
+        status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /admin/topology/update
+   * Tính lại quan hệ topology của một số POI
+   * Body: pois (danh sách URI), dryRun, rules
+   */
+  @Post('topology/update')
+  async updateTopology(
+    @Body('pois') pois?: string[],
+    @Body('dryRun') dryRun?: boolean,
+    @Body('rules') rules?: Partial<TopologyRules>,
+  ) {
+    try {
+      const ids = Array.isArray(pois) ? pois : [];
+      const report = await this.topologyBuilder.updatePois(ids, {
+        dryRun,
+        rules,
+      });
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error) {
+      const { message, status } = error as Error & { status?: number };
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to update topology',
+          error: message,
+        },
+        status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /admin/search/reindex
+   * Dựng lại index tìm kiếm POI theo tên (sau khi nhập dữ liệu mới)
+   */
+  @Post('search/reindex')
+  async reindexPoiNames() {
+    await this.poiTextIndex.rebuild();
+    return {
+      success: true,
+      data: this.poiTextIndex.getStatus(),
+    };
+  }
+
+  /**
+   * POST /admin/road-network
+   * Tải mạng lưới đường của một vùng từ Overpass cho tìm kiếm theo thời gian di chuyển
+   * Body: bbox ([minLon, minLat, maxLon, maxLat] hoặc chuỗi "minLon,minLat,maxLon,maxLat")
+   */
+  @Post('road-network')
+  async loadRoadNetwork(@Body('bbox') bbox?: number[] | string) {
+    const values =
+      typeof bbox === 'string' ? bbox.split(',').map(Number) : bbox;
+    if (!Array.isArray(values)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Missing bbox [minLon, minLat, maxLon, maxLat]',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const status = await this.roadNetwork.load(values.map(Number));
+      return {
+        success: true,
+        data: status,
+      };
+    } catch (error) {
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Failed to load road network',
+          error: (error as Error).message,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * POST /admin/anomalies/detect
+   * Chạy bộ phát hiện bất thường dữ liệu cảm biến ngay lập tức
+   */
+  @Post('anomalies/detect')
+  async detectAnomalies() {
+    return {
+      success: true,
+      data: await this.anomalyDetection.run(),
+    };
+  }
+
   /**
    * GET /admin/health
    * Health check endpoint
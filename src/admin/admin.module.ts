@@ -20,10 +20,19 @@ import { ConfigModule } from '@nestjs/config';
 import { AdminService } from './admin.service';
 import { AdminController } from './admin.controller';
 import { AdminFusekiService } from './admin-fuseki.service';
+import { TopologyBuilderService } from './topology-builder.service';
+import { FusekiModule } from '../fuseki/fuseki.module';
+import { OverpassModule } from '../overpass/overpass.module';
+import { InfluxDBModule } from '../influxdb/influxdb.module';
 
 @Module({
-  imports: [ConfigModule.forRoot({ isGlobal: true })],
-  providers: [AdminService, AdminFusekiService],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    FusekiModule,
+    OverpassModule,
+    InfluxDBModule,
+  ],
+  providers: [AdminService, AdminFusekiService, TopologyBuilderService],
   controllers: [AdminController],
   exports: [AdminService],
 })
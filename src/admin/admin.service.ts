@@ -17,12 +17,23 @@
 
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { AdminFusekiService } from './admin-fuseki.service';
+import { TopologyBuilderService } from './topology-builder.service';
+import { getPoiGraphMap } from '../common/poi-graphs';
+import {
+  compareKeys,
+  cursorScope,
+  decodeCursor,
+  paginate,
+} from '../common/pagination';
 
 @Injectable()
 export class AdminService {
   private readonly logger = new Logger(AdminService.name);
 
-  constructor(private readonly fusekiService: AdminFusekiService) {}
+  constructor(
+    private readonly fusekiService: AdminFusekiService,
+    private readonly topologyBuilder: TopologyBuilderService,
+  ) {}
 
   /**
    * Cache schema của mỗi graph để tránh query lại nhiều lần
@@ -75,117 +86,13 @@ export class AdminService {
     }
   }
 
-  /**
-   * Graph mapping - Map từ type tới graph URL
-   * Tên type chuẩn hóa theo file TTL (dùng underscore và dấu gạch nối)
-   * Hỗ trợ cả underscore và hyphen format để tương thích
-   */
-  private getGraphMap(): Record<string, string> {
-    return {
-      // ATM & Banking
-      atm: process.env.FUSEKI_GRAPH_ATM || 'http://localhost:3030/graph/atm',
-      bank: process.env.FUSEKI_GRAPH_BANK || 'http://localhost:3030/graph/bank',
-
-      // Transport
-      bus_stop:
-        process.env.FUSEKI_GRAPH_BUS_STOP ||
-        'http://localhost:3030/graph/bus_stop',
-
-      // Food & Drink
-      cafe: process.env.FUSEKI_GRAPH_CAFE || 'http://localhost:3030/graph/cafe',
-      restaurant:
-        process.env.FUSEKI_GRAPH_RESTAURANT ||
-        'http://localhost:3030/graph/restaurant',
-
-      // Retail
-      convenience_store:
-        process.env.FUSEKI_GRAPH_CONVENIENCE_STORE ||
-        'http://localhost:3030/graph/convenience_store',
-      supermarket:
-        process.env.FUSEKI_GRAPH_SUPERMARKET ||
-        'http://localhost:3030/graph/supermarket',
-      marketplace:
-        process.env.FUSEKI_GRAPH_MARKETPLACE ||
-        'http://localhost:3030/graph/marketplace',
-      warehouse:
-        process.env.FUSEKI_GRAPH_WAREHOUSE ||
-        'http://localhost:3030/graph/warehouse',
-
-      // Healthcare
-      hospital:
-        process.env.FUSEKI_GRAPH_HOSPITAL ||
-        'http://localhost:3030/graph/hospital',
-      clinic:
-        process.env.FUSEKI_GRAPH_CLINIC || 'http://localhost:3030/graph/clinic',
-      pharmacy:
-        process.env.FUSEKI_GRAPH_PHARMACY ||
-        'http://localhost:3030/graph/pharmacy',
-
-      // Education
-      school:
-        process.env.FUSEKI_GRAPH_SCHOOL || 'http://localhost:3030/graph/school',
-      university:
-        process.env.FUSEKI_GRAPH_UNIVERSITY ||
-        'http://localhost:3030/graph/university',
-      kindergarten:
-        process.env.FUSEKI_GRAPH_KINDERGARTEN ||
-        'http://localhost:3030/graph/kindergarten',
-
-      // Recreation
-      playground:
-        process.env.FUSEKI_GRAPH_PLAY_GROUNDS ||
-        'http://localhost:3030/graph/playground',
-      park: process.env.FUSEKI_GRAPH_PARK || 'http://localhost:3030/graph/park',
-
-      // Infrastructure
-      charging_station:
-        process.env.FUSEKI_GRAPH_CHARGING_STATION ||
-        'http://localhost:3030/graph/charging_station',
-      fuel_station:
-        process.env.FUSEKI_GRAPH_FUEL_STATION ||
-        'http://localhost:3030/graph/fuel_station',
-      parking:
-        process.env.FUSEKI_GRAPH_PARKING ||
-        'http://localhost:3030/graph/parking',
-
-      // Public Services
-      post_office:
-        process.env.FUSEKI_GRAPH_POST_OFFICE ||
-        'http://localhost:3030/graph/post_office',
-      library:
-        process.env.FUSEKI_GRAPH_LIBRARY ||
-        'http://localhost:3030/graph/library',
-      community_centre:
-        process.env.FUSEKI_GRAPH_COMMUNITY_CENTER ||
-        'http://localhost:3030/graph/community_centre',
-
-      // Emergency Services
-      police:
-        process.env.FUSEKI_GRAPH_POLICE || 'http://localhost:3030/graph/police',
-      fire_station:
-        process.env.FUSEKI_GRAPH_FIRE_STATION ||
-        'http://localhost:3030/graph/fire_station',
-
-      // Utilities
-      drinking_water:
-        process.env.FUSEKI_GRAPH_DRINKING_WATER ||
-        'http://localhost:3030/graph/drinking_water',
-      public_toilet:
-        process.env.FUSEKI_GRAPH_TOILETS ||
-        'http://localhost:3030/graph/public_toilet',
-      waste_basket:
-        process.env.FUSEKI_GRAPH_WASTE_BASKET ||
-        'http://localhost:3030/graph/waste_basket',
-    };
-  }
-
   /**
    * Lấy schema (cấu trúc thuộc tính) của một loại POI
    * Trả về danh sách các thuộc tính có thực tế trong data
    */
   async getPoiSchema(type: string) {
     try {
-      const graphMap = this.getGraphMap();
+      const graphMap: Record<string, string> = getPoiGraphMap();
       const graphUrl = graphMap[type.toLowerCase()];
 
       if (!graphUrl) {
@@ -253,7 +160,7 @@ export class AdminService {
     try {
       this.logger.log('Fetching dashboard statistics');
 
-      const graphMap = this.getGraphMap();
+      const graphMap = getPoiGraphMap();
       const breakdown: Record<string, number> = {};
       let totalPois = 0;
 
@@ -348,7 +255,7 @@ export class AdminService {
       const poiUri = `urn:ngsi-ld:PointOfInterest:Hanoi:${typeNormalized}:${osmId}`;
 
       // Lấy graph URI từ graph map
-      const graphMap = this.getGraphMap();
+      const graphMap: Record<string, string> = getPoiGraphMap();
       const graphUri = graphMap[data.type.toLowerCase()] || graphMap['atm'];
 
       // Mapping type sang schema.org class
@@ -417,6 +324,9 @@ export class AdminService {
 
       this.logger.log(`POI created successfully: ${poiUri}`);
 
+      // Tính topology cho POI mới ở nền (chờ nếu đang rebuild), không chặn response
+      this.topologyBuilder.queuePois([poiUri]);
+
       return {
         success: true,
         message: 'POI created successfully',
@@ -444,7 +354,7 @@ export class AdminService {
       }
 
       // Lấy danh sách tất cả các graph
-      const graphMap = this.getGraphMap();
+      const graphMap = getPoiGraphMap();
       const graphUrls = Object.values(graphMap);
 
       // SPARQL DELETE query để xóa từ tất cả các graph
@@ -469,6 +379,15 @@ export class AdminService {
       // Thực thi tất cả các DELETE queries
       await Promise.all(deletePromises);
 
+      // Xóa quan hệ topology của POI
+      try {
+        await this.topologyBuilder.removePoi(id);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to delete topology of ${id}: ${(error as Error).message}`,
+        );
+      }
+
       this.logger.log(`POI deleted successfully: ${id}`);
 
       return {
@@ -530,13 +449,20 @@ export class AdminService {
   /**
    * Lấy danh sách POIs từ Named Graphs với filter theo type
    * @param type - Loại POI (school, bus-stop, play-ground, drinking-water, toilet, all)
-   * @param page - Trang hiện tại (mặc định: 1)
+   * @param page - Trang hiện tại (mặc định: 1), bỏ qua khi có cursor
    * @param limit - Số lượng items mỗi trang (mặc định: 10)
+   * @param options.cursor - nextCursor của trang trước
+   * @param options.count - Đếm tổng số POI (luôn đếm khi phân trang theo page)
    */
-  async getPois(type?: string, page: number = 1, limit: number = 10) {
+  async getPois(
+    type?: string,
+    page: number = 1,
+    limit: number = 10,
+    options: { cursor?: string; count?: boolean } = {},
+  ) {
     try {
       this.logger.log(
-        `Fetching POIs: type=${type}, page=${page}, limit=${limit}`,
+        `Fetching POIs: type=${type}, page=${page}, limit=${limit}, cursor=${options.cursor ?? '-'}`,
       );
 
       // Validate pagination params
@@ -544,7 +470,7 @@ export class AdminService {
       const validLimit = Math.min(Math.max(1, limit), 100); // Max 100 items per page
 
       // Map type to graph URL
-      const graphMap = this.getGraphMap();
+      const graphMap: Record<string, string> = getPoiGraphMap();
 
       // Determine which graphs to query
       let graphUrls: string[] = [];
@@ -563,12 +489,27 @@ export class AdminService {
         graphUrls = [graphUrl];
       }
 
+      // Sắp xếp theo tên rồi URI; cursor giữ (tên, URI) của POI cuối trang trước
+      const scope = cursorScope('admin-pois', {
+        type: (type || 'all').toLowerCase(),
+      });
+      const after = options.cursor
+        ? decodeCursor(options.cursor, scope)
+        : undefined;
+      const offset = after ? 0 : (validPage - 1) * validLimit;
+
       // Fetch data from all selected graphs
-      const allPois: any[] = [];
+      const allPois: { poi: unknown; id: string; sortName: string }[] = [];
 
       for (const graphUrl of graphUrls) {
         try {
-          const pois = await this.fetchPoisFromGraph(graphUrl, validLimit * 2);
+          const pois = await this.fetchPoisFromGraph(
+            graphUrl,
+            offset + validLimit + 1,
+            after
+              ? { name: String(after[0]), id: String(after[1]) }
+              : undefined,
+          );
           allPois.push(...pois);
         } catch (err) {
           this.logger.warn(
@@ -578,20 +519,33 @@ export class AdminService {
         }
       }
 
-      // Sort by name and apply pagination
-      const sortedPois = allPois.sort((a, b) => a.name.localeCompare(b.name));
-      const startIndex = (validPage - 1) * validLimit;
-      const endIndex = startIndex + validLimit;
-      const paginatedPois = sortedPois.slice(startIndex, endIndex);
+      // Gộp các graph theo (tên, URI) rồi cắt trang
+      const sortedPois = allPois
+        .sort((a, b) => compareKeys([a.sortName, a.id], [b.sortName, b.id]))
+        .slice(offset);
+      const result = paginate(sortedPois, (poi) => [poi.sortName, poi.id], {
+        limit: validLimit,
+        scope,
+      });
+
+      let total: number | undefined;
+      if (!after || options.count) {
+        total = 0;
+        for (const graphUrl of graphUrls) {
+          total += await this.countPoisInGraph(graphUrl);
+        }
+      }
 
       return {
         success: true,
-        data: paginatedPois,
+        data: result.items.map(({ poi }) => poi),
         pagination: {
-          page: validPage,
+          page: after ? null : validPage,
           limit: validLimit,
-          total: sortedPois.length,
-          totalPages: Math.ceil(sortedPois.length / validLimit),
+          total,
+          totalPages:
+            total !== undefined ? Math.ceil(total / validLimit) : undefined,
+          nextCursor: result.nextCursor,
         },
       };
     } catch (error) {
@@ -605,11 +559,14 @@ export class AdminService {
    * Sử dụng introspection để query động chỉ những thuộc tính có trong data
    * @param graphUrl - URL của Named Graph
    * @param limit - Số lượng tối đa
+   * @param after - Chỉ lấy POI sau (tên, URI) này (phân trang theo cursor)
+   * Mỗi POI kèm id và sortName: tên dùng để sắp xếp (ưu tiên tiếng Việt)
    */
   private async fetchPoisFromGraph(
     graphUrl: string,
     limit: number = 20,
-  ): Promise<any[]> {
+    after?: { name: string; id: string },
+  ): Promise<{ poi: unknown; id: string; sortName: string }[]> {
     try {
       // Lấy schema (danh sách predicates) có trong graph
       const predicates = await this.introspectGraphSchema(graphUrl);
@@ -633,36 +590,97 @@ export class AdminService {
       });
 
       // Build query động - sử dụng fiware:PointOfInterest thay vì geo:Point
+      // Subquery chọn `limit` POI theo (tên, URI), query ngoài lấy thuộc tính
+      const afterName = after ? this.escapeSparqlString(after.name) : '';
+      const afterId = after ? this.escapeSparqlString(after.id) : '';
       const query = `
         PREFIX fiware: <https://smartdatamodels.org/dataModel.PointOfInterest/>
         
-        SELECT ${selectVars.join(' ')}
+        SELECT ?sortName ${selectVars.join(' ')}
         WHERE {
+          {
+            SELECT ?s ?sortName
+            WHERE {
+              {
+                SELECT ?s (COALESCE(STR(SAMPLE(?nameVi)), MIN(STR(?nameAny)), "") AS ?sortName)
+                WHERE {
+                  GRAPH <${graphUrl}> {
+                    ?s a fiware:PointOfInterest .
+                    OPTIONAL {
+                      ?s ?viNamePredicate ?nameVi .
+                      FILTER(REGEX(STR(?viNamePredicate), "[/#]name$") && LANG(?nameVi) = "vi")
+                    }
+                    OPTIONAL {
+                      ?s ?namePredicate ?nameAny .
+                      FILTER(REGEX(STR(?namePredicate), "[/#]name$"))
+                    }
+                  }
+                }
+                GROUP BY ?s
+              }
+              ${after ? `FILTER(?sortName > "${afterName}" || (?sortName = "${afterName}" && STR(?s) > "${afterId}"))` : ''}
+            }
+            ORDER BY ?sortName STR(?s)
+            LIMIT ${limit}
+          }
           GRAPH <${graphUrl}> {
-            ?s a fiware:PointOfInterest .
             ${optionalPatterns.join('\n            ')}
           }
         }
-        LIMIT ${limit}
       `.trim();
 
       this.logger.debug(`Dynamic query for ${graphUrl}:\n${query}`);
 
-      const results = await this.fusekiService.executeSelect(query);
-
-      // Transform results thành POI objects
-      return this.transformGraphResults(
-        results,
-        predicates,
-        predicateMap,
-        graphUrl,
-      );
+      const results = (await this.fusekiService.executeSelect(query)) as Record<
+        string,
+        string
+      >[];
+
+      // Transform results thành POI objects, mỗi POI một dòng
+      const pois = new Map<
+        string,
+        { poi: unknown; id: string; sortName: string }
+      >();
+      for (const row of results) {
+        if (pois.has(row.s)) continue;
+        const poi: unknown = this.transformGraphResults(
+          [row],
+          predicates,
+          predicateMap,
+          graphUrl,
+        )[0];
+        if (poi)
+          pois.set(row.s, { poi, id: row.s, sortName: row.sortName ?? '' });
+      }
+      return Array.from(pois.values());
     } catch (error) {
       this.logger.error(`Error fetching from graph ${graphUrl}:`, error);
       return [];
     }
   }
 
+  /**
+   * Đếm số POI trong một Named Graph
+   */
+  private async countPoisInGraph(graphUrl: string): Promise<number> {
+    try {
+      const results = (await this.fusekiService.executeSelect(`
+        PREFIX fiware: <https://smartdatamodels.org/dataModel.PointOfInterest/>
+
+        SELECT (COUNT(DISTINCT ?s) AS ?count)
+        WHERE {
+          GRAPH <${graphUrl}> { ?s a fiware:PointOfInterest . }
+        }
+      `)) as { count?: string }[];
+      return parseInt(results[0]?.count ?? '0', 10);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to count POIs in ${graphUrl}: ${(error as Error).message}`,
+      );
+      return 0;
+    }
+  }
+
   /**
    * Transform SPARQL results thành POI objects
    */
@@ -0,0 +1,88 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { TopologyBuilderService } from './topology-builder.service';
+import type { AdminFusekiService } from './admin-fuseki.service';
+
+describe('TopologyBuilderService', () => {
+  let fuseki: { executeSelect: jest.Mock; update: jest.Mock };
+  let service: TopologyBuilderService;
+
+  const atmGraph = 'http://localhost:3030/graph/atm>';
+
+  beforeEach(() => {
+    fuseki = {
+      executeSelect: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new TopologyBuilderService(
+      fuseki as unknown as AdminFusekiService,
+    );
+  });
+
+  it('runs queued POIs after the computation in progress', async () => {
+    let release!: () => void;
+    fuseki.executeSelect.mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve([]))),
+    );
+    const updatePois = jest.spyOn(service, 'updatePois');
+
+    const rebuild = service.rebuild();
+    service.queuePois(['http://opendatafithou.org/poi/new']);
+    expect(updatePois).not.toHaveBeenCalled();
+
+    release();
+    await rebuild;
+    expect(updatePois).toHaveBeenCalledWith([
+      'http://opendatafithou.org/poi/new',
+    ]);
+  });
+
+  it('computes new POIs against their neighbours only', async () => {
+    fuseki.executeSelect.mockImplementation((query: string) => {
+      if (!query.includes(atmGraph)) return Promise.resolve([]);
+      if (query.includes('VALUES ?poi')) {
+        return Promise.resolve([
+          { poi: 'http://opendatafithou.org/poi/new', wkt: 'POINT(105.8 21)' },
+        ]);
+      }
+      return Promise.resolve([
+        // About 50 m east
+        {
+          poi: 'http://opendatafithou.org/poi/near',
+          wkt: 'POINT(105.8005 21)',
+        },
+      ]);
+    });
+
+    const report = await service.updatePois([
+      'http://opendatafithou.org/poi/new',
+    ]);
+
+    const poiQueries = fuseki.executeSelect.mock.calls
+      .map(([query]) => query as string)
+      .filter((query) => query.includes('?wktRaw'));
+    expect(
+      poiQueries.every(
+        (query) =>
+          query.includes('VALUES ?poi') || query.includes('FILTER(IF('),
+      ),
+    ).toBe(true);
+    expect(report.relations.isNextTo).toBe(2);
+    expect(report.added).toBe(2);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AdminFusekiService } from './admin-fuseki.service';
+import { getPoiGraphMap } from '../common/poi-graphs';
+import { BBox, expandBBox, getBBox, wktToGeoJson } from '../common/geo-utils';
+import {
+  DEFAULT_TOPOLOGY_RULES,
+  TOPOLOGY_PREDICATES,
+  TopologyPoi,
+  TopologyPredicate,
+  TopologyRelation,
+  TopologyRules,
+  computeTopology,
+  diffTopology,
+} from '../common/topology';
+
+// Số triple tối đa trong một câu lệnh INSERT DATA / DELETE DATA
+const UPDATE_BATCH_SIZE = 1000;
+// Số thay đổi mẫu trả về trong báo cáo
+const REPORT_SAMPLE_SIZE = 100;
+// Khi tính cho một số POI, đường/vùng lân cận được lấy theo đỉnh đầu tiên
+// trong bbox nới thêm khoảng này (giả định chúng nhỏ hơn 5 km)
+const NEIGHBOUR_GEOMETRY_MARGIN_METERS = 5000;
+
+export interface TopologyReport {
+  mode: 'full' | 'incremental';
+  dryRun: boolean;
+  startedAt: string;
+  durationMs: number;
+  pois: number;
+  relations: Record<TopologyPredicate, number>;
+  added: number;
+  removed: number;
+  unchanged: number;
+  changes: { added: TopologyRelation[]; removed: TopologyRelation[] };
+}
+
+/**
+ * TopologyBuilderService - Tính các quan hệ topology (isNextTo, containedInPlace,
+ * amenityFeature) từ hình học của POI và ghi vào FUSEKI_GRAPH_TOPOLOGY
+ *
+ * Ngưỡng khoảng cách theo cặp loại POI lấy từ DEFAULT_TOPOLOGY_RULES, có thể
+ * ghi đè bằng biến môi trường TOPOLOGY_RULES (JSON) hoặc theo từng request.
+ * Chỉ các predicate trên được quản lý, các quan hệ khác trong graph giữ nguyên.
+ */
+@Injectable()
+export class TopologyBuilderService {
+  private readonly logger = new Logger(TopologyBuilderService.name);
+
+  private readonly topologyGraph =
+    process.env.FUSEKI_GRAPH_TOPOLOGY || 'http://localhost:3030/graph/topology';
+
+  private running = false;
+  private lastReport: TopologyReport | null = null;
+  // POI chờ tính topology, xử lý khi không có lần tính nào đang chạy
+  private readonly pending = new Set<string>();
+
+  constructor(private readonly fusekiService: AdminFusekiService) {}
+
+  /**
+   * Rebuild hằng đêm, bật bằng TOPOLOGY_NIGHTLY_REBUILD=true
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async nightlyRebuild() {
+    if (process.env.TOPOLOGY_NIGHTLY_REBUILD !== 'true' || this.running) {
+      return;
+    }
+    try {
+      await this.rebuild();
+    } catch (error) {
+      this.logger.error(
+        `Nightly topology rebuild failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  getStatus() {
+    return {
+      running: this.running,
+      graph: this.topologyGraph,
+      rules: this.resolveRules(),
+      lastReport: this.lastReport,
+    };
+  }
+
+  /**
+   * Tính lại toàn bộ topology và đồng bộ graph (chỉ thêm/xóa phần khác biệt)
+   */
+  async rebuild(
+    options: { dryRun?: boolean; rules?: Partial<TopologyRules> } = {},
+  ): Promise<TopologyReport> {
+    return this.run('full', options, async (rules) => {
+      const pois = await this.fetchPois();
+      const target = computeTopology(pois, rules);
+      const current = await this.fetchRelations();
+      return { pois: pois.length, target, current };
+    });
+  }
+
+  /**
+   * Xếp POI (ví dụ POI vừa tạo) vào hàng đợi tính topology ở nền: chạy ngay nếu
+   * rảnh, nếu không thì ngay sau lần tính đang chạy
+   */
+  queuePois(poiIds: string[]): void {
+    for (const id of poiIds) this.pending.add(id);
+    if (!this.running) this.flushQueue();
+  }
+
+  private flushQueue(): void {
+    if (this.pending.size === 0) return;
+    const ids = [...this.pending];
+    this.pending.clear();
+    this.updatePois(ids).catch((error: Error) => {
+      this.logger.warn(
+        `Failed to compute topology for ${ids.length} queued POIs: ${error.message}`,
+      );
+    });
+  }
+
+  /**
+   * Tính lại các quan hệ của một số POI, chỉ so với các POI lân cận
+   */
+  async updatePois(
+    poiIds: string[],
+    options: { dryRun?: boolean; rules?: Partial<TopologyRules> } = {},
+  ): Promise<TopologyReport> {
+    const ids = [...new Set(poiIds.map((id) => id.trim()).filter(Boolean))];
+    if (ids.length === 0) {
+      throw new BadRequestException('Missing required field: pois');
+    }
+
+    return this.run('incremental', options, async (rules) => {
+      const pois = await this.fetchNeighbourhood(ids, rules);
+      const target = computeTopology(pois, rules, new Set(ids));
+      const current = await this.fetchRelations(ids);
+      return { pois: ids.length, target, current };
+    });
+  }
+
+  /**
+   * Xóa mọi quan hệ topology của một POI (khi POI bị xóa)
+   */
+  async removePoi(id: string): Promise<void> {
+    const uri = `<${id}>`;
+    await this.fusekiService.update(`
+      DELETE WHERE { GRAPH <${this.topologyGraph}> { ${uri} ?p ?o . } } ;
+      DELETE WHERE { GRAPH <${this.topologyGraph}> { ?s ?p ${uri} . } }
+    `);
+  }
+
+  private async run(
+    mode: TopologyReport['mode'],
+    options: { dryRun?: boolean; rules?: Partial<TopologyRules> },
+    compute: (rules: TopologyRules) => Promise<{
+      pois: number;
+      target: TopologyRelation[];
+      current: TopologyRelation[];
+    }>,
+  ): Promise<TopologyReport> {
+    if (this.running) {
+      throw new BadRequestException('Topology computation already running');
+    }
+    this.running = true;
+    const started = Date.now();
+    const dryRun = options.dryRun === true;
+
+    try {
+      const rules = this.resolveRules(options.rules);
+      const { pois, target, current } = await compute(rules);
+      const { added, removed } = diffTopology(current, target);
+
+      if (!dryRun) {
+        await this.applyChanges(added, removed);
+      }
+
+      const relations = Object.fromEntries(
+        TOPOLOGY_PREDICATES.map((p) => [
+          p,
+          target.filter((r) => r.predicate === p).length,
+        ]),
+      ) as Record<TopologyPredicate, number>;
+
+      const report: TopologyReport = {
+        mode,
+        dryRun,
+        startedAt: new Date(started).toISOString(),
+        durationMs: Date.now() - started,
+        pois,
+        relations,
+        added: added.length,
+        removed: removed.length,
+        unchanged: target.length - added.length,
+        changes: {
+          added: added.slice(0, REPORT_SAMPLE_SIZE),
+          removed: removed.slice(0, REPORT_SAMPLE_SIZE),
+        },
+      };
+      if (!dryRun) this.lastReport = report;
+
+      this.logger.log(
+        `Topology ${mode}${dryRun ? ' (dry run)' : ''}: +${added.length} -${removed.length} in ${report.durationMs} ms`,
+      );
+      return report;
+    } finally {
+      this.running = false;
+      this.flushQueue();
+    }
+  }
+
+  /**
+   * Luật mặc định, ghi đè bởi TOPOLOGY_RULES (JSON) rồi bởi overrides
+   */
+  private resolveRules(overrides?: Partial<TopologyRules>): TopologyRules {
+    let envRules: Partial<TopologyRules> = {};
+    if (process.env.TOPOLOGY_RULES) {
+      try {
+        envRules = JSON.parse(
+          process.env.TOPOLOGY_RULES,
+        ) as Partial<TopologyRules>;
+      } catch {
+        this.logger.warn('Invalid TOPOLOGY_RULES JSON, using defaults');
+      }
+    }
+
+    const layers = [DEFAULT_TOPOLOGY_RULES, envRules, overrides ?? {}];
+    const rules: TopologyRules = {
+      defaultNextToMeters: DEFAULT_TOPOLOGY_RULES.defaultNextToMeters,
+      nextToMeters: {},
+      amenityFeatures: {},
+    };
+    for (const layer of layers) {
+      if (layer.defaultNextToMeters !== undefined) {
+        rules.defaultNextToMeters = Number(layer.defaultNextToMeters);
+      }
+      Object.assign(rules.nextToMeters, layer.nextToMeters);
+      Object.assign(rules.amenityFeatures, layer.amenityFeatures);
+    }
+
+    if (
+      !Number.isFinite(rules.defaultNextToMeters) ||
+      rules.defaultNextToMeters < 0 ||
+      Object.values(rules.nextToMeters).some(
+        (m) => typeof m !== 'number' || !(m >= 0),
+      )
+    ) {
+      throw new BadRequestException('Distance thresholds must be numbers >= 0');
+    }
+    return rules;
+  }
+
+  /**
+   * Các POI cần tính cùng các POI đủ gần để có quan hệ với chúng
+   */
+  private async fetchNeighbourhood(
+    ids: string[],
+    rules: TopologyRules,
+  ): Promise<TopologyPoi[]> {
+    const targets = await this.fetchPois(
+      `VALUES ?poi { ${ids.map((id) => `<${id}>`).join(' ')} }`,
+    );
+    if (targets.length === 0) return [];
+
+    // Bbox chung của các POI, nới theo ngưỡng isNextTo lớn nhất
+    const bbox = targets
+      .map((poi) => getBBox(poi.geometry))
+      .reduce<BBox>(
+        (a, b) => [
+          Math.min(a[0], b[0]),
+          Math.min(a[1], b[1]),
+          Math.max(a[2], b[2]),
+          Math.max(a[3], b[3]),
+        ],
+        [Infinity, Infinity, -Infinity, -Infinity],
+      );
+    const reach = Math.max(
+      rules.defaultNextToMeters,
+      ...Object.values(rules.nextToMeters),
+    );
+    const inBox = ([minLon, minLat, maxLon, maxLat]: BBox) =>
+      `?lon >= ${minLon} && ?lon <= ${maxLon} && ?lat >= ${minLat} && ?lat <= ${maxLat}`;
+    const position = (group: string) =>
+      `xsd:double(REPLACE(STR(?wktRaw), "^[^(]*\\\\(+\\\\s*([-+0-9.eE]+)\\\\s+([-+0-9.eE]+).*$", "${group}"))`;
+
+    const neighbours = await this.fetchPois(`
+          BIND(${position('$1')} AS ?lon)
+          BIND(${position('$2')} AS ?lat)
+          FILTER(IF(REGEX(STR(?wktRaw), "^\\\\s*(<[^>]*>\\\\s*)?POINT", "i"),
+            ${inBox(expandBBox(bbox, reach))},
+            ${inBox(expandBBox(bbox, reach + NEIGHBOUR_GEOMETRY_MARGIN_METERS))}))`);
+
+    const pois = new Map(targets.map((poi) => [poi.poi, poi]));
+    for (const poi of neighbours) {
+      if (!pois.has(poi.poi)) pois.set(poi.poi, poi);
+    }
+    return [...pois.values()];
+  }
+
+  /**
+   * Tất cả POI có geo:asWKT trong các graph POI, loại lấy theo graph
+   *
+   * @param filter - pattern/FILTER SPARQL thêm vào để giới hạn ?poi, ?wktRaw
+   */
+  private async fetchPois(filter = ''): Promise<TopologyPoi[]> {
+    // Cùng một graph có thể được map bởi nhiều type (underscore / hyphen)
+    const graphs = new Map<string, string>();
+    for (const [type, graphUri] of Object.entries(getPoiGraphMap())) {
+      if (!graphs.has(graphUri)) graphs.set(graphUri, type.replace(/-/g, '_'));
+    }
+
+    const pois = new Map<string, TopologyPoi>();
+    for (const [graphUri, type] of graphs) {
+      const rows = (await this.fusekiService.executeSelect(`
+        PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+        SELECT ?poi (SAMPLE(?wktRaw) AS ?wkt)
+        WHERE {
+          GRAPH <${graphUri}> { ?poi geo:asWKT ?wktRaw . }
+          ${filter}
+        }
+        GROUP BY ?poi
+      `)) as { poi: string; wkt: string }[];
+
+      for (const row of rows) {
+        const geometry = wktToGeoJson(row.wkt);
+        if (!geometry || pois.has(row.poi)) continue;
+        pois.set(row.poi, { poi: row.poi, type, geometry });
+      }
+    }
+    return [...pois.values()];
+  }
+
+  /**
+   * Quan hệ topology hiện có (chỉ các predicate được quản lý)
+   *
+   * @param poiIds - chỉ lấy quan hệ có subject hoặc object thuộc danh sách
+   */
+  private async fetchRelations(poiIds?: string[]): Promise<TopologyRelation[]> {
+    const ids = poiIds?.map((id) => `<${id}>`).join(' ');
+    const pattern = ids
+      ? `{ VALUES ?s { ${ids} } ?s ?p ?o . } UNION { VALUES ?o { ${ids} } ?s ?p ?o . }`
+      : '?s ?p ?o .';
+
+    const rows = (await this.fusekiService.executeSelect(`
+      PREFIX schema: <http://schema.org/>
+
+      SELECT DISTINCT ?s ?p ?o
+      WHERE {
+        GRAPH <${this.topologyGraph}> {
+          ${pattern}
+          FILTER(?p IN (${TOPOLOGY_PREDICATES.map((p) => `schema:${p}`).join(', ')}))
+        }
+      }
+    `)) as { s: string; p: string; o: string }[];
+
+    return rows.map((row) => ({
+      subject: row.s,
+      predicate: row.p.replace('http://schema.org/', '') as TopologyPredicate,
+      object: row.o,
+    }));
+  }
+
+  private async applyChanges(
+    added: TopologyRelation[],
+    removed: TopologyRelation[],
+  ) {
+    const triples = (relations: TopologyRelation[]) =>
+      relations
+        .map((r) => `<${r.subject}> schema:${r.predicate} <${r.object}> .`)
+        .join('\n            ');
+
+    for (const [operation, relations] of [
+      ['DELETE DATA', removed],
+      ['INSERT DATA', added],
+    ] as const) {
+      for (let i = 0; i < relations.length; i += UPDATE_BATCH_SIZE) {
+        const batch = relations.slice(i, i + UPDATE_BATCH_SIZE);
+        await this.fusekiService.update(`
+          PREFIX schema: <http://schema.org/>
+
+          ${operation} {
+            GRAPH <${this.topologyGraph}> {
+              ${triples(batch)}
+            }
+          }
+        `);
+      }
+    }
+  }
+}
@@ -27,6 +27,7 @@ import { OverpassModule } from './overpass/overpass.module';
 import { AdminModule } from './admin/admin.module';
 import { InfluxDBModule } from './influxdb/influxdb.module';
 import { NgsiLdModule } from './ngsi-ld/ngsi-ld.module';
+import { IngestionModule } from './ingestion/ingestion.module';
 
 @Module({
   imports: [
@@ -42,6 +43,7 @@ import { NgsiLdModule } from './ngsi-ld/ngsi-ld.module';
     AdminModule,
     InfluxDBModule,
     NgsiLdModule,
+    IngestionModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -24,6 +24,7 @@ import { DiscoveryModule } from '@nestjs/core';
 import { ChatToolsRegistry } from './chat-tools.registry';
 import { WikidataModule } from '../wikidata/wikidata.module';
 import { OverpassModule } from '../overpass/overpass.module';
+import { FusekiModule } from '../fuseki/fuseki.module';
 
 @Module({
   imports: [
@@ -31,6 +32,7 @@ import { OverpassModule } from '../overpass/overpass.module';
     DiscoveryModule,
     WikidataModule,
     OverpassModule,
+    FusekiModule,
   ],
   providers: [ChatbotService, SmartSearchService, ChatToolsRegistry],
   controllers: [ChatbotController],
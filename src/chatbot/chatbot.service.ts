@@ -56,7 +56,8 @@ export class ChatbotService implements OnModuleInit {
                                       - \`amenityFeature\`: Facilities/amenities (e.g., "hospitals with parking")
                                       Use these relationships to provide better recommendations for queries like "find restaurants near charging stations".
                                     * **SENSOR DATA & AIR QUALITY**: Search results include real-time sensor data:
-                                      - \`sensorData.aqi\`: Air Quality Index (0-500). Lower = better. 0-50=Tốt, 51-100=Trung bình, 101-150=Kém, 151-200=Xấu, >200=Nguy hiểm
+                                      - \`sensorData.aqi\`: Air Quality Index (0-500) computed from PM2.5/PM10 (VN_AQI by default). Lower = better. 0-50=Tốt, 51-100=Trung bình, 101-150=Kém, 151-200=Xấu, 201-300=Rất xấu, >300=Nguy hại
+                                      - \`sensorData.airQualityLevel\`: AQI category key (good, moderate, poor, bad, very_bad, hazardous) and \`sensorData.dominantPollutant\` (pm25 or pm10)
                                       - \`sensorData.temperature\`: Temperature in Celsius
                                       - \`sensorData.noise_level\`: Noise level in dB
                                       Use minAqi/maxAqi parameters to filter by air quality. Example: maxAqi=50 for "good air quality", maxAqi=100 for "acceptable air quality".
@@ -89,7 +90,8 @@ export class ChatbotService implements OnModuleInit {
                                 * "không khí tốt", "chất lượng không khí tốt", "good air quality" → maxAqi=50
                                 * "không khí trung bình", "acceptable air quality" → maxAqi=100
                                 * "không khí trong lành", "clean air" → maxAqi=50
-                                * Always include sensorData info in response when available
+                                * With minAqi/maxAqi on searchNearby/searchNearest also set estimateMissing=true: most POIs have no own sensor, their values are then interpolated from nearby stations
+                                * Always include sensorData info in response when available; when \`sensorData.estimated\` is present, say the listed fields are estimates from nearby stations (mention the confidence if it is below 0.5)
                                 
                                 **Use searchNearbyWithTopology when:**
                                 * Query follows pattern "find A near/in/with B (and C, D...)" (e.g., "restaurants near charging stations and ATMs", "cafes in parks", "hospitals with parking")
@@ -131,11 +133,40 @@ export class ChatbotService implements OnModuleInit {
                                   - minAqi/maxAqi: Filter by air quality (optional)
                                   - includeTopology=true for enriched data
                                 
+                                **Use searchNearest when:**
+                                * Query asks for the closest place(s) without a distance (e.g., "ATM gần nhất", "3 bệnh viện gần tôi nhất")
+                                * Same location workflow as searchNearby; pass k instead of guessing radiusKm
+
+                                **Use searchNearby with travelMode/maxMinutes when:**
+                                * Query gives a travel time instead of a distance (e.g., "nhà thuốc trong vòng 10 phút đi bộ", "trạm sạc cách 15 phút lái xe")
+                                * travelMode: walking (đi bộ), cycling (xe đạp), driving (xe máy/ô tô); omit radiusKm and answer with estimatedTravelMinutes
+
+                                **Use searchPoisByName when:**
+                                * Query names a specific place of the dataset, with or without diacritics (e.g., "ho hoan kiem", "bệnh viện Bạch Mai ở đâu")
+                                * Pass the user location as lon/lat when known so nearby matches rank first
+
+                                **Use searchTopologyChain when:**
+                                * Query chains several relations or negates one (e.g., "quán cafe cạnh công viên có sân chơi", "trường học không gần cây xăng")
+                                * Build where as nested steps {relation, type, negate, where}; use searchNearbyWithTopology for a single positive relation
+
+                                **Use searchFacets when:**
+                                * Query groups or filters places by brand, operator, access or fee (e.g., "ATM quanh đây theo ngân hàng", "cây xăng Petrolimex gần tôi", "bãi đỗ xe miễn phí")
+                                * Answer with the facet counts (facets.brand, facets.operator, ...) and pass brand/operator/access/fee arrays to filter
+
+                                **Use searchWithin when:**
+                                * Query asks for places INSIDE an administrative area (e.g., "bao nhiêu ATM trong quận Ba Đình", "các bệnh viện ở phường Láng Hạ")
+                                * Call searchInforByName to get the Wikidata QID of the area, then searchWithin(qid=..., types=[...])
+                                * Use polygon (GeoJSON string) instead of qid only when the user provides the area shape
+
+                                **Use searchAlongRoute when:**
+                                * Query asks for places along a route the user provides (e.g., "trạm sạc trong vòng 500m quanh lộ trình của tôi")
+                                * Pass the route as an encoded polyline or GeoJSON LineString, bufferMeters for the distance from the route
+
                                 **Examples:**
                                 * "Tìm quán cafe gần tôi có chất lượng không khí tốt" →
-                                  searchNearby(lon=context.lon, lat=context.lat, types=['cafe'], maxAqi=50, radiusKm=2)
+                                  searchNearby(lon=context.lon, lat=context.lat, types=['cafe'], maxAqi=50, estimateMissing=true, radiusKm=2)
                                 * "Tìm nhà hàng không khí trong lành gần đây" →
-                                  searchNearby(lon=context.lon, lat=context.lat, types=['restaurant'], maxAqi=50)
+                                  searchNearby(lon=context.lon, lat=context.lat, types=['restaurant'], maxAqi=50, estimateMissing=true)
                                 * "Tìm công viên gần trạm xe buýt ở Hồ Hoàn Kiếm" → 
                                   1. FIRST: fetchGeocodeByName(name="Hồ Hoàn Kiếm") to get lat/lon
                                   2. THEN: searchNearbyWithTopology(lon=105.852, lat=21.028, targetType='park', relatedTypes=['bus_stop'], relationship='isNextTo', radiusKm=1)
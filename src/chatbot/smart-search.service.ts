@@ -19,6 +19,10 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ChatbotService } from './chatbot.service';
 import { WikidataService } from '../wikidata/wikidata.service';
 import { OverpassService } from '../overpass/overpass.service';
+import {
+  PoiNameMatch,
+  PoiTextIndexService,
+} from '../fuseki/poi-text-index.service';
 
 interface SearchContext {
   currentLocation?: { lat: number; lon: number };
@@ -33,6 +37,7 @@ export class SmartSearchService {
     private readonly chatbotService: ChatbotService,
     private readonly wikidataService: WikidataService,
     private readonly overpassService: OverpassService,
+    private readonly poiTextIndexService: PoiTextIndexService,
   ) {}
 
   /**
@@ -62,16 +67,34 @@ export class SmartSearchService {
     try {
       this.logger.log(`Traditional search: "${query}"`);
 
-      const wikidataResults = await this.wikidataService
-        .searchInforByName({ query, limit: 20 })
-        .catch(() => []);
-
-      const merged = wikidataResults
-        .map((r: any) => ({
+      const [wikidataResults, fusekiResults] = await Promise.all([
+        this.wikidataService
+          .searchInforByName({ query, limit: 20 })
+          .catch(() => []),
+        this.poiTextIndexService
+          .searchPoisByName({
+            query,
+            limit: 20,
+            lon: context?.currentLocation?.lon,
+            lat: context?.currentLocation?.lat,
+          })
+          .then((result) => result.items)
+          .catch((): PoiNameMatch[] => []),
+      ]);
+
+      const merged = [
+        ...(wikidataResults as Record<string, unknown>[]).map((r) => ({
           ...r,
           source: 'wikidata',
-          score: this.calculateScore(r),
-        }))
+        })),
+        ...fusekiResults.map(({ poi, score, ...r }) => ({
+          ...r,
+          id: poi,
+          matchScore: score,
+          source: 'fuseki',
+        })),
+      ]
+        .map((r) => ({ ...r, score: this.calculateScore(r) }))
         .sort((a, b) => b.score - a.score);
 
       return {
@@ -271,6 +294,12 @@ export class SmartSearchService {
       score += 5;
     }
 
+    // Name match relevance (Fuseki text index, 0-100)
+    const { matchScore } = result as { matchScore?: number };
+    if (matchScore) {
+      score += matchScore / 5;
+    }
+
     // Source priority
     const sourceBonus = {
       wikidata: 10,
@@ -0,0 +1,117 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import {
+  aqiCategory,
+  computeAqi,
+  configuredAqiStandard,
+  parseAqiStandard,
+  subIndex,
+  withComputedAqi,
+} from './aqi';
+
+describe('aqi', () => {
+  describe('subIndex', () => {
+    it.each([
+      ['pm25', 0, 0],
+      ['pm25', 25, 50],
+      ['pm25', 35, 70],
+      ['pm25', 80, 150],
+      ['pm25', 300, 350],
+      ['pm10', 80, 65],
+      ['pm10', 600, 500],
+    ] as const)('VN_AQI %s=%p -> %p', (pollutant, c, expected) => {
+      expect(subIndex(pollutant, c, 'VN_AQI')).toBe(expected);
+    });
+
+    it.each([
+      ['pm25', 9, 50],
+      ['pm25', 9.09, 50], // truncated to 9.0
+      ['pm25', 35, 99],
+      ['pm25', 55.4, 150],
+      ['pm25', 150, 225],
+      ['pm10', 54.9, 50], // truncated to 54
+      ['pm10', 155, 101],
+    ] as const)('US_EPA %s=%p -> %p', (pollutant, c, expected) => {
+      expect(subIndex(pollutant, c, 'US_EPA')).toBe(expected);
+    });
+
+    it('caps concentrations above the last breakpoint at 500', () => {
+      expect(subIndex('pm25', 800, 'VN_AQI')).toBe(500);
+      expect(subIndex('pm25', 800, 'US_EPA')).toBe(500);
+    });
+
+    it.each([null, undefined, -1, NaN])('ignores %p', (c) => {
+      expect(subIndex('pm25', c, 'VN_AQI')).toBeNull();
+    });
+  });
+
+  describe('computeAqi', () => {
+    it('takes the highest sub-index and its pollutant', () => {
+      expect(computeAqi({ pm25: 35, pm10: 80 }, 'VN_AQI')).toMatchObject({
+        standard: 'VN_AQI',
+        aqi: 70,
+        dominantPollutant: 'pm25',
+        subIndices: { pm25: 70, pm10: 65 },
+        category: { level: 2, key: 'moderate' },
+      });
+      expect(computeAqi({ pm25: 5, pm10: 200 }, 'US_EPA')).toMatchObject({
+        aqi: 123,
+        dominantPollutant: 'pm10',
+        category: { key: 'unhealthy_for_sensitive_groups' },
+      });
+    });
+
+    it('works with a single pollutant and returns null without any', () => {
+      expect(computeAqi({ pm10: 40 }, 'VN_AQI')?.dominantPollutant).toBe(
+        'pm10',
+      );
+      expect(computeAqi({ pm25: null }, 'VN_AQI')).toBeNull();
+    });
+  });
+
+  it('categorizes AQI values with advice in both languages', () => {
+    expect(aqiCategory(50, 'VN_AQI').key).toBe('good');
+    expect(aqiCategory(151, 'VN_AQI')).toMatchObject({
+      level: 4,
+      key: 'bad',
+      color: '#ff0000',
+      label: { vi: 'Xấu', en: 'Bad' },
+    });
+    expect(aqiCategory(450, 'US_EPA').label.en).toBe('Hazardous');
+    expect(aqiCategory(120, 'US_EPA').advice.vi).toMatch(/nhạy cảm/);
+  });
+
+  it('replaces the stored aqi of sensor values', () => {
+    expect(withComputedAqi({ aqi: 12, pm25: 35, pm10: 80 }, 'VN_AQI')).toEqual({
+      aqi: 70,
+      pm25: 35,
+      pm10: 80,
+      airQualityLevel: 'moderate',
+      dominantPollutant: 'pm25',
+    });
+    expect(withComputedAqi({ aqi: 12 }, 'VN_AQI')).toEqual({ aqi: 12 });
+  });
+
+  it('parses standards', () => {
+    expect(parseAqiStandard()).toBe('VN_AQI');
+    expect(parseAqiStandard('us_epa')).toBe('US_EPA');
+    expect(() => parseAqiStandard('EU_CAQI')).toThrow(BadRequestException);
+    expect(configuredAqiStandard('EU_CAQI')).toBe('VN_AQI');
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Air quality index from PM2.5 and PM10 concentrations (µg/m³)
+ *
+ * - VN_AQI: Vietnamese AQI, Quyết định 1459/QĐ-TCMT (2019)
+ * - US_EPA: US EPA AQI with the PM2.5 breakpoints revised in 2024
+ *
+ * Sub-indices are interpolated linearly inside the breakpoint segment of the
+ * concentration; the AQI is the highest sub-index and its pollutant is the
+ * dominant one. Concentrations are used as given: averaging them (hourly,
+ * NowCast, 24 h) is up to the caller. Values above the last breakpoint are
+ * capped at 500.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+
+export const AQI_STANDARDS = ['VN_AQI', 'US_EPA'] as const;
+
+export type AqiStandard = (typeof AQI_STANDARDS)[number];
+
+export const AQI_POLLUTANTS = ['pm25', 'pm10'] as const;
+
+export type AqiPollutant = (typeof AQI_POLLUTANTS)[number];
+
+export interface AqiCategory {
+  level: number; // 1 (best) - 6 (worst), the same bands in both standards
+  key: string;
+  color: string;
+  label: { vi: string; en: string };
+  advice: { vi: string; en: string };
+}
+
+export interface AqiResult {
+  standard: AqiStandard;
+  aqi: number;
+  dominantPollutant: AqiPollutant;
+  subIndices: Partial<Record<AqiPollutant, number>>;
+  category: AqiCategory;
+}
+
+/**
+ * [concentration low, concentration high, index low, index high]
+ */
+type Segment = [number, number, number, number];
+
+/**
+ * Consecutive breakpoints (QĐ 1459 table 3) as segments
+ */
+function vnSegments(concentrations: number[]): Segment[] {
+  const indices = [0, 50, 100, 150, 200, 300, 400, 500];
+  return concentrations
+    .slice(1)
+    .map((high, i) => [concentrations[i], high, indices[i], indices[i + 1]]);
+}
+
+const BREAKPOINTS: Record<AqiStandard, Record<AqiPollutant, Segment[]>> = {
+  VN_AQI: {
+    pm25: vnSegments([0, 25, 50, 80, 150, 250, 350, 500]),
+    pm10: vnSegments([0, 50, 150, 250, 350, 420, 500, 600]),
+  },
+  US_EPA: {
+    pm25: [
+      [0, 9, 0, 50],
+      [9.1, 35.4, 51, 100],
+      [35.5, 55.4, 101, 150],
+      [55.5, 125.4, 151, 200],
+      [125.5, 225.4, 201, 300],
+      [225.5, 325.4, 301, 500],
+    ],
+    pm10: [
+      [0, 54, 0, 50],
+      [55, 154, 51, 100],
+      [155, 254, 101, 150],
+      [255, 354, 151, 200],
+      [355, 424, 201, 300],
+      [425, 604, 301, 500],
+    ],
+  },
+};
+
+/**
+ * Decimals kept before looking up EPA breakpoints (concentrations are truncated)
+ */
+const EPA_DECIMALS: Record<AqiPollutant, number> = { pm25: 1, pm10: 0 };
+
+const COLORS = [
+  '#00e400',
+  '#ffff00',
+  '#ff7e00',
+  '#ff0000',
+  '#8f3f97',
+  '#7e0023',
+];
+
+const CATEGORIES: Record<AqiStandard, Omit<AqiCategory, 'level' | 'color'>[]> =
+  {
+    VN_AQI: [
+      {
+        key: 'good',
+        label: { vi: 'Tốt', en: 'Good' },
+        advice: {
+          vi: 'Chất lượng không khí tốt, không ảnh hưởng tới sức khỏe. Tự do thực hiện các hoạt động ngoài trời.',
+          en: 'Air quality is good and poses no health risk. Enjoy outdoor activities.',
+        },
+      },
+      {
+        key: 'moderate',
+        label: { vi: 'Trung bình', en: 'Moderate' },
+        advice: {
+          vi: 'Chất lượng không khí ở mức chấp nhận được. Người nhạy cảm (người già, trẻ em, người mắc bệnh hô hấp, tim mạch) nên theo dõi các triệu chứng như ho hoặc khó thở.',
+          en: 'Air quality is acceptable. Sensitive people (older adults, children, people with respiratory or heart disease) should watch for symptoms such as coughing or shortness of breath.',
+        },
+      },
+      {
+        key: 'poor',
+        label: { vi: 'Kém', en: 'Poor' },
+        advice: {
+          vi: 'Người nhạy cảm có thể gặp vấn đề về sức khỏe và nên giảm hoạt động mạnh, giảm thời gian ở ngoài trời. Người bình thường ít bị ảnh hưởng.',
+          en: 'Sensitive people may experience health effects and should reduce strenuous activity and time outdoors. The general public is less likely to be affected.',
+        },
+      },
+      {
+        key: 'bad',
+        label: { vi: 'Xấu', en: 'Bad' },
+        advice: {
+          vi: 'Mọi người bắt đầu bị ảnh hưởng tới sức khỏe, người nhạy cảm bị ảnh hưởng nghiêm trọng hơn. Nên giảm hoạt động ngoài trời, người nhạy cảm nên ở trong nhà.',
+          en: 'Everyone may begin to experience health effects, sensitive people more seriously. Reduce outdoor activity; sensitive people should stay indoors.',
+        },
+      },
+      {
+        key: 'very_bad',
+        label: { vi: 'Rất xấu', en: 'Very bad' },
+        advice: {
+          vi: 'Cảnh báo sức khỏe: mọi người bị ảnh hưởng nghiêm trọng hơn. Hạn chế tối đa hoạt động ngoài trời, chuyển các hoạt động vào trong nhà.',
+          en: 'Health alert: everyone may experience more serious health effects. Avoid outdoor activity and move activities indoors.',
+        },
+      },
+      {
+        key: 'hazardous',
+        label: { vi: 'Nguy hại', en: 'Hazardous' },
+        advice: {
+          vi: 'Cảnh báo khẩn cấp: toàn bộ dân số bị ảnh hưởng nghiêm trọng. Ở trong nhà, đóng cửa và tránh mọi hoạt động ngoài trời.',
+          en: 'Health emergency: everyone is likely to be seriously affected. Stay indoors, keep windows closed and avoid all outdoor activity.',
+        },
+      },
+    ],
+    US_EPA: [
+      {
+        key: 'good',
+        label: { vi: 'Tốt', en: 'Good' },
+        advice: {
+          vi: 'Chất lượng không khí đạt yêu cầu, ô nhiễm không khí ít hoặc không gây rủi ro.',
+          en: 'Air quality is satisfactory, and air pollution poses little or no risk.',
+        },
+      },
+      {
+        key: 'moderate',
+        label: { vi: 'Trung bình', en: 'Moderate' },
+        advice: {
+          vi: 'Chất lượng không khí chấp nhận được. Người đặc biệt nhạy cảm nên cân nhắc giảm gắng sức kéo dài hoặc nặng.',
+          en: 'Air quality is acceptable. Unusually sensitive people should consider reducing prolonged or heavy exertion.',
+        },
+      },
+      {
+        key: 'unhealthy_for_sensitive_groups',
+        label: {
+          vi: 'Không tốt cho nhóm nhạy cảm',
+          en: 'Unhealthy for Sensitive Groups',
+        },
+        advice: {
+          vi: 'Nhóm nhạy cảm (người mắc bệnh tim, phổi, người cao tuổi, trẻ em) nên giảm gắng sức kéo dài hoặc nặng ngoài trời.',
+          en: 'Sensitive groups (people with heart or lung disease, older adults, children) should reduce prolonged or heavy exertion outdoors.',
+        },
+      },
+      {
+        key: 'unhealthy',
+        label: { vi: 'Không tốt cho sức khỏe', en: 'Unhealthy' },
+        advice: {
+          vi: 'Mọi người có thể bắt đầu bị ảnh hưởng tới sức khỏe. Nhóm nhạy cảm nên tránh gắng sức kéo dài hoặc nặng ngoài trời.',
+          en: 'Everyone may begin to experience health effects. Sensitive groups should avoid prolonged or heavy exertion outdoors.',
+        },
+      },
+      {
+        key: 'very_unhealthy',
+        label: { vi: 'Rất không tốt cho sức khỏe', en: 'Very Unhealthy' },
+        advice: {
+          vi: 'Cảnh báo sức khỏe: mọi người nên tránh gắng sức kéo dài hoặc nặng, nhóm nhạy cảm nên tránh mọi hoạt động ngoài trời.',
+          en: 'Health alert: everyone should avoid prolonged or heavy exertion; sensitive groups should avoid all outdoor activity.',
+        },
+      },
+      {
+        key: 'hazardous',
+        label: { vi: 'Nguy hại', en: 'Hazardous' },
+        advice: {
+          vi: 'Cảnh báo tình trạng khẩn cấp: mọi người nên tránh mọi hoạt động thể chất ngoài trời.',
+          en: 'Health warning of emergency conditions: everyone should avoid all outdoor physical activity.',
+        },
+      },
+    ],
+  };
+
+/**
+ * Standard set by the AQI_STANDARD environment variable, VN_AQI when unset or unknown
+ */
+export function configuredAqiStandard(value?: string): AqiStandard {
+  return AQI_STANDARDS.includes(value as AqiStandard)
+    ? (value as AqiStandard)
+    : 'VN_AQI';
+}
+
+/**
+ * @throws BadRequestException on unknown standards
+ */
+export function parseAqiStandard(
+  value?: string,
+  fallback: AqiStandard = 'VN_AQI',
+): AqiStandard {
+  if (!value) return fallback;
+  const standard = value.trim().toUpperCase();
+  if (!AQI_STANDARDS.includes(standard as AqiStandard)) {
+    throw new BadRequestException(
+      `Invalid AQI standard: ${value}. Available: ${AQI_STANDARDS.join(', ')}`,
+    );
+  }
+  return standard as AqiStandard;
+}
+
+/**
+ * Sub-index of one pollutant, null for missing or negative concentrations
+ *
+ * @example
+ * subIndex('pm25', 35, 'VN_AQI') // 70
+ * subIndex('pm25', 35, 'US_EPA') // 99
+ */
+export function subIndex(
+  pollutant: AqiPollutant,
+  concentration: number | null | undefined,
+  standard: AqiStandard,
+): number | null {
+  if (
+    concentration === null ||
+    concentration === undefined ||
+    !Number.isFinite(concentration) ||
+    concentration < 0
+  ) {
+    return null;
+  }
+
+  let c = concentration;
+  if (standard === 'US_EPA') {
+    const factor = 10 ** EPA_DECIMALS[pollutant];
+    c = Math.floor(c * factor) / factor;
+  }
+
+  const segments = BREAKPOINTS[standard][pollutant];
+  const segment = segments.find(([, cHigh]) => c <= cHigh);
+  if (!segment) return 500;
+  const [cLow, cHigh, iLow, iHigh] = segment;
+  return Math.round(((iHigh - iLow) / (cHigh - cLow)) * (c - cLow) + iLow);
+}
+
+/**
+ * Category of an AQI value
+ */
+export function aqiCategory(aqi: number, standard: AqiStandard): AqiCategory {
+  const level =
+    [50, 100, 150, 200, 300].findIndex((upper) => aqi <= upper) + 1 || 6;
+  return {
+    level,
+    color: COLORS[level - 1],
+    ...CATEGORIES[standard][level - 1],
+  };
+}
+
+/**
+ * AQI, dominant pollutant and category, null when no concentration is known
+ *
+ * @example
+ * computeAqi({ pm25: 35, pm10: 80 }, 'VN_AQI')
+ * // { standard: 'VN_AQI', aqi: 70, dominantPollutant: 'pm25', subIndices: { pm25: 70, pm10: 65 }, category: { level: 2, key: 'moderate', ... } }
+ */
+export function computeAqi(
+  concentrations: Partial<Record<AqiPollutant, number | null>>,
+  standard: AqiStandard,
+): AqiResult | null {
+  const subIndices: Partial<Record<AqiPollutant, number>> = {};
+  let dominant: AqiPollutant | null = null;
+
+  for (const pollutant of AQI_POLLUTANTS) {
+    const index = subIndex(pollutant, concentrations[pollutant], standard);
+    if (index === null) continue;
+    subIndices[pollutant] = index;
+    if (dominant === null || index > subIndices[dominant]!) {
+      dominant = pollutant;
+    }
+  }
+
+  if (dominant === null) return null;
+  const aqi = subIndices[dominant]!;
+  return {
+    standard,
+    aqi,
+    dominantPollutant: dominant,
+    subIndices,
+    category: aqiCategory(aqi, standard),
+  };
+}
+
+/**
+ * Replace the stored aqi of sensor values with the one computed from their
+ * pm25/pm10, adding airQualityLevel (category key) and dominantPollutant
+ *
+ * Values without pm25/pm10 are returned unchanged, so this can be applied
+ * again to values that were already computed.
+ */
+export function withComputedAqi<T extends Record<string, any>>(
+  values: T,
+  standard: AqiStandard,
+): T {
+  const result = computeAqi(
+    {
+      pm25: values.pm25 as number | null | undefined,
+      pm10: values.pm10 as number | null | undefined,
+    },
+    standard,
+  );
+  if (!result) return values;
+  return {
+    ...values,
+    aqi: result.aqi,
+    airQualityLevel: result.category.key,
+    dominantPollutant: result.dominantPollutant,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { countFacets, matchesFacets } from './facets';
+
+describe('facets', () => {
+  const pois = [
+    { amenity: 'atm', brand: 'Vietcombank', access: 'yes' },
+    { amenity: 'atm', brand: 'Vietcombank', access: 'customers' },
+    { amenity: 'atm', brand: 'BIDV', access: 'yes' },
+    { amenity: 'bank', brand: 'BIDV', operator: 'BIDV' },
+    { highway: 'bus_stop' },
+  ];
+
+  it('ANDs facets and ORs values, ignoring case', () => {
+    expect(
+      pois.filter((poi) =>
+        matchesFacets(poi, { type: ['ATM'], brand: ['bidv', 'vietcombank'] }),
+      ),
+    ).toHaveLength(3);
+    expect(
+      pois.filter((poi) =>
+        matchesFacets(poi, { brand: ['BIDV'], access: ['yes'] }),
+      ),
+    ).toEqual([pois[2]]);
+  });
+
+  it('counts values of every facet, most frequent first', () => {
+    const facets = countFacets(pois, {});
+    expect(facets.type).toEqual([
+      { value: 'atm', count: 3 },
+      { value: 'bank', count: 1 },
+      { value: 'bus_stop', count: 1 },
+    ]);
+    expect(facets.fee).toEqual([]);
+  });
+
+  it('counts a facet without its own filter', () => {
+    const facets = countFacets(pois, { type: ['atm'], brand: ['BIDV'] });
+    expect(facets.brand).toEqual([
+      { value: 'Vietcombank', count: 2 },
+      { value: 'BIDV', count: 1 },
+    ]);
+    expect(facets.type).toEqual([
+      { value: 'atm', count: 1 },
+      { value: 'bank', count: 1 },
+    ]);
+    expect(facets.access).toEqual([{ value: 'yes', count: 1 }]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * POI facets (type, brand, operator, access, fee) for faceted search
+ * type is the amenity, highway or leisure value of the POI
+ */
+
+export const FACET_FIELDS = [
+  'type',
+  'brand',
+  'operator',
+  'access',
+  'fee',
+] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+/**
+ * Selected values per facet: values of one facet are OR-ed, facets are AND-ed
+ */
+export type FacetFilters = Partial<Record<FacetField, string[]>>;
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetField, FacetValueCount[]>;
+
+export interface FacetablePoi {
+  amenity?: string | null;
+  highway?: string | null;
+  leisure?: string | null;
+  brand?: string | null;
+  operator?: string | null;
+  access?: string | null;
+  fee?: string | null;
+}
+
+export function facetValue(
+  poi: FacetablePoi,
+  field: FacetField,
+): string | null {
+  if (field === 'type') {
+    return poi.amenity || poi.highway || poi.leisure || null;
+  }
+  return poi[field] || null;
+}
+
+/**
+ * Check a POI against the facet filters (case-insensitive)
+ *
+ * @param except - facet to ignore, used for disjunctive counts
+ */
+export function matchesFacets(
+  poi: FacetablePoi,
+  filters: FacetFilters,
+  except?: FacetField,
+): boolean {
+  return FACET_FIELDS.every((field) => {
+    const selected = filters[field];
+    if (field === except || !selected || selected.length === 0) return true;
+    const value = facetValue(poi, field)?.toLowerCase();
+    return (
+      value !== undefined && selected.some((s) => s.toLowerCase() === value)
+    );
+  });
+}
+
+/**
+ * Value counts of every facet, most frequent first
+ *
+ * Counts are disjunctive: a facet is counted with the filters of the other
+ * facets only, so selecting brand=BIDV still lists the other brands with
+ * their counts.
+ *
+ * @example
+ * countFacets(atms, { brand: ['BIDV'] }).brand // [{ value: 'Vietcombank', count: 12 }, { value: 'BIDV', count: 7 }]
+ */
+export function countFacets(
+  pois: FacetablePoi[],
+  filters: FacetFilters,
+  maxValues = 20,
+): FacetCounts {
+  const counts = {} as FacetCounts;
+  for (const field of FACET_FIELDS) {
+    const values = new Map<string, number>();
+    for (const poi of pois) {
+      const value = facetValue(poi, field);
+      if (value && matchesFacets(poi, filters, field)) {
+        values.set(value, (values.get(value) ?? 0) + 1);
+      }
+    }
+    counts[field] = [...values.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, maxValues);
+  }
+  return counts;
+}
@@ -0,0 +1,398 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  GeoJsonGeometry,
+  Position,
+  geoJsonToWkt,
+  wktToGeoJson,
+  pointInPolygon,
+  geoRelationHolds,
+  haversineMeters,
+  distanceToGeometryMeters,
+  geometryDistanceMeters,
+  getBBox,
+  assembleRings,
+  toAreaPolygons,
+  pointInArea,
+  decodePolyline,
+  lineLengthMeters,
+  projectOntoLine,
+  splitLine,
+} from './geo-utils';
+
+describe('geo-utils', () => {
+  // 10x10 square with a 2x2 hole in the middle
+  const squareRings: Position[][] = [
+    [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ],
+    [
+      [4, 4],
+      [6, 4],
+      [6, 6],
+      [4, 6],
+      [4, 4],
+    ],
+  ];
+  const squareWithHole: GeoJsonGeometry = {
+    type: 'Polygon',
+    coordinates: squareRings,
+  };
+  const point = (lon: number, lat: number): GeoJsonGeometry => ({
+    type: 'Point',
+    coordinates: [lon, lat],
+  });
+
+  describe('WKT conversion', () => {
+    it('round-trips GeoJSON through WKT', () => {
+      const wkt = geoJsonToWkt(squareWithHole);
+      expect(wkt).toBe(
+        'POLYGON((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 6 4, 6 6, 4 6, 4 4))',
+      );
+      expect(wktToGeoJson(wkt)).toEqual(squareWithHole);
+    });
+
+    it('parses points with a CRS prefix and Z values', () => {
+      expect(
+        wktToGeoJson(
+          '<http://www.opengis.net/def/crs/OGC/1.3/CRS84> POINT Z(105.85 21.03 12)',
+        ),
+      ).toEqual(point(105.85, 21.03));
+    });
+
+    it.each([
+      point(Number.NaN, 21),
+      { type: 'Point', coordinates: ['1"^^<x> . } } ; DROP ALL ; #', 2] },
+      { type: 'Point', coordinates: [105.85] },
+      { type: 'LineString', coordinates: [[0, 0], 'x'] },
+      {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+            [0, '1'],
+          ],
+        ],
+      },
+      { type: 'Circle', coordinates: [0, 0] },
+      { type: 'constructor', coordinates: [0, 0] },
+    ])('rejects invalid geometry %j', (geometry) => {
+      expect(() => geoJsonToWkt(geometry)).toThrow();
+    });
+
+    it('returns null for invalid WKT', () => {
+      expect(wktToGeoJson('POINT(abc)')).toBeNull();
+    });
+  });
+
+  describe('pointInPolygon', () => {
+    it.each([
+      [[2, 2], true],
+      [[5, 5], false], // inside the hole
+      [[0, 5], true], // on the outer ring
+      [[11, 5], false],
+    ])('%p -> %p', (p, expected) => {
+      expect(pointInPolygon(p, squareRings)).toBe(expected);
+    });
+  });
+
+  describe('area outlines', () => {
+    const [outer, hole] = squareRings;
+
+    it('assembles split boundary ways into closed rings', () => {
+      const ways = [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+        ],
+        [
+          [0, 0],
+          [0, 10],
+        ],
+        [
+          [0, 10],
+          [10, 10],
+        ],
+        [
+          [20, 20],
+          [21, 21],
+        ],
+      ];
+      expect(assembleRings(ways)).toEqual([
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+      ]);
+    });
+
+    it('attaches holes stored as separate polygons to their outer ring', () => {
+      const area = toAreaPolygons({
+        type: 'MultiPolygon',
+        coordinates: [[hole], [outer]],
+      });
+      expect(area).toEqual([[outer, hole]]);
+      expect(pointInArea([2, 2], area)).toBe(true);
+      expect(pointInArea([5, 5], area)).toBe(false);
+    });
+
+    it('keeps islands inside holes as separate polygons', () => {
+      const island = [
+        [4.5, 4.5],
+        [5.5, 4.5],
+        [5.5, 5.5],
+        [4.5, 5.5],
+        [4.5, 4.5],
+      ];
+      const area = toAreaPolygons({
+        type: 'MultiLineString',
+        coordinates: [outer, hole, island],
+      });
+      expect(area).toHaveLength(2);
+      expect(pointInArea([5, 5], area)).toBe(true);
+      expect(pointInArea([4.2, 4.2], area)).toBe(false);
+    });
+
+    it('rejects geometries without an area', () => {
+      expect(() =>
+        toAreaPolygons({
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [1, 1],
+          ],
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe('geoRelationHolds', () => {
+    const crossing: GeoJsonGeometry = {
+      type: 'LineString',
+      coordinates: [
+        [-5, 2],
+        [5, 2],
+      ],
+    };
+
+    it('tests points against a polygon with a hole', () => {
+      expect(geoRelationHolds('within', point(2, 2), squareWithHole)).toBe(
+        true,
+      );
+      expect(geoRelationHolds('within', point(5, 5), squareWithHole)).toBe(
+        false,
+      );
+      expect(geoRelationHolds('disjoint', point(5, 5), squareWithHole)).toBe(
+        true,
+      );
+      expect(geoRelationHolds('contains', squareWithHole, point(2, 2))).toBe(
+        true,
+      );
+    });
+
+    it('does not count boundary-only geometries as within (OGC sfWithin)', () => {
+      // On the outer ring and on the edge of the hole
+      for (const p of [point(0, 5), point(4, 5)]) {
+        expect(geoRelationHolds('within', p, squareWithHole)).toBe(false);
+        expect(geoRelationHolds('contains', squareWithHole, p)).toBe(false);
+        expect(geoRelationHolds('intersects', p, squareWithHole)).toBe(true);
+      }
+      const edge: GeoJsonGeometry = {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [10, 0],
+        ],
+      };
+      expect(geoRelationHolds('within', edge, squareWithHole)).toBe(false);
+      // Starting on the boundary but running through the interior
+      expect(
+        geoRelationHolds(
+          'within',
+          {
+            type: 'LineString',
+            coordinates: [
+              [0, 2],
+              [3, 2],
+            ],
+          },
+          squareWithHole,
+        ),
+      ).toBe(true);
+    });
+
+    it('tests lines against a polygon', () => {
+      expect(geoRelationHolds('intersects', crossing, squareWithHole)).toBe(
+        true,
+      );
+      expect(geoRelationHolds('within', crossing, squareWithHole)).toBe(false);
+      // Line through the hole is not within the polygon
+      expect(
+        geoRelationHolds(
+          'within',
+          {
+            type: 'LineString',
+            coordinates: [
+              [2, 5],
+              [8, 5],
+            ],
+          },
+          squareWithHole,
+        ),
+      ).toBe(false);
+    });
+
+    it('detects equal and overlapping polygons', () => {
+      const shifted: GeoJsonGeometry = {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [5, 5],
+            [15, 5],
+            [15, 15],
+            [5, 15],
+            [5, 5],
+          ],
+        ],
+      };
+      expect(
+        geoRelationHolds('equals', squareWithHole, {
+          ...squareWithHole,
+          coordinates: [...squareRings].reverse(),
+        }),
+      ).toBe(true);
+      expect(geoRelationHolds('overlaps', squareWithHole, shifted)).toBe(true);
+      expect(geoRelationHolds('overlaps', point(1, 1), shifted)).toBe(false);
+    });
+  });
+
+  describe('distances', () => {
+    it('computes great-circle distance', () => {
+      // Hoan Kiem Lake -> West Lake, about 4.4 km
+      const d = haversineMeters([105.8522, 21.0287], [105.8238, 21.0583]);
+      expect(d).toBeGreaterThan(4000);
+      expect(d).toBeLessThan(4500);
+    });
+
+    it('measures distance to the closest segment', () => {
+      const line: GeoJsonGeometry = {
+        type: 'LineString',
+        coordinates: [
+          [105.8, 21],
+          [105.9, 21],
+        ],
+      };
+      const d = distanceToGeometryMeters([105.85, 21.001], line);
+      expect(d).toBeGreaterThan(100);
+      expect(d).toBeLessThan(120);
+      expect(distanceToGeometryMeters([2, 2], squareWithHole)).toBe(0);
+    });
+
+    it('measures between geometries from their closest points', () => {
+      const park: GeoJsonGeometry = {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [105.8, 21],
+            [105.81, 21],
+            [105.81, 21.01],
+            [105.8, 21.01],
+            [105.8, 21],
+          ],
+        ],
+      };
+      // 0.001° east of the park's north-east corner, far from its south-west one
+      const d = geometryDistanceMeters(park, point(105.811, 21.01));
+      expect(d).toBeGreaterThan(100);
+      expect(d).toBeLessThan(110);
+      expect(geometryDistanceMeters(park, point(105.805, 21.005))).toBe(0);
+    });
+
+    it('computes the bounding box of large geometries', () => {
+      const line: GeoJsonGeometry = {
+        type: 'LineString',
+        coordinates: Array.from({ length: 200000 }, (_, i) => [
+          i / 1000,
+          i / 2000,
+        ]),
+      };
+      expect(getBBox(line)).toEqual([0, 0, 199.999, 99.9995]);
+    });
+  });
+
+  describe('routes', () => {
+    it('decodes encoded polylines to [lon, lat]', () => {
+      expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+        [-120.2, 38.5],
+        [-120.95, 40.7],
+        [-126.453, 43.252],
+      ]);
+      expect(decodePolyline('_izlhA~rlgdF', 6)).toEqual([[-120.2, 38.5]]);
+      expect(() => decodePolyline('_p~iF~ps|U_')).toThrow();
+    });
+
+    it('locates points along a route', () => {
+      const route = [
+        [105.8, 21],
+        [105.85, 21],
+        [105.85, 21.05],
+      ];
+      const length = lineLengthMeters(route);
+      const { offsetMeters, alongMeters } = projectOntoLine(
+        [105.851, 21.02],
+        route,
+      );
+      expect(offsetMeters).toBeGreaterThan(100);
+      expect(offsetMeters).toBeLessThan(110);
+      expect(alongMeters).toBeGreaterThan(length * 0.6);
+      expect(alongMeters).toBeLessThan(length * 0.7);
+    });
+
+    it('splits routes into pieces of bounded length', () => {
+      const route = [
+        [105.8, 21],
+        [105.85, 21],
+        [105.85, 21.05],
+      ];
+      const pieces = splitLine(route, 2000);
+      const lengths = pieces.map(lineLengthMeters);
+
+      expect(lengths.every((l) => l <= 2000.01)).toBe(true);
+      expect(lengths.reduce((a, b) => a + b, 0)).toBeCloseTo(
+        lineLengthMeters(route),
+        0,
+      );
+      expect(pieces[0][0]).toEqual(route[0]);
+      expect(pieces[pieces.length - 1].at(-1)).toEqual(route[2]);
+      // Consecutive pieces share their boundary position
+      for (let i = 1; i < pieces.length; i++) {
+        expect(pieces[i][0]).toEqual(pieces[i - 1].at(-1));
+      }
+      expect(splitLine(route, 100000)).toEqual([route]);
+    });
+  });
+});
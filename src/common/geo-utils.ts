@@ -0,0 +1,761 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Geometry helpers shared across modules
+ * Coordinates always follow GeoJSON order: [lon, lat]
+ */
+
+export type Position = number[];
+
+export interface GeoJsonGeometry {
+  type: string;
+  coordinates: any;
+}
+
+/**
+ * Nesting depth of positions in the coordinates of each geometry type
+ */
+const COORDINATE_DEPTHS: Record<string, number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+const isPosition = (p: unknown): p is Position =>
+  Array.isArray(p) &&
+  p.length >= 2 &&
+  p.every((c) => typeof c === 'number' && Number.isFinite(c));
+
+/**
+ * @throws Error unless coordinates are nested arrays of finite numbers
+ */
+function assertCoordinates(coordinates: unknown, depth: number): void {
+  if (depth === 0) {
+    if (!isPosition(coordinates)) {
+      throw new Error('Invalid position, expected [lon, lat] numbers');
+    }
+    return;
+  }
+  if (!Array.isArray(coordinates)) {
+    throw new Error('Invalid GeoJSON coordinates');
+  }
+  coordinates.forEach((c) => assertCoordinates(c, depth - 1));
+}
+
+const formatPosition = (p: Position) => `${p[0]} ${p[1]}`;
+const formatRing = (ring: Position[]) =>
+  `(${ring.map(formatPosition).join(', ')})`;
+const formatPolygon = (rings: Position[][]) =>
+  `(${rings.map(formatRing).join(', ')})`;
+
+/**
+ * Convert a GeoJSON geometry to WKT (the format stored in geo:asWKT)
+ * Every position must be an array of finite numbers, so the WKT contains
+ * nothing but numbers, separators and the type keyword
+ * @throws Error if the geometry is invalid or of an unsupported type
+ */
+export function geoJsonToWkt(geometry: GeoJsonGeometry): string {
+  if (!geometry || !geometry.type || !Array.isArray(geometry.coordinates)) {
+    throw new Error('Invalid GeoJSON geometry');
+  }
+
+  const { type } = geometry;
+  const coordinates: unknown = geometry.coordinates;
+  if (!Object.hasOwn(COORDINATE_DEPTHS, type)) {
+    throw new Error(`Unsupported GeoJSON geometry type: ${type}`);
+  }
+  assertCoordinates(coordinates, COORDINATE_DEPTHS[type]);
+
+  switch (type) {
+    case 'Point':
+      return `POINT(${formatPosition(coordinates as Position)})`;
+    case 'MultiPoint':
+      return `MULTIPOINT(${(coordinates as Position[]).map((p) => `(${formatPosition(p)})`).join(', ')})`;
+    case 'LineString':
+      return `LINESTRING${formatRing(coordinates as Position[])}`;
+    case 'MultiLineString':
+      return `MULTILINESTRING${formatPolygon(coordinates as Position[][])}`;
+    case 'Polygon':
+      return `POLYGON${formatPolygon(coordinates as Position[][])}`;
+    case 'MultiPolygon':
+      return `MULTIPOLYGON(${(coordinates as Position[][][]).map(formatPolygon).join(', ')})`;
+    default:
+      throw new Error(`Unsupported GeoJSON geometry type: ${type}`);
+  }
+}
+
+/**
+ * Bounding box: [minLon, minLat, maxLon, maxLat]
+ */
+export type BBox = [number, number, number, number];
+
+/**
+ * Spatial relationships between two geometries (NGSI-LD georel, except near)
+ */
+export type GeoRelation =
+  | 'within'
+  | 'contains'
+  | 'intersects'
+  | 'disjoint'
+  | 'equals'
+  | 'overlaps';
+
+const EARTH_RADIUS_M = 6371000;
+const EPSILON = 1e-12;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two positions in meters
+ */
+export function haversineMeters(a: Position, b: Position): number {
+  const dLat = toRad(b[1] - a[1]);
+  const dLon = toRad(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Parse WKT (as stored in geo:asWKT) into a GeoJSON geometry
+ * An optional leading CRS IRI is ignored; Z/M values are dropped
+ * @returns null if the WKT cannot be parsed
+ */
+export function wktToGeoJson(wkt: string): GeoJsonGeometry | null {
+  const match =
+    /^\s*(?:<[^>]*>\s*)?([A-Za-z]+)\s*(?:Z|M|ZM)?\s*(\(.*\))\s*$/s.exec(
+      wkt || '',
+    );
+  if (!match) return null;
+
+  const num = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+  let coordinates: unknown[];
+  try {
+    coordinates = JSON.parse(
+      match[2]
+        .replace(
+          new RegExp(`(${num})\\s+(${num})(?:\\s+${num}){0,2}`, 'g'),
+          '[$1,$2]',
+        )
+        .replace(/\(/g, '[')
+        .replace(/\)/g, ']'),
+    ) as unknown[];
+  } catch {
+    return null;
+  }
+
+  switch (match[1].toUpperCase()) {
+    case 'POINT':
+      return { type: 'Point', coordinates: coordinates[0] };
+    case 'MULTIPOINT':
+      // Both MULTIPOINT((1 2), (3 4)) and MULTIPOINT(1 2, 3 4)
+      return {
+        type: 'MultiPoint',
+        coordinates: (coordinates as (Position | Position[])[]).map((p) =>
+          Array.isArray(p[0]) ? p[0] : p,
+        ),
+      };
+    case 'LINESTRING':
+      return { type: 'LineString', coordinates };
+    case 'MULTILINESTRING':
+      return { type: 'MultiLineString', coordinates };
+    case 'POLYGON':
+      return { type: 'Polygon', coordinates };
+    case 'MULTIPOLYGON':
+      return { type: 'MultiPolygon', coordinates };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Geometry split into its points, lines and polygons
+ */
+interface GeometryParts {
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][];
+}
+
+function decompose(geometry: GeoJsonGeometry): GeometryParts {
+  const { type } = geometry;
+  const coordinates: unknown = geometry.coordinates;
+  const parts: GeometryParts = { points: [], lines: [], polygons: [] };
+  switch (type) {
+    case 'Point':
+      parts.points.push(coordinates as Position);
+      break;
+    case 'MultiPoint':
+      parts.points.push(...(coordinates as Position[]));
+      break;
+    case 'LineString':
+      parts.lines.push(coordinates as Position[]);
+      break;
+    case 'MultiLineString':
+      parts.lines.push(...(coordinates as Position[][]));
+      break;
+    case 'Polygon':
+      parts.polygons.push(coordinates as Position[][]);
+      break;
+    case 'MultiPolygon':
+      parts.polygons.push(...(coordinates as Position[][][]));
+      break;
+    default:
+      throw new Error(`Unsupported GeoJSON geometry type: ${type}`);
+  }
+  return parts;
+}
+
+function vertices(parts: GeometryParts): Position[] {
+  return [...parts.points, ...parts.lines.flat(), ...parts.polygons.flat(2)];
+}
+
+function segments(parts: GeometryParts): [Position, Position][] {
+  const result: [Position, Position][] = [];
+  for (const path of [...parts.lines, ...parts.polygons.flat()]) {
+    for (let i = 0; i < path.length - 1; i++) {
+      result.push([path[i], path[i + 1]]);
+    }
+  }
+  return result;
+}
+
+function dimension(parts: GeometryParts): number {
+  if (parts.polygons.length > 0) return 2;
+  if (parts.lines.length > 0) return 1;
+  return 0;
+}
+
+function cross(o: Position, a: Position, b: Position): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return Math.abs(a[0] - b[0]) < EPSILON && Math.abs(a[1] - b[1]) < EPSILON;
+}
+
+function pointOnSegment(p: Position, a: Position, b: Position): boolean {
+  return (
+    Math.abs(cross(a, b, p)) < EPSILON &&
+    p[0] >= Math.min(a[0], b[0]) - EPSILON &&
+    p[0] <= Math.max(a[0], b[0]) + EPSILON &&
+    p[1] >= Math.min(a[1], b[1]) - EPSILON &&
+    p[1] <= Math.max(a[1], b[1]) + EPSILON
+  );
+}
+
+function segmentsIntersect(
+  a1: Position,
+  a2: Position,
+  b1: Position,
+  b2: Position,
+): boolean {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  if (
+    ((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+    ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON))
+  ) {
+    return true;
+  }
+  return (
+    pointOnSegment(a1, b1, b2) ||
+    pointOnSegment(a2, b1, b2) ||
+    pointOnSegment(b1, a1, a2) ||
+    pointOnSegment(b2, a1, a2)
+  );
+}
+
+/**
+ * Segments cross at a single point interior to both (not just touching)
+ */
+function segmentsCrossProperly(
+  a1: Position,
+  a2: Position,
+  b1: Position,
+  b2: Position,
+): boolean {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return (
+    ((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+    ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON))
+  );
+}
+
+function onRing(p: Position, ring: Position[]): boolean {
+  for (let i = 0; i < ring.length - 1; i++) {
+    if (pointOnSegment(p, ring[i], ring[i + 1])) return true;
+  }
+  return false;
+}
+
+function insideRing(p: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      yi > p[1] !== yj > p[1] &&
+      p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Point-in-polygon test (ray casting) honouring holes
+ * Points on the outer ring or on a hole's edge count as inside
+ *
+ * @param polygon GeoJSON polygon rings: outer ring first, then holes
+ */
+export function pointInPolygon(
+  point: Position,
+  polygon: Position[][],
+): boolean {
+  const [outer, ...holes] = polygon;
+  if (!outer || outer.length < 3) return false;
+  if (polygon.some((ring) => onRing(point, ring))) return true;
+  if (!insideRing(point, outer)) return false;
+  return !holes.some((hole) => insideRing(point, hole));
+}
+
+/**
+ * Point strictly inside a polygon (not on any of its rings)
+ */
+function pointInPolygonInterior(
+  point: Position,
+  polygon: Position[][],
+): boolean {
+  return (
+    !polygon.some((ring) => onRing(point, ring)) &&
+    pointInPolygon(point, polygon)
+  );
+}
+
+function covers(parts: GeometryParts, p: Position): boolean {
+  return (
+    parts.points.some((q) => samePosition(p, q)) ||
+    parts.lines.some((line) => onRing(p, line)) ||
+    parts.polygons.some((polygon) => pointInPolygon(p, polygon))
+  );
+}
+
+function intersectsParts(a: GeometryParts, b: GeometryParts): boolean {
+  if (vertices(a).some((p) => covers(b, p))) return true;
+  if (vertices(b).some((p) => covers(a, p))) return true;
+  const segsB = segments(b);
+  return segments(a).some(([a1, a2]) =>
+    segsB.some(([b1, b2]) => segmentsIntersect(a1, a2, b1, b2)),
+  );
+}
+
+/**
+ * a lies entirely in b: every vertex and segment midpoint of a is covered by b,
+ * no edge of a crosses an edge of b and no hole of b is inside a
+ *
+ * As in OGC sfWithin the interiors must meet: points and lines lying only on
+ * the boundary of an areal b are not within it (they only intersect it)
+ */
+function withinParts(a: GeometryParts, b: GeometryParts): boolean {
+  if (!vertices(a).every((p) => covers(b, p))) return false;
+
+  const segsA = segments(a);
+  const midpoints = segsA.map(
+    ([p1, p2]): Position => [(p1[0] + p2[0]) / 2, (p1[1] + p2[1]) / 2],
+  );
+  if (!midpoints.every((p) => covers(b, p))) return false;
+
+  if (
+    a.polygons.length === 0 &&
+    dimension(b) === 2 &&
+    !b.points.length &&
+    !b.lines.length &&
+    ![...vertices(a), ...midpoints].some((p) =>
+      b.polygons.some((polygon) => pointInPolygonInterior(p, polygon)),
+    )
+  ) {
+    return false;
+  }
+
+  const segsB = segments(b);
+  const crosses = segsA.some(([a1, a2]) =>
+    segsB.some(([b1, b2]) => segmentsCrossProperly(a1, a2, b1, b2)),
+  );
+  if (crosses) return false;
+
+  const holes = b.polygons.flatMap((polygon) => polygon.slice(1));
+  return !holes.some((hole) =>
+    hole.some((p) =>
+      a.polygons.some((polygon) => pointInPolygonInterior(p, polygon)),
+    ),
+  );
+}
+
+function vertexKeys(parts: GeometryParts): Set<string> {
+  return new Set(
+    vertices(parts).map((p) => `${p[0].toFixed(9)},${p[1].toFixed(9)}`),
+  );
+}
+
+/**
+ * Test a spatial relationship between two geometries (planar, lon/lat degrees)
+ *
+ * @example
+ * geoRelationHolds('within', { type: 'Point', coordinates: [105.85, 21.03] }, districtPolygon)
+ */
+export function geoRelationHolds(
+  relation: GeoRelation,
+  subject: GeoJsonGeometry,
+  object: GeoJsonGeometry,
+): boolean {
+  const a = decompose(subject);
+  const b = decompose(object);
+
+  switch (relation) {
+    case 'intersects':
+      return intersectsParts(a, b);
+    case 'disjoint':
+      return !intersectsParts(a, b);
+    case 'within':
+      return withinParts(a, b);
+    case 'contains':
+      return withinParts(b, a);
+    case 'equals': {
+      if (dimension(a) !== dimension(b)) return false;
+      const keysA = vertexKeys(a);
+      const keysB = vertexKeys(b);
+      return (
+        keysA.size === keysB.size && [...keysA].every((key) => keysB.has(key))
+      );
+    }
+    case 'overlaps':
+      return (
+        dimension(a) === dimension(b) &&
+        intersectsParts(a, b) &&
+        !withinParts(a, b) &&
+        !withinParts(b, a)
+      );
+  }
+}
+
+/**
+ * Bounding box of a geometry
+ */
+export function getBBox(geometry: GeoJsonGeometry): BBox {
+  // Loop rather than Math.min(...points): large geometries overflow the stack
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [lon, lat] of vertices(decompose(geometry))) {
+    if (lon < bbox[0]) bbox[0] = lon;
+    if (lat < bbox[1]) bbox[1] = lat;
+    if (lon > bbox[2]) bbox[2] = lon;
+    if (lat > bbox[3]) bbox[3] = lat;
+  }
+  return bbox;
+}
+
+/**
+ * Grow a bounding box by a distance in meters
+ */
+export function expandBBox(bbox: BBox, meters: number): BBox {
+  const dLat = meters / 111320;
+  const maxAbsLat = Math.min(
+    89,
+    Math.max(Math.abs(bbox[1]), Math.abs(bbox[3])) + dLat,
+  );
+  const dLon = meters / (111320 * Math.cos(toRad(maxAbsLat)));
+  return [bbox[0] - dLon, bbox[1] - dLat, bbox[2] + dLon, bbox[3] + dLat];
+}
+
+/**
+ * Closest point to p on segment ab, using a local equirectangular projection
+ */
+function closestOnSegment(p: Position, a: Position, b: Position): Position {
+  const k = Math.cos(toRad(p[1]));
+  const ax = (a[0] - p[0]) * k;
+  const ay = a[1] - p[1];
+  const bx = (b[0] - p[0]) * k;
+  const by = b[1] - p[1];
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t =
+    len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+/**
+ * Shortest distance in meters from a point to a geometry (0 if covered)
+ */
+export function distanceToGeometryMeters(
+  point: Position,
+  geometry: GeoJsonGeometry,
+): number {
+  return distanceToPartsMeters(point, decompose(geometry));
+}
+
+/**
+ * Shortest distance in meters between two geometries (0 if they intersect),
+ * e.g. from a park polygon to the point of a georel=near query
+ */
+export function geometryDistanceMeters(
+  a: GeoJsonGeometry,
+  b: GeoJsonGeometry,
+): number {
+  const partsA = decompose(a);
+  const partsB = decompose(b);
+  if (intersectsParts(partsA, partsB)) return 0;
+
+  // Disjoint geometries: the closest pair always involves a vertex of one side
+  let best = Infinity;
+  for (const p of vertices(partsA)) {
+    best = Math.min(best, distanceToPartsMeters(p, partsB));
+  }
+  for (const p of vertices(partsB)) {
+    best = Math.min(best, distanceToPartsMeters(p, partsA));
+  }
+  return best;
+}
+
+function distanceToPartsMeters(point: Position, parts: GeometryParts): number {
+  if (covers(parts, point)) return 0;
+
+  let best = Infinity;
+  for (const p of parts.points) {
+    best = Math.min(best, haversineMeters(point, p));
+  }
+  for (const [a, b] of segments(parts)) {
+    best = Math.min(
+      best,
+      haversineMeters(point, closestOnSegment(point, a, b)),
+    );
+  }
+  return best;
+}
+
+/**
+ * Join lines sharing end points into closed rings, e.g. the member ways of an
+ * OSM boundary relation. Lines that cannot be closed are dropped
+ */
+export function assembleRings(lines: Position[][]): Position[][] {
+  const pending = lines.filter((line) => line.length >= 2);
+  const rings: Position[][] = [];
+
+  while (pending.length > 0) {
+    let ring = [...pending.shift()!];
+    let extended = true;
+    while (!samePosition(ring[0], ring[ring.length - 1]) && extended) {
+      extended = false;
+      const end = ring[ring.length - 1];
+      const i = pending.findIndex(
+        (line) =>
+          samePosition(line[0], end) ||
+          samePosition(line[line.length - 1], end),
+      );
+      if (i >= 0) {
+        const [line] = pending.splice(i, 1);
+        const next = samePosition(line[0], end) ? line : [...line].reverse();
+        ring = [...ring, ...next.slice(1)];
+        extended = true;
+      }
+    }
+    if (ring.length >= 4 && samePosition(ring[0], ring[ring.length - 1])) {
+      rings.push(ring);
+    }
+  }
+  return rings;
+}
+
+/**
+ * Ring a lies inside ring b (rings are assumed not to cross)
+ */
+function ringInsideRing(a: Position[], b: Position[]): boolean {
+  const probe = a.find((p) => !onRing(p, b));
+  return probe !== undefined && insideRing(probe, b);
+}
+
+/**
+ * Group unordered rings into polygons: a ring nested inside an odd number of
+ * rings is a hole of the ring directly enclosing it
+ *
+ * @returns MultiPolygon coordinates
+ */
+export function ringsToPolygons(rings: Position[][]): Position[][][] {
+  const containers = rings.map((ring, i) =>
+    rings.flatMap((other, j) =>
+      j !== i && ringInsideRing(ring, other) ? [j] : [],
+    ),
+  );
+
+  const polygons = new Map<number, Position[][]>();
+  rings.forEach((ring, i) => {
+    if (containers[i].length % 2 === 0) polygons.set(i, [ring]);
+  });
+  rings.forEach((ring, i) => {
+    const depth = containers[i].length;
+    if (depth % 2 === 1) {
+      const parent = containers[i].find(
+        (j) => containers[j].length === depth - 1,
+      );
+      if (parent !== undefined) polygons.get(parent)?.push(ring);
+    }
+  });
+  return [...polygons.values()];
+}
+
+/**
+ * Normalize an area to MultiPolygon coordinates with holes attached to their
+ * outer ring. Accepts Polygon and MultiPolygon (including holes stored as
+ * separate polygons) as well as LineString/MultiLineString outlines whose
+ * lines form closed rings
+ *
+ * @throws Error if the geometry does not enclose any area
+ */
+export function toAreaPolygons(geometry: GeoJsonGeometry): Position[][][] {
+  const parts = decompose(geometry);
+  const rings = [
+    ...parts.polygons.flat().filter((ring) => ring.length >= 4),
+    ...assembleRings(parts.lines),
+  ];
+  if (rings.length === 0) {
+    throw new Error(`${geometry.type} geometry does not enclose any area`);
+  }
+  return ringsToPolygons(rings);
+}
+
+/**
+ * Point inside any polygon of an area returned by toAreaPolygons
+ */
+export function pointInArea(point: Position, area: Position[][][]): boolean {
+  return area.some((polygon) => pointInPolygon(point, polygon));
+}
+
+/**
+ * Decode an encoded polyline (Google polyline algorithm, as returned by OSRM,
+ * GraphHopper and Google Directions) to [lon, lat] positions
+ *
+ * @param precision 5 for the standard format, 6 for polyline6 (Valhalla, OSRM geometries=polyline6)
+ * @throws Error if the string is not a valid encoded polyline
+ */
+export function decodePolyline(encoded: string, precision = 5): Position[] {
+  const factor = Math.pow(10, precision);
+  const positions: Position[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Truncated encoded polyline');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) {
+        throw new Error(`Invalid polyline character at ${index - 1}`);
+      }
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lon += nextValue();
+    positions.push([lon / factor, lat / factor]);
+  }
+  return positions;
+}
+
+/**
+ * Length of a line in meters
+ */
+export function lineLengthMeters(line: Position[]): number {
+  let length = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    length += haversineMeters(line[i], line[i + 1]);
+  }
+  return length;
+}
+
+/**
+ * Cut a line into consecutive pieces of at most maxMeters, splitting long
+ * segments at interpolated positions
+ */
+export function splitLine(line: Position[], maxMeters: number): Position[][] {
+  const pieces: Position[][] = [];
+  let piece: Position[] = [line[0]];
+  let pieceLength = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    let a = line[i];
+    const b = line[i + 1];
+    let segment = haversineMeters(a, b);
+    while (pieceLength + segment > maxMeters) {
+      const t = (maxMeters - pieceLength) / segment;
+      const cut = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+      piece.push(cut);
+      pieces.push(piece);
+      piece = [cut];
+      pieceLength = 0;
+      segment = haversineMeters(cut, b);
+      a = cut;
+    }
+    piece.push(b);
+    pieceLength += segment;
+  }
+  if (piece.length > 1 || pieces.length === 0) pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Locate a point relative to a line: its distance to the closest point of the
+ * line and how far along the line (from the first vertex) that point lies
+ */
+export function projectOntoLine(
+  point: Position,
+  line: Position[],
+): { offsetMeters: number; alongMeters: number } {
+  let best = { offsetMeters: Infinity, alongMeters: 0 };
+  let travelled = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    const [a, b] = [line[i], line[i + 1]];
+    const closest = closestOnSegment(point, a, b);
+    const offset = haversineMeters(point, closest);
+    if (offset < best.offsetMeters) {
+      best = {
+        offsetMeters: offset,
+        alongMeters: travelled + haversineMeters(a, closest),
+      };
+    }
+    travelled += haversineMeters(a, b);
+  }
+  return best;
+}
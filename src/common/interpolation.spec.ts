@@ -0,0 +1,103 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { interpolateIdw, StationSample } from './interpolation';
+
+describe('interpolateIdw', () => {
+  const target = { lon: 105.85, lat: 21.03 };
+  // 0.01° of latitude is about 1.11 km
+  const station = (
+    stationId: string,
+    dLat: number,
+    value: number,
+  ): StationSample => ({
+    stationId,
+    lon: target.lon,
+    lat: target.lat + dLat,
+    value,
+  });
+
+  it('returns null when no station is within maxDistanceKm', () => {
+    expect(interpolateIdw(target, [station('a', 0.2, 50)])).toBeNull();
+    expect(interpolateIdw(target, [])).toBeNull();
+  });
+
+  it('takes the value of a station at the point with full confidence', () => {
+    const estimate = interpolateIdw(target, [
+      station('a', 0, 42),
+      station('b', 0.01, 80),
+    ]);
+    expect(estimate).toEqual({
+      value: 42,
+      confidence: 1,
+      stations: [{ stationId: 'a', distanceKm: 0, weight: 1, value: 42 }],
+    });
+  });
+
+  it('averages equidistant stations', () => {
+    const estimate = interpolateIdw(target, [
+      station('a', 0.01, 40),
+      station('b', -0.01, 60),
+    ]);
+    expect(estimate?.value).toBe(50);
+    expect(estimate?.stations.map((s) => s.weight)).toEqual([0.5, 0.5]);
+  });
+
+  it('weights stations by inverse squared distance', () => {
+    const estimate = interpolateIdw(target, [
+      station('near', 0.01, 40),
+      station('far', -0.02, 100),
+    ]);
+    // weights 1/1 and 1/4, normalised to 0.8 and 0.2
+    expect(estimate?.value).toBeCloseTo(52, 1);
+    expect(estimate?.stations[0]).toMatchObject({
+      stationId: 'near',
+      weight: 0.8,
+    });
+  });
+
+  it('uses only the nearest maxStations stations', () => {
+    const estimate = interpolateIdw(
+      target,
+      [station('a', 0.01, 10), station('b', 0.02, 20), station('c', 0.03, 30)],
+      { maxStations: 2 },
+    );
+    expect(estimate?.stations.map((s) => s.stationId)).toEqual(['a', 'b']);
+  });
+
+  it('ignores missing values', () => {
+    const estimate = interpolateIdw(target, [
+      station('a', 0.01, NaN),
+      station('b', 0.02, 20),
+    ]);
+    expect(estimate?.value).toBe(20);
+    expect(estimate?.stations).toHaveLength(1);
+  });
+
+  it('is less confident far from stations and with fewer of them', () => {
+    const near = interpolateIdw(target, [station('a', 0.01, 50)])!;
+    const far = interpolateIdw(target, [station('a', 0.05, 50)])!;
+    const many = interpolateIdw(target, [
+      station('a', 0.01, 50),
+      station('b', -0.01, 50),
+      station('c', 0.01, 50),
+    ])!;
+    expect(far.confidence).toBeLessThan(near.confidence);
+    expect(many.confidence).toBeGreaterThan(near.confidence);
+    expect(many.confidence).toBeLessThan(1);
+  });
+});
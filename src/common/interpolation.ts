@@ -0,0 +1,151 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Inverse distance weighting (IDW) of station readings to arbitrary points
+ *
+ * Used to estimate sensor values (AQI, temperature, noise_level) for POIs
+ * without a covering IoT device. Each estimate carries a 0-1 confidence that
+ * drops with the distance to the stations used and rises with their number.
+ */
+
+import { haversineMeters } from './geo-utils';
+
+export interface StationSample {
+  stationId: string;
+  lon: number;
+  lat: number;
+  value: number;
+}
+
+export interface IdwOptions {
+  power: number; // weight = 1 / distance^power
+  maxDistanceKm: number; // stations further away are ignored
+  maxStations: number; // only the nearest stations are used
+  halfConfidenceKm: number; // distance at which a reading is half as trusted
+}
+
+export const DEFAULT_IDW_OPTIONS: IdwOptions = {
+  power: 2,
+  maxDistanceKm: 10,
+  maxStations: 6,
+  halfConfidenceKm: 2,
+};
+
+/**
+ * Points closer than this to a station take its value as is
+ */
+export const EXACT_MATCH_KM = 0.01;
+
+export interface InterpolationStation {
+  stationId: string;
+  distanceKm: number;
+  weight: number; // normalised, weights of an estimate sum to 1
+  value: number;
+}
+
+export interface Interpolation {
+  value: number;
+  confidence: number;
+  stations: InterpolationStation[];
+}
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Estimate the value at a point from the nearest stations
+ *
+ * confidence = proximity * support, where proximity is the weighted mean of
+ * 0.5^(distance / halfConfidenceKm) and support = 1 - 0.5^(stations + 1), so a
+ * single station right next to the point gives 0.75 and every additional
+ * station halves the remaining doubt. A station within EXACT_MATCH_KM is a
+ * measurement, not an estimate, and gives confidence 1.
+ *
+ * @returns null when no station lies within maxDistanceKm
+ *
+ * @example
+ * // AQI 40 at 1 km and 100 at 2 km: weights 0.8 and 0.2
+ * interpolateIdw(poi, [near, far]).value // 52
+ */
+export function interpolateIdw(
+  target: { lon: number; lat: number },
+  samples: StationSample[],
+  options: Partial<IdwOptions> = {},
+): Interpolation | null {
+  const power = options.power ?? DEFAULT_IDW_OPTIONS.power;
+  const maxDistanceKm =
+    options.maxDistanceKm ?? DEFAULT_IDW_OPTIONS.maxDistanceKm;
+  const maxStations = options.maxStations ?? DEFAULT_IDW_OPTIONS.maxStations;
+  const halfConfidenceKm =
+    options.halfConfidenceKm ?? DEFAULT_IDW_OPTIONS.halfConfidenceKm;
+
+  const nearest = samples
+    .filter((s) => Number.isFinite(s.value))
+    .map((s) => ({
+      ...s,
+      distanceKm:
+        haversineMeters([target.lon, target.lat], [s.lon, s.lat]) / 1000,
+    }))
+    .filter((s) => s.distanceKm <= maxDistanceKm)
+    .sort(
+      (a, b) =>
+        a.distanceKm - b.distanceKm || a.stationId.localeCompare(b.stationId),
+    )
+    .slice(0, Math.max(1, Math.floor(maxStations)));
+
+  if (nearest.length === 0) return null;
+
+  if (nearest[0].distanceKm < EXACT_MATCH_KM) {
+    const exact = nearest[0];
+    return {
+      value: round(exact.value, 2),
+      confidence: 1,
+      stations: [
+        {
+          stationId: exact.stationId,
+          distanceKm: round(exact.distanceKm, 3),
+          weight: 1,
+          value: exact.value,
+        },
+      ],
+    };
+  }
+
+  const raw = nearest.map((s) => 1 / s.distanceKm ** power);
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const weights = raw.map((w) => w / total);
+
+  let value = 0;
+  let proximity = 0;
+  nearest.forEach((s, i) => {
+    value += weights[i] * s.value;
+    proximity += weights[i] * 0.5 ** (s.distanceKm / halfConfidenceKm);
+  });
+  const support = 1 - 0.5 ** (nearest.length + 1);
+
+  return {
+    value: round(value, 2),
+    confidence: round(proximity * support, 2),
+    stations: nearest.map((s, i) => ({
+      stationId: s.stationId,
+      distanceKm: round(s.distanceKm, 3),
+      weight: round(weights[i], 3),
+      value: s.value,
+    })),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import {
+  buildLinkHeader,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+} from './pagination';
+
+describe('pagination', () => {
+  const scope = cursorScope('nearby', { lon: 105.85, lat: 21.03 });
+
+  describe('cursors', () => {
+    it('round-trips the sort key', () => {
+      const cursor = encodeCursor([0.42, 'urn:poi:1'], scope);
+      expect(decodeCursor(cursor, scope)).toEqual([0.42, 'urn:poi:1']);
+    });
+
+    it('ignores parameter order and undefined values in the scope', () => {
+      expect(
+        cursorScope('nearby', { lat: 21.03, lon: 105.85, types: undefined }),
+      ).toBe(scope);
+    });
+
+    it('rejects cursors of another query', () => {
+      const other = cursorScope('nearby', { lon: 106.7, lat: 10.8 });
+      expect(() =>
+        decodeCursor(encodeCursor(['urn:poi:1'], other), scope),
+      ).toThrow(BadRequestException);
+    });
+
+    it.each(['', 'not-a-cursor', Buffer.from('{"s":1}').toString('base64url')])(
+      'rejects %p',
+      (cursor) => {
+        expect(() => decodeCursor(cursor, scope)).toThrow(BadRequestException);
+      },
+    );
+  });
+
+  describe('paginate', () => {
+    const items = [
+      { id: 'c', d: 2 },
+      { id: 'a', d: 1 },
+      { id: 'b', d: 1 },
+      { id: 'd', d: 3 },
+      { id: 'e', d: 3 },
+    ];
+    const keyOf = (item: { id: string; d: number }) => [item.d, item.id];
+
+    it('pages through items in a deterministic order', () => {
+      const seen: string[] = [];
+      let after: (string | number)[] | undefined;
+      for (;;) {
+        const page = paginate(items, keyOf, { limit: 2, after, scope });
+        seen.push(...page.items.map((item) => item.id));
+        if (!page.nextCursor) break;
+        after = decodeCursor(page.nextCursor, scope);
+      }
+      expect(seen).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('has no next cursor on the last page', () => {
+      expect(paginate(items, keyOf, { limit: 5, scope }).nextCursor).toBeNull();
+    });
+  });
+
+  it('builds first and next links from the request url', () => {
+    expect(
+      buildLinkHeader('/fuseki/pois-by-type?type=bus_stop&cursor=old', 'next1'),
+    ).toBe(
+      '</fuseki/pois-by-type?type=bus_stop>; rel="first", </fuseki/pois-by-type?type=bus_stop&cursor=next1>; rel="next"',
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Keyset (cursor) pagination shared by the list endpoints
+ *
+ * Every list is sorted by a deterministic key ending with the POI URI, e.g.
+ * [uri] or [distanceKm, uri]. A cursor is the opaque, base64url encoded key of
+ * the last item of a page, bound to the query that produced it (scope) so it
+ * cannot be replayed against a different query.
+ */
+
+import { createHash } from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import type { Request, Response } from 'express';
+
+export type CursorKey = (string | number)[];
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount?: number;
+}
+
+interface CursorPayload {
+  s: string;
+  k: CursorKey;
+}
+
+/**
+ * Short hash identifying a query; cursors are only valid for the same scope
+ *
+ * @example
+ * cursorScope('pois-by-type', { type: 'bus_stop', language: 'vi' })
+ */
+export function cursorScope(
+  name: string,
+  params: Record<string, unknown>,
+): string {
+  const canonical = Object.keys(params)
+    .sort()
+    .filter((key) => params[key] !== undefined)
+    .map((key) => `${key}=${JSON.stringify(params[key])}`)
+    .join('&');
+  return createHash('sha1')
+    .update(`${name}?${canonical}`)
+    .digest('base64url')
+    .slice(0, 12);
+}
+
+export function encodeCursor(key: CursorKey, scope: string): string {
+  const payload: CursorPayload = { s: scope, k: key };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * @throws BadRequestException if the cursor is malformed or belongs to another query
+ */
+export function decodeCursor(cursor: string, scope: string): CursorKey {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as CursorPayload;
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (
+    !payload ||
+    typeof payload !== 'object' ||
+    !Array.isArray(payload.k) ||
+    payload.k.length === 0 ||
+    !payload.k.every((v) => typeof v === 'string' || typeof v === 'number')
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (payload.s !== scope) {
+    throw new BadRequestException(
+      'Cursor does not belong to this query, restart from the first page',
+    );
+  }
+  return payload.k;
+}
+
+export function compareKeys(a: CursorKey, b: CursorKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') {
+      return (a[i] as number) - (b[i] as number);
+    }
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Cut one page out of items: sorts by key, drops everything up to the cursor
+ * and returns the next cursor when more items follow
+ *
+ * Callers must pass at least limit + 1 items following the cursor (when that
+ * many exist) so the presence of a next page can be detected.
+ */
+export function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => CursorKey,
+  options: { limit: number; after?: CursorKey; scope: string },
+): Page<T> {
+  const { limit, after, scope } = options;
+  const sorted = items
+    .map((item) => ({ item, key: keyOf(item) }))
+    .filter(({ key }) => !after || compareKeys(key, after) > 0)
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const page = sorted.slice(0, limit);
+  const hasMore = sorted.length > limit;
+  return {
+    items: page.map(({ item }) => item),
+    nextCursor:
+      hasMore && page.length > 0
+        ? encodeCursor(page[page.length - 1].key, scope)
+        : null,
+  };
+}
+
+/**
+ * RFC 8288 Link header pointing at the first and next pages of the current request
+ */
+export function buildLinkHeader(
+  originalUrl: string,
+  nextCursor: string | null,
+): string {
+  const url = new URL(originalUrl, 'http://localhost');
+  const link = (cursor: string | null, rel: string) => {
+    if (cursor) url.searchParams.set('cursor', cursor);
+    else url.searchParams.delete('cursor');
+    return `<${url.pathname}${url.search}>; rel="${rel}"`;
+  };
+  const links = [link(null, 'first')];
+  if (nextCursor) links.push(link(nextCursor, 'next'));
+  return links.join(', ');
+}
+
+/**
+ * Set the Link and X-Total-Count headers of a paginated response
+ */
+export function setPaginationHeaders(
+  req: Request,
+  res: Response,
+  page: { nextCursor: string | null; totalCount?: number },
+): void {
+  res.setHeader('Link', buildLinkHeader(req.originalUrl, page.nextCursor));
+  if (page.totalCount !== undefined) {
+    res.setHeader('X-Total-Count', String(page.totalCount));
+  }
+}
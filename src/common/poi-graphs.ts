@@ -0,0 +1,123 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Graph mapping - Map từ type tới graph URL
+ * Tên type chuẩn hóa theo file TTL (dùng underscore và dấu gạch nối)
+ * Hỗ trợ cả underscore và hyphen format để tương thích
+ */
+export function getPoiGraphMap() {
+  return {
+    // ATM & Banking
+    atm: process.env.FUSEKI_GRAPH_ATM || 'http://localhost:3030/graph/atm',
+    bank: process.env.FUSEKI_GRAPH_BANK || 'http://localhost:3030/graph/bank',
+
+    // Transport
+    bus_stop:
+      process.env.FUSEKI_GRAPH_BUS_STOP ||
+      'http://localhost:3030/graph/bus_stop',
+
+    // Food & Drink
+    cafe: process.env.FUSEKI_GRAPH_CAFE || 'http://localhost:3030/graph/cafe',
+    restaurant:
+      process.env.FUSEKI_GRAPH_RESTAURANT ||
+      'http://localhost:3030/graph/restaurant',
+
+    // Retail
+    convenience_store:
+      process.env.FUSEKI_GRAPH_CONVENIENCE_STORE ||
+      'http://localhost:3030/graph/convenience_store',
+    supermarket:
+      process.env.FUSEKI_GRAPH_SUPERMARKET ||
+      'http://localhost:3030/graph/supermarket',
+    marketplace:
+      process.env.FUSEKI_GRAPH_MARKETPLACE ||
+      'http://localhost:3030/graph/marketplace',
+    warehouse:
+      process.env.FUSEKI_GRAPH_WAREHOUSE ||
+      'http://localhost:3030/graph/warehouse',
+
+    // Healthcare
+    hospital:
+      process.env.FUSEKI_GRAPH_HOSPITAL ||
+      'http://localhost:3030/graph/hospital',
+    clinic:
+      process.env.FUSEKI_GRAPH_CLINIC || 'http://localhost:3030/graph/clinic',
+    pharmacy:
+      process.env.FUSEKI_GRAPH_PHARMACY ||
+      'http://localhost:3030/graph/pharmacy',
+
+    // Education
+    school:
+      process.env.FUSEKI_GRAPH_SCHOOL || 'http://localhost:3030/graph/school',
+    university:
+      process.env.FUSEKI_GRAPH_UNIVERSITY ||
+      'http://localhost:3030/graph/university',
+    kindergarten:
+      process.env.FUSEKI_GRAPH_KINDERGARTEN ||
+      'http://localhost:3030/graph/kindergarten',
+
+    // Recreation
+    playground:
+      process.env.FUSEKI_GRAPH_PLAY_GROUNDS ||
+      'http://localhost:3030/graph/playground',
+    park: process.env.FUSEKI_GRAPH_PARK || 'http://localhost:3030/graph/park',
+
+    // Infrastructure
+    charging_station:
+      process.env.FUSEKI_GRAPH_CHARGING_STATION ||
+      'http://localhost:3030/graph/charging_station',
+    fuel_station:
+      process.env.FUSEKI_GRAPH_FUEL_STATION ||
+      'http://localhost:3030/graph/fuel_station',
+    parking:
+      process.env.FUSEKI_GRAPH_PARKING || 'http://localhost:3030/graph/parking',
+
+    // Public Services
+    post_office:
+      process.env.FUSEKI_GRAPH_POST_OFFICE ||
+      'http://localhost:3030/graph/post_office',
+    library:
+      process.env.FUSEKI_GRAPH_LIBRARY || 'http://localhost:3030/graph/library',
+    community_centre:
+      process.env.FUSEKI_GRAPH_COMMUNITY_CENTER ||
+      'http://localhost:3030/graph/community_centre',
+
+    // Emergency Services
+    police:
+      process.env.FUSEKI_GRAPH_POLICE || 'http://localhost:3030/graph/police',
+    fire_station:
+      process.env.FUSEKI_GRAPH_FIRE_STATION ||
+      'http://localhost:3030/graph/fire_station',
+
+    // Utilities
+    drinking_water:
+      process.env.FUSEKI_GRAPH_DRINKING_WATER ||
+      'http://localhost:3030/graph/drinking_water',
+    public_toilet:
+      process.env.FUSEKI_GRAPH_TOILETS ||
+      'http://localhost:3030/graph/public_toilet',
+    waste_basket:
+      process.env.FUSEKI_GRAPH_WASTE_BASKET ||
+      'http://localhost:3030/graph/waste_basket',
+  } satisfies Record<string, string>;
+}
+
+/**
+ * Type POI có Named Graph (khóa của getPoiGraphMap)
+ */
+export type PoiGraphType = keyof ReturnType<typeof getPoiGraphMap>;
@@ -0,0 +1,88 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { foldVietnamese, scoreMatch, TextIndex, tokenize } from './text-search';
+
+describe('text-search', () => {
+  it('folds Vietnamese diacritics and đ', () => {
+    expect(foldVietnamese('Hồ Hoàn Kiếm')).toBe('ho hoan kiem');
+    expect(foldVietnamese('Đường Điện Biên Phủ')).toBe('duong dien bien phu');
+    expect(tokenize('Chợ Đồng Xuân (Hà Nội)')).toEqual([
+      'cho',
+      'dong',
+      'xuan',
+      'ha',
+      'noi',
+    ]);
+  });
+
+  it('ranks exact, prefix and word matches', () => {
+    expect(scoreMatch('ho hoan kiem', 'Hồ Hoàn Kiếm')).toBe(100);
+    expect(scoreMatch('Hồ Hoàn Kiếm', 'Hồ Hoàn Kiếm')).toBe(100);
+    expect(scoreMatch('hoan kiem', 'Quận Hoàn Kiếm')).toBeGreaterThan(
+      scoreMatch('kiem hoan', 'Quận Hoàn Kiếm'),
+    );
+    expect(scoreMatch('ho tay', 'Hồ Hoàn Kiếm')).toBe(0);
+  });
+
+  describe('TextIndex', () => {
+    const names = [
+      'Hồ Hoàn Kiếm',
+      'Quận Hoàn Kiếm',
+      'Nhà hát Lớn Hà Nội',
+      'Hồ Tây',
+      'Bệnh viện Hoàn Mỹ',
+    ];
+    const index = new TextIndex(names, (name) => name);
+
+    it('matches folded queries and ranks the best first', () => {
+      expect(index.search('ho hoan kiem')[0]).toEqual({
+        doc: 'Hồ Hoàn Kiếm',
+        score: 100,
+      });
+      expect(index.search('hoan kiem').map((m) => m.doc)).toEqual([
+        'Hồ Hoàn Kiếm',
+        'Quận Hoàn Kiếm',
+      ]);
+    });
+
+    it('autocompletes on word prefixes', () => {
+      expect(index.search('hoa').map((m) => m.doc)).toEqual(
+        expect.arrayContaining([
+          'Hồ Hoàn Kiếm',
+          'Quận Hoàn Kiếm',
+          'Bệnh viện Hoàn Mỹ',
+        ]),
+      );
+      expect(index.search('ho t').map((m) => m.doc)).toEqual(['Hồ Tây']);
+    });
+
+    it('applies filter, boost and limit', () => {
+      const results = index.search('hoan', {
+        limit: 1,
+        filter: (name) => !name.startsWith('Quận'),
+        boost: (name) => (name.includes('Mỹ') ? 50 : 0),
+      });
+      expect(results.map((m) => m.doc)).toEqual(['Bệnh viện Hoàn Mỹ']);
+    });
+
+    it('returns nothing for empty queries', () => {
+      expect(index.search('  ')).toEqual([]);
+      expect(index.size).toBe(5);
+    });
+  });
+});
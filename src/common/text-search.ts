@@ -0,0 +1,164 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * In-process full-text index for short names (POI names, labels)
+ *
+ * Text is folded (lowercase, Vietnamese diacritics and đ removed) so that
+ * "ho hoan kiem" matches "Hồ Hoàn Kiếm". Every query token matches as a
+ * prefix of a name token, which gives autocomplete for free.
+ */
+
+export function foldVietnamese(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return foldVietnamese(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+export interface TextMatch<T> {
+  doc: T;
+  score: number;
+}
+
+interface IndexEntry<T> {
+  doc: T;
+  text: string;
+  tokens: string[];
+}
+
+/**
+ * Relevance of a name for a query, 0-100
+ *
+ * - 100: same folded text
+ * - 90: name starts with the query
+ * - 75: every query token is a whole word of the name, 60 if some only match as prefix
+ * - +10 when the tokens appear next to each other in query order
+ * - +5 when the name also contains the query with its diacritics
+ * - -2 per extra name token (max -10), so shorter names rank first
+ */
+export function scoreMatch(query: string, text: string): number {
+  const queryTokens = tokenize(query);
+  const tokens = tokenize(text);
+  if (queryTokens.length === 0) return 0;
+
+  const folded = tokens.join(' ');
+  const foldedQuery = queryTokens.join(' ');
+  if (!queryTokens.every((q) => tokens.some((token) => token.startsWith(q)))) {
+    return 0;
+  }
+
+  let score: number;
+  if (folded === foldedQuery) score = 100;
+  else if (folded.startsWith(foldedQuery)) score = 90;
+  else {
+    score = queryTokens.every((q) => tokens.includes(q)) ? 75 : 60;
+    if (` ${folded}`.includes(` ${foldedQuery}`)) score += 10;
+  }
+
+  const accented = query.normalize('NFC').toLowerCase().trim();
+  if (text.normalize('NFC').toLowerCase().includes(accented)) score += 5;
+  score -= Math.min(10, 2 * Math.max(0, tokens.length - queryTokens.length));
+  return Math.min(100, score);
+}
+
+export class TextIndex<T> {
+  private readonly entries: IndexEntry<T>[];
+  // Sorted distinct tokens, for prefix lookups by binary search
+  private readonly tokens: string[];
+  private readonly postings = new Map<string, number[]>();
+
+  constructor(docs: T[], textOf: (doc: T) => string) {
+    this.entries = docs.map((doc) => {
+      const text = textOf(doc);
+      return { doc, text, tokens: tokenize(text) };
+    });
+    this.entries.forEach((entry, i) => {
+      for (const token of new Set(entry.tokens)) {
+        const list = this.postings.get(token);
+        if (list) list.push(i);
+        else this.postings.set(token, [i]);
+      }
+    });
+    this.tokens = [...this.postings.keys()].sort();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Documents whose text contains every query token (as a word prefix), best first
+   *
+   * @param options.filter - skip documents before scoring
+   * @param options.boost - extra score per document, e.g. for proximity
+   */
+  search(
+    query: string,
+    options: {
+      limit?: number;
+      filter?: (doc: T) => boolean;
+      boost?: (doc: T) => number;
+    } = {},
+  ): TextMatch<T>[] {
+    const { limit = 20, filter, boost } = options;
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    // Intersect the documents of every token, rarest token first
+    const candidates = queryTokens
+      .map((token) => this.docsWithPrefix(token))
+      .sort((a, b) => a.size - b.size)
+      .reduce((acc, docs) => new Set([...acc].filter((i) => docs.has(i))));
+
+    const matches: (TextMatch<T> & { length: number })[] = [];
+    for (const i of candidates) {
+      const { doc, text } = this.entries[i];
+      if (filter && !filter(doc)) continue;
+      const score = scoreMatch(query, text) + (boost ? boost(doc) : 0);
+      if (score > 0) matches.push({ doc, score, length: text.length });
+    }
+    return matches
+      .sort((a, b) => b.score - a.score || a.length - b.length)
+      .slice(0, limit)
+      .map(({ doc, score }) => ({ doc, score }));
+  }
+
+  private docsWithPrefix(prefix: string): Set<number> {
+    let lo = 0;
+    let hi = this.tokens.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.tokens[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    const docs = new Set<number>();
+    for (let i = lo; i < this.tokens.length; i++) {
+      if (!this.tokens[i].startsWith(prefix)) break;
+      for (const doc of this.postings.get(this.tokens[i])!) docs.add(doc);
+    }
+    return docs;
+  }
+}
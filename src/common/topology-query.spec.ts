@@ -0,0 +1,119 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { compileTopologyQuery, parseTopologyQuery } from './topology-query';
+
+describe('topology-query', () => {
+  const options = {
+    topologyGraph: 'http://g/topology',
+    graphOf: (type: string) =>
+      ['park', 'playground', 'fuel_station'].includes(type)
+        ? `http://g/${type}`
+        : undefined,
+  };
+
+  it('parses JSON strings and normalizes types', () => {
+    expect(
+      parseTopologyQuery(
+        '{"type":"Cafe","where":[{"relation":"isNextTo","type":"PARK","where":[]}]}',
+      ),
+    ).toEqual({
+      type: 'cafe',
+      where: [{ relation: 'isNextTo', type: 'park' }],
+    });
+  });
+
+  it.each([
+    [{ where: [{ relation: 'isNextTo' }] }, 'Missing target type'],
+    [{ type: 'cafe', where: [] }, 'at least one step'],
+    [{ type: 'cafe', where: [{ relation: 'above' }] }, 'where[0].relation'],
+    [{ type: 'cafe', where: [{ relation: 'near', type: 'a b' }] }, 'POI type'],
+    [
+      {
+        type: 'cafe',
+        where: [
+          {
+            relation: 'near',
+            where: [
+              {
+                relation: 'near',
+                where: [{ relation: 'near', where: [{ relation: 'near' }] }],
+              },
+            ],
+          },
+        ],
+      },
+      'deeper than 3 hops',
+    ],
+  ])('rejects %j', (query, message) => {
+    expect(() => parseTopologyQuery(query)).toThrow(message);
+  });
+
+  it('compiles chains into nested patterns with bindings', () => {
+    const { pattern, bindings } = compileTopologyQuery(
+      parseTopologyQuery({
+        type: 'cafe',
+        where: [
+          {
+            relation: 'isNextTo',
+            type: 'park',
+            where: [{ relation: 'contains', type: 'playground' }],
+          },
+        ],
+      }),
+      options,
+    );
+    expect(pattern).toContain(
+      'GRAPH <http://g/topology> { ?poi (schema:isNextTo|^schema:isNextTo) ?r1 . }',
+    );
+    expect(pattern).toContain(
+      'GRAPH <http://g/topology> { ?r1 ^schema:containedInPlace ?r2 . }',
+    );
+    expect(pattern).toContain('GRAPH <http://g/playground> { ?r2 ');
+    expect(bindings).toEqual([
+      { variable: 'r1', parent: 'poi', relation: 'isNextTo', type: 'park' },
+      {
+        variable: 'r2',
+        parent: 'r1',
+        relation: 'contains',
+        type: 'playground',
+      },
+    ]);
+  });
+
+  it('compiles negated steps to FILTER NOT EXISTS without bindings', () => {
+    const { pattern, bindings } = compileTopologyQuery(
+      parseTopologyQuery({
+        type: 'school',
+        where: [{ relation: 'isNextTo', type: 'fuel_station', negate: true }],
+      }),
+      options,
+    );
+    expect(pattern.startsWith('FILTER NOT EXISTS {')).toBe(true);
+    expect(pattern).toContain('GRAPH <http://g/fuel_station>');
+    expect(bindings).toEqual([]);
+  });
+
+  it('rejects unknown types when compiling', () => {
+    expect(() =>
+      compileTopologyQuery(
+        { type: 'cafe', where: [{ relation: 'near', type: 'castle' }] },
+        options,
+      ),
+    ).toThrow('Unknown POI type "castle"');
+  });
+});
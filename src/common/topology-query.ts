@@ -0,0 +1,206 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Multi-hop topology queries compiled to SPARQL
+ *
+ * A query is a target type plus a tree of relation steps, e.g. "cafes next to
+ * a park that contains a playground":
+ *
+ *   { type: 'cafe', where: [{ relation: 'isNextTo', type: 'park',
+ *     where: [{ relation: 'contains', type: 'playground' }] }] }
+ *
+ * and "schools NOT next to a fuel station":
+ *
+ *   { type: 'school', where: [{ relation: 'isNextTo', type: 'fuel_station', negate: true }] }
+ *
+ * Sibling steps are AND-ed. Each step becomes a property path over the
+ * topology graph, negated steps a FILTER NOT EXISTS.
+ */
+
+export const TOPOLOGY_QUERY_RELATIONS = {
+  // Either direction, as the triples may be stored one way only
+  isNextTo: '(schema:isNextTo|^schema:isNextTo)',
+  containedInPlace: 'schema:containedInPlace',
+  contains: '^schema:containedInPlace',
+  amenityFeature: 'schema:amenityFeature',
+  amenityOf: '^schema:amenityFeature',
+  // "gần": next to or inside one another
+  near: '(schema:isNextTo|^schema:isNextTo|schema:containedInPlace|^schema:containedInPlace)',
+} as const;
+
+export type TopologyQueryRelation = keyof typeof TOPOLOGY_QUERY_RELATIONS;
+
+export interface TopologyQueryStep {
+  relation: TopologyQueryRelation;
+  type?: string;
+  negate?: boolean;
+  where?: TopologyQueryStep[];
+}
+
+export interface TopologyQuery {
+  type: string;
+  where: TopologyQueryStep[];
+}
+
+/**
+ * A related POI bound by a positive step, for explaining matches
+ */
+export interface TopologyQueryBinding {
+  variable: string;
+  parent: string;
+  relation: TopologyQueryRelation;
+  type: string | null;
+}
+
+export const TOPOLOGY_QUERY_MAX_DEPTH = 3;
+export const TOPOLOGY_QUERY_MAX_STEPS = 8;
+
+/**
+ * Validate a query given as an object or a JSON string (tool arguments,
+ * query string parameters)
+ *
+ * @throws Error describing the first invalid part
+ */
+export function parseTopologyQuery(input: unknown): TopologyQuery {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('Topology query is not valid JSON');
+    }
+  }
+  if (!isObject(value)) {
+    throw new Error('Topology query must be an object');
+  }
+  const type = normalizeType(value.type, 'type');
+  if (!type) throw new Error('Missing target type');
+
+  let steps = 0;
+  const parseSteps = (raw: unknown, path: string, depth: number) => {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) throw new Error(`${path} must be an array`);
+    if (raw.length > 0 && depth > TOPOLOGY_QUERY_MAX_DEPTH) {
+      throw new Error(
+        `Topology query is deeper than ${TOPOLOGY_QUERY_MAX_DEPTH} hops`,
+      );
+    }
+    return raw.map((item, i): TopologyQueryStep => {
+      const at = `${path}[${i}]`;
+      if (!isObject(item)) throw new Error(`${at} must be an object`);
+      if (++steps > TOPOLOGY_QUERY_MAX_STEPS) {
+        throw new Error(
+          `Topology query has more than ${TOPOLOGY_QUERY_MAX_STEPS} steps`,
+        );
+      }
+      const relation = item.relation;
+      if (
+        typeof relation !== 'string' ||
+        !Object.hasOwn(TOPOLOGY_QUERY_RELATIONS, relation)
+      ) {
+        throw new Error(
+          `${at}.relation must be one of ${Object.keys(TOPOLOGY_QUERY_RELATIONS).join(', ')}`,
+        );
+      }
+      const step: TopologyQueryStep = {
+        relation: relation as TopologyQueryRelation,
+      };
+      const stepType = normalizeType(item.type, `${at}.type`);
+      if (stepType) step.type = stepType;
+      if (item.negate === true) step.negate = true;
+      const where = parseSteps(item.where, `${at}.where`, depth + 1);
+      if (where.length > 0) step.where = where;
+      return step;
+    });
+  };
+
+  const where = parseSteps(value.where, 'where', 1);
+  if (where.length === 0) {
+    throw new Error('Topology query needs at least one step in where');
+  }
+  return { type, where };
+}
+
+/**
+ * Compile the steps of a query into a SPARQL group pattern over ?poi
+ *
+ * @param graphOf - named graph holding the POIs of a type, undefined if unknown
+ * @throws Error if a step uses an unknown type
+ */
+export function compileTopologyQuery(
+  query: TopologyQuery,
+  options: {
+    topologyGraph: string;
+    graphOf: (type: string) => string | undefined;
+  },
+): { pattern: string; bindings: TopologyQueryBinding[] } {
+  const bindings: TopologyQueryBinding[] = [];
+  let counter = 0;
+
+  const compileStep = (
+    step: TopologyQueryStep,
+    parent: string,
+    collect: boolean,
+  ): string => {
+    const variable = `r${++counter}`;
+    const lines = [
+      `GRAPH <${options.topologyGraph}> { ?${parent} ${TOPOLOGY_QUERY_RELATIONS[step.relation]} ?${variable} . }`,
+      `FILTER(?${variable} != ?${parent})`,
+    ];
+    if (step.type) {
+      const graph = options.graphOf(step.type);
+      if (!graph) throw new Error(`Unknown POI type "${step.type}"`);
+      lines.push(
+        `GRAPH <${graph}> { ?${variable} <http://www.opengis.net/ont/geosparql#asWKT> ?${variable}Wkt . }`,
+      );
+    }
+
+    const positive = collect && !step.negate;
+    if (positive) {
+      bindings.push({
+        variable,
+        parent,
+        relation: step.relation,
+        type: step.type ?? null,
+      });
+    }
+    for (const child of step.where ?? []) {
+      lines.push(compileStep(child, variable, positive));
+    }
+
+    const body = lines.join('\n');
+    return step.negate ? `FILTER NOT EXISTS {\n${body}\n}` : body;
+  };
+
+  const pattern = query.where
+    .map((step) => compileStep(step, 'poi', true))
+    .join('\n');
+  return { pattern, bindings };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeType(value: unknown, path: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !/^[\w-]+$/.test(value.trim())) {
+    throw new Error(`${path} must be a POI type such as "park"`);
+  }
+  return value.trim().toLowerCase();
+}
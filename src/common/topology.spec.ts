@@ -0,0 +1,120 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  DEFAULT_TOPOLOGY_RULES,
+  TopologyPoi,
+  computeTopology,
+  diffTopology,
+  nextToThreshold,
+  relationKey,
+} from './topology';
+import { getPoiGraphMap } from './poi-graphs';
+
+describe('topology', () => {
+  const point = (poi: string, type: string, lon: number, lat: number) => ({
+    poi,
+    type,
+    geometry: { type: 'Point', coordinates: [lon, lat] },
+  });
+  // Park of about 330 x 330 m
+  const park: TopologyPoi = {
+    poi: 'park',
+    type: 'park',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [105.85, 21.03],
+          [105.853, 21.03],
+          [105.853, 21.033],
+          [105.85, 21.033],
+          [105.85, 21.03],
+        ],
+      ],
+    },
+  };
+  const pois = [
+    park,
+    point('toilets', 'public_toilet', 105.851, 21.031),
+    point('atm', 'atm', 105.852, 21.032),
+    // 55 m east of the park edge
+    point('cafe', 'cafe', 105.8535, 21.0315),
+    // 60 m from the cafe
+    point('bank', 'bank', 105.8535, 21.03204),
+    point('far', 'cafe', 105.87, 21.05),
+  ];
+  const keys = (rules = DEFAULT_TOPOLOGY_RULES) =>
+    computeTopology(pois, rules).map(relationKey).sort();
+
+  it('links contained POIs, amenities and neighbours', () => {
+    expect(keys()).toEqual(
+      [
+        'atm containedInPlace park',
+        'bank isNextTo cafe',
+        'bank isNextTo park',
+        'cafe isNextTo bank',
+        'cafe isNextTo park',
+        'park amenityFeature toilets',
+        'park isNextTo bank',
+        'park isNextTo cafe',
+        'toilets containedInPlace park',
+      ].sort(),
+    );
+  });
+
+  it('names only POI types that have a graph in the default rules', () => {
+    const graphTypes = Object.keys(getPoiGraphMap());
+    const { nextToMeters, amenityFeatures } = DEFAULT_TOPOLOGY_RULES;
+    const ruleTypes = [
+      ...Object.keys(nextToMeters).flatMap((pair) => pair.split('|')),
+      ...Object.entries(amenityFeatures).flat(2),
+    ];
+    expect(ruleTypes.filter((t) => !graphTypes.includes(t))).toEqual([]);
+  });
+
+  it('applies thresholds per type pair in either order', () => {
+    const rules = {
+      ...DEFAULT_TOPOLOGY_RULES,
+      nextToMeters: { 'cafe|bank': 30, 'park|cafe': 0 },
+    };
+    expect(nextToThreshold(rules, 'bank', 'cafe')).toBe(30);
+    expect(keys(rules)).not.toContain('cafe isNextTo bank');
+    expect(keys(rules)).not.toContain('cafe isNextTo park');
+    expect(keys(rules)).toContain('bank isNextTo park');
+  });
+
+  it('computes only the relations of the given POIs', () => {
+    const only = computeTopology(
+      pois,
+      DEFAULT_TOPOLOGY_RULES,
+      new Set(['atm']),
+    );
+    expect(only.map(relationKey)).toEqual(['atm containedInPlace park']);
+  });
+
+  it('diffs current and target relations', () => {
+    const a = { subject: 'a', predicate: 'isNextTo' as const, object: 'b' };
+    const b = { subject: 'b', predicate: 'isNextTo' as const, object: 'a' };
+    const c = {
+      subject: 'c',
+      predicate: 'containedInPlace' as const,
+      object: 'a',
+    };
+    expect(diffTopology([a, b], [b, c])).toEqual({ added: [c], removed: [a] });
+  });
+});
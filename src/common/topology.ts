@@ -0,0 +1,243 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Topology relations between POIs (the triples of FUSEKI_GRAPH_TOPOLOGY)
+ *
+ * - isNextTo: two POIs closer than the threshold of their type pair, stored in
+ *   both directions
+ * - containedInPlace: a POI lies inside the area geometry of another POI
+ * - amenityFeature: a contained POI is an amenity of its container, for the
+ *   container types listed in TopologyRules.amenityFeatures
+ */
+
+import {
+  GeoJsonGeometry,
+  Position,
+  distanceToGeometryMeters,
+  expandBBox,
+  getBBox,
+  pointInArea,
+  toAreaPolygons,
+} from './geo-utils';
+import { PoiGraphType } from './poi-graphs';
+
+export const TOPOLOGY_PREDICATES = [
+  'isNextTo',
+  'containedInPlace',
+  'amenityFeature',
+] as const;
+
+export type TopologyPredicate = (typeof TOPOLOGY_PREDICATES)[number];
+
+export interface TopologyPoi {
+  poi: string;
+  type: string;
+  geometry: GeoJsonGeometry;
+}
+
+export interface TopologyRelation {
+  subject: string;
+  predicate: TopologyPredicate;
+  object: string;
+}
+
+export interface TopologyRules {
+  // isNextTo threshold (meters) for type pairs without their own threshold
+  defaultNextToMeters: number;
+  // Thresholds per type pair, keyed "typeA|typeB" (order does not matter)
+  nextToMeters: Record<string, number>;
+  // Container type -> types of contained POIs that are its amenities
+  amenityFeatures: Record<string, string[]>;
+}
+
+// Default rules only name POI types that have a graph (getPoiGraphMap)
+export const DEFAULT_TOPOLOGY_RULES: TopologyRules = {
+  defaultNextToMeters: 100,
+  nextToMeters: {
+    'bus_stop|school': 200,
+    'bus_stop|hospital': 200,
+    'bus_stop|university': 200,
+    'parking|hospital': 200,
+    'charging_station|restaurant': 300,
+    'charging_station|cafe': 300,
+    'waste_basket|waste_basket': 0,
+    'bus_stop|bus_stop': 0,
+  } satisfies Partial<Record<`${PoiGraphType}|${PoiGraphType}`, number>>,
+  amenityFeatures: {
+    park: ['public_toilet', 'drinking_water', 'playground', 'waste_basket'],
+    hospital: ['parking', 'pharmacy', 'atm', 'public_toilet'],
+    university: ['library', 'parking', 'atm', 'cafe'],
+    school: ['playground', 'parking', 'drinking_water'],
+    marketplace: ['atm', 'public_toilet', 'parking'],
+    fuel_station: ['atm', 'convenience_store', 'public_toilet'],
+  } satisfies Partial<Record<PoiGraphType, PoiGraphType[]>>,
+};
+
+export function relationKey(r: TopologyRelation): string {
+  return `${r.subject} ${r.predicate} ${r.object}`;
+}
+
+/**
+ * isNextTo threshold of a type pair, 0 disables the relation
+ */
+export function nextToThreshold(
+  rules: TopologyRules,
+  a: string,
+  b: string,
+): number {
+  return (
+    rules.nextToMeters[`${a}|${b}`] ??
+    rules.nextToMeters[`${b}|${a}`] ??
+    rules.defaultNextToMeters
+  );
+}
+
+interface PreparedPoi extends TopologyPoi {
+  point: Position;
+  area: Position[][][] | null;
+}
+
+// Centre of the bounding box, the POI itself for points
+function representativePoint(geometry: GeoJsonGeometry): Position {
+  if (geometry.type === 'Point') return geometry.coordinates as Position;
+  const [minLon, minLat, maxLon, maxLat] = getBBox(geometry);
+  return [(minLon + maxLon) / 2, (minLat + maxLat) / 2];
+}
+
+function prepare(poi: TopologyPoi): PreparedPoi {
+  let area: Position[][][] | null = null;
+  if (poi.geometry.type !== 'Point' && poi.geometry.type !== 'MultiPoint') {
+    try {
+      area = toAreaPolygons(poi.geometry);
+    } catch {
+      area = null; // open line
+    }
+  }
+  return { ...poi, point: representativePoint(poi.geometry), area };
+}
+
+/**
+ * Compute the topology relations of a set of POIs
+ *
+ * @param only - compute only the relations involving these POIs (incremental update)
+ */
+export function computeTopology(
+  pois: TopologyPoi[],
+  rules: TopologyRules = DEFAULT_TOPOLOGY_RULES,
+  only?: Set<string>,
+): TopologyRelation[] {
+  const prepared = pois.map(prepare);
+  const maxThreshold = Math.max(
+    rules.defaultNextToMeters,
+    ...Object.values(rules.nextToMeters),
+  );
+
+  // Spatial grid (cell size >= max threshold), areas go in every cell of their bbox
+  const cellDeg = Math.max(maxThreshold / 111320, 0.0005);
+  const cellsOf = (bbox: number[]) => {
+    const keys: string[] = [];
+    const [x0, y0, x1, y1] = bbox.map((v) => Math.floor(v / cellDeg));
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) keys.push(`${x},${y}`);
+    }
+    return keys;
+  };
+  const grid = new Map<string, number[]>();
+  prepared.forEach((poi, i) => {
+    for (const key of cellsOf(getBBox(poi.geometry))) {
+      const cell = grid.get(key);
+      if (cell) cell.push(i);
+      else grid.set(key, [i]);
+    }
+  });
+  const near = (bbox: number[]) => {
+    const found = new Set<number>();
+    for (const key of cellsOf(bbox)) {
+      for (const i of grid.get(key) ?? []) found.add(i);
+    }
+    return found;
+  };
+
+  const relations = new Map<string, TopologyRelation>();
+  const add = (
+    subject: string,
+    predicate: TopologyPredicate,
+    object: string,
+  ) => {
+    const relation = { subject, predicate, object };
+    relations.set(relationKey(relation), relation);
+  };
+
+  // Containment first, so that contained pairs are not also isNextTo
+  prepared.forEach((a, i) => {
+    if (a.area) {
+      for (const j of near(getBBox(a.geometry))) {
+        const b = prepared[j];
+        if (j === i || b.poi === a.poi) continue;
+        if (only && !only.has(a.poi) && !only.has(b.poi)) continue;
+        if (!pointInArea(b.point, a.area)) continue;
+        add(b.poi, 'containedInPlace', a.poi);
+        if (rules.amenityFeatures[a.type]?.includes(b.type)) {
+          add(a.poi, 'amenityFeature', b.poi);
+        }
+      }
+    }
+  });
+
+  prepared.forEach((a, i) => {
+    const bbox = expandBBox(getBBox(a.geometry), maxThreshold);
+    for (const j of near(bbox)) {
+      if (j <= i) continue;
+      const b = prepared[j];
+      if (b.poi === a.poi) continue;
+      if (only && !only.has(a.poi) && !only.has(b.poi)) continue;
+      const threshold = nextToThreshold(rules, a.type, b.type);
+      if (threshold <= 0) continue;
+      const meters = Math.min(
+        distanceToGeometryMeters(a.point, b.geometry),
+        distanceToGeometryMeters(b.point, a.geometry),
+      );
+      if (meters > threshold) continue;
+      if (
+        relations.has(`${a.poi} containedInPlace ${b.poi}`) ||
+        relations.has(`${b.poi} containedInPlace ${a.poi}`)
+      ) {
+        continue;
+      }
+      add(a.poi, 'isNextTo', b.poi);
+      add(b.poi, 'isNextTo', a.poi);
+    }
+  });
+
+  return [...relations.values()];
+}
+
+/**
+ * Relations to insert and delete to turn current into target
+ */
+export function diffTopology(
+  current: TopologyRelation[],
+  target: TopologyRelation[],
+): { added: TopologyRelation[]; removed: TopologyRelation[] } {
+  const currentKeys = new Set(current.map(relationKey));
+  const targetKeys = new Set(target.map(relationKey));
+  return {
+    added: target.filter((r) => !currentKeys.has(relationKey(r))),
+    removed: current.filter((r) => !targetKeys.has(relationKey(r))),
+  };
+}
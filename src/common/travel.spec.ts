@@ -0,0 +1,109 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  estimateTravelMinutes,
+  parseTravelMode,
+  reachableDistanceKm,
+  RoadGraph,
+  RoadWay,
+} from './travel';
+
+describe('travel', () => {
+  it('converts time budgets to distances and back', () => {
+    const km = reachableDistanceKm('walking', 10);
+    expect(km).toBeCloseTo(0.615, 3);
+    expect(estimateTravelMinutes('walking', km)).toBeCloseTo(10);
+    expect(estimateTravelMinutes('driving', 2.5, true)).toBeCloseTo(6);
+  });
+
+  it('parses travel modes', () => {
+    expect(parseTravelMode(' Walking ')).toBe('walking');
+    expect(() => parseTravelMode('flying')).toThrow('Unknown travel mode');
+  });
+
+  describe('RoadGraph', () => {
+    // An L-shaped street (≈ 222 m per leg), a oneway shortcut and a footway
+    const way = (
+      points: [number, number][],
+      tags: Record<string, string>,
+    ): RoadWay => ({
+      geometry: points.map(([lon, lat]) => ({ lon, lat })),
+      tags,
+    });
+    const ways = [
+      way(
+        [
+          [105.85, 21.03],
+          [105.85, 21.032],
+          [105.852, 21.032],
+        ],
+        { highway: 'residential' },
+      ),
+      way(
+        [
+          [105.852, 21.032],
+          [105.85, 21.03],
+        ],
+        { highway: 'residential', oneway: 'yes' },
+      ),
+      way(
+        [
+          [105.852, 21.032],
+          [105.854, 21.032],
+        ],
+        { highway: 'footway' },
+      ),
+    ];
+
+    it('follows oneway streets when driving', () => {
+      const graph = new RoadGraph(ways, 'driving');
+      const [forward] = graph.distancesFrom(
+        [105.85, 21.03],
+        [[105.852, 21.032]],
+      );
+      const [back] = graph.distancesFrom([105.852, 21.032], [[105.85, 21.03]]);
+      expect(forward).toBeGreaterThan(400);
+      expect(back).toBeLessThan(350);
+    });
+
+    it('uses footways only when walking', () => {
+      const target: [number, number] = [105.854, 21.032];
+      expect(
+        new RoadGraph(ways, 'walking').distancesFrom(
+          [105.85, 21.03],
+          [target],
+        )[0],
+      ).toBeGreaterThan(0);
+      // The footway is not driveable, the detour by road exceeds 300 m
+      expect(
+        new RoadGraph(ways, 'driving').distancesFrom(
+          [105.85, 21.03],
+          [target],
+          300,
+        )[0],
+      ).toBe(Infinity);
+    });
+
+    it('returns null for points off the network', () => {
+      const graph = new RoadGraph(ways, 'walking');
+      expect(graph.distancesFrom([105.9, 21.1], [[105.85, 21.03]])).toEqual([
+        null,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Travel time estimates for time-budget searches ("pharmacies within 10
+ * minutes' walk")
+ *
+ * Without a road network the reachable distance is the straight-line distance
+ * covered at the mode speed, shortened by a detour factor. With a RoadGraph
+ * loaded (built from Overpass highway ways) shortest network distances are
+ * used instead.
+ */
+
+import { haversineMeters, Position } from './geo-utils';
+
+export const TRAVEL_MODES = ['walking', 'cycling', 'driving'] as const;
+
+export type TravelMode = (typeof TRAVEL_MODES)[number];
+
+// Average urban speeds (km/h), driving includes traffic lights and congestion
+export const TRAVEL_SPEEDS_KMH: Record<TravelMode, number> = {
+  walking: 4.8,
+  cycling: 14,
+  driving: 25,
+};
+
+// Ratio of road distance to straight-line distance in a dense street grid
+export const DETOUR_FACTOR = 1.3;
+
+// Points farther than this from the nearest road node are not routed
+const MAX_SNAP_METERS = 500;
+
+/**
+ * @throws Error if the value is not a known travel mode
+ */
+export function parseTravelMode(value: string): TravelMode {
+  const mode = value.trim().toLowerCase();
+  if (!(TRAVEL_MODES as readonly string[]).includes(mode)) {
+    throw new Error(
+      `Unknown travel mode "${value}", expected one of ${TRAVEL_MODES.join(', ')}`,
+    );
+  }
+  return mode as TravelMode;
+}
+
+/**
+ * Straight-line radius (km) reachable within the time budget
+ */
+export function reachableDistanceKm(
+  mode: TravelMode,
+  maxMinutes: number,
+): number {
+  return (TRAVEL_SPEEDS_KMH[mode] * maxMinutes) / 60 / DETOUR_FACTOR;
+}
+
+/**
+ * Travel time in minutes for a distance
+ *
+ * @param network - distanceKm is already a road distance (no detour factor)
+ */
+export function estimateTravelMinutes(
+  mode: TravelMode,
+  distanceKm: number,
+  network = false,
+): number {
+  const roadKm = network ? distanceKm : distanceKm * DETOUR_FACTOR;
+  return (roadKm / TRAVEL_SPEEDS_KMH[mode]) * 60;
+}
+
+/**
+ * OSM way as returned by Overpass with `out geom`
+ */
+export interface RoadWay {
+  geometry?: { lat: number; lon: number }[];
+  tags?: Record<string, string>;
+}
+
+const NO_WALKING = new Set([
+  'motorway',
+  'motorway_link',
+  'trunk',
+  'trunk_link',
+]);
+const NO_DRIVING = new Set([
+  'footway',
+  'path',
+  'pedestrian',
+  'steps',
+  'cycleway',
+  'bridleway',
+  'corridor',
+]);
+
+function allowsMode(tags: Record<string, string>, mode: TravelMode): boolean {
+  const highway = tags.highway;
+  if (!highway || tags.area === 'yes') return false;
+  if (mode === 'driving') {
+    return !NO_DRIVING.has(highway) && tags.motor_vehicle !== 'no';
+  }
+  if (NO_WALKING.has(highway)) return false;
+  if (mode === 'cycling') return highway !== 'steps' && tags.bicycle !== 'no';
+  return tags.foot !== 'no';
+}
+
+// Grid cell size (degrees) of the nearest node lookup, about 500 m
+const GRID_CELL = 0.005;
+
+/**
+ * Road network of one travel mode; nodes are identified by their coordinates
+ * so ways sharing a vertex are connected
+ */
+export class RoadGraph {
+  private readonly positions: Position[] = [];
+  private readonly edges: { to: number; meters: number }[][] = [];
+  private readonly nodeIds = new Map<string, number>();
+  private readonly grid = new Map<string, number[]>();
+
+  constructor(
+    ways: RoadWay[],
+    readonly mode: TravelMode,
+  ) {
+    for (const way of ways) {
+      if (!way.geometry || way.geometry.length < 2) continue;
+      const tags = way.tags ?? {};
+      if (!allowsMode(tags, mode)) continue;
+
+      // Oneway restrictions only apply to motor vehicles
+      const oneway =
+        mode === 'driving'
+          ? tags.oneway === 'yes' || tags.junction === 'roundabout'
+            ? 1
+            : tags.oneway === '-1'
+              ? -1
+              : 0
+          : 0;
+      const nodes = way.geometry.map((p) => this.nodeAt([p.lon, p.lat]));
+      for (let i = 1; i < nodes.length; i++) {
+        const meters = haversineMeters(
+          this.positions[nodes[i - 1]],
+          this.positions[nodes[i]],
+        );
+        if (oneway >= 0)
+          this.edges[nodes[i - 1]].push({ to: nodes[i], meters });
+        if (oneway <= 0)
+          this.edges[nodes[i]].push({ to: nodes[i - 1], meters });
+      }
+    }
+  }
+
+  get nodeCount(): number {
+    return this.positions.length;
+  }
+
+  /**
+   * Shortest road distance (meters) from origin to every target
+   *
+   * The walk from/to the nearest road node is included. Targets that cannot be
+   * reached within maxMeters are Infinity; null means origin or target is off
+   * the network (no road node within 500 m).
+   */
+  distancesFrom(
+    origin: Position,
+    targets: Position[],
+    maxMeters = Infinity,
+  ): (number | null)[] {
+    const start = this.nearestNode(origin);
+    if (!start) return targets.map(() => null);
+
+    const dist = this.dijkstra(start.node, maxMeters - start.meters);
+    return targets.map((target) => {
+      const end = this.nearestNode(target);
+      if (!end) return null;
+      const road = dist.get(end.node);
+      if (road === undefined) return Infinity;
+      const total = start.meters + road + end.meters;
+      return total <= maxMeters ? total : Infinity;
+    });
+  }
+
+  private nodeAt(position: Position): number {
+    const key = `${position[0].toFixed(7)},${position[1].toFixed(7)}`;
+    let id = this.nodeIds.get(key);
+    if (id === undefined) {
+      id = this.positions.length;
+      this.nodeIds.set(key, id);
+      this.positions.push(position);
+      this.edges.push([]);
+      const cell = this.cellKey(position, 0, 0);
+      const list = this.grid.get(cell);
+      if (list) list.push(id);
+      else this.grid.set(cell, [id]);
+    }
+    return id;
+  }
+
+  private cellKey(position: Position, dx: number, dy: number): string {
+    return `${Math.floor(position[0] / GRID_CELL) + dx},${Math.floor(position[1] / GRID_CELL) + dy}`;
+  }
+
+  private nearestNode(
+    position: Position,
+  ): { node: number; meters: number } | null {
+    let best: { node: number; meters: number } | null = null;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const node of this.grid.get(this.cellKey(position, dx, dy)) ??
+          []) {
+          const meters = haversineMeters(position, this.positions[node]);
+          if (!best || meters < best.meters) best = { node, meters };
+        }
+      }
+    }
+    return best && best.meters <= MAX_SNAP_METERS ? best : null;
+  }
+
+  private dijkstra(source: number, maxMeters: number): Map<number, number> {
+    const dist = new Map<number, number>([[source, 0]]);
+    if (maxMeters < 0) return new Map();
+    // Binary heap of [distance, node]
+    const heap: [number, number][] = [[0, source]];
+    const push = (item: [number, number]) => {
+      heap.push(item);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent][0] <= heap[i][0]) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = (): [number, number] => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let min = i;
+          if (l < heap.length && heap[l][0] < heap[min][0]) min = l;
+          if (r < heap.length && heap[r][0] < heap[min][0]) min = r;
+          if (min === i) break;
+          [heap[min], heap[i]] = [heap[i], heap[min]];
+          i = min;
+        }
+      }
+      return top;
+    };
+
+    while (heap.length > 0) {
+      const [d, node] = pop();
+      if (d > (dist.get(node) ?? Infinity)) continue;
+      for (const { to, meters } of this.edges[node]) {
+        const next = d + meters;
+        if (next > maxMeters || next >= (dist.get(to) ?? Infinity)) continue;
+        dist.set(to, next);
+        push([next, to]);
+      }
+    }
+    return dist;
+  }
+}
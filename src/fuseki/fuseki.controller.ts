@@ -24,13 +24,21 @@ import {
   Body,
   BadRequestException,
   Query,
+  Req,
+  Res,
 } from '@nestjs/common';
+import type { Request, Response } from 'express';
 import { FusekiService } from './fuseki.service';
+import { PoiTextIndexService } from './poi-text-index.service';
+import { setPaginationHeaders } from '../common/pagination';
 import { SparqlQueryDto } from './dto/SparqlQueryDto';
 
 @Controller('fuseki')
 export class FusekiController {
-  constructor(private readonly fusekiService: FusekiService) {}
+  constructor(
+    private readonly fusekiService: FusekiService,
+    private readonly poiTextIndexService: PoiTextIndexService,
+  ) {}
 
   @Post('query')
   async runQuery(@Body('query') query?: SparqlQueryDto['query']) {
@@ -50,18 +58,27 @@ export class FusekiController {
 
   @Get('nearby')
   async searchNearby(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
     @Query('lon') lon?: string,
     @Query('lat') lat?: string,
     @Query('radiusKm') radiusKm?: string,
+    @Query('travelMode') travelMode?: string,
+    @Query('maxMinutes') maxMinutes?: string,
     @Query('types') types?: string,
     @Query('includeTopology') includeTopology?: string,
     @Query('includeIoT') includeIoT?: string,
     @Query('limit') limit?: string,
     @Query('language') language?: string,
+    @Query('cursor') cursor?: string,
+    @Query('count') count?: string,
+    @Query('estimateMissing') estimateMissing?: string,
   ) {
     try {
-      if (!lon || !lat || !radiusKm) {
-        throw new BadRequestException('lon, lat, radiusKm bắt buộc');
+      if (!lon || !lat || (!radiusKm && !maxMinutes)) {
+        throw new BadRequestException(
+          'lon, lat và radiusKm (hoặc maxMinutes) bắt buộc',
+        );
       }
 
       const typesArray = types
@@ -74,13 +91,19 @@ export class FusekiController {
       const data = await this.fusekiService.searchNearby({
         lon: parseFloat(lon),
         lat: parseFloat(lat),
-        radiusKm: parseFloat(radiusKm),
+        radiusKm: radiusKm ? parseFloat(radiusKm) : undefined,
+        travelMode,
+        maxMinutes: maxMinutes ? parseFloat(maxMinutes) : undefined,
         types: typesArray,
-        includeTopology: includeTopology === 'true',
+        includeTopology: includeTopology !== 'false',
         includeIoT: includeIoT === 'true',
         limit: limit ? parseInt(limit, 10) : 50,
         language: language || 'vi',
+        cursor,
+        count: count === 'true',
+        estimateMissing: estimateMissing === 'true',
       });
+      setPaginationHeaders(req, res, data);
       return data;
     } catch (e: any) {
       throw new HttpException(
@@ -90,11 +113,258 @@ export class FusekiController {
     }
   }
 
+  @Get('nearest')
+  async searchNearest(
+    @Query('lon') lon?: string,
+    @Query('lat') lat?: string,
+    @Query('k') k?: string,
+    @Query('types') types?: string,
+    @Query('maxDistanceKm') maxDistanceKm?: string,
+    @Query('includeTopology') includeTopology?: string,
+    @Query('includeIoT') includeIoT?: string,
+    @Query('minAqi') minAqi?: string,
+    @Query('maxAqi') maxAqi?: string,
+    @Query('estimateMissing') estimateMissing?: string,
+    @Query('language') language?: string,
+  ) {
+    try {
+      if (!lon || !lat) {
+        throw new BadRequestException('lon, lat bắt buộc');
+      }
+
+      const typesArray = types
+        ? types
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean)
+        : undefined;
+
+      const data = await this.fusekiService.searchNearest({
+        lon: parseFloat(lon),
+        lat: parseFloat(lat),
+        k: k ? parseInt(k, 10) : 5,
+        types: typesArray,
+        maxDistanceKm: maxDistanceKm ? parseFloat(maxDistanceKm) : 20,
+        includeTopology: includeTopology !== 'false',
+        includeIoT: includeIoT === 'true',
+        minAqi: minAqi ? parseFloat(minAqi) : undefined,
+        maxAqi: maxAqi ? parseFloat(maxAqi) : undefined,
+        estimateMissing: estimateMissing === 'true',
+        language: language || 'vi',
+      });
+      return data;
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Search nearest query failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  @Get('search')
+  async searchPoisByName(
+    @Query('q') q?: string,
+    @Query('types') types?: string,
+    @Query('lon') lon?: string,
+    @Query('lat') lat?: string,
+    @Query('limit') limit?: string,
+  ) {
+    try {
+      if (!q || !q.trim()) {
+        throw new BadRequestException('q bắt buộc');
+      }
+
+      const typesArray = types
+        ? types
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean)
+        : undefined;
+
+      return await this.poiTextIndexService.searchPoisByName({
+        query: q,
+        types: typesArray,
+        lon: lon ? parseFloat(lon) : undefined,
+        lat: lat ? parseFloat(lat) : undefined,
+        limit: limit ? parseInt(limit, 10) : 10,
+      });
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Search POI by name failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  @Get('topology-chain')
+  async searchTopologyChain(
+    @Query('lon') lon?: string,
+    @Query('lat') lat?: string,
+    @Query('radiusKm') radiusKm?: string,
+    @Query('query') query?: string,
+    @Query('limit') limit?: string,
+    @Query('language') language?: string,
+  ) {
+    try {
+      if (!lon || !lat || !radiusKm || !query) {
+        throw new BadRequestException('lon, lat, radiusKm, query bắt buộc');
+      }
+
+      return await this.fusekiService.searchTopologyChain({
+        lon: parseFloat(lon),
+        lat: parseFloat(lat),
+        radiusKm: parseFloat(radiusKm),
+        query,
+        limit: limit ? parseInt(limit, 10) : 20,
+        language: language || 'vi',
+      });
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Topology chain query failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  @Get('facets')
+  async searchFacets(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Query('lon') lon?: string,
+    @Query('lat') lat?: string,
+    @Query('radiusKm') radiusKm?: string,
+    @Query('bbox') bbox?: string,
+    @Query('types') types?: string,
+    @Query('type') type?: string,
+    @Query('brand') brand?: string,
+    @Query('operator') operator?: string,
+    @Query('access') access?: string,
+    @Query('fee') fee?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('language') language?: string,
+  ) {
+    try {
+      if (!bbox && (!lon || !lat || !radiusKm)) {
+        throw new BadRequestException('lon, lat, radiusKm hoặc bbox bắt buộc');
+      }
+
+      const list = (value?: string) =>
+        value
+          ? value
+              .split(',')
+              .map((v) => v.trim())
+              .filter(Boolean)
+          : undefined;
+
+      const data = await this.fusekiService.searchFacets({
+        lon: lon ? parseFloat(lon) : undefined,
+        lat: lat ? parseFloat(lat) : undefined,
+        radiusKm: radiusKm ? parseFloat(radiusKm) : undefined,
+        bbox: bbox ? bbox.split(',').map((v) => parseFloat(v)) : undefined,
+        types: list(types),
+        type: list(type),
+        brand: list(brand),
+        operator: list(operator),
+        access: list(access),
+        fee: list(fee),
+        limit: limit ? parseInt(limit, 10) : 50,
+        cursor,
+        language: language || 'vi',
+      });
+      setPaginationHeaders(req, res, data);
+      return data;
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Faceted search failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  @Get('within')
+  async searchWithin(
+    @Query('polygon') polygon?: string,
+    @Query('qid') qid?: string,
+    @Query('types') types?: string,
+    @Query('limit') limit?: string,
+    @Query('language') language?: string,
+  ) {
+    try {
+      if (!polygon && !qid) {
+        throw new BadRequestException('polygon hoặc qid bắt buộc');
+      }
+
+      const typesArray = types
+        ? types
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean)
+        : undefined;
+
+      const data = await this.fusekiService.searchWithin({
+        polygon,
+        qid,
+        types: typesArray,
+        limit: limit ? parseInt(limit, 10) : 200,
+        language: language || 'vi',
+      });
+      return data;
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Search within area failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  @Get('along-route')
+  async searchAlongRoute(
+    @Query('route') route?: string,
+    @Query('bufferMeters') bufferMeters?: string,
+    @Query('types') types?: string,
+    @Query('precision') precision?: string,
+    @Query('limit') limit?: string,
+    @Query('language') language?: string,
+  ) {
+    try {
+      if (!route) {
+        throw new BadRequestException('route bắt buộc');
+      }
+
+      const typesArray = types
+        ? types
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean)
+        : undefined;
+
+      const data = await this.fusekiService.searchAlongRoute({
+        route,
+        bufferMeters: bufferMeters ? parseFloat(bufferMeters) : 500,
+        types: typesArray,
+        precision: precision ? parseInt(precision, 10) : 5,
+        limit: limit ? parseInt(limit, 10) : 100,
+        language: language || 'vi',
+      });
+      return data;
+    } catch (e) {
+      throw new HttpException(
+        { message: 'Search along route failed', error: (e as Error).message },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
   @Get('pois-by-type')
   async getPOIsByType(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
     @Query('type') type?: string,
     @Query('limit') limit?: string,
     @Query('language') language?: string,
+    @Query('cursor') cursor?: string,
+    @Query('count') count?: string,
   ) {
     try {
       if (!type) {
@@ -105,7 +375,10 @@ export class FusekiController {
         type: type.trim(),
         limit: limit ? parseInt(limit, 10) : 100,
         language: language || 'vi',
+        cursor,
+        count: count === 'true',
       });
+      setPaginationHeaders(req, res, data);
       return data;
     } catch (e: any) {
       throw new HttpException(
@@ -18,13 +18,20 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { FusekiService } from './fuseki.service';
+import { PoiTextIndexService } from './poi-text-index.service';
 import { FusekiController } from './fuseki.controller';
+import { SensorEstimateController } from './sensor-estimate.controller';
 import { InfluxDBModule } from '../influxdb/influxdb.module';
+import { OverpassModule } from '../overpass/overpass.module';
 
 @Module({
-  imports: [ConfigModule.forRoot({ isGlobal: true }), InfluxDBModule],
-  providers: [FusekiService],
-  controllers: [FusekiController],
-  exports: [FusekiService],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    InfluxDBModule,
+    OverpassModule,
+  ],
+  providers: [FusekiService, PoiTextIndexService],
+  controllers: [FusekiController, SensorEstimateController],
+  exports: [FusekiService, PoiTextIndexService],
 })
 export class FusekiModule {}
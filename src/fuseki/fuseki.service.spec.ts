@@ -0,0 +1,536 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FusekiService } from './fuseki.service';
+import { InfluxDBService } from '../influxdb/influxdb.service';
+import { AnomalyStoreService } from '../influxdb/anomaly-store.service';
+import type { OverpassService } from '../overpass/overpass.service';
+import type { RoadNetworkService } from '../overpass/road-network.service';
+
+describe('FusekiService', () => {
+  let service: FusekiService;
+  let runSelect: jest.SpyInstance<Promise<any[]>, [query: string]>;
+
+  // Square around (105.8, 21.0)
+  const polygon = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [105.7, 20.9],
+        [105.9, 20.9],
+        [105.9, 21.1],
+        [105.7, 21.1],
+        [105.7, 20.9],
+      ],
+    ],
+  };
+
+  const pointRows = (count: number, from = 0) =>
+    Array.from({ length: count }, (_, i) => ({
+      poi: `http://opendatafithou.org/poi/${from + i}`,
+      wkt: 'POINT(105.8 21.0)',
+      lon: '105.8',
+      lat: '21.0',
+    }));
+
+  const configOf = (config: Record<string, string>) =>
+    ({ get: (key: string) => config[key] }) as unknown as ConfigService;
+
+  const createService = (
+    config: Record<string, string> = {},
+    influxDBService = {} as InfluxDBService,
+  ) => {
+    service = new FusekiService(
+      configOf(config),
+      influxDBService,
+      {} as OverpassService,
+      {} as RoadNetworkService,
+    );
+    runSelect = jest.spyOn(
+      service as unknown as { runSelect: (query: string) => Promise<any[]> },
+      'runSelect',
+    );
+  };
+
+  beforeEach(() => createService());
+
+  describe('searchNearby', () => {
+    // Nearby candidate queries, by spatial mode
+    const nearbyQueries = () =>
+      runSelect.mock.calls
+        .map(([query]) => query)
+        .filter((query) => query.includes('GROUP BY ?poi ?name'))
+        .map((query) =>
+          query.includes('spatial:nearby (') ? 'geosparql' : 'filter',
+        );
+    const nearbyRows = (spatial: any[] | Error, filter: any[]) =>
+      runSelect.mockImplementation((query: string) => {
+        if (!query.includes('GROUP BY ?poi ?name')) return Promise.resolve([]);
+        if (!query.includes('spatial:nearby (')) return Promise.resolve(filter);
+        return spatial instanceof Error
+          ? Promise.reject(spatial)
+          : Promise.resolve(spatial);
+      });
+    const search = () =>
+      service.searchNearby({ lon: 105.8, lat: 21.0, radiusKm: 1 });
+
+    it('falls back to the bounding box filter when the spatial query fails', async () => {
+      createService({ FUSEKI_SPATIAL_MODE: 'geosparql' });
+      nearbyRows(new Error('Unknown property function'), pointRows(1));
+
+      const result = await search();
+
+      expect(nearbyQueries()).toEqual(['geosparql', 'filter']);
+      expect(result.count).toBe(1);
+    });
+
+    it('keeps the spatial index when it finds nothing within the radius', async () => {
+      createService({ FUSEKI_SPATIAL_MODE: 'geosparql' });
+      // Bounding box corners lie outside the circle
+      nearbyRows([], pointRows(1));
+
+      expect((await search()).count).toBe(0);
+      expect((await search()).count).toBe(0);
+      expect(nearbyQueries()).toEqual(['geosparql', 'geosparql']);
+    });
+
+    describe('spatial index probe', () => {
+      const probe = (found: boolean) =>
+        runSelect.mockImplementation((query: string) => {
+          if (query.includes('SELECT ?g ?wkt')) {
+            return Promise.resolve([
+              {
+                g: 'http://localhost:3030/graph/atm',
+                wkt: 'POINT(105.8 21.0)',
+              },
+            ]);
+          }
+          if (query.includes('spatial:nearby (21 105.8 0.1')) {
+            return Promise.resolve(found ? pointRows(1) : []);
+          }
+          return Promise.resolve([]);
+        });
+
+      it('switches to the bounding box filter when the index misses a stored POI', async () => {
+        createService({ FUSEKI_SPATIAL_MODE: 'geosparql' });
+        probe(false);
+
+        await service.onModuleInit();
+        await search();
+
+        expect(nearbyQueries()).toEqual(['filter']);
+      });
+
+      it('keeps the spatial index when it finds the stored POI', async () => {
+        createService({ FUSEKI_SPATIAL_MODE: 'geosparql' });
+        probe(true);
+
+        await service.onModuleInit();
+        await search();
+
+        expect(nearbyQueries()).toEqual(['geosparql']);
+      });
+    });
+
+    it('counts the POIs within the radius in SPARQL', async () => {
+      runSelect.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('COUNT(DISTINCT ?poi)') ? [{ count: '42' }] : [],
+        ),
+      );
+
+      const result = await service.searchNearby({
+        lon: 105.8,
+        lat: 21.0,
+        radiusKm: 1,
+        types: ['atm'],
+        count: true,
+      });
+
+      const countQuery = runSelect.mock.calls
+        .map(([query]) => query)
+        .find((query) => query.includes('COUNT(DISTINCT ?poi)'));
+      expect(countQuery).not.toMatch(/LIMIT/);
+      expect(result.totalCount).toBe(42);
+    });
+  });
+
+  describe('searchNearest', () => {
+    // Two POIs per km of radius
+    const mockNearby = () =>
+      jest.spyOn(service, 'searchNearby').mockImplementation((params) => {
+        const found = Math.floor(params.radiusKm! * 2);
+        return Promise.resolve({
+          items: Array.from(
+            { length: Math.min(found, params.limit!) },
+            (_, i) => ({
+              poi: `http://opendatafithou.org/poi/${i}`,
+            }),
+          ),
+        } as any);
+      });
+
+    it('grows the radius until k POIs are found', async () => {
+      const searchNearby = mockNearby();
+
+      const result = await service.searchNearest({
+        lon: 105.8,
+        lat: 21.0,
+        k: 5,
+      });
+
+      const radii = searchNearby.mock.calls.map(([p]) => p.radiusKm!);
+      expect(radii[0]).toBe(0.5);
+      for (let i = 1; i < radii.length; i++) {
+        expect(radii[i]).toBeGreaterThanOrEqual(radii[i - 1] * 1.5);
+      }
+      expect(result.radiusKm * 2).toBeGreaterThanOrEqual(5);
+      expect(result.iterations).toBe(radii.length);
+      expect(result.count).toBe(5);
+      expect(searchNearby.mock.calls.every(([p]) => p.limit === 5)).toBe(true);
+    });
+
+    it('stops at maxDistanceKm with fewer than k POIs', async () => {
+      mockNearby();
+
+      const result = await service.searchNearest({
+        lon: 105.8,
+        lat: 21.0,
+        k: 50,
+        maxDistanceKm: 3,
+      });
+
+      expect(result.radiusKm).toBe(3);
+      expect(result.count).toBe(6);
+    });
+
+    it('caps k and rejects distances above the maximum', async () => {
+      const searchNearby = mockNearby();
+
+      const result = await service.searchNearest({
+        lon: 105.8,
+        lat: 21.0,
+        k: 1000,
+        maxDistanceKm: 50,
+      });
+      expect(result.k).toBe(100);
+      expect(searchNearby.mock.calls[0][0].limit).toBe(100);
+
+      await expect(
+        service.searchNearest({ lon: 105.8, lat: 21.0, maxDistanceKm: 51 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('passes includeTopology to searchNearby', async () => {
+      runSelect.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('GROUP BY ?poi ?name') ? pointRows(1) : [],
+        ),
+      );
+      const topologyQueries = () =>
+        runSelect.mock.calls.filter(([query]) =>
+          query.includes('graph/topology'),
+        ).length;
+
+      await service.searchNearest({ lon: 105.8, lat: 21.0, k: 1 });
+      expect(topologyQueries()).toBe(1);
+
+      await service.searchNearest({
+        lon: 105.8,
+        lat: 21.0,
+        k: 1,
+        includeTopology: false,
+      });
+      expect(topologyQueries()).toBe(1);
+    });
+  });
+
+  describe('searchTopologyChain', () => {
+    it('pages through the candidates until the radius is exhausted', async () => {
+      const cafe = (i: number) => ({
+        poi: `http://opendatafithou.org/poi/cafe${i}`,
+        distanceKm: i / 100,
+      });
+      type NearbyPage = Awaited<ReturnType<FusekiService['searchNearby']>>;
+      const searchNearby = jest
+        .spyOn(service, 'searchNearby')
+        .mockResolvedValueOnce({
+          items: Array.from({ length: 100 }, (_, i) => cafe(i)),
+          nextCursor: 'page2',
+        } as unknown as NearbyPage)
+        .mockResolvedValueOnce({
+          items: [cafe(100), cafe(101)],
+          nextCursor: null,
+        } as unknown as NearbyPage);
+      // Only the farthest cafe is next to a park
+      runSelect.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('cafe101>') && query.includes('SELECT DISTINCT ?poi')
+            ? [
+                {
+                  poi: 'http://opendatafithou.org/poi/cafe101',
+                  r1: 'http://opendatafithou.org/poi/park',
+                },
+              ]
+            : [],
+        ),
+      );
+
+      const result = await service.searchTopologyChain({
+        lon: 105.8,
+        lat: 21.0,
+        radiusKm: 2,
+        targetType: 'cafe',
+        where: [{ relation: 'isNextTo', type: 'park' }],
+      });
+
+      expect(searchNearby).toHaveBeenCalledTimes(2);
+      expect(searchNearby.mock.calls[1][0]).toMatchObject({ cursor: 'page2' });
+      expect(result.items).toMatchObject([
+        { poi: 'http://opendatafithou.org/poi/cafe101' },
+      ]);
+    });
+  });
+
+  describe('searchWithin', () => {
+    it('pages through the bbox candidates', async () => {
+      runSelect
+        .mockResolvedValueOnce(pointRows(2000))
+        .mockResolvedValueOnce(pointRows(10, 2000));
+
+      const result = await service.searchWithin({ polygon, types: ['atm'] });
+
+      expect(runSelect).toHaveBeenCalledTimes(2);
+      expect(runSelect.mock.calls[0][0]).toMatch(
+        /ORDER BY \?poi\s+LIMIT 2000\s+OFFSET 0/,
+      );
+      expect(runSelect.mock.calls[1][0]).toMatch(/LIMIT 2000\s+OFFSET 2000/);
+      expect(result.count).toBe(2010);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('flags results truncated beyond the candidate maximum', async () => {
+      runSelect.mockImplementation((query: string) => {
+        const [, limit, offset] = /LIMIT (\d+)\s+OFFSET (\d+)/.exec(query)!;
+        return Promise.resolve(pointRows(Number(limit), Number(offset)));
+      });
+
+      const result = await service.searchWithin({ polygon, types: ['atm'] });
+
+      expect(runSelect).toHaveBeenCalledTimes(11);
+      expect(result.count).toBe(20000);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('locates lines and polygons by the center of their bbox', async () => {
+      runSelect.mockResolvedValueOnce([
+        {
+          poi: 'http://opendatafithou.org/poi/park',
+          // First vertex outside the area, center inside
+          wkt: 'POLYGON((105.65 20.95, 105.85 20.95, 105.85 21.05, 105.65 21.05, 105.65 20.95))',
+          lon: '105.65',
+          lat: '20.95',
+        },
+      ]);
+
+      const result = await service.searchWithin({ polygon, types: ['park'] });
+
+      expect(runSelect.mock.calls[0][0]).toContain('POINT", "i")');
+      expect(result.items).toEqual([
+        expect.objectContaining({ lon: 105.75, lat: 21 }),
+      ]);
+    });
+  });
+
+  describe('searchFacets', () => {
+    it('counts facets over every POI of the area', async () => {
+      runSelect.mockImplementation((query: string) => {
+        const [, limit, offset] = /LIMIT (\d+)\s+OFFSET (\d+)/.exec(query)!;
+        // 4500 POIs: three pages
+        const count = Math.max(
+          Math.min(Number(limit), 4500 - Number(offset)),
+          0,
+        );
+        return Promise.resolve(
+          pointRows(count, Number(offset)).map((r, i) => ({
+            ...r,
+            brand: i % 2 ? 'BIDV' : 'Vietcombank',
+          })),
+        );
+      });
+
+      const result = await service.searchFacets({
+        bbox: [105.7, 20.9, 105.9, 21.1],
+        types: ['atm'],
+        brand: ['BIDV'],
+        limit: 10,
+      });
+
+      expect(runSelect).toHaveBeenCalledTimes(3);
+      expect(result.totalCount).toBe(2250);
+      expect(result.count).toBe(10);
+      expect(result.facets.brand).toEqual(
+        expect.arrayContaining([
+          { value: 'BIDV', count: 2250 },
+          { value: 'Vietcombank', count: 2250 },
+        ]),
+      );
+    });
+
+    it('rejects areas above the counting limit', async () => {
+      runSelect.mockImplementation((query: string) => {
+        const [, limit, offset] = /LIMIT (\d+)\s+OFFSET (\d+)/.exec(query)!;
+        return Promise.resolve(pointRows(Number(limit), Number(offset)));
+      });
+
+      await expect(
+        service.searchFacets({
+          bbox: [105.7, 20.9, 105.9, 21.1],
+          types: ['atm'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('sensorData enrichment', () => {
+    const device = 'urn:ngsi-ld:Device:HoGuom';
+    // Within the store retention
+    const time = new Date().toISOString();
+
+    // InfluxDBService over canned latest rows, flagged series in store
+    const createInfluxDB = (
+      masking: string,
+      rows: Record<string, { _field: string; _value: number }[]>,
+    ) => {
+      const store = new AnomalyStoreService(configOf({}));
+      store.upsert([
+        {
+          id: 'spike',
+          stationId: device,
+          measurement: 'weather',
+          field: 'temperature',
+          kind: 'spike',
+          start: time,
+          end: time,
+          value: 85,
+          detail: 'z-score 9.1',
+          detectedAt: time,
+        },
+      ]);
+      const influxDBService = new InfluxDBService(
+        configOf({ ANOMALY_MASKING: masking }),
+        store,
+      );
+      const queryRows = (
+        query: string,
+        observer: {
+          next: (
+            row: object,
+            meta: { toObject: (row: object) => object },
+          ) => void;
+          complete: () => void;
+        },
+      ) => {
+        const measurement = /"_measurement"\] == "(\w+)"/.exec(query)![1];
+        for (const row of rows[measurement] ?? []) {
+          observer.next({ ...row, _time: time }, { toObject: (r) => r });
+        }
+        observer.complete();
+      };
+      return Object.assign(influxDBService, { queryApi: { queryRows } });
+    };
+
+    const search = async (masking: string) => {
+      createService(
+        {},
+        createInfluxDB(masking, {
+          weather: [{ _field: 'temperature', _value: 85 }],
+          traffic: [{ _field: 'noise_level', _value: 62 }],
+        }),
+      );
+      runSelect.mockImplementation((query: string) => {
+        if (query.includes('sosa:isSampledBy')) {
+          return Promise.resolve([{ poi: pointRows(1)[0].poi, device }]);
+        }
+        return Promise.resolve(
+          query.includes('GROUP BY ?poi ?name') ? pointRows(1) : [],
+        );
+      });
+      const result = await service.searchNearby({
+        lon: 105.8,
+        lat: 21.0,
+        radiusKm: 1,
+      });
+      return result.items[0];
+    };
+
+    it('nulls values flagged by the anomaly detector when masking is on', async () => {
+      expect(await search('true')).toMatchObject({
+        sensorData: { temperature: null, noise_level: 62 },
+      });
+    });
+
+    it('keeps flagged values when masking is off', async () => {
+      expect(await search('false')).toMatchObject({
+        sensorData: { temperature: 85, noise_level: 62 },
+      });
+    });
+  });
+
+  describe('searchAlongRoute', () => {
+    it('queries each piece of the route and merges the candidates', async () => {
+      // About 16 km east along the equator: four pieces of at most 5 km
+      const route = {
+        type: 'LineString',
+        coordinates: [
+          [105.7, 0],
+          [105.85, 0],
+        ],
+      };
+      runSelect.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('?wktRaw') && query.includes('OFFSET 0')
+            ? [
+                // Shared by every piece, reported once
+                {
+                  poi: 'http://opendatafithou.org/poi/shared',
+                  wkt: 'POINT(105.75 0.001)',
+                  lon: '105.75',
+                  lat: '0.001',
+                },
+              ]
+            : [],
+        ),
+      );
+
+      const result = await service.searchAlongRoute({
+        route,
+        bufferMeters: 500,
+        types: ['atm'],
+      });
+
+      const bboxQueries = runSelect.mock.calls.filter(([query]) =>
+        query.includes('?wktRaw'),
+      );
+      expect(bboxQueries).toHaveLength(4);
+      expect(result.count).toBe(1);
+      expect(result.truncated).toBe(false);
+    });
+  });
+});
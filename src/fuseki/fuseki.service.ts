@@ -23,16 +23,195 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ChatTool } from 'src/common/decorators/chat-tools.decorator';
-import { SchemaType } from '@google/generative-ai';
+import { Schema, SchemaType } from '@google/generative-ai';
 import { classifyPoiType, parseTypeFromUri } from 'src/common/poi-types';
-import { InfluxDBService } from '../influxdb/influxdb.service';
+import {
+  InfluxDBService,
+  MeasurementType,
+  StationData,
+} from '../influxdb/influxdb.service';
+import {
+  AqiPollutant,
+  AqiStandard,
+  aqiCategory,
+  computeAqi,
+  configuredAqiStandard,
+} from 'src/common/aqi';
+import {
+  IdwOptions,
+  Interpolation,
+  StationSample,
+  interpolateIdw,
+} from 'src/common/interpolation';
+import { OverpassService } from '../overpass/overpass.service';
+import { RoadNetworkService } from '../overpass/road-network.service';
+import {
+  CursorKey,
+  compareKeys,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+} from 'src/common/pagination';
+import {
+  FACET_FIELDS,
+  FacetFilters,
+  countFacets,
+  matchesFacets,
+} from 'src/common/facets';
+import {
+  BBox,
+  GeoJsonGeometry,
+  Position,
+  decodePolyline,
+  expandBBox,
+  getBBox,
+  lineLengthMeters,
+  pointInArea,
+  projectOntoLine,
+  splitLine,
+  toAreaPolygons,
+  wktToGeoJson,
+} from 'src/common/geo-utils';
+import {
+  TOPOLOGY_QUERY_MAX_DEPTH,
+  TOPOLOGY_QUERY_RELATIONS,
+  TopologyQuery,
+  compileTopologyQuery,
+  parseTopologyQuery,
+} from 'src/common/topology-query';
+import {
+  RoadGraph,
+  TRAVEL_SPEEDS_KMH,
+  TravelMode,
+  estimateTravelMinutes,
+  parseTravelMode,
+  reachableDistanceKm,
+} from 'src/common/travel';
+
+/**
+ * POIs fetched per page and in total from a bounding box before the exact
+ * geometry check (searchWithin, searchAlongRoute, searchFacets)
+ */
+const BBOX_PAGE_SIZE = 2000;
+const BBOX_MAX_CANDIDATES = 20000;
+/**
+ * searchFacets counts every POI of the area, failing above this number
+ */
+const FACET_MAX_CANDIDATES = 100000;
+/**
+ * Lines and polygons are bbox candidates when their first vertex lies within
+ * this distance of the bbox, so they are assumed to span less than that
+ */
+const BBOX_GEOMETRY_MARGIN_METERS = 5000;
+
+// Số POI được xét mỗi trang trong searchTopologyChain
+const TOPOLOGY_CHAIN_CANDIDATES = 100;
+// Số chuỗi quan hệ tối đa giải thích cho mỗi kết quả
+const TOPOLOGY_CHAIN_MAX_MATCHES = 5;
+
+/**
+ * Gemini function schemas cannot be recursive: unroll the step schema of
+ * searchTopologyChain up to the max depth
+ */
+function topologyStepSchema(depth: number): Schema {
+  const properties: Record<string, Schema> = {
+    relation: {
+      type: SchemaType.STRING,
+      description: `Quan hệ với POI cha: ${Object.keys(TOPOLOGY_QUERY_RELATIONS).join(', ')}. isNextTo = bên cạnh, containedInPlace = nằm trong, contains = chứa, amenityFeature = có tiện ích, amenityOf = là tiện ích của, near = gần (bên cạnh hoặc trong)`,
+    },
+    type: {
+      type: SchemaType.STRING,
+      description: 'Loại POI liên quan (park, playground, fuel_station, ...)',
+    },
+    negate: {
+      type: SchemaType.BOOLEAN,
+      description:
+        'true = KHÔNG có quan hệ này (ví dụ trường học KHÔNG gần cây xăng)',
+    },
+  };
+  if (depth > 1) {
+    properties.where = {
+      type: SchemaType.ARRAY,
+      items: topologyStepSchema(depth - 1),
+      description: 'Điều kiện tiếp theo trên POI liên quan (chuỗi nhiều bước)',
+    };
+  }
+  return {
+    type: SchemaType.OBJECT,
+    properties,
+    required: ['relation'],
+  };
+}
+
+/**
+ * searchNearest: starting radius, widest search and largest k (searchNearby returns at most 100 POIs)
+ */
+const NEAREST_INITIAL_RADIUS_KM = 0.5;
+const NEAREST_MAX_DISTANCE_KM = 50;
+const NEAREST_MAX_K = 100;
+
+/**
+ * Widest corridor accepted by searchAlongRoute
+ */
+const ROUTE_MAX_BUFFER_METERS = 5000;
+// Lộ trình được chia thành các đoạn dài tối đa ROUTE_CHUNK_METERS khi lấy ứng viên
+const ROUTE_CHUNK_METERS = 5000;
+
+/**
+ * How searchNearby selects candidate POIs (FUSEKI_SPATIAL_MODE)
+ * - filter: bounding box on lon/lat parsed from WKT, works on any Fuseki
+ * - geosparql: Jena GeoSPARQL spatial index (spatial:nearby) and geof:distance
+ * - jena-spatial: jena-spatial index (spatial:nearby with 'km' units)
+ * Spatial modes fall back to filter when the query fails or finds nothing, and
+ * switch to filter for good when the fallback finds POIs (no spatial index)
+ */
+export type SpatialQueryMode = 'filter' | 'geosparql' | 'jena-spatial';
+
+const SPATIAL_QUERY_MODES: SpatialQueryMode[] = [
+  'filter',
+  'geosparql',
+  'jena-spatial',
+];
+
+/**
+ * Sensor fields estimated by interpolation for points without a covering device
+ */
+export const ESTIMATED_FIELDS = ['aqi', 'temperature', 'noise_level'] as const;
+
+export type EstimatedField = (typeof ESTIMATED_FIELDS)[number];
+
+/**
+ * How long station locations and their latest readings are reused for estimates
+ */
+const STATION_SAMPLES_TTL_MS = 60 * 1000;
+
+/**
+ * Largest maxDistanceKm accepted by estimateSensorData
+ */
+const ESTIMATE_MAX_DISTANCE_KM = 50;
 
 // Sensor data interface for POI
 export interface SensorData {
-  aqi: number | null;
+  aqi: number | null; // computed from pm25/pm10 under AQI_STANDARD when available
+  airQualityLevel?: string; // AQI category key, e.g. 'good', 'moderate'
+  dominantPollutant?: AqiPollutant;
   temperature: number | null;
   noise_level: number | null;
   timestamp: string | null;
+  // set when some values are interpolated from nearby stations (estimateMissing)
+  estimated?: {
+    fields: EstimatedField[];
+    confidence: number; // lowest confidence of the estimated fields, 0-1
+    stations: string[];
+  };
+}
+
+export interface SensorEstimate {
+  location: { lon: number; lat: number };
+  aqiStandard: AqiStandard;
+  airQualityLevel: string | null;
+  estimates: Record<EstimatedField, Interpolation | null>;
 }
 
 @Injectable()
@@ -42,10 +221,20 @@ export class FusekiService implements OnModuleInit {
   private readonly queryEndpoint: string;
   private readonly updateEndpoint: string;
   private readonly graphUri: string;
+  private spatialMode: SpatialQueryMode;
+  private readonly aqiStandard: AqiStandard;
+
+  // Vị trí trạm + giá trị mới nhất dùng cho nội suy (cache ngắn hạn)
+  private stationSamples: {
+    loadedAt: number;
+    samples: Promise<Record<EstimatedField, StationSample[]>>;
+  } | null = null;
 
   constructor(
     private configService: ConfigService,
     private influxDBService: InfluxDBService,
+    private overpassService: OverpassService,
+    private roadNetworkService: RoadNetworkService,
   ) {
     this.queryEndpoint =
       this.configService.get<string>('FUSEKI_QUERY_ENDPOINT') ||
@@ -58,10 +247,22 @@ export class FusekiService implements OnModuleInit {
     this.graphUri =
       this.configService.get<string>('FUSEKI_GRAPH_ATM') ||
       'http://localhost:3030/graph/atm';
+
+    const spatialMode = this.configService.get<string>('FUSEKI_SPATIAL_MODE');
+    this.spatialMode = SPATIAL_QUERY_MODES.includes(
+      spatialMode as SpatialQueryMode,
+    )
+      ? (spatialMode as SpatialQueryMode)
+      : 'filter';
+
+    this.aqiStandard = configuredAqiStandard(
+      this.configService.get<string>('AQI_STANDARD'),
+    );
   }
 
   /**
    * Fetch sensor data (AQI, temperature, noise_level) for a device URI
+   * Values flagged by the anomaly detector are null when ANOMALY_MASKING=true
    */
   private async fetchSensorDataForDevice(
     deviceUri: string,
@@ -81,24 +282,30 @@ export class FusekiService implements OnModuleInit {
 
       this.logger.debug(`[fetchSensorData] Station ID: ${stationId}`);
 
-      // Fetch air quality data (AQI)
+      // Fetch air quality data (AQI computed from PM2.5/PM10, stored aqi otherwise)
       try {
         const airQualityData = await this.influxDBService.getLatestByStation({
           stationId,
           measurement: 'air_quality',
-          fields: ['aqi'],
+          fields: ['aqi', 'pm25', 'pm10'],
         });
         this.logger.debug(
           `[fetchSensorData] Air quality result for ${stationId}: ${JSON.stringify(airQualityData)}`,
         );
-        if (
-          airQualityData?.data?.aqi !== undefined &&
-          airQualityData?.data?.aqi !== null
-        ) {
-          sensorData.aqi = airQualityData.data.aqi;
+        if (airQualityData) {
+          const { aqi, pm25, pm10 } = airQualityData.data;
+          const computed = computeAqi({ pm25, pm10 }, this.aqiStandard);
+          if (computed) {
+            sensorData.aqi = computed.aqi;
+            sensorData.airQualityLevel = computed.category.key;
+            sensorData.dominantPollutant = computed.dominantPollutant;
+          } else if (aqi !== undefined && aqi !== null) {
+            sensorData.aqi = aqi;
+          }
           if (
-            !sensorData.timestamp ||
-            airQualityData.timestamp > sensorData.timestamp
+            sensorData.aqi !== null &&
+            (!sensorData.timestamp ||
+              airQualityData.timestamp > sensorData.timestamp)
           ) {
             sensorData.timestamp = airQualityData.timestamp;
           }
@@ -203,20 +410,356 @@ export class FusekiService implements OnModuleInit {
     return sensorDataMap;
   }
 
+  /**
+   * Attach the covering IoT device (iot-coverage graph) and its latest sensor
+   * data (AQI, temperature, noise_level) to each POI
+   */
+  private async attachSensorData<T extends { poi: string }>(
+    results: T[],
+  ): Promise<(T & { device: string | null; sensorData: SensorData | null })[]> {
+    if (results.length === 0) return [];
+
+    const poiUris = results.map((r) => `<${r.poi}>`).join(' ');
+    const iotCoverageGraphUri =
+      this.configService.get<string>('FUSEKI_GRAPH_IOT_COVERAGE') ||
+      'http://localhost:3030/graph/iot-coverage';
+
+    const deviceQuery = `
+      PREFIX sosa: <http://www.w3.org/ns/sosa/>
+
+      SELECT ?poi ?device
+      WHERE {
+        GRAPH <${iotCoverageGraphUri}> {
+          VALUES ?poi { ${poiUris} }
+          ?poi sosa:isSampledBy ?device .
+        }
+      }
+    `;
+
+    const deviceMap = new Map<string, string>();
+    try {
+      const deviceRows = (await this.runSelect(deviceQuery)) as {
+        poi: string;
+        device: string;
+      }[];
+      deviceRows.forEach((row) => {
+        deviceMap.set(row.poi, row.device);
+      });
+      this.logger.debug(`Found device mappings for ${deviceMap.size} POIs`);
+    } catch (e) {
+      this.logger.warn(
+        'Failed to fetch device mappings: ' + (e as Error).message,
+      );
+    }
+
+    let sensorDataMap = new Map<string, SensorData>();
+    if (deviceMap.size > 0) {
+      try {
+        sensorDataMap = await this.fetchSensorDataForDevices(deviceMap);
+        this.logger.debug(`Fetched sensor data for ${sensorDataMap.size} POIs`);
+      } catch (e) {
+        this.logger.warn(
+          'Failed to fetch sensor data: ' + (e as Error).message,
+        );
+      }
+    }
+
+    return results.map((r) => ({
+      ...r,
+      device: deviceMap.get(r.poi) || null,
+      sensorData: sensorDataMap.get(r.poi) || null,
+    }));
+  }
+
+  /**
+   * Station locations (iot-infrastructure graph) with their latest AQI,
+   * temperature and noise_level, cached for STATION_SAMPLES_TTL_MS
+   */
+  private getStationSamples(): Promise<
+    Record<EstimatedField, StationSample[]>
+  > {
+    if (
+      this.stationSamples &&
+      Date.now() - this.stationSamples.loadedAt < STATION_SAMPLES_TTL_MS
+    ) {
+      return this.stationSamples.samples;
+    }
+
+    const samples = this.loadStationSamples();
+    this.stationSamples = { loadedAt: Date.now(), samples };
+    // Lỗi thì không cache, lần sau tải lại
+    samples.catch(() => {
+      this.stationSamples = null;
+    });
+    return samples;
+  }
+
+  private async loadStationSamples(): Promise<
+    Record<EstimatedField, StationSample[]>
+  > {
+    const { stations } = await this.getAllIoTStations();
+    // InfluxDB lưu station_id là URI đầy đủ, dữ liệu cũ có thể chỉ có tên trạm
+    const locations = new Map<string, { lon: number; lat: number }>();
+    for (const station of stations) {
+      locations.set(station.stationId, station);
+      const name = station.stationId.split(':').pop();
+      if (name && !locations.has(name)) locations.set(name, station);
+    }
+
+    const latest = (measurement: MeasurementType, fields: string[]) =>
+      this.influxDBService
+        .getLatestAllStations({ measurement, fields })
+        .catch((e: Error): StationData[] => {
+          this.logger.warn(
+            `[loadStationSamples] No ${measurement} data: ${e.message}`,
+          );
+          return [];
+        });
+    const [airQuality, weather, traffic] = await Promise.all([
+      latest('air_quality', ['aqi', 'pm25', 'pm10']),
+      latest('weather', ['temperature']),
+      latest('traffic', ['noise_level']),
+    ]);
+
+    const toSamples = (
+      rows: StationData[],
+      valueOf: (data: StationData['data']) => number | null | undefined,
+    ): StationSample[] =>
+      rows.flatMap((row) => {
+        const location = locations.get(row.stationId);
+        const value = valueOf(row.data);
+        return location && typeof value === 'number'
+          ? [{ stationId: row.stationId, ...location, value }]
+          : [];
+      });
+
+    const samples = {
+      aqi: toSamples(
+        airQuality,
+        ({ aqi, pm25, pm10 }) =>
+          computeAqi({ pm25, pm10 }, this.aqiStandard)?.aqi ?? aqi,
+      ),
+      temperature: toSamples(weather, (data) => data.temperature),
+      noise_level: toSamples(traffic, (data) => data.noise_level),
+    };
+    this.logger.debug(
+      `[loadStationSamples] ${stations.length} stations, samples: aqi=${samples.aqi.length}, temperature=${samples.temperature.length}, noise_level=${samples.noise_level.length}`,
+    );
+    return samples;
+  }
+
+  private interpolateFields(
+    samples: Record<EstimatedField, StationSample[]>,
+    point: { lon: number; lat: number },
+    options?: Partial<IdwOptions>,
+  ): Record<EstimatedField, Interpolation | null> {
+    const estimates = {} as Record<EstimatedField, Interpolation | null>;
+    for (const field of ESTIMATED_FIELDS) {
+      const estimate = interpolateIdw(point, samples[field], options);
+      // AQI là số nguyên
+      estimates[field] =
+        estimate && field === 'aqi'
+          ? { ...estimate, value: Math.round(estimate.value) }
+          : estimate;
+    }
+    return estimates;
+  }
+
+  /**
+   * Estimate AQI, temperature and noise_level at any point by inverse
+   * distance weighting of the latest readings of nearby IoT stations
+   */
+  async estimateSensorData(params: {
+    lon: number;
+    lat: number;
+    maxDistanceKm?: number;
+    maxStations?: number;
+    power?: number;
+  }): Promise<SensorEstimate> {
+    const { lon, lat, maxDistanceKm, maxStations, power } = params;
+    if (
+      !Number.isFinite(lon) ||
+      !Number.isFinite(lat) ||
+      Math.abs(lon) > 180 ||
+      Math.abs(lat) > 90
+    )
+      throw new BadRequestException('Thiếu hoặc sai lon/lat');
+    if (
+      maxDistanceKm !== undefined &&
+      !(maxDistanceKm > 0 && maxDistanceKm <= ESTIMATE_MAX_DISTANCE_KM)
+    )
+      throw new BadRequestException(
+        `maxDistanceKm phải trong khoảng (0, ${ESTIMATE_MAX_DISTANCE_KM}]`,
+      );
+    if (maxStations !== undefined && !(maxStations >= 1))
+      throw new BadRequestException('maxStations phải >= 1');
+    if (power !== undefined && !(power > 0 && power <= 5))
+      throw new BadRequestException('power phải trong khoảng (0, 5]');
+
+    const samples = await this.getStationSamples();
+    const estimates = this.interpolateFields(
+      samples,
+      { lon, lat },
+      { maxDistanceKm, maxStations, power },
+    );
+    return {
+      location: { lon, lat },
+      aqiStandard: this.aqiStandard,
+      airQualityLevel: estimates.aqi
+        ? aqiCategory(estimates.aqi.value, this.aqiStandard).key
+        : null,
+      estimates,
+    };
+  }
+
+  /**
+   * Fill missing sensor values of POIs with estimates from nearby stations,
+   * estimated values are listed in sensorData.estimated
+   */
+  private async fillMissingSensorData<
+    T extends { lon: number; lat: number; sensorData: SensorData | null },
+  >(results: T[]): Promise<T[]> {
+    const missing = (r: T) =>
+      ESTIMATED_FIELDS.filter(
+        (field) =>
+          r.sensorData?.[field] === null || r.sensorData?.[field] === undefined,
+      );
+    if (!results.some((r) => missing(r).length > 0)) return results;
+
+    let samples: Record<EstimatedField, StationSample[]>;
+    try {
+      samples = await this.getStationSamples();
+    } catch (e) {
+      this.logger.warn(
+        'Failed to load station samples: ' + (e as Error).message,
+      );
+      return results;
+    }
+
+    return results.map((r) => {
+      const fields = missing(r);
+      if (fields.length === 0 || !Number.isFinite(r.lon)) return r;
+
+      const estimates = this.interpolateFields(samples, r);
+      const sensorData: SensorData = r.sensorData
+        ? { ...r.sensorData }
+        : { aqi: null, temperature: null, noise_level: null, timestamp: null };
+      const estimated: NonNullable<SensorData['estimated']> = {
+        fields: [],
+        confidence: 1,
+        stations: [],
+      };
+      for (const field of fields) {
+        const estimate = estimates[field];
+        if (!estimate) continue;
+        sensorData[field] = estimate.value;
+        estimated.fields.push(field);
+        estimated.confidence = Math.min(
+          estimated.confidence,
+          estimate.confidence,
+        );
+        for (const station of estimate.stations) {
+          if (!estimated.stations.includes(station.stationId)) {
+            estimated.stations.push(station.stationId);
+          }
+        }
+      }
+      if (estimated.fields.length === 0) return r;
+
+      if (estimated.fields.includes('aqi')) {
+        sensorData.airQualityLevel = aqiCategory(
+          sensorData.aqi!,
+          this.aqiStandard,
+        ).key;
+        delete sensorData.dominantPollutant;
+      }
+      return { ...r, sensorData: { ...sensorData, estimated } };
+    });
+  }
+
   async onModuleInit() {
     try {
       this.logger.log('Fuseki query endpoint: ' + this.queryEndpoint);
+      this.logger.log('Fuseki spatial query mode: ' + this.spatialMode);
       if (!this.queryEndpoint) {
         this.logger.error('Thiếu FUSEKI_QUERY_ENDPOINT');
         return;
       }
       // Kiểm tra graph list (chỉ log, không chặn)
       await this.listGraphs();
+      await this.probeSpatialMode();
     } catch (e: any) {
       this.logger.warn('Init fuseki skip: ' + e.message);
     }
   }
 
+  /**
+   * Kiểm tra spatial index một lần khi khởi động: tìm lại một POI có sẵn bằng
+   * spatial:nearby. Store không có index trả về 0 dòng (hoặc lỗi) thay vì POI
+   * đó, khi đó chuyển hẳn sang bounding box filter
+   */
+  private async probeSpatialMode() {
+    const mode = this.spatialMode;
+    if (mode === 'filter') return;
+
+    const sample = (await this.runSelect(`
+      PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      SELECT ?g ?wkt
+      WHERE {
+        GRAPH ?g { ?poi geo:asWKT ?wkt . }
+        FILTER(REGEX(STR(?wkt), "^POINT", "i"))
+      }
+      LIMIT 1
+    `)) as { g?: string; wkt?: string }[];
+    const match = sample[0]?.wkt?.match(
+      /POINT\s*\(\s*([\d.-]+)\s+([\d.-]+)\s*\)/i,
+    );
+    // Chưa có dữ liệu: giữ chế độ đã cấu hình
+    if (!match || !sample[0].g) return;
+
+    let found = false;
+    try {
+      const rows = await this.runSelect(`
+        PREFIX uom: <http://www.opengis.net/def/uom/OGC/1.0/>
+        PREFIX spatial: <http://jena.apache.org/spatial#>
+        SELECT ?poi
+        WHERE {
+          GRAPH <${sample[0].g}> {
+            ${this.spatialNearbyPattern(mode, Number(match[2]), Number(match[1]), 0.1)}
+          }
+        }
+        LIMIT 1
+      `);
+      found = rows.length > 0;
+    } catch (e) {
+      this.logger.warn(`Spatial probe failed: ${(e as Error).message}`);
+    }
+    if (!found) {
+      this.logger.warn(
+        `${mode} spatial index does not find stored POIs, using FUSEKI_SPATIAL_MODE=filter`,
+      );
+      this.spatialMode = 'filter';
+    }
+  }
+
+  /**
+   * Triple pattern chọn POI trong bán kính bằng spatial index (rỗng với filter)
+   */
+  private spatialNearbyPattern(
+    mode: SpatialQueryMode,
+    lat: number,
+    lon: number,
+    radiusKm: number,
+  ): string {
+    if (mode === 'geosparql') {
+      return `?poi spatial:nearby (${lat} ${lon} ${radiusKm} uom:kilometre) .`;
+    }
+    if (mode === 'jena-spatial') {
+      return `?poi spatial:nearby (${lat} ${lon} ${radiusKm} 'km') .`;
+    }
+    return '';
+  }
+
   async listGraphs() {
     const q = `
       SELECT DISTINCT ?g (COUNT(*) as ?count)
@@ -238,11 +781,22 @@ export class FusekiService implements OnModuleInit {
     type: string;
     limit?: number;
     language?: string;
+    cursor?: string; // Cursor của trang trước (nextCursor)
+    count?: boolean; // Trả về totalCount
   }) {
     const { language = 'vi' } = params;
     const type = this.convertToSchemaType(params.type);
     const limit = Math.min(Math.max(params.limit ?? 100, 1), 2000);
 
+    // Phân trang theo URI (thứ tự ổn định)
+    const scope = cursorScope('pois-by-type', {
+      type: params.type.toLowerCase(),
+      language,
+    });
+    const after = params.cursor
+      ? decodeCursor(params.cursor, scope)
+      : undefined;
+
     // Map type to graph URI
     const typeToGraphMap: Record<string, string> = {
       atm:
@@ -308,7 +862,7 @@ export class FusekiService implements OnModuleInit {
       PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
       PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
 
-      SELECT ?s ?finalName ?lat ?lon (GROUP_CONCAT(DISTINCT ?type; separator=",") AS ?types)
+      SELECT ?s (SAMPLE(?finalName) AS ?name) (SAMPLE(?lat) AS ?poiLat) (SAMPLE(?lon) AS ?poiLon) (GROUP_CONCAT(DISTINCT ?type; separator=",") AS ?types)
       WHERE {
         GRAPH <${graphUri}> {
           ?s a schema:${type} .
@@ -343,22 +897,40 @@ export class FusekiService implements OnModuleInit {
           BIND(REPLACE(STR(?wkt), "^[Pp][Oo][Ii][Nn][Tt]\\\\s*\\\\(([0-9.\\\\-]+)\\\\s+([0-9.\\\\-]+).*\\\\)$", "$2") AS ?latStr)
           BIND(xsd:double(?lonStr) AS ?lon)
           BIND(xsd:double(?latStr) AS ?lat)
+          ${after ? `FILTER(STR(?s) > ${JSON.stringify(String(after[0]))})` : ''}
         }
       }
-      GROUP BY ?s ?finalName ?lat ?lon
-      LIMIT ${limit}
+      GROUP BY ?s
+      ORDER BY STR(?s)
+      LIMIT ${limit + 1}
     `;
 
     this.logger.debug(`Executing query for type ${type}:`);
 
-    const rows = await this.runSelect(query);
+    const rows = (await this.runSelect(query)) as {
+      s: string;
+      name?: string;
+      poiLat?: string;
+      poiLon?: string;
+      types?: string;
+      wkt?: string;
+    }[];
     this.logger.log(`Found ${rows.length} POIs of type ${type}`);
 
+    const page = paginate(rows, (row) => [row.s], {
+      limit,
+      after,
+      scope,
+    });
+    const totalCount = params.count
+      ? await this.countPOIsInGraph(graphUri, type)
+      : undefined;
+
     // Transform results
-    const results = rows.map((row: any) => {
-      const finalName = row.finalName || 'Unknown';
-      const lat = parseFloat(row.lat || '0');
-      const lon = parseFloat(row.lon || '0');
+    const results: any[] = page.items.map((row) => {
+      const finalName = row.name || 'Unknown';
+      const lat = parseFloat(row.poiLat || '0');
+      const lon = parseFloat(row.poiLon || '0');
 
       // Parse types
       const typesString = row.types || '';
@@ -677,9 +1249,30 @@ export class FusekiService implements OnModuleInit {
       count: results.length,
       type,
       results,
+      nextCursor: page.nextCursor,
+      totalCount,
     };
   }
 
+  /**
+   * Number of POIs of a schema.org type in a graph (totalCount of getPOIsByType)
+   */
+  private async countPOIsInGraph(graphUri: string, schemaType: string) {
+    const rows = (await this.runSelect(`
+      PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      PREFIX schema: <http://schema.org/>
+
+      SELECT (COUNT(DISTINCT ?s) AS ?count)
+      WHERE {
+        GRAPH <${graphUri}> {
+          ?s a schema:${schemaType} .
+          ?s geo:asWKT ?wkt .
+        }
+      }
+    `)) as { count?: string }[];
+    return parseInt(rows[0]?.count ?? '0', 10);
+  }
+
   /**
    * Get full POI information by URI
    * Used when clicking on a topology related entity to fetch full details
@@ -1257,7 +1850,18 @@ export class FusekiService implements OnModuleInit {
         },
         radiusKm: {
           type: SchemaType.NUMBER,
-          description: 'Bán kính tìm kiếm (km)',
+          description:
+            'Bán kính tìm kiếm (km). Có thể bỏ qua khi dùng maxMinutes.',
+        },
+        travelMode: {
+          type: SchemaType.STRING,
+          description:
+            'Phương tiện di chuyển: walking (đi bộ), cycling (xe đạp), driving (xe máy/ô tô). Khi có travelMode, mỗi kết quả có estimatedTravelMinutes.',
+        },
+        maxMinutes: {
+          type: SchemaType.NUMBER,
+          description:
+            'Thời gian di chuyển tối đa (phút), ví dụ "trong vòng 10 phút đi bộ" → travelMode=walking, maxMinutes=10.',
         },
         types: {
           type: SchemaType.ARRAY,
@@ -1280,27 +1884,37 @@ export class FusekiService implements OnModuleInit {
           description:
             'AQI tối đa để lọc (0-500). Dùng maxAqi=50 cho không khí tốt, maxAqi=100 cho không khí trung bình.',
         },
+        estimateMissing: {
+          type: SchemaType.BOOLEAN,
+          description:
+            'Ước lượng aqi/temperature/noise_level còn thiếu từ các trạm IoT lân cận (nội suy). Nên bật khi lọc theo AQI vì phần lớn POI không có thiết bị riêng. Giá trị ước lượng được đánh dấu trong sensorData.estimated (kèm confidence 0-1).',
+        },
         limit: {
           type: SchemaType.NUMBER,
           description: 'Số POI tối đa trả về (mặc định 150)',
         },
       },
-      required: ['lon', 'lat', 'radiusKm'],
+      required: ['lon', 'lat'],
     },
   })
   async searchNearby(params: {
     lon: number;
     lat: number;
-    radiusKm: number;
+    radiusKm?: number; // Bán kính (km), có thể thay bằng travelMode + maxMinutes
+    travelMode?: string; // walking, cycling, driving
+    maxMinutes?: number; // Thời gian di chuyển tối đa (phút)
     types?: string[]; // Danh sách loại dịch vụ (atm, hospital, school, cafe, bus_stop, playground, etc.)
-    includeTopology?: boolean; // thêm thông tin topology relationships
+    includeTopology?: boolean; // thêm thông tin topology relationships (mặc định: true)
     includeIoT?: boolean; // thêm thông tin IoT coverage
     minAqi?: number; // Lọc AQI tối thiểu
     maxAqi?: number; // Lọc AQI tối đa (ví dụ: 50 = không khí tốt)
+    estimateMissing?: boolean; // Nội suy dữ liệu cảm biến còn thiếu từ trạm lân cận
     limit?: number;
     language?: string; // Ngôn ngữ: 'vi', 'en', 'all' (mặc định: 'vi')
+    cursor?: string; // Cursor của trang trước (nextCursor)
+    count?: boolean; // Trả về totalCount (không hỗ trợ khi lọc AQI)
   }) {
-    const { lon, lat, radiusKm } = params;
+    const { lon, lat, maxMinutes } = params;
     if (
       lon === undefined ||
       lat === undefined ||
@@ -1308,9 +1922,47 @@ export class FusekiService implements OnModuleInit {
       Number.isNaN(lat)
     )
       throw new BadRequestException('Thiếu hoặc sai lon/lat');
-    if (!radiusKm || radiusKm <= 0)
+    if (maxMinutes !== undefined && !(maxMinutes > 0))
+      throw new BadRequestException('maxMinutes phải > 0');
+    if (params.radiusKm === undefined && maxMinutes === undefined)
+      throw new BadRequestException('Cần radiusKm hoặc maxMinutes');
+    if (params.radiusKm !== undefined && !(params.radiusKm > 0))
       throw new BadRequestException('radiusKm phải > 0');
 
+    // Thời gian di chuyển: bán kính = quãng đường tới được trong maxMinutes
+    let travelMode: TravelMode | null = null;
+    try {
+      travelMode = params.travelMode
+        ? parseTravelMode(params.travelMode)
+        : maxMinutes !== undefined
+          ? 'walking'
+          : null;
+    } catch (e) {
+      throw new BadRequestException((e as Error).message);
+    }
+    // Quãng đường theo mạng đường luôn >= đường chim bay, nên với mạng đường
+    // bán kính ứng viên là quãng đường tối đa (không trừ hệ số đường vòng)
+    const maxTravelKm =
+      travelMode && maxMinutes !== undefined
+        ? (TRAVEL_SPEEDS_KMH[travelMode] * maxMinutes) / 60
+        : null;
+    const roadGraph = travelMode
+      ? this.roadNetworkService.getGraph(
+          travelMode,
+          { lon, lat },
+          maxTravelKm ?? params.radiusKm!,
+        )
+      : null;
+    const radiusKm =
+      maxTravelKm !== null
+        ? Math.min(
+            params.radiusKm || Infinity,
+            roadGraph
+              ? maxTravelKm
+              : reachableDistanceKm(travelMode!, maxMinutes!),
+          )
+        : params.radiusKm!;
+
     // Tăng limit internal nếu có filter AQI để có đủ kết quả sau khi filter
     const hasAqiFilter =
       params.minAqi !== undefined || params.maxAqi !== undefined;
@@ -1319,8 +1971,31 @@ export class FusekiService implements OnModuleInit {
       : Math.min(Math.max(params.limit ?? 100, 1), 100);
     const outputLimit = Math.min(Math.max(params.limit ?? 100, 1), 100);
 
-    // Luôn bật topology cho tất cả queries, IoT tùy chọn
-    const includeTopology = true; // Always true
+    // Phân trang theo (khoảng cách, URI, tên)
+    const scope = cursorScope('nearby', {
+      lon,
+      lat,
+      radiusKm,
+      travelMode: travelMode ?? undefined,
+      maxMinutes,
+      types: params.types,
+      includeIoT: params.includeIoT,
+      minAqi: params.minAqi,
+      maxAqi: params.maxAqi,
+      estimateMissing: params.estimateMissing,
+      language: params.language,
+    });
+    const after = params.cursor
+      ? decodeCursor(params.cursor, scope)
+      : undefined;
+    const nearbyKey = (r: {
+      distanceKm: number;
+      poi: string;
+      name?: string | null;
+    }): CursorKey => [r.distanceKm, r.poi, r.name || ''];
+
+    // Topology bật mặc định (tắt bằng includeTopology=false), IoT tùy chọn
+    const includeTopology = params.includeTopology !== false;
     const includeIoT = params.includeIoT === true; // Default: false
 
     // Bounding box
@@ -1336,195 +2011,7 @@ export class FusekiService implements OnModuleInit {
       .map((t) => t.trim().toLowerCase())
       .filter(Boolean);
 
-    // Map types to graph URIs (hỗ trợ cả số ít và số nhiều)
-    const typeToGraphMap: Record<string, string> = {
-      atm:
-        this.configService.get<string>('FUSEKI_GRAPH_ATM') ||
-        'http://localhost:3030/graph/atm',
-      atms:
-        this.configService.get<string>('FUSEKI_GRAPH_ATM') ||
-        'http://localhost:3030/graph/atm',
-      hospital:
-        this.configService.get<string>('FUSEKI_GRAPH_HOSPITAL') ||
-        'http://localhost:3030/graph/hospital',
-      hospitals:
-        this.configService.get<string>('FUSEKI_GRAPH_HOSPITAL') ||
-        'http://localhost:3030/graph/hospital',
-      school:
-        this.configService.get<string>('FUSEKI_GRAPH_SCHOOL') ||
-        'http://localhost:3030/graph/school',
-      schools:
-        this.configService.get<string>('FUSEKI_GRAPH_SCHOOL') ||
-        'http://localhost:3030/graph/school',
-      playground:
-        this.configService.get<string>('FUSEKI_GRAPH_PLAYGROUND') ||
-        'http://localhost:3030/graph/playground',
-      playgrounds:
-        this.configService.get<string>('FUSEKI_GRAPH_PLAYGROUND') ||
-        'http://localhost:3030/graph/playground',
-      toilet:
-        this.configService.get<string>('FUSEKI_GRAPH_TOILET') ||
-        'http://localhost:3030/graph/toilet',
-      toilets:
-        this.configService.get<string>('FUSEKI_GRAPH_TOILET') ||
-        'http://localhost:3030/graph/toilet',
-      bus_stop:
-        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
-        'http://localhost:3030/graph/bus-stop',
-      'bus-stop':
-        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
-        'http://localhost:3030/graph/bus-stop',
-      bus_stops:
-        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
-        'http://localhost:3030/graph/bus-stop',
-      'bus-stops':
-        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
-        'http://localhost:3030/graph/bus-stop',
-      drinking_water:
-        this.configService.get<string>('FUSEKI_GRAPH_DRINKING_WATER') ||
-        'http://localhost:3030/graph/drinking-water',
-      'drinking-water':
-        this.configService.get<string>('FUSEKI_GRAPH_DRINKING_WATER') ||
-        'http://localhost:3030/graph/drinking-water',
-      bank:
-        this.configService.get<string>('FUSEKI_GRAPH_BANK') ||
-        'http://localhost:3030/graph/bank',
-      banks:
-        this.configService.get<string>('FUSEKI_GRAPH_BANK') ||
-        'http://localhost:3030/graph/bank',
-      cafe:
-        this.configService.get<string>('FUSEKI_GRAPH_CAFE') ||
-        'http://localhost:3030/graph/cafe',
-      cafes:
-        this.configService.get<string>('FUSEKI_GRAPH_CAFE') ||
-        'http://localhost:3030/graph/cafe',
-      restaurant:
-        this.configService.get<string>('FUSEKI_GRAPH_RESTAURANT') ||
-        'http://localhost:3030/graph/restaurant',
-      restaurants:
-        this.configService.get<string>('FUSEKI_GRAPH_RESTAURANT') ||
-        'http://localhost:3030/graph/restaurant',
-      police:
-        this.configService.get<string>('FUSEKI_GRAPH_POLICE') ||
-        'http://localhost:3030/graph/police',
-      fire_station:
-        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
-        'http://localhost:3030/graph/fire-station',
-      'fire-station':
-        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
-        'http://localhost:3030/graph/fire-station',
-      fire_stations:
-        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
-        'http://localhost:3030/graph/fire-station',
-      post_office:
-        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
-        'http://localhost:3030/graph/post-office',
-      'post-office':
-        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
-        'http://localhost:3030/graph/post-office',
-      post_offices:
-        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
-        'http://localhost:3030/graph/post-office',
-      library:
-        this.configService.get<string>('FUSEKI_GRAPH_LIBRARY') ||
-        'http://localhost:3030/graph/library',
-      libraries:
-        this.configService.get<string>('FUSEKI_GRAPH_LIBRARY') ||
-        'http://localhost:3030/graph/library',
-      community_center:
-        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
-        'http://localhost:3030/graph/community-center',
-      'community-center':
-        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
-        'http://localhost:3030/graph/community-center',
-      community_centers:
-        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
-        'http://localhost:3030/graph/community-center',
-      marketplace:
-        this.configService.get<string>('FUSEKI_GRAPH_MARKETPLACE') ||
-        'http://localhost:3030/graph/marketplace',
-      marketplaces:
-        this.configService.get<string>('FUSEKI_GRAPH_MARKETPLACE') ||
-        'http://localhost:3030/graph/marketplace',
-      parking:
-        this.configService.get<string>('FUSEKI_GRAPH_PARKING') ||
-        'http://localhost:3030/graph/parking',
-      parkings:
-        this.configService.get<string>('FUSEKI_GRAPH_PARKING') ||
-        'http://localhost:3030/graph/parking',
-      fuel_station:
-        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
-        'http://localhost:3030/graph/fuel-station',
-      'fuel-station':
-        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
-        'http://localhost:3030/graph/fuel-station',
-      fuel_stations:
-        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
-        'http://localhost:3030/graph/fuel-station',
-      charging_station:
-        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
-        'http://localhost:3030/graph/charging-station',
-      'charging-station':
-        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
-        'http://localhost:3030/graph/charging-station',
-      charging_stations:
-        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
-        'http://localhost:3030/graph/charging-station',
-      pharmacy:
-        this.configService.get<string>('FUSEKI_GRAPH_PHARMACY') ||
-        'http://localhost:3030/graph/pharmacy',
-      pharmacies:
-        this.configService.get<string>('FUSEKI_GRAPH_PHARMACY') ||
-        'http://localhost:3030/graph/pharmacy',
-      supermarket:
-        this.configService.get<string>('FUSEKI_GRAPH_SUPERMARKET') ||
-        'http://localhost:3030/graph/supermarket',
-      supermarkets:
-        this.configService.get<string>('FUSEKI_GRAPH_SUPERMARKET') ||
-        'http://localhost:3030/graph/supermarket',
-      convenience_store:
-        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
-        'http://localhost:3030/graph/convenience-store',
-      'convenience-store':
-        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
-        'http://localhost:3030/graph/convenience-store',
-      convenience_stores:
-        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
-        'http://localhost:3030/graph/convenience-store',
-      kindergarten:
-        this.configService.get<string>('FUSEKI_GRAPH_KINDERGARTEN') ||
-        'http://localhost:3030/graph/kindergarten',
-      kindergartens:
-        this.configService.get<string>('FUSEKI_GRAPH_KINDERGARTEN') ||
-        'http://localhost:3030/graph/kindergarten',
-      university:
-        this.configService.get<string>('FUSEKI_GRAPH_UNIVERSITY') ||
-        'http://localhost:3030/graph/university',
-      universities:
-        this.configService.get<string>('FUSEKI_GRAPH_UNIVERSITY') ||
-        'http://localhost:3030/graph/university',
-      warehouse:
-        this.configService.get<string>('FUSEKI_GRAPH_WAREHOUSE') ||
-        'http://localhost:3030/graph/warehouse',
-      warehouses:
-        this.configService.get<string>('FUSEKI_GRAPH_WAREHOUSE') ||
-        'http://localhost:3030/graph/warehouse',
-      park:
-        this.configService.get<string>('FUSEKI_GRAPH_PARK') ||
-        'http://localhost:3030/graph/park',
-      parks:
-        this.configService.get<string>('FUSEKI_GRAPH_PARK') ||
-        'http://localhost:3030/graph/park',
-      waste_basket:
-        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
-        'http://localhost:3030/graph/waste-basket',
-      'waste-basket':
-        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
-        'http://localhost:3030/graph/waste-basket',
-      waste_baskets:
-        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
-        'http://localhost:3030/graph/waste-basket',
-    };
+    const typeToGraphMap = this.getTypeGraphMap();
 
     // Determine which graphs to query
     let graphUris: string[] = [];
@@ -1532,7 +2019,13 @@ export class FusekiService implements OnModuleInit {
       graphUris = types.map((t) => typeToGraphMap[t]).filter((g) => g);
       if (graphUris.length === 0) {
         this.logger.warn(`No graphs found for types: ${types.join(', ')}`);
-        return { center: { lon, lat }, radiusKm, count: 0, items: [] };
+        return {
+          center: { lon, lat },
+          radiusKm,
+          count: 0,
+          items: [],
+          nextCursor: null,
+        };
       }
     } else {
       graphUris = Object.values(typeToGraphMap);
@@ -1542,11 +2035,23 @@ export class FusekiService implements OnModuleInit {
       `Querying ${graphUris.length} graphs for types: ${types.join(', ') || 'all'}`,
     );
 
+    // Candidate selection: spatial index (geosparql, jena-spatial) or bounding box (filter)
+    const nearbyPattern = (mode: SpatialQueryMode): string =>
+      this.spatialNearbyPattern(mode, lat, lon, radiusKm);
+    const nearbyFilter = (mode: SpatialQueryMode): string =>
+      mode === 'geosparql'
+        ? `FILTER(geof:distance(?wkt, "POINT(${lon} ${lat})"^^geo:wktLiteral, uom:metre) <= ${radiusKm * 1000})`
+        : mode === 'filter'
+          ? `FILTER(?lon >= ${minLon} && ?lon <= ${maxLon} && ?lat >= ${minLat} && ?lat <= ${maxLat})`
+          : '';
+
     // Build UNION of GRAPH clauses - mỗi graph query riêng biệt hoàn toàn
-    const graphClauses = graphUris
-      .map(
-        (uri) => `{
+    const graphClauses = (mode: SpatialQueryMode) =>
+      graphUris
+        .map(
+          (uri) => `{
         GRAPH <${uri}> {
+          ${nearbyPattern(mode)}
           ?poi geo:asWKT ?wkt .
           OPTIONAL { ?poi ext:amenity ?amenity . }
           OPTIONAL { ?poi ext:highway ?highway . }
@@ -1558,8 +2063,8 @@ export class FusekiService implements OnModuleInit {
           OPTIONAL { ?poi schema:operator ?operator . }
         }
       }`,
-      )
-      .join(' UNION ');
+        )
+        .join(' UNION ');
 
     // IoT coverage
     const iotJoin = params.includeIoT
@@ -1571,9 +2076,20 @@ export class FusekiService implements OnModuleInit {
       }`
       : '';
 
-    const query = `
+    // Nearest candidates first (equirectangular approximation), so that the
+    // LIMIT never drops closer POIs; exact distance is computed below
+    const cosLat = Math.cos((lat * Math.PI) / 180);
+    const approxDistance = `((?lon - ${lon}) * ${cosLat} * (?lon - ${lon}) * ${cosLat} + (?lat - ${lat}) * (?lat - ${lat}))`;
+    // Trang sau: bỏ các POI gần hơn cursor (nới 5% vì khoảng cách xấp xỉ)
+    const afterFilter = after
+      ? `FILTER(${approxDistance} >= ${Math.pow((Number(after[0]) * 0.95) / 111.195, 2)})`
+      : '';
+    const buildQuery = (mode: SpatialQueryMode) => `
       PREFIX ext: <http://opendatafithou.org/def/extension/>
       PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      PREFIX geof: <http://www.opengis.net/def/function/geosparql/>
+      PREFIX uom: <http://www.opengis.net/def/uom/OGC/1.0/>
+      PREFIX spatial: <http://jena.apache.org/spatial#>
       PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
       PREFIX schema: <http://schema.org/>
       PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
@@ -1586,7 +2102,7 @@ export class FusekiService implements OnModuleInit {
         {
           SELECT DISTINCT ?poi ?name ?amenity ?highway ?leisure ?brand ?operator ?wkt ?lon ?lat ?type
           WHERE {
-            ${graphClauses}
+            ${graphClauses(mode)}
             
             BIND(REPLACE(STR(?wkt), "^[Pp][Oo][Ii][Nn][Tt]\\\\s*\\\\(([0-9.\\\\-]+)\\\\s+([0-9.\\\\-]+).*\\\\)$", "$1") AS ?lonStr)
             BIND(REPLACE(STR(?wkt), "^[Pp][Oo][Ii][Nn][Tt]\\\\s*\\\\(([0-9.\\\\-]+)\\\\s+([0-9.\\\\-]+).*\\\\)$", "$2") AS ?latStr)
@@ -1600,7 +2116,8 @@ export class FusekiService implements OnModuleInit {
                     IF(BOUND(?labelRaw) && LANG(?labelRaw) = "", ?labelRaw, ?labelRaw)) AS ?label)
             BIND(COALESCE(?schemaName, ?label) AS ?name)
             
-            FILTER(?lon >= ${minLon} && ?lon <= ${maxLon} && ?lat >= ${minLat} && ?lat <= ${maxLat})
+            ${nearbyFilter(mode)}
+            ${afterFilter}
             FILTER(BOUND(?wkt))
           }
         }
@@ -1608,10 +2125,23 @@ export class FusekiService implements OnModuleInit {
         ${iotJoin}
       }
       GROUP BY ?poi ?name ?amenity ?highway ?leisure ?brand ?operator ?wkt ?lon ?lat
+      ORDER BY ${approxDistance}
       LIMIT ${internalLimit * 3}
     `;
 
-    const rows = await this.runSelect(query);
+    // Spatial index đã được kiểm tra khi khởi động (probeSpatialMode),
+    // ở đây chỉ dùng bounding box khi truy vấn spatial lỗi
+    const mode = this.spatialMode;
+    let rows: any[];
+    try {
+      rows = await this.runSelect(buildQuery(mode));
+    } catch (e) {
+      if (mode === 'filter') throw e;
+      this.logger.warn(
+        `[searchNearby] ${mode} query failed, falling back to bounding box filter: ${(e as Error).message}`,
+      );
+      rows = await this.runSelect(buildQuery('filter'));
+    }
 
     this.logger.debug(`Found ${rows.length} raw results from SPARQL query`);
 
@@ -1688,7 +2218,7 @@ export class FusekiService implements OnModuleInit {
     this.logger.debug(`After deduplication: ${poiMap.size} unique POIs`);
 
     // Process results với Haversine - chưa slice để có thể filter theo AQI sau
-    let results = Array.from(poiMap.values())
+    const candidates = Array.from(poiMap.values())
       .map((r) => {
         const dKm = this.haversineKm(
           lat,
@@ -1718,9 +2248,25 @@ export class FusekiService implements OnModuleInit {
           topology: null as any, // sẽ populate nếu includeTopology=true
         };
       })
-      .filter((r) => r.distanceKm <= radiusKm)
-      .sort((a, b) => a.distanceKm - b.distanceKm)
-      .slice(0, hasAqiFilter ? internalLimit : outputLimit);
+      .filter((r) => r.distanceKm <= radiusKm);
+
+    let results = this.withTravelMinutes(
+      candidates,
+      { lon, lat },
+      travelMode,
+      roadGraph,
+      maxMinutes,
+    )
+      .filter((r) => !after || compareKeys(nearbyKey(r), after) > 0)
+      .sort((a, b) => compareKeys(nearbyKey(a), nearbyKey(b)))
+      .slice(0, (hasAqiFilter ? internalLimit : outputLimit) + 1);
+
+    // Với filter AQI, một trang có thể dùng hết cửa sổ ứng viên: trang sau bắt
+    // đầu sau ứng viên cuối cùng đã xét
+    const windowFull = hasAqiFilter && results.length > internalLimit;
+    if (windowFull) results = results.slice(0, internalLimit);
+    const lastCandidateKey =
+      results.length > 0 ? nearbyKey(results[results.length - 1]) : null;
 
     // Fetch topology relationships nếu được yêu cầu
     if (includeTopology && results.length > 0) {
@@ -1928,103 +2474,1107 @@ export class FusekiService implements OnModuleInit {
       }
     }
 
-    // Fetch device IDs from iot-coverage graph for main POIs
-    if (results.length > 0) {
-      const poiUris = results.map((r) => `<${r.poi}>`).join(' ');
-      const iotCoverageGraphUri =
-        this.configService.get<string>('FUSEKI_GRAPH_IOT_COVERAGE') ||
-        'http://localhost:3030/graph/iot-coverage';
-
-      const deviceQuery = `
-        PREFIX sosa: <http://www.w3.org/ns/sosa/>
-        
-        SELECT ?poi ?device
-        WHERE {
-          GRAPH <${iotCoverageGraphUri}> {
-            VALUES ?poi { ${poiUris} }
-            ?poi sosa:isSampledBy ?device .
-          }
-        }
-      `;
-
-      try {
-        const deviceRows = await this.runSelect(deviceQuery);
-        const deviceMap = new Map<string, string>();
-
-        deviceRows.forEach((row) => {
-          deviceMap.set(row.poi, row.device);
-        });
-
-        // Assign device to results
-        results = results.map((r) => ({
-          ...r,
-          device: deviceMap.get(r.poi) || null,
-        }));
-
-        this.logger.debug(`Found device mappings for ${deviceMap.size} POIs`);
-      } catch (e: any) {
-        this.logger.warn('Failed to fetch device mappings: ' + e.message);
-      }
-    }
-
-    // Fetch sensor data (AQI, temperature, noise_level) for POIs with devices
-    if (results.length > 0) {
-      const deviceMap = new Map<string, string>();
-      results.forEach((r) => {
-        if ((r as any).device) {
-          deviceMap.set(r.poi, (r as any).device);
-        }
-      });
-
-      if (deviceMap.size > 0) {
-        try {
-          const sensorDataMap = await this.fetchSensorDataForDevices(deviceMap);
-
-          results = results.map((r) => ({
-            ...r,
-            sensorData: sensorDataMap.get(r.poi) || null,
-          }));
-
-          this.logger.debug(
-            `Fetched sensor data for ${sensorDataMap.size} POIs`,
-          );
-        } catch (e: any) {
-          this.logger.warn('Failed to fetch sensor data: ' + e.message);
-        }
-      }
-    }
+    // Gắn device và dữ liệu cảm biến (AQI, temperature, noise_level)
+    const withSensorData = await this.attachSensorData(results);
+    results = params.estimateMissing
+      ? await this.fillMissingSensorData(withSensorData)
+      : withSensorData;
 
     // Filter by AQI if requested
     if (hasAqiFilter) {
       const beforeFilter = results.length;
-      results = results
-        .filter((r) => {
-          const sensorData = (r as any).sensorData;
-          // Chỉ lọc những POI có sensor data và AQI
-          if (
-            !sensorData ||
-            sensorData.aqi === null ||
-            sensorData.aqi === undefined
-          ) {
-            return false; // Bỏ qua POI không có dữ liệu AQI khi filter
-          }
-          const aqi = sensorData.aqi;
-          if (params.minAqi !== undefined && aqi < params.minAqi) return false;
-          if (params.maxAqi !== undefined && aqi > params.maxAqi) return false;
-          return true;
-        })
-        .slice(0, outputLimit);
+      results = results.filter((r) => {
+        const { sensorData } = r as { sensorData?: SensorData | null };
+        // Chỉ lọc những POI có sensor data và AQI
+        if (
+          !sensorData ||
+          sensorData.aqi === null ||
+          sensorData.aqi === undefined
+        ) {
+          return false; // Bỏ qua POI không có dữ liệu AQI khi filter
+        }
+        const aqi = sensorData.aqi;
+        if (params.minAqi !== undefined && aqi < params.minAqi) return false;
+        if (params.maxAqi !== undefined && aqi > params.maxAqi) return false;
+        return true;
+      });
 
       this.logger.debug(
         `AQI filter: ${beforeFilter} -> ${results.length} (minAqi=${params.minAqi}, maxAqi=${params.maxAqi})`,
       );
     }
 
+    const page = paginate(results, nearbyKey, { limit: outputLimit, scope });
+    const nextCursor =
+      page.nextCursor ??
+      (windowFull && lastCandidateKey
+        ? encodeCursor(lastCandidateKey, scope)
+        : null);
+    // Đếm theo đường chim bay: không chính xác khi lọc theo mạng đường
+    const totalCount =
+      params.count && !hasAqiFilter && !(roadGraph && maxMinutes)
+        ? await this.countNearby(graphUris, { lon, lat, radiusKm })
+        : undefined;
+
     return {
       center: { lon, lat },
       radiusKm,
-      count: results.length,
-      items: results,
+      travel: travelMode
+        ? {
+            mode: travelMode,
+            maxMinutes: maxMinutes ?? null,
+            speedKmh: TRAVEL_SPEEDS_KMH[travelMode],
+            method: roadGraph ? 'road-network' : 'estimate',
+          }
+        : undefined,
+      count: page.items.length,
+      items: page.items,
+      nextCursor,
+      totalCount,
+    };
+  }
+
+  /**
+   * Add estimatedTravelMinutes to every item and drop items over the time budget
+   *
+   * Uses shortest road distances when a road graph is loaded, otherwise the
+   * straight-line distance with a detour factor.
+   */
+  private withTravelMinutes<
+    T extends { lon: number; lat: number; distanceKm: number },
+  >(
+    items: T[],
+    origin: { lon: number; lat: number },
+    mode: TravelMode | null,
+    roadGraph: RoadGraph | null,
+    maxMinutes?: number,
+  ): (T & { estimatedTravelMinutes?: number })[] {
+    if (!mode) return items;
+
+    const roadMeters = roadGraph
+      ? roadGraph.distancesFrom(
+          [origin.lon, origin.lat],
+          items.map((r): Position => [r.lon, r.lat]),
+          maxMinutes !== undefined
+            ? (TRAVEL_SPEEDS_KMH[mode] * maxMinutes * 1000) / 60
+            : undefined,
+        )
+      : null;
+
+    return items
+      .map((r, i) => {
+        const meters = roadMeters?.[i] ?? null;
+        let minutes: number;
+        if (meters !== null && Number.isFinite(meters)) {
+          minutes = estimateTravelMinutes(mode, meters / 1000, true);
+        } else if (meters === Infinity && maxMinutes !== undefined) {
+          // Không tới được trong thời gian cho phép
+          minutes = Infinity;
+        } else {
+          // POI ngoài mạng đường: ước tính theo đường chim bay
+          minutes = estimateTravelMinutes(mode, r.distanceKm);
+        }
+        return {
+          ...r,
+          estimatedTravelMinutes: Math.round(minutes * 10) / 10,
+        };
+      })
+      .filter(
+        (r) =>
+          maxMinutes === undefined || r.estimatedTravelMinutes <= maxMinutes,
+      );
+  }
+
+  /**
+   * Number of POIs of the given graphs within radiusKm (totalCount of searchNearby)
+   * Counted in SPARQL with the same POINT parsing as searchNearby, distance by
+   * equirectangular approximation (differs from haversine by well under 0.1%)
+   */
+  private async countNearby(
+    graphUris: string[],
+    center: { lon: number; lat: number; radiusKm: number },
+  ) {
+    const { lon, lat, radiusKm } = center;
+    const [minLon, minLat, maxLon, maxLat] = expandBBox(
+      [lon, lat, lon, lat],
+      radiusKm * 1000,
+    );
+    const cosLat = Math.cos((lat * Math.PI) / 180);
+    const graphClauses = graphUris
+      .map((uri) => `{ GRAPH <${uri}> { ?poi geo:asWKT ?wkt . } }`)
+      .join(' UNION ');
+
+    const rows = (await this.runSelect(`
+      PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+      SELECT (COUNT(DISTINCT ?poi) AS ?count)
+      WHERE {
+        ${graphClauses}
+        BIND(xsd:double(REPLACE(STR(?wkt), "^[Pp][Oo][Ii][Nn][Tt]\\\\s*\\\\(([0-9.\\\\-]+)\\\\s+([0-9.\\\\-]+).*\\\\)$", "$1")) AS ?lon)
+        BIND(xsd:double(REPLACE(STR(?wkt), "^[Pp][Oo][Ii][Nn][Tt]\\\\s*\\\\(([0-9.\\\\-]+)\\\\s+([0-9.\\\\-]+).*\\\\)$", "$2")) AS ?lat)
+        FILTER(?lon >= ${minLon} && ?lon <= ${maxLon} && ?lat >= ${minLat} && ?lat <= ${maxLat})
+        FILTER((?lon - ${lon}) * ${cosLat} * (?lon - ${lon}) * ${cosLat} + (?lat - ${lat}) * (?lat - ${lat}) <= ${Math.pow(radiusKm / 111.195, 2)})
+      }
+    `)) as { count?: string }[];
+    return parseInt(rows[0]?.count ?? '0', 10);
+  }
+
+  @ChatTool({
+    name: 'searchNearest',
+    description:
+      'Tìm k POI gần nhất với vị trí kinh độ/vĩ độ cho trước mà không cần đoán bán kính. Vùng tìm kiếm tự mở rộng cho tới khi đủ k kết quả hoặc đạt khoảng cách tối đa. Dùng cho câu hỏi "ATM gần nhất", "3 bệnh viện gần tôi nhất". Kết quả có topology và dữ liệu cảm biến giống searchNearby.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        lon: {
+          type: SchemaType.NUMBER,
+          description: 'Kinh độ của vị trí trung tâm',
+        },
+        lat: {
+          type: SchemaType.NUMBER,
+          description: 'Vĩ độ của vị trí trung tâm',
+        },
+        k: {
+          type: SchemaType.NUMBER,
+          description: 'Số POI gần nhất cần tìm (mặc định 5, tối đa 100)',
+        },
+        types: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description:
+            'Danh sách loại dịch vụ cần tìm (atm, hospital, cafe, ...). Để trống để tìm tất cả.',
+        },
+        maxDistanceKm: {
+          type: SchemaType.NUMBER,
+          description: 'Khoảng cách tìm kiếm tối đa (km, mặc định 20)',
+        },
+        includeIoT: {
+          type: SchemaType.BOOLEAN,
+          description:
+            'Bao gồm thông tin trạm cảm biến IoT phủ sóng. Mặc định: false.',
+        },
+        minAqi: {
+          type: SchemaType.NUMBER,
+          description: 'AQI tối thiểu để lọc (0-500)',
+        },
+        maxAqi: {
+          type: SchemaType.NUMBER,
+          description: 'AQI tối đa để lọc (0-500)',
+        },
+        estimateMissing: {
+          type: SchemaType.BOOLEAN,
+          description:
+            'Ước lượng dữ liệu cảm biến còn thiếu từ các trạm IoT lân cận (xem searchNearby)',
+        },
+      },
+      required: ['lon', 'lat'],
+    },
+  })
+  async searchNearest(params: {
+    lon: number;
+    lat: number;
+    k?: number;
+    types?: string[];
+    maxDistanceKm?: number; // Khoảng cách tối đa khi mở rộng vùng tìm kiếm
+    includeTopology?: boolean;
+    includeIoT?: boolean;
+    minAqi?: number;
+    maxAqi?: number;
+    estimateMissing?: boolean;
+    language?: string;
+  }) {
+    const { lon, lat } = params;
+    const k = Math.min(Math.max(Math.floor(params.k ?? 5), 1), NEAREST_MAX_K);
+    const maxDistanceKm = params.maxDistanceKm ?? 20;
+    if (!(maxDistanceKm > 0) || maxDistanceKm > NEAREST_MAX_DISTANCE_KM) {
+      throw new BadRequestException(
+        `maxDistanceKm phải trong khoảng (0, ${NEAREST_MAX_DISTANCE_KM}]`,
+      );
+    }
+
+    // Mở rộng bán kính cho tới khi đủ k POI hoặc chạm maxDistanceKm.
+    // searchNearby trả về các POI gần nhất trong bán kính, nên khi đủ k kết quả
+    // thì đó chính là k POI gần nhất
+    let radiusKm = Math.min(NEAREST_INITIAL_RADIUS_KM, maxDistanceKm);
+    let iterations = 0;
+    for (;;) {
+      iterations++;
+      const result = await this.searchNearby({
+        lon,
+        lat,
+        radiusKm,
+        types: params.types,
+        includeTopology: params.includeTopology,
+        includeIoT: params.includeIoT,
+        minAqi: params.minAqi,
+        maxAqi: params.maxAqi,
+        estimateMissing: params.estimateMissing,
+        limit: k,
+        language: params.language,
+      });
+      const found = result.items.length;
+      this.logger.debug(
+        `[searchNearest] radius ${radiusKm.toFixed(2)}km: ${found}/${k} POIs`,
+      );
+
+      if (found >= k || radiusKm >= maxDistanceKm) {
+        return {
+          center: { lon, lat },
+          k,
+          radiusKm,
+          maxDistanceKm,
+          iterations,
+          count: Math.min(found, k),
+          items: result.items.slice(0, k),
+        };
+      }
+
+      // Ước lượng bán kính cần thiết theo mật độ POI đã thấy (số POI ~ r²),
+      // tăng ít nhất 1.5 lần để không lặp quá nhiều
+      const estimate =
+        found > 0 ? radiusKm * Math.sqrt(k / found) * 1.2 : radiusKm * 2;
+      radiusKm = Math.min(Math.max(estimate, radiusKm * 1.5), maxDistanceKm);
+    }
+  }
+
+  @ChatTool({
+    name: 'searchFacets',
+    description:
+      'Tìm kiếm POI có bộ lọc (facet) trong một khu vực và đếm số lượng theo loại (type), thương hiệu (brand), đơn vị vận hành (operator), quyền truy cập (access) và phí (fee). Dùng cho câu hỏi "ATM quanh đây theo ngân hàng", "có bao nhiêu cây xăng Petrolimex gần tôi", "bãi đỗ xe miễn phí".',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        lon: {
+          type: SchemaType.NUMBER,
+          description: 'Kinh độ của vị trí trung tâm',
+        },
+        lat: {
+          type: SchemaType.NUMBER,
+          description: 'Vĩ độ của vị trí trung tâm',
+        },
+        radiusKm: {
+          type: SchemaType.NUMBER,
+          description: 'Bán kính tìm kiếm (km)',
+        },
+        types: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description:
+            'Danh sách loại dịch vụ cần tìm (atm, bank, fuel_station, parking, ...). Để trống để tìm tất cả.',
+        },
+        brand: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: 'Lọc theo thương hiệu (ví dụ: Vietcombank, BIDV)',
+        },
+        operator: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: 'Lọc theo đơn vị vận hành',
+        },
+        access: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: 'Lọc theo quyền truy cập (yes, customers, private, ...)',
+        },
+        fee: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: 'Lọc theo phí (yes, no)',
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: 'Số POI tối đa trả về (mặc định 50)',
+        },
+      },
+      required: ['lon', 'lat', 'radiusKm'],
+    },
+  })
+  async searchFacets(params: {
+    lon?: number;
+    lat?: number;
+    radiusKm?: number;
+    bbox?: number[]; // [minLon, minLat, maxLon, maxLat], thay cho lon/lat/radiusKm
+    types?: string[];
+    type?: string[]; // Facet amenity/highway/leisure
+    brand?: string[];
+    operator?: string[];
+    access?: string[];
+    fee?: string[];
+    limit?: number;
+    cursor?: string;
+    language?: string;
+  }) {
+    const limit = Math.min(Math.max(params.limit ?? 50, 1), 500);
+    const language = (params.language || 'vi').toLowerCase();
+    const { lon, lat, radiusKm } = params;
+
+    // Vùng tìm kiếm: bbox hoặc tâm + bán kính
+    let bbox: number[];
+    let center: { lon: number; lat: number } | null = null;
+    if (params.bbox) {
+      const [minLon, minLat, maxLon, maxLat] = params.bbox;
+      if (
+        params.bbox.length !== 4 ||
+        !params.bbox.every(Number.isFinite) ||
+        minLon >= maxLon ||
+        minLat >= maxLat
+      ) {
+        throw new BadRequestException(
+          'bbox phải có dạng minLon,minLat,maxLon,maxLat',
+        );
+      }
+      bbox = params.bbox;
+    } else {
+      if (
+        lon === undefined ||
+        lat === undefined ||
+        Number.isNaN(lon) ||
+        Number.isNaN(lat)
+      )
+        throw new BadRequestException('Thiếu hoặc sai lon/lat (hoặc bbox)');
+      if (!radiusKm || radiusKm <= 0)
+        throw new BadRequestException('radiusKm phải > 0');
+      center = { lon, lat };
+      bbox = expandBBox([lon, lat, lon, lat], radiusKm * 1000);
+    }
+
+    const filters: FacetFilters = {};
+    for (const field of FACET_FIELDS) {
+      const values = (params[field] || []).map((v) => v.trim()).filter(Boolean);
+      if (values.length > 0) filters[field] = values;
+    }
+
+    const { types, graphUris } = this.resolveTypeGraphs(params.types);
+    const scope = cursorScope('facets', {
+      center,
+      radiusKm: center ? radiusKm : undefined,
+      bbox: center ? undefined : bbox,
+      types,
+      filters,
+      language,
+    });
+    const after = params.cursor
+      ? decodeCursor(params.cursor, scope)
+      : undefined;
+
+    // Facet và totalCount cần toàn bộ POI trong khu vực: không cắt bớt
+    const { items: candidates, truncated } =
+      graphUris.length > 0
+        ? await this.fetchPoisInBBox(
+            graphUris,
+            bbox,
+            language,
+            FACET_MAX_CANDIDATES,
+          )
+        : { items: [], truncated: false };
+    if (truncated) {
+      throw new BadRequestException(
+        `Khu vực có hơn ${FACET_MAX_CANDIDATES} POI, hãy thu hẹp bán kính, bbox hoặc loại POI`,
+      );
+    }
+    const inArea = candidates
+      .map((r) => ({
+        ...r,
+        distanceKm: center
+          ? this.haversineKm(center.lat, center.lon, r.lat, r.lon)
+          : null,
+      }))
+      .filter((r) => r.distanceKm === null || r.distanceKm <= radiusKm!);
+
+    // Đếm facet trên toàn bộ khu vực, rồi lọc và phân trang kết quả
+    const facets = countFacets(inArea, filters);
+    const matches = inArea.filter((r) => matchesFacets(r, filters));
+    const page = paginate<(typeof matches)[number]>(
+      matches,
+      (r): CursorKey =>
+        r.distanceKm !== null ? [r.distanceKm, r.poi] : [r.poi],
+      { limit, after, scope },
+    );
+    this.logger.debug(
+      `[searchFacets] ${inArea.length} POIs in area, ${matches.length} match ${JSON.stringify(filters)}`,
+    );
+
+    return {
+      center,
+      radiusKm: center ? radiusKm : null,
+      bbox,
+      filters,
+      count: page.items.length,
+      totalCount: matches.length,
+      items: page.items,
+      facets,
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  @ChatTool({
+    name: 'searchWithin',
+    description:
+      'Tìm các POI nằm trong một vùng: đơn vị hành chính (quận, phường, tỉnh...) theo Wikidata QID, hoặc polygon GeoJSON tùy ý. Hỗ trợ multipolygon và vùng có lỗ (hole). Dùng khi người dùng hỏi "trong quận X có bao nhiêu ATM", "các bệnh viện ở phường Y".',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        qid: {
+          type: SchemaType.STRING,
+          description:
+            'Wikidata QID của đơn vị hành chính (ví dụ: Q1858 = Hà Nội). Ranh giới lấy từ OpenStreetMap.',
+        },
+        polygon: {
+          type: SchemaType.STRING,
+          description:
+            'Vùng tìm kiếm dạng GeoJSON (Polygon, MultiPolygon, Feature hoặc FeatureCollection), toạ độ [lon, lat]. Dùng khi không có qid.',
+        },
+        types: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description:
+            'Danh sách loại dịch vụ cần tìm (atm, hospital, school, cafe, bus_stop, ...). Để trống để tìm tất cả.',
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: 'Số POI tối đa trả về (mặc định 200)',
+        },
+      },
+    },
+  })
+  async searchWithin(params: {
+    polygon?: string | Record<string, any>; // GeoJSON geometry, Feature hoặc FeatureCollection
+    qid?: string; // Wikidata QID, ranh giới lấy từ Overpass
+    types?: string[];
+    limit?: number;
+    language?: string; // Ngôn ngữ tên: 'vi', 'en' (mặc định: 'vi')
+  }) {
+    const limit = Math.min(Math.max(params.limit ?? 200, 1), 1000);
+    const language = (params.language || 'vi').toLowerCase();
+
+    // Xác định vùng tìm kiếm: QID ưu tiên hơn polygon
+    let geometry: GeoJsonGeometry | null;
+    let source: 'qid' | 'polygon';
+    const qid = params.qid?.trim().toUpperCase();
+    if (qid) {
+      if (!/^Q\d+$/.test(qid)) {
+        throw new BadRequestException(`QID không hợp lệ: ${params.qid}`);
+      }
+      const outline = await this.overpassService.fetchOverpassOutline(qid);
+      const feature = outline?.features?.[0] as
+        | { geometry?: GeoJsonGeometry | null }
+        | undefined;
+      geometry = feature?.geometry ?? null;
+      if (!geometry) {
+        throw new BadRequestException(
+          `Không tìm thấy ranh giới cho ${qid} trên OpenStreetMap`,
+        );
+      }
+      source = 'qid';
+    } else if (params.polygon) {
+      geometry = this.parseAreaGeometry(params.polygon);
+      source = 'polygon';
+    } else {
+      throw new BadRequestException('Cần truyền polygon hoặc qid');
+    }
+
+    let area: Position[][][];
+    try {
+      area = toAreaPolygons(geometry);
+    } catch (e) {
+      throw new BadRequestException(
+        `Vùng tìm kiếm không hợp lệ: ${(e as Error).message}`,
+      );
+    }
+    const [minLon, minLat, maxLon, maxLat] = getBBox({
+      type: 'MultiPolygon',
+      coordinates: area,
+    });
+
+    const { types, graphUris } = this.resolveTypeGraphs(params.types);
+    const areaInfo = {
+      source,
+      qid: qid || null,
+      bbox: [minLon, minLat, maxLon, maxLat],
+    };
+    if (graphUris.length === 0) {
+      this.logger.warn(`No graphs found for types: ${types.join(', ')}`);
+      return { area: areaInfo, count: 0, items: [], truncated: false };
+    }
+
+    // Lọc ứng viên theo bounding box trong SPARQL, kiểm tra polygon chính xác ở dưới
+    const { items: candidates, truncated } = await this.fetchPoisInBBox(
+      graphUris,
+      [minLon, minLat, maxLon, maxLat],
+      language,
+    );
+    const inside = candidates.filter((r) => pointInArea([r.lon, r.lat], area));
+    this.logger.debug(
+      `[searchWithin] ${candidates.length} candidates in bbox, ${inside.length} inside the area`,
+    );
+
+    return {
+      area: areaInfo,
+      count: inside.length,
+      items: inside.slice(0, limit),
+      truncated,
+    };
+  }
+
+  @ChatTool({
+    name: 'searchAlongRoute',
+    description:
+      'Tìm các POI dọc theo một lộ trình (ví dụ: "trạm sạc trong vòng 500m quanh đường đi của tôi"). Lộ trình là GeoJSON LineString hoặc chuỗi polyline mã hoá (Google/OSRM). Kết quả sắp xếp theo vị trí dọc lộ trình, mỗi POI có khoảng cách tới đường đi (offsetMeters), quãng đường từ điểm xuất phát (alongMeters) và dữ liệu cảm biến (sensorData).',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        route: {
+          type: SchemaType.STRING,
+          description:
+            'Lộ trình: chuỗi polyline mã hoá, hoặc GeoJSON LineString (toạ độ [lon, lat])',
+        },
+        bufferMeters: {
+          type: SchemaType.NUMBER,
+          description:
+            'Khoảng cách tối đa từ POI tới lộ trình (mét, mặc định 500, tối đa 5000)',
+        },
+        types: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description:
+            'Danh sách loại dịch vụ cần tìm (charging_station, fuel_station, cafe, ...). Để trống để tìm tất cả.',
+        },
+        precision: {
+          type: SchemaType.NUMBER,
+          description: 'Độ chính xác polyline: 5 (mặc định) hoặc 6 (polyline6)',
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: 'Số POI tối đa trả về (mặc định 100)',
+        },
+      },
+      required: ['route'],
+    },
+  })
+  async searchAlongRoute(params: {
+    route: string | Position[] | Record<string, any>; // polyline mã hoá, GeoJSON LineString/Feature hoặc mảng [lon, lat]
+    bufferMeters?: number;
+    types?: string[];
+    precision?: number; // Độ chính xác polyline (5 hoặc 6)
+    limit?: number;
+    language?: string; // Ngôn ngữ tên: 'vi', 'en' (mặc định: 'vi')
+  }) {
+    const bufferMeters = params.bufferMeters ?? 500;
+    if (!(bufferMeters > 0) || bufferMeters > ROUTE_MAX_BUFFER_METERS) {
+      throw new BadRequestException(
+        `bufferMeters phải trong khoảng (0, ${ROUTE_MAX_BUFFER_METERS}]`,
+      );
+    }
+    const limit = Math.min(Math.max(params.limit ?? 100, 1), 500);
+    const language = (params.language || 'vi').toLowerCase();
+
+    const line = this.parseRoute(params.route, params.precision ?? 5);
+    const routeInfo = {
+      points: line.length,
+      lengthMeters: Math.round(lineLengthMeters(line)),
+      bufferMeters,
+    };
+
+    const { types, graphUris } = this.resolveTypeGraphs(params.types);
+    if (graphUris.length === 0) {
+      this.logger.warn(`No graphs found for types: ${types.join(', ')}`);
+      return { route: routeInfo, count: 0, items: [], truncated: false };
+    }
+
+    // Ứng viên trong bounding box của từng đoạn lộ trình (nới thêm buffer),
+    // gộp theo URI vì các đoạn liền kề có bbox chồng nhau
+    const chunks: Awaited<ReturnType<typeof this.fetchPoisInBBox>>[] = [];
+    for (const piece of splitLine(line, ROUTE_CHUNK_METERS)) {
+      const bbox = expandBBox(
+        getBBox({ type: 'LineString', coordinates: piece }),
+        bufferMeters,
+      );
+      chunks.push(await this.fetchPoisInBBox(graphUris, bbox, language));
+    }
+    const candidates = [
+      ...new Map(
+        chunks.flatMap((c) => c.items).map((r) => [r.poi, r]),
+      ).values(),
+    ];
+    const truncated = chunks.some((c) => c.truncated);
+
+    const matches = candidates
+      .map((r) => {
+        const { offsetMeters, alongMeters } = projectOntoLine(
+          [r.lon, r.lat],
+          line,
+        );
+        return {
+          ...r,
+          offsetMeters: Math.round(offsetMeters),
+          alongMeters: Math.round(alongMeters),
+        };
+      })
+      .filter((r) => r.offsetMeters <= bufferMeters)
+      .sort((a, b) => a.alongMeters - b.alongMeters);
+    this.logger.debug(
+      `[searchAlongRoute] ${candidates.length} candidates in bbox, ${matches.length} within ${bufferMeters}m of the route`,
+    );
+
+    const items = await this.attachSensorData(matches.slice(0, limit));
+    return { route: routeInfo, count: matches.length, items, truncated };
+  }
+
+  /**
+   * Parse the route argument of searchAlongRoute: an encoded polyline, a GeoJSON
+   * LineString (or Feature), or an array of [lon, lat] positions
+   */
+  private parseRoute(
+    route: string | Position[] | Record<string, any>,
+    precision: number,
+  ): Position[] {
+    let value: unknown = route;
+    if (typeof route === 'string') {
+      const text = route.trim();
+      if (text.startsWith('{') || text.startsWith('[')) {
+        try {
+          value = JSON.parse(text);
+        } catch {
+          throw new BadRequestException('route phải là GeoJSON hợp lệ');
+        }
+      } else {
+        if (precision !== 5 && precision !== 6) {
+          throw new BadRequestException('precision phải là 5 hoặc 6');
+        }
+        try {
+          value = decodePolyline(text, precision);
+        } catch (e) {
+          throw new BadRequestException(
+            `Polyline không hợp lệ: ${(e as Error).message}`,
+          );
+        }
+      }
+    }
+    const feature = value as { type?: string; geometry?: unknown } | null;
+    if (feature?.type === 'Feature') value = feature.geometry;
+    const geometry = value as { type?: string; coordinates?: unknown } | null;
+    if (geometry?.type === 'LineString') value = geometry.coordinates;
+
+    if (
+      !Array.isArray(value) ||
+      value.length < 2 ||
+      !value.every(
+        (p: unknown) =>
+          Array.isArray(p) &&
+          Number.isFinite(p[0]) &&
+          Number.isFinite(p[1]) &&
+          Math.abs(p[0] as number) <= 180 &&
+          Math.abs(p[1] as number) <= 90,
+      )
+    ) {
+      throw new BadRequestException(
+        'route phải là LineString có ít nhất 2 điểm [lon, lat] hợp lệ',
+      );
+    }
+    return value as Position[];
+  }
+
+  /**
+   * POI types requested by a search and the graphs holding them (all graphs
+   * when no type is given)
+   */
+  private resolveTypeGraphs(requested?: string[]): {
+    types: string[];
+    graphUris: string[];
+  } {
+    const typeToGraphMap = this.getTypeGraphMap();
+    const types = (requested || [])
+      .map((t) => t.trim().toLowerCase())
+      .filter(Boolean);
+    const graphUris = [
+      ...new Set(
+        types.length > 0
+          ? types.map((t) => typeToGraphMap[t]).filter((g) => g)
+          : Object.values(typeToGraphMap),
+      ),
+    ];
+    return { types, graphUris };
+  }
+
+  /**
+   * POIs of the given graphs inside a bounding box [minLon, minLat, maxLon, maxLat]
+   * Lines and polygons are located by the center of their bounding box
+   * Exact geometry checks (polygon, route buffer) are left to the caller
+   * truncated is set when the bbox holds more than maxCandidates POIs
+   */
+  private async fetchPoisInBBox(
+    graphUris: string[],
+    bbox: number[],
+    language: string,
+    maxCandidates = BBOX_MAX_CANDIDATES,
+  ) {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    const [gMinLon, gMinLat, gMaxLon, gMaxLat] = expandBBox(
+      bbox as BBox,
+      BBOX_GEOMETRY_MARGIN_METERS,
+    );
+    const graphClauses = graphUris
+      .map(
+        (uri) => `{
+        GRAPH <${uri}> {
+          ?poi geo:asWKT ?wktRaw .
+          OPTIONAL { ?poi ext:amenity ?amenityRaw . }
+          OPTIONAL { ?poi ext:highway ?highwayRaw . }
+          OPTIONAL { ?poi ext:leisure ?leisureRaw . }
+          OPTIONAL { ?poi a ?type . }
+          OPTIONAL { ?poi schema:name ?name_pref . FILTER(lang(?name_pref) = "${language === 'en' ? 'en' : 'vi'}") }
+          OPTIONAL { ?poi schema:name ?name_raw . FILTER(lang(?name_raw) = "") }
+          OPTIONAL { ?poi rdfs:label ?label . }
+          OPTIONAL { ?poi schema:brand ?brandRaw . }
+          OPTIONAL { ?poi schema:operator ?operatorRaw . }
+          OPTIONAL { ?poi ext:access ?accessRaw . }
+          OPTIONAL { ?poi ext:fee ?feeRaw . }
+        }
+      }`,
+      )
+      .join(' UNION ');
+
+    const query = `
+      PREFIX ext: <http://opendatafithou.org/def/extension/>
+      PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+      PREFIX schema: <http://schema.org/>
+      PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+      SELECT ?poi (SAMPLE(?finalName) AS ?name) (SAMPLE(?amenityRaw) AS ?amenity)
+             (SAMPLE(?highwayRaw) AS ?highway) (SAMPLE(?leisureRaw) AS ?leisure)
+             (SAMPLE(?brandRaw) AS ?brand) (SAMPLE(?operatorRaw) AS ?operator)
+             (SAMPLE(?accessRaw) AS ?access) (SAMPLE(?feeRaw) AS ?fee)
+             (SAMPLE(?wktRaw) AS ?wkt) (SAMPLE(?lonRaw) AS ?lon) (SAMPLE(?latRaw) AS ?lat)
+             (GROUP_CONCAT(DISTINCT ?type; separator=",") AS ?types)
+      WHERE {
+        ${graphClauses}
+
+        # Vị trí đầu tiên của WKT (POINT, LINESTRING, POLYGON, ...)
+        BIND(REPLACE(STR(?wktRaw), "^[^(]*\\\\(+\\\\s*([-+0-9.eE]+)\\\\s+([-+0-9.eE]+).*$", "$1") AS ?lonStr)
+        BIND(REPLACE(STR(?wktRaw), "^[^(]*\\\\(+\\\\s*([-+0-9.eE]+)\\\\s+([-+0-9.eE]+).*$", "$2") AS ?latStr)
+        BIND(xsd:double(?lonStr) AS ?lonRaw)
+        BIND(xsd:double(?latStr) AS ?latRaw)
+        BIND(COALESCE(?name_pref, ?name_raw, ?label) AS ?finalName)
+
+        # Điểm: nằm trong bbox; đường/vùng: đỉnh đầu tiên trong bbox nới rộng
+        FILTER(IF(REGEX(STR(?wktRaw), "^\\\\s*(<[^>]*>\\\\s*)?POINT", "i"),
+          ?lonRaw >= ${minLon} && ?lonRaw <= ${maxLon} && ?latRaw >= ${minLat} && ?latRaw <= ${maxLat},
+          ?lonRaw >= ${gMinLon} && ?lonRaw <= ${gMaxLon} && ?latRaw >= ${gMinLat} && ?latRaw <= ${gMaxLat}))
+      }
+      GROUP BY ?poi
+      ORDER BY ?poi`;
+
+    // Phân trang theo URI tới maxCandidates (trang cuối lấy thêm 1 để biết bị cắt)
+    const rows: Record<string, string>[] = [];
+    for (let offset = 0; offset <= maxCandidates; offset += BBOX_PAGE_SIZE) {
+      const page = await this.runSelect(
+        `${query}\n      LIMIT ${Math.min(BBOX_PAGE_SIZE, maxCandidates + 1 - offset)}\n      OFFSET ${offset}`,
+      );
+      rows.push(...page);
+      if (page.length < BBOX_PAGE_SIZE) break;
+    }
+    const truncated = rows.length > maxCandidates;
+    if (truncated) {
+      rows.length = maxCandidates;
+      this.logger.warn(
+        `[fetchPoisInBBox] More than ${maxCandidates} POIs in bbox ${bbox.join(',')}, results truncated`,
+      );
+    }
+
+    const items = rows
+      .map((r) => {
+        // Đường/vùng: lấy tâm bounding box làm vị trí đại diện
+        let lon = parseFloat(r.lon);
+        let lat = parseFloat(r.lat);
+        const geometry = r.wkt ? wktToGeoJson(r.wkt) : null;
+        if (geometry && geometry.type !== 'Point') {
+          const [gMin, gMinY, gMax, gMaxY] = getBBox(geometry);
+          lon = (gMin + gMax) / 2;
+          lat = (gMinY + gMaxY) / 2;
+        }
+        return { r, lon, lat };
+      })
+      .filter(
+        ({ lon, lat }) =>
+          lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat,
+      )
+      .map(({ r, lon, lat }) => {
+        // Phân loại amenity/highway/leisure từ schema.org type
+        const schemaType = (r.types || '')
+          .split(',')
+          .find((t) => t.includes('schema.org/'))
+          ?.split('/')
+          .pop();
+        const typeKey = schemaType && this.convertFromSchemaType(schemaType);
+        const category = typeKey
+          ? classifyPoiType(typeKey)
+          : {
+              amenity: r.amenity || null,
+              highway: r.highway || null,
+              leisure: r.leisure || null,
+            };
+        return {
+          poi: r.poi,
+          name: r.name || null,
+          ...category,
+          brand: r.brand || null,
+          operator: r.operator || null,
+          access: r.access || null,
+          fee: r.fee || null,
+          wkt: r.wkt || null,
+          lon,
+          lat,
+        };
+      });
+    return { items, truncated };
+  }
+
+  /**
+   * Parse the polygon argument of searchWithin: a GeoJSON geometry, Feature or
+   * FeatureCollection, either as an object or a JSON string
+   */
+  private parseAreaGeometry(
+    polygon: string | Record<string, any>,
+  ): GeoJsonGeometry {
+    let value: unknown = polygon;
+    if (typeof polygon === 'string') {
+      try {
+        value = JSON.parse(polygon);
+      } catch {
+        throw new BadRequestException('polygon phải là GeoJSON hợp lệ');
+      }
+    }
+    const geojson = value as {
+      type?: string;
+      features?: ({ geometry?: GeoJsonGeometry | null } | null)[];
+      geometry?: unknown;
+    } | null;
+    if (geojson?.type === 'FeatureCollection') {
+      const geometries = (geojson.features || [])
+        .map((f) => f?.geometry)
+        .filter((g): g is GeoJsonGeometry => Boolean(g));
+      if (geometries.length === 1) return geometries[0];
+      // Gộp các feature thành một MultiPolygon
+      value = {
+        type: 'MultiPolygon',
+        coordinates: geometries.flatMap((g) =>
+          g.type === 'Polygon'
+            ? [g.coordinates as Position[][]]
+            : g.type === 'MultiPolygon'
+              ? (g.coordinates as Position[][][])
+              : [],
+        ),
+      };
+    } else if (geojson?.type === 'Feature') {
+      value = geojson.geometry;
+    }
+    const geometry = value as Partial<GeoJsonGeometry> | null;
+    if (
+      !geometry ||
+      !['Polygon', 'MultiPolygon'].includes(geometry.type ?? '') ||
+      !Array.isArray(geometry.coordinates)
+    ) {
+      throw new BadRequestException(
+        'polygon phải là GeoJSON Polygon hoặc MultiPolygon',
+      );
+    }
+    return geometry as GeoJsonGeometry;
+  }
+
+  /**
+   * Graph URI of every POI type (hỗ trợ cả số ít và số nhiều)
+   */
+  private getTypeGraphMap(): Record<string, string> {
+    return {
+      atm:
+        this.configService.get<string>('FUSEKI_GRAPH_ATM') ||
+        'http://localhost:3030/graph/atm',
+      atms:
+        this.configService.get<string>('FUSEKI_GRAPH_ATM') ||
+        'http://localhost:3030/graph/atm',
+      hospital:
+        this.configService.get<string>('FUSEKI_GRAPH_HOSPITAL') ||
+        'http://localhost:3030/graph/hospital',
+      hospitals:
+        this.configService.get<string>('FUSEKI_GRAPH_HOSPITAL') ||
+        'http://localhost:3030/graph/hospital',
+      school:
+        this.configService.get<string>('FUSEKI_GRAPH_SCHOOL') ||
+        'http://localhost:3030/graph/school',
+      schools:
+        this.configService.get<string>('FUSEKI_GRAPH_SCHOOL') ||
+        'http://localhost:3030/graph/school',
+      playground:
+        this.configService.get<string>('FUSEKI_GRAPH_PLAYGROUND') ||
+        'http://localhost:3030/graph/playground',
+      playgrounds:
+        this.configService.get<string>('FUSEKI_GRAPH_PLAYGROUND') ||
+        'http://localhost:3030/graph/playground',
+      toilet:
+        this.configService.get<string>('FUSEKI_GRAPH_TOILET') ||
+        'http://localhost:3030/graph/toilet',
+      toilets:
+        this.configService.get<string>('FUSEKI_GRAPH_TOILET') ||
+        'http://localhost:3030/graph/toilet',
+      bus_stop:
+        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
+        'http://localhost:3030/graph/bus-stop',
+      'bus-stop':
+        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
+        'http://localhost:3030/graph/bus-stop',
+      bus_stops:
+        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
+        'http://localhost:3030/graph/bus-stop',
+      'bus-stops':
+        this.configService.get<string>('FUSEKI_GRAPH_BUS_STOP') ||
+        'http://localhost:3030/graph/bus-stop',
+      drinking_water:
+        this.configService.get<string>('FUSEKI_GRAPH_DRINKING_WATER') ||
+        'http://localhost:3030/graph/drinking-water',
+      'drinking-water':
+        this.configService.get<string>('FUSEKI_GRAPH_DRINKING_WATER') ||
+        'http://localhost:3030/graph/drinking-water',
+      bank:
+        this.configService.get<string>('FUSEKI_GRAPH_BANK') ||
+        'http://localhost:3030/graph/bank',
+      banks:
+        this.configService.get<string>('FUSEKI_GRAPH_BANK') ||
+        'http://localhost:3030/graph/bank',
+      cafe:
+        this.configService.get<string>('FUSEKI_GRAPH_CAFE') ||
+        'http://localhost:3030/graph/cafe',
+      cafes:
+        this.configService.get<string>('FUSEKI_GRAPH_CAFE') ||
+        'http://localhost:3030/graph/cafe',
+      restaurant:
+        this.configService.get<string>('FUSEKI_GRAPH_RESTAURANT') ||
+        'http://localhost:3030/graph/restaurant',
+      restaurants:
+        this.configService.get<string>('FUSEKI_GRAPH_RESTAURANT') ||
+        'http://localhost:3030/graph/restaurant',
+      police:
+        this.configService.get<string>('FUSEKI_GRAPH_POLICE') ||
+        'http://localhost:3030/graph/police',
+      fire_station:
+        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
+        'http://localhost:3030/graph/fire-station',
+      'fire-station':
+        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
+        'http://localhost:3030/graph/fire-station',
+      fire_stations:
+        this.configService.get<string>('FUSEKI_GRAPH_FIRE_STATION') ||
+        'http://localhost:3030/graph/fire-station',
+      post_office:
+        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
+        'http://localhost:3030/graph/post-office',
+      'post-office':
+        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
+        'http://localhost:3030/graph/post-office',
+      post_offices:
+        this.configService.get<string>('FUSEKI_GRAPH_POST_OFFICE') ||
+        'http://localhost:3030/graph/post-office',
+      library:
+        this.configService.get<string>('FUSEKI_GRAPH_LIBRARY') ||
+        'http://localhost:3030/graph/library',
+      libraries:
+        this.configService.get<string>('FUSEKI_GRAPH_LIBRARY') ||
+        'http://localhost:3030/graph/library',
+      community_center:
+        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
+        'http://localhost:3030/graph/community-center',
+      'community-center':
+        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
+        'http://localhost:3030/graph/community-center',
+      community_centers:
+        this.configService.get<string>('FUSEKI_GRAPH_COMMUNITY_CENTER') ||
+        'http://localhost:3030/graph/community-center',
+      marketplace:
+        this.configService.get<string>('FUSEKI_GRAPH_MARKETPLACE') ||
+        'http://localhost:3030/graph/marketplace',
+      marketplaces:
+        this.configService.get<string>('FUSEKI_GRAPH_MARKETPLACE') ||
+        'http://localhost:3030/graph/marketplace',
+      parking:
+        this.configService.get<string>('FUSEKI_GRAPH_PARKING') ||
+        'http://localhost:3030/graph/parking',
+      parkings:
+        this.configService.get<string>('FUSEKI_GRAPH_PARKING') ||
+        'http://localhost:3030/graph/parking',
+      fuel_station:
+        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
+        'http://localhost:3030/graph/fuel-station',
+      'fuel-station':
+        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
+        'http://localhost:3030/graph/fuel-station',
+      fuel_stations:
+        this.configService.get<string>('FUSEKI_GRAPH_FUEL_STATION') ||
+        'http://localhost:3030/graph/fuel-station',
+      charging_station:
+        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
+        'http://localhost:3030/graph/charging-station',
+      'charging-station':
+        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
+        'http://localhost:3030/graph/charging-station',
+      charging_stations:
+        this.configService.get<string>('FUSEKI_GRAPH_CHARGING_STATION') ||
+        'http://localhost:3030/graph/charging-station',
+      pharmacy:
+        this.configService.get<string>('FUSEKI_GRAPH_PHARMACY') ||
+        'http://localhost:3030/graph/pharmacy',
+      pharmacies:
+        this.configService.get<string>('FUSEKI_GRAPH_PHARMACY') ||
+        'http://localhost:3030/graph/pharmacy',
+      supermarket:
+        this.configService.get<string>('FUSEKI_GRAPH_SUPERMARKET') ||
+        'http://localhost:3030/graph/supermarket',
+      supermarkets:
+        this.configService.get<string>('FUSEKI_GRAPH_SUPERMARKET') ||
+        'http://localhost:3030/graph/supermarket',
+      convenience_store:
+        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
+        'http://localhost:3030/graph/convenience-store',
+      'convenience-store':
+        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
+        'http://localhost:3030/graph/convenience-store',
+      convenience_stores:
+        this.configService.get<string>('FUSEKI_GRAPH_CONVENIENCE_STORE') ||
+        'http://localhost:3030/graph/convenience-store',
+      kindergarten:
+        this.configService.get<string>('FUSEKI_GRAPH_KINDERGARTEN') ||
+        'http://localhost:3030/graph/kindergarten',
+      kindergartens:
+        this.configService.get<string>('FUSEKI_GRAPH_KINDERGARTEN') ||
+        'http://localhost:3030/graph/kindergarten',
+      university:
+        this.configService.get<string>('FUSEKI_GRAPH_UNIVERSITY') ||
+        'http://localhost:3030/graph/university',
+      universities:
+        this.configService.get<string>('FUSEKI_GRAPH_UNIVERSITY') ||
+        'http://localhost:3030/graph/university',
+      warehouse:
+        this.configService.get<string>('FUSEKI_GRAPH_WAREHOUSE') ||
+        'http://localhost:3030/graph/warehouse',
+      warehouses:
+        this.configService.get<string>('FUSEKI_GRAPH_WAREHOUSE') ||
+        'http://localhost:3030/graph/warehouse',
+      park:
+        this.configService.get<string>('FUSEKI_GRAPH_PARK') ||
+        'http://localhost:3030/graph/park',
+      parks:
+        this.configService.get<string>('FUSEKI_GRAPH_PARK') ||
+        'http://localhost:3030/graph/park',
+      waste_basket:
+        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
+        'http://localhost:3030/graph/waste-basket',
+      'waste-basket':
+        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
+        'http://localhost:3030/graph/waste-basket',
+      waste_baskets:
+        this.configService.get<string>('FUSEKI_GRAPH_WASTE_BASKET') ||
+        'http://localhost:3030/graph/waste-basket',
     };
   }
 
@@ -2077,7 +3627,7 @@ export class FusekiService implements OnModuleInit {
     this.logger.debug('SPARQL UPDATE success');
   }
 
-  private async runSelect(query: string) {
+  private async runSelect(query: string): Promise<Record<string, any>[]> {
     if (!this.queryEndpoint) {
       throw new Error('Query endpoint not configured');
     }
@@ -2342,7 +3892,14 @@ export class FusekiService implements OnModuleInit {
     );
 
     // Enrich với thông tin related entity (đầy đủ thông tin POI) - deduplicate
-    const relatedMap = new Map(relatedResults.items.map((r) => [r.poi, r]));
+    type RelatedItem = (typeof relatedResults.items)[number] & {
+      device?: string | null;
+    };
+    const relatedMap = new Map(
+      relatedResults.items.map(
+        (r: RelatedItem) => [r.poi as string, r] as const,
+      ),
+    );
     const enrichedItems = filteredItems.map((item) => {
       // Deduplicate related entities theo URI
       const seenRelated = new Set<string>();
@@ -2369,7 +3926,7 @@ export class FusekiService implements OnModuleInit {
                 lon: related.lon,
                 lat: related.lat,
                 distanceKm: related.distanceKm,
-                device: (related as any).device || null,
+                device: related.device || null,
               }
             : {
                 poi: r.relatedPoi,
@@ -2507,6 +4064,176 @@ export class FusekiService implements OnModuleInit {
     };
   }
 
+  @ChatTool({
+    name: 'searchTopologyChain',
+    description:
+      'Tìm POI thỏa mãn chuỗi quan hệ topology nhiều bước hoặc phủ định. Ví dụ: "quán cafe cạnh công viên có sân chơi" → targetType=cafe, where=[{relation:"isNextTo", type:"park", where:[{relation:"contains", type:"playground"}]}]; "trường học không gần cây xăng" → targetType=school, where=[{relation:"near", type:"fuel_station", negate:true}]. Các điều kiện cùng cấp là AND. Mỗi kết quả có matches giải thích chuỗi POI liên quan.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        lon: { type: SchemaType.NUMBER, description: 'Kinh độ trung tâm' },
+        lat: { type: SchemaType.NUMBER, description: 'Vĩ độ trung tâm' },
+        radiusKm: {
+          type: SchemaType.NUMBER,
+          description: 'Bán kính tìm kiếm (km)',
+        },
+        targetType: {
+          type: SchemaType.STRING,
+          description: 'Loại POI cần tìm (cafe, school, restaurant, ...)',
+        },
+        where: {
+          type: SchemaType.ARRAY,
+          items: topologyStepSchema(TOPOLOGY_QUERY_MAX_DEPTH),
+          description: 'Các điều kiện quan hệ (AND)',
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: 'Số kết quả tối đa (mặc định 20)',
+        },
+      },
+      required: ['lon', 'lat', 'radiusKm', 'targetType', 'where'],
+    },
+  })
+  async searchTopologyChain(params: {
+    lon: number;
+    lat: number;
+    radiusKm: number;
+    targetType?: string;
+    where?: unknown;
+    query?: TopologyQuery | string; // {type, where} hoặc JSON, thay cho targetType + where
+    limit?: number;
+    language?: string;
+  }) {
+    const { lon, lat, radiusKm } = params;
+    const limit = Math.min(Math.max(params.limit ?? 20, 1), 100);
+
+    let query: TopologyQuery;
+    let compiled: ReturnType<typeof compileTopologyQuery>;
+    const typeToGraphMap = this.getTypeGraphMap();
+    try {
+      query = parseTopologyQuery(
+        params.query ?? { type: params.targetType, where: params.where },
+      );
+      compiled = compileTopologyQuery(query, {
+        topologyGraph:
+          this.configService.get<string>('FUSEKI_GRAPH_TOPOLOGY') ||
+          'http://localhost:3030/graph/topology',
+        graphOf: (type) => typeToGraphMap[type],
+      });
+    } catch (e) {
+      throw new BadRequestException((e as Error).message);
+    }
+
+    // Ứng viên: các POI loại đích theo thứ tự khoảng cách, từng trang
+    // TOPOLOGY_CHAIN_CANDIDATES POI cho tới khi đủ kết quả hoặc hết bán kính
+    const items: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const candidates = await this.searchNearby({
+        lon,
+        lat,
+        radiusKm,
+        types: [query.type],
+        includeTopology: false,
+        limit: TOPOLOGY_CHAIN_CANDIDATES,
+        cursor,
+        language: params.language,
+      });
+      const matches = await this.matchTopologyChains(
+        compiled,
+        candidates.items.map((item: { poi: string }) => item.poi),
+      );
+      for (const item of candidates.items) {
+        const poi = item.poi as string;
+        if (items.length >= limit) break;
+        if (!matches.has(poi)) continue;
+        items.push({
+          ...item,
+          matches: compiled.bindings.length > 0 ? matches.get(poi) : [],
+        });
+      }
+      cursor = candidates.nextCursor ?? undefined;
+    } while (cursor && items.length < limit);
+
+    return {
+      center: { lon, lat },
+      radiusKm,
+      query,
+      count: items.length,
+      items,
+    };
+  }
+
+  /**
+   * Evaluate a compiled topology query on candidate POIs: the chains of related
+   * POIs (at most TOPOLOGY_CHAIN_MAX_MATCHES) of every candidate that matches
+   */
+  private async matchTopologyChains(
+    compiled: ReturnType<typeof compileTopologyQuery>,
+    pois: string[],
+  ): Promise<Map<string, any[][]>> {
+    const matches = new Map<string, any[][]>();
+    if (pois.length === 0) return matches;
+
+    const variables = compiled.bindings.map((b) => `?${b.variable}`);
+    const sparql = `
+      PREFIX schema: <http://schema.org/>
+
+      SELECT DISTINCT ?poi ${variables.join(' ')}
+      WHERE {
+        VALUES ?poi { ${pois.map((poi) => `<${poi}>`).join(' ')} }
+        ${compiled.pattern}
+      }
+      LIMIT ${pois.length * TOPOLOGY_CHAIN_MAX_MATCHES * 4}
+    `;
+    const rows = (await this.runSelect(sparql)) as Record<string, string>[];
+    if (rows.length === 0) return matches;
+
+    // Tên các POI liên quan để giải thích kết quả
+    const relatedUris = [
+      ...new Set<string>(
+        rows.flatMap((row) => compiled.bindings.map((b) => row[b.variable])),
+      ),
+    ].filter(Boolean);
+    const names = new Map<string, string>();
+    if (relatedUris.length > 0) {
+      try {
+        const nameRows = (await this.runSelect(`
+          PREFIX schema: <http://schema.org/>
+          PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+
+          SELECT ?s (SAMPLE(?n) AS ?name)
+          WHERE {
+            VALUES ?s { ${relatedUris.map((u) => `<${u}>`).join(' ')} }
+            GRAPH ?g { ?s schema:name|rdfs:label ?n . }
+          }
+          GROUP BY ?s
+        `)) as { s: string; name: string }[];
+        nameRows.forEach((row) => names.set(row.s, row.name));
+      } catch (e) {
+        this.logger.warn(
+          'Failed to fetch related names: ' + (e as Error).message,
+        );
+      }
+    }
+
+    for (const row of rows) {
+      const chains = matches.get(row.poi) ?? [];
+      if (chains.length >= TOPOLOGY_CHAIN_MAX_MATCHES) continue;
+      chains.push(
+        compiled.bindings.map((b) => ({
+          relation: b.relation,
+          type: b.type,
+          poi: row[b.variable],
+          name: names.get(row[b.variable]) ?? null,
+          parent: row[b.parent],
+        })),
+      );
+      matches.set(row.poi, chains);
+    }
+    return matches;
+  }
+
   private convertToSchemaType(type: string) {
     switch (type) {
       case 'atm':
@@ -0,0 +1,87 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import type { FusekiService } from './fuseki.service';
+import { PoiTextIndexService } from './poi-text-index.service';
+
+// The real FusekiService pulls in the chat tools; only executeSelect is used
+jest.mock('./fuseki.service', () => ({ FusekiService: class {} }));
+
+describe('PoiTextIndexService', () => {
+  const hospitalGraph = 'http://localhost:3030/graph/hospital';
+  let service: PoiTextIndexService;
+
+  beforeEach(async () => {
+    // Clinics are stored in the hospital graph
+    process.env.FUSEKI_GRAPH_CLINIC = hospitalGraph;
+    const fuseki = {
+      executeSelect: jest.fn((query: string) =>
+        Promise.resolve(
+          query.includes(`<${hospitalGraph}>`)
+            ? [
+                {
+                  poi: 'http://opendatafithou.org/poi/1',
+                  name: 'Phòng khám Đa khoa Hà Nội',
+                  wkt: 'POINT(105.85 21.03)',
+                },
+              ]
+            : query.includes('/graph/pharmacy>')
+              ? [
+                  {
+                    poi: 'http://opendatafithou.org/poi/2',
+                    name: 'Nhà thuốc Phòng khám',
+                  },
+                ]
+              : [],
+        ),
+      ),
+    };
+    service = new PoiTextIndexService(fuseki as unknown as FusekiService);
+    await service.rebuild();
+  });
+
+  afterEach(() => {
+    delete process.env.FUSEKI_GRAPH_CLINIC;
+  });
+
+  it('filters by every type mapped to the graph of a POI', async () => {
+    const all = await service.searchPoisByName({ query: 'phong kham' });
+    expect(all.count).toBe(2);
+
+    const clinics = await service.searchPoisByName({
+      query: 'phong kham',
+      types: ['clinic'],
+    });
+    expect(clinics.items.map((item) => item.poi)).toEqual([
+      'http://opendatafithou.org/poi/1',
+    ]);
+    expect(clinics.items[0]).toMatchObject({ lon: 105.85, lat: 21.03 });
+
+    const unknown = await service.searchPoisByName({
+      query: 'phong kham',
+      types: ['stadium'],
+    });
+    expect(unknown.count).toBe(0);
+  });
+
+  it('rejects an empty query', async () => {
+    await expect(service.searchPoisByName({ query: '  ' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SchemaType } from '@google/generative-ai';
+import { ChatTool } from 'src/common/decorators/chat-tools.decorator';
+import { getPoiGraphMap } from '../common/poi-graphs';
+import { haversineMeters, wktToGeoJson } from '../common/geo-utils';
+import { TextIndex } from '../common/text-search';
+import { FusekiService } from './fuseki.service';
+
+const SEARCH_MAX_LIMIT = 50;
+// Điểm cộng tối đa cho POI ở gần vị trí người dùng, giảm dần tới 0 ở 10 km
+const PROXIMITY_MAX_BOOST = 10;
+const PROXIMITY_RANGE_KM = 10;
+
+export interface PoiNameDoc {
+  poi: string;
+  name: string;
+  type: string;
+  lon: number | null;
+  lat: number | null;
+}
+
+// Kết quả tìm theo tên: điểm khớp (0-100) và khoảng cách nếu có vị trí
+export type PoiNameMatch = PoiNameDoc & { score: number; distanceKm?: number };
+
+/**
+ * Graph của từng loại POI, loại viết bằng underscore (bus-stop -> bus_stop)
+ */
+function getGraphsByType(): Map<string, string> {
+  return new Map(
+    Object.entries(getPoiGraphMap()).map(([type, graphUri]) => [
+      type.replace(/-/g, '_'),
+      graphUri,
+    ]),
+  );
+}
+
+/**
+ * Tìm kiếm POI theo tên (schema:name / rdfs:label) trên tất cả graph POI
+ *
+ * Index nằm trong bộ nhớ, được dựng lại từ Fuseki khi khởi động và mỗi giờ.
+ * Không phân biệt dấu tiếng Việt ("ho hoan kiem" khớp "Hồ Hoàn Kiếm") và
+ * hỗ trợ gợi ý theo tiền tố ("ho hoa" khớp "Hồ Hoàn Kiếm").
+ */
+@Injectable()
+export class PoiTextIndexService implements OnModuleInit {
+  private readonly logger = new Logger(PoiTextIndexService.name);
+  private index = new TextIndex<PoiNameDoc>([], (doc) => doc.name);
+  private indexedAt: string | null = null;
+  private building: Promise<void> | null = null;
+
+  constructor(private readonly fusekiService: FusekiService) {}
+
+  onModuleInit() {
+    // Không chặn quá trình khởi động trong lúc dựng index
+    void this.rebuild();
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async refresh() {
+    await this.rebuild();
+  }
+
+  /**
+   * Dựng lại index từ tất cả graph POI; index cũ vẫn được dùng cho tới khi xong
+   */
+  rebuild(): Promise<void> {
+    if (!this.building) {
+      this.building = this.buildIndex().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  getStatus() {
+    return {
+      indexedAt: this.indexedAt,
+      indexSize: this.index.size,
+      building: this.building !== null,
+    };
+  }
+
+  @ChatTool({
+    name: 'searchPoisByName',
+    description:
+      'Tìm POI theo tên (không phân biệt dấu, hỗ trợ gõ dở tên). Ví dụ: "ho hoan kiem" tìm được "Hồ Hoàn Kiếm", "benh vien bach" tìm được "Bệnh viện Bạch Mai". Dùng khi người dùng nêu tên cụ thể của một địa điểm. Nếu có vị trí người dùng thì truyền lon/lat để ưu tiên kết quả gần.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        query: {
+          type: SchemaType.STRING,
+          description: 'Tên hoặc một phần tên địa điểm',
+        },
+        types: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description:
+            'Chỉ tìm trong các loại này (hospital, school, park, ...). Để trống để tìm tất cả.',
+        },
+        lon: {
+          type: SchemaType.NUMBER,
+          description: 'Kinh độ người dùng (ưu tiên kết quả gần)',
+        },
+        lat: {
+          type: SchemaType.NUMBER,
+          description: 'Vĩ độ người dùng (ưu tiên kết quả gần)',
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: 'Số kết quả tối đa. Mặc định: 10, tối đa 50.',
+        },
+      },
+      required: ['query'],
+    },
+  })
+  async searchPoisByName(params: {
+    query: string;
+    types?: string[];
+    lon?: number;
+    lat?: number;
+    limit?: number;
+  }) {
+    const { query, types, lon, lat } = params;
+    if (!query || !query.trim()) {
+      throw new BadRequestException('Thiếu từ khóa tìm kiếm');
+    }
+    const limit = Math.min(Math.max(1, params.limit ?? 10), SEARCH_MAX_LIMIT);
+    const hasLocation = Number.isFinite(lon) && Number.isFinite(lat);
+
+    if (this.index.size === 0 && this.building) {
+      await this.building;
+    }
+
+    // Lọc theo graph: mọi loại map tới cùng graph đều khớp, không chỉ loại đầu tiên
+    const graphsByType = getGraphsByType();
+    const graphSet =
+      types && types.length > 0
+        ? new Set(
+            types
+              .map((t) => graphsByType.get(t.toLowerCase().replace(/-/g, '_')))
+              .filter((graphUri): graphUri is string => !!graphUri),
+          )
+        : null;
+    const distanceKm = (doc: PoiNameDoc) =>
+      hasLocation && doc.lon !== null && doc.lat !== null
+        ? haversineMeters([lon!, lat!], [doc.lon, doc.lat]) / 1000
+        : null;
+
+    // Một POI có thể có nhiều tên (vi, en, label): lấy nhiều hơn rồi gộp theo POI
+    const matches = this.index.search(query, {
+      limit: limit * 4,
+      filter: graphSet
+        ? (doc) => graphSet.has(graphsByType.get(doc.type) ?? '')
+        : undefined,
+      boost: hasLocation
+        ? (doc) => {
+            const d = distanceKm(doc);
+            return d === null
+              ? 0
+              : PROXIMITY_MAX_BOOST * Math.max(0, 1 - d / PROXIMITY_RANGE_KM);
+          }
+        : undefined,
+    });
+
+    const seen = new Set<string>();
+    const items: PoiNameMatch[] = [];
+    for (const { doc, score } of matches) {
+      if (seen.has(doc.poi)) continue;
+      seen.add(doc.poi);
+      const d = distanceKm(doc);
+      items.push({
+        ...doc,
+        score: Math.round(score * 10) / 10,
+        ...(d !== null ? { distanceKm: Math.round(d * 1000) / 1000 } : {}),
+      });
+      if (items.length >= limit) break;
+    }
+
+    return {
+      query,
+      count: items.length,
+      items,
+      indexedAt: this.indexedAt,
+      indexSize: this.index.size,
+    };
+  }
+
+  private async buildIndex() {
+    const started = Date.now();
+    const docs: PoiNameDoc[] = [];
+    // Cùng một graph có thể được map bởi nhiều type (underscore / hyphen)
+    const graphs = new Map<string, string>();
+    for (const [type, graphUri] of getGraphsByType()) {
+      if (!graphs.has(graphUri)) graphs.set(graphUri, type);
+    }
+
+    for (const [graphUri, type] of graphs) {
+      try {
+        docs.push(...(await this.fetchNames(graphUri, type)));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to index names of ${graphUri}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    this.index = new TextIndex(docs, (doc) => doc.name);
+    this.indexedAt = new Date().toISOString();
+    this.logger.log(
+      `Indexed ${docs.length} POI names from ${graphs.size} graphs in ${Date.now() - started} ms`,
+    );
+  }
+
+  private async fetchNames(
+    graphUri: string,
+    type: string,
+  ): Promise<PoiNameDoc[]> {
+    const query = `
+      PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+      PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+      PREFIX schema: <http://schema.org/>
+
+      SELECT DISTINCT ?poi ?name ?wkt
+      WHERE {
+        GRAPH <${graphUri}> {
+          { ?poi schema:name ?name . } UNION { ?poi rdfs:label ?name . }
+          OPTIONAL { ?poi geo:asWKT ?wkt . }
+        }
+      }
+    `;
+
+    const rows = (await this.fusekiService.executeSelect(query)) as {
+      poi: string;
+      name?: string;
+      wkt?: string;
+    }[];
+    const docs = new Map<string, PoiNameDoc>();
+    for (const row of rows) {
+      const name = (row.name ?? '').trim();
+      if (!name) continue;
+      const key = `${row.poi}\n${name}`;
+      if (docs.has(key)) continue;
+
+      const geometry = row.wkt ? wktToGeoJson(row.wkt) : null;
+      const [lon, lat] =
+        geometry?.type === 'Point'
+          ? (geometry.coordinates as number[])
+          : [null, null];
+      docs.set(key, { poi: row.poi, name, type, lon, lat });
+    }
+    return [...docs.values()];
+  }
+}
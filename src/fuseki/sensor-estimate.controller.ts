@@ -0,0 +1,60 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Controller, Get, Query, BadRequestException } from '@nestjs/common';
+import { FusekiService } from './fuseki.service';
+
+/**
+ * Sensor estimates at arbitrary points, served under /influxdb next to the
+ * station readings. Lives in FusekiModule because station locations come from
+ * the iot-infrastructure graph and InfluxDBModule cannot import FusekiModule.
+ */
+@Controller('influxdb')
+export class SensorEstimateController {
+  constructor(private readonly fusekiService: FusekiService) {}
+
+  /**
+   * AQI, temperature and noise_level interpolated from the nearest stations,
+   * each with a 0-1 confidence and the stations used
+   * GET /influxdb/estimate?lat=21.03&lon=105.85&maxDistanceKm=10&maxStations=6&power=2
+   */
+  @Get('estimate')
+  async estimate(
+    @Query('lat') lat?: string,
+    @Query('lon') lon?: string,
+    @Query('maxDistanceKm') maxDistanceKm?: string,
+    @Query('maxStations') maxStations?: string,
+    @Query('power') power?: string,
+  ) {
+    if (!lat || !lon) {
+      throw new BadRequestException('lat and lon are required');
+    }
+
+    const data = await this.fusekiService.estimateSensorData({
+      lat: parseFloat(lat),
+      lon: parseFloat(lon),
+      maxDistanceKm: maxDistanceKm ? parseFloat(maxDistanceKm) : undefined,
+      maxStations: maxStations ? parseInt(maxStations, 10) : undefined,
+      power: power ? parseFloat(power) : undefined,
+    });
+
+    return {
+      success: true,
+      data,
+    };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  InfluxDBService,
+  MEASUREMENTS,
+  MeasurementType,
+  SensorDataPoint,
+} from './influxdb.service';
+import {
+  AnomalyFilter,
+  AnomalyStoreService,
+  SensorAnomaly,
+  anomalyId,
+} from './anomaly-store.service';
+import { AnomalyKind, detectAnomalies } from './anomaly-detection';
+
+export interface AnomalyRunReport {
+  startedAt: string;
+  durationMs: number;
+  lookback: string;
+  series: number;
+  points: number;
+  anomalies: number; // found in this run
+  added: number; // not flagged by a previous run
+  byKind: Record<AnomalyKind, number>;
+  errors: string[];
+}
+
+/**
+ * AnomalyDetectionService - Scheduled checks of recent sensor values for
+ * out of range values, spikes (rolling z-score), fast changes and flatlines
+ *
+ * Every run re-reads ANOMALY_LOOKBACK (default -12h, long enough for the
+ * longest flatline rule) of every measurement and stores what it flags in
+ * AnomalyStoreService. Set ANOMALY_DETECTION_ENABLED=false to disable the
+ * schedule; runs can still be started over REST.
+ */
+@Injectable()
+export class AnomalyDetectionService {
+  private readonly logger = new Logger(AnomalyDetectionService.name);
+  private readonly lookback: string;
+  private running: Promise<AnomalyRunReport> | null = null;
+  private lastReport: AnomalyRunReport | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly influxDBService: InfluxDBService,
+    private readonly anomalyStore: AnomalyStoreService,
+  ) {
+    this.lookback =
+      this.configService.get<string>('ANOMALY_LOOKBACK') || '-12h';
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async scheduledRun() {
+    if (
+      this.configService.get<string>('ANOMALY_DETECTION_ENABLED') === 'false' ||
+      this.running
+    ) {
+      return;
+    }
+    try {
+      await this.run();
+    } catch (error) {
+      this.logger.error(
+        `Scheduled anomaly detection failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  getStatus() {
+    return {
+      running: this.running !== null,
+      lookback: this.lookback,
+      stored: this.anomalyStore.size,
+      storedByKind: this.anomalyStore.countByKind(),
+      lastReport: this.lastReport,
+    };
+  }
+
+  list(filter: AnomalyFilter): SensorAnomaly[] {
+    return this.anomalyStore.list(filter);
+  }
+
+  /**
+   * Run the checks now; concurrent calls share the same run
+   */
+  run(): Promise<AnomalyRunReport> {
+    if (!this.running) {
+      this.running = this.detect().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async detect(): Promise<AnomalyRunReport> {
+    const started = Date.now();
+    const detectedAt = new Date(started).toISOString();
+    const report: AnomalyRunReport = {
+      startedAt: detectedAt,
+      durationMs: 0,
+      lookback: this.lookback,
+      series: 0,
+      points: 0,
+      anomalies: 0,
+      added: 0,
+      byKind: { out_of_range: 0, spike: 0, rate_of_change: 0, flatline: 0 },
+      errors: [],
+    };
+
+    for (const measurement of Object.keys(MEASUREMENTS) as MeasurementType[]) {
+      let points: SensorDataPoint[];
+      try {
+        points = await this.influxDBService.getHistoryAllStations({
+          measurement,
+          start: this.lookback,
+        });
+      } catch (error) {
+        report.errors.push(`${measurement}: ${(error as Error).message}`);
+        continue;
+      }
+
+      const series = new Map<string, SensorDataPoint[]>();
+      for (const point of points) {
+        const key = `${point.stationId}|${point.field}`;
+        if (!series.has(key)) series.set(key, []);
+        series.get(key)!.push(point);
+      }
+
+      const found: SensorAnomaly[] = [];
+      for (const seriesPoints of series.values()) {
+        const { stationId, field } = seriesPoints[0];
+        seriesPoints.sort((a, b) => a.time.localeCompare(b.time));
+        for (const anomaly of detectAnomalies(seriesPoints, field)) {
+          const item = { ...anomaly, stationId, measurement, field };
+          found.push({ ...item, id: anomalyId(item), detectedAt });
+          report.byKind[anomaly.kind]++;
+        }
+      }
+
+      report.series += series.size;
+      report.points += points.length;
+      report.anomalies += found.length;
+      report.added += this.anomalyStore.upsert(found);
+    }
+
+    report.durationMs = Date.now() - started;
+    this.lastReport = report;
+    this.logger.log(
+      `Anomaly detection: ${report.anomalies} anomalies (${report.added} new) in ${report.series} series, ${report.points} points, ${report.durationMs} ms`,
+    );
+    return report;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { detectAnomalies, SeriesPoint } from './anomaly-detection';
+
+/**
+ * One value every 10 minutes from 2025-11-01T00:00:00Z
+ */
+function series(values: number[]): SeriesPoint[] {
+  const start = Date.parse('2025-11-01T00:00:00Z');
+  return values.map((value, i) => ({
+    time: new Date(start + i * 10 * 60 * 1000).toISOString(),
+    value,
+  }));
+}
+
+/**
+ * Temperatures wobbling around 28 °C
+ */
+const normal = (n: number) =>
+  Array.from({ length: n }, (_, i) => 28 + Math.sin(i) * 0.3);
+
+describe('detectAnomalies', () => {
+  it('finds nothing in normal readings', () => {
+    expect(detectAnomalies(series(normal(40)), 'temperature')).toEqual([]);
+  });
+
+  it('flags values outside the physical range', () => {
+    const anomalies = detectAnomalies(
+      series([...normal(5), 85, ...normal(5)]),
+      'temperature',
+    );
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      kind: 'out_of_range',
+      start: '2025-11-01T00:50:00.000Z',
+      value: 85,
+    });
+  });
+
+  it('flags spikes by rolling z-score', () => {
+    const anomalies = detectAnomalies(
+      series([...normal(20), 33, ...normal(5)]),
+      'temperature',
+    );
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].kind).toBe('spike');
+    expect(anomalies[0].score).toBeGreaterThan(4);
+  });
+
+  it('flags changes faster than the field allows', () => {
+    // 28.2 -> 45 in 10 minutes, before the z-score window is filled
+    const anomalies = detectAnomalies(series([28, 28.2, 45]), 'temperature');
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        kind: 'rate_of_change',
+        value: 45,
+        score: 1.68,
+      }),
+    ]);
+  });
+
+  it('does not flag the return to normal after a spike', () => {
+    const anomalies = detectAnomalies(
+      series([...normal(20), 45, ...normal(3)]),
+      'temperature',
+    );
+    expect(anomalies.map((a) => a.kind)).toEqual(['spike']);
+  });
+
+  it('flags a value stuck for longer than the field allows', () => {
+    const anomalies = detectAnomalies(
+      series([...normal(3), ...Array<number>(25).fill(24.5), ...normal(3)]),
+      'temperature',
+    );
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        kind: 'flatline',
+        start: '2025-11-01T00:30:00.000Z',
+        end: '2025-11-01T04:30:00.000Z',
+        value: 24.5,
+      }),
+    ]);
+  });
+
+  it('ignores flatlines of values that are normal to repeat', () => {
+    expect(
+      detectAnomalies(series(Array<number>(60).fill(0)), 'rain_1h'),
+    ).toEqual([]);
+    expect(
+      detectAnomalies(series(Array<number>(60).fill(2)), 'rain_1h'),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Sensor anomaly checks on the time series of one station field
+ *
+ * - out_of_range: value outside FIELD_RANGES
+ * - spike: rolling z-score against the previous values above a threshold
+ * - rate_of_change: change per minute faster than the field allows
+ * - flatline: the same value repeated for longer than the field allows (stuck sensor)
+ */
+
+import { FIELD_RANGES } from './influxdb.service';
+
+export const ANOMALY_KINDS = [
+  'out_of_range',
+  'spike',
+  'rate_of_change',
+  'flatline',
+] as const;
+
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number];
+
+export interface FieldAnomalyRule {
+  maxRatePerMinute: number;
+  flatlineMinutes: number;
+  // Values that may legitimately stay constant, e.g. no rain
+  flatlineIgnore?: number[];
+}
+
+/**
+ * Per field thresholds, in the units of UNIT_CODES
+ */
+export const DEFAULT_ANOMALY_RULES: Record<string, FieldAnomalyRule> = {
+  aqi: { maxRatePerMinute: 50, flatlineMinutes: 240 },
+  pm25: { maxRatePerMinute: 100, flatlineMinutes: 240 },
+  pm10: { maxRatePerMinute: 150, flatlineMinutes: 240 },
+  temperature: { maxRatePerMinute: 1, flatlineMinutes: 180 },
+  humidity: { maxRatePerMinute: 5, flatlineMinutes: 180 },
+  wind_speed: {
+    maxRatePerMinute: 10,
+    flatlineMinutes: 360,
+    flatlineIgnore: [0],
+  },
+  rain_1h: { maxRatePerMinute: 50, flatlineMinutes: 360, flatlineIgnore: [0] },
+  water_level: { maxRatePerMinute: 0.5, flatlineMinutes: 720 },
+  noise_level: { maxRatePerMinute: 30, flatlineMinutes: 120 },
+  avg_speed: {
+    maxRatePerMinute: 50,
+    flatlineMinutes: 120,
+    flatlineIgnore: [0],
+  },
+  intensity: {
+    maxRatePerMinute: 200,
+    flatlineMinutes: 120,
+    flatlineIgnore: [0],
+  },
+};
+
+export interface AnomalyOptions {
+  zScoreThreshold: number;
+  zScoreWindow: number; // previous values the z-score is computed against
+  zScoreMinSamples: number;
+  flatlineMinPoints: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  zScoreThreshold: 4,
+  zScoreWindow: 30,
+  zScoreMinSamples: 10,
+  flatlineMinPoints: 4,
+};
+
+export interface SeriesPoint {
+  time: string;
+  value: number;
+}
+
+/**
+ * Anomaly of one series; start and end are equal except for flatlines
+ */
+export interface DetectedAnomaly {
+  kind: AnomalyKind;
+  start: string;
+  end: string;
+  value: number;
+  score?: number; // z-score of spikes, change per minute of rate_of_change
+  detail: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Run every check on the points of one field, sorted by time
+ *
+ * A point gets at most one of out_of_range, spike and rate_of_change.
+ * Out of range values are left out of the other checks. Spikes stay in the
+ * z-score window so that a lasting level shift stops being flagged, but the
+ * rate of change is measured from the last unflagged value so that the
+ * reading after a spike is not flagged for coming back.
+ *
+ * @example
+ * detectAnomalies(temperatures, 'temperature')
+ * // [{ kind: 'flatline', start: '2025-11-01T02:00:00Z', end: '2025-11-01T06:00:00Z', value: 24.5, detail: '...' }]
+ */
+export function detectAnomalies(
+  points: SeriesPoint[],
+  field: string,
+  options: Partial<AnomalyOptions> = {},
+  rule: FieldAnomalyRule | undefined = DEFAULT_ANOMALY_RULES[field],
+): DetectedAnomaly[] {
+  const opts = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const range = FIELD_RANGES[field];
+  const anomalies: DetectedAnomaly[] = [];
+  const baseline: number[] = [];
+  let previous: { time: number; value: number } | null = null;
+  const inRange: SeriesPoint[] = [];
+
+  for (const point of points) {
+    const { time, value } = point;
+    const ms = new Date(time).getTime();
+    if (!Number.isFinite(value) || isNaN(ms)) continue;
+
+    if (range && (value < range[0] || value > range[1])) {
+      anomalies.push({
+        kind: 'out_of_range',
+        start: time,
+        end: time,
+        value,
+        detail: `${field}=${value} is outside [${range[0]}, ${range[1]}]`,
+      });
+      continue;
+    }
+    inRange.push(point);
+
+    const window = [...baseline];
+    baseline.push(value);
+    if (baseline.length > opts.zScoreWindow) baseline.shift();
+
+    if (window.length >= opts.zScoreMinSamples) {
+      const mean = window.reduce((acc, v) => acc + v, 0) / window.length;
+      const std = Math.sqrt(
+        window.reduce((acc, v) => acc + (v - mean) ** 2, 0) /
+          (window.length - 1),
+      );
+      const z = std > 1e-9 ? (value - mean) / std : 0;
+      if (Math.abs(z) > opts.zScoreThreshold) {
+        anomalies.push({
+          kind: 'spike',
+          start: time,
+          end: time,
+          value,
+          score: round(z),
+          detail: `${field}=${value} is ${round(Math.abs(z))} standard deviations from the mean ${round(mean)} of the previous ${window.length} values`,
+        });
+        continue;
+      }
+    }
+
+    if (previous && rule) {
+      const minutes = Math.max((ms - previous.time) / 60000, 1);
+      const rate = Math.abs(value - previous.value) / minutes;
+      if (rate > rule.maxRatePerMinute) {
+        anomalies.push({
+          kind: 'rate_of_change',
+          start: time,
+          end: time,
+          value,
+          score: round(rate),
+          detail: `${field} changed from ${previous.value} to ${value} in ${round(minutes)} min (max ${rule.maxRatePerMinute}/min)`,
+        });
+        continue;
+      }
+    }
+
+    previous = { time: ms, value };
+  }
+
+  if (rule) {
+    anomalies.push(...detectFlatlines(inRange, field, rule, opts));
+  }
+  return anomalies.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function detectFlatlines(
+  points: SeriesPoint[],
+  field: string,
+  rule: FieldAnomalyRule,
+  opts: AnomalyOptions,
+): DetectedAnomaly[] {
+  const anomalies: DetectedAnomaly[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= points.length; i++) {
+    if (
+      i < points.length &&
+      Math.abs(points[i].value - points[runStart].value) < 1e-9
+    ) {
+      continue;
+    }
+
+    const first = points[runStart];
+    const last = points[i - 1];
+    const minutes =
+      (new Date(last.time).getTime() - new Date(first.time).getTime()) / 60000;
+    if (
+      i - runStart >= opts.flatlineMinPoints &&
+      minutes >= rule.flatlineMinutes &&
+      !rule.flatlineIgnore?.includes(first.value)
+    ) {
+      anomalies.push({
+        kind: 'flatline',
+        start: first.time,
+        end: last.time,
+        value: first.value,
+        detail: `${field} stayed at ${first.value} for ${Math.round(minutes)} min (${i - runStart} readings)`,
+      });
+    }
+    runStart = i;
+  }
+  return anomalies;
+}
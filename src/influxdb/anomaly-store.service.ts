@@ -0,0 +1,188 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyKind, DetectedAnomaly } from './anomaly-detection';
+
+export interface SensorAnomaly extends DetectedAnomaly {
+  id: string;
+  stationId: string;
+  measurement: string;
+  field: string;
+  detectedAt: string;
+}
+
+export interface AnomalyFilter {
+  stationId?: string;
+  measurement?: string;
+  field?: string;
+  kind?: AnomalyKind;
+  since?: string; // ISO timestamp, anomalies ending at or after it
+  limit?: number;
+}
+
+// Anomalies kept in memory, oldest dropped first
+const MAX_STORED_ANOMALIES = 10000;
+
+/**
+ * Id of an anomaly; a growing flatline keeps its id since its start is unchanged
+ */
+export function anomalyId(
+  a: Pick<
+    SensorAnomaly,
+    'stationId' | 'measurement' | 'field' | 'kind' | 'start'
+  >,
+): string {
+  return `${a.stationId}|${a.measurement}|${a.field}|${a.kind}|${a.start}`;
+}
+
+/**
+ * AnomalyStoreService - Flagged sensor anomalies, shared by the detector and
+ * InfluxDBService (which masks flagged values)
+ *
+ * Anomalies are kept in memory for ANOMALY_RETENTION_HOURS; after a restart
+ * the detector finds the recent ones again on its first run.
+ */
+@Injectable()
+export class AnomalyStoreService {
+  private readonly anomalies = new Map<string, SensorAnomaly>();
+  // station|measurement|field -> ids, for masking lookups
+  private readonly bySeries = new Map<string, Set<string>>();
+  private readonly retentionMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const hours =
+      parseFloat(
+        this.configService.get<string>('ANOMALY_RETENTION_HOURS') || '',
+      ) || 168;
+    this.retentionMs = hours * 60 * 60 * 1000;
+  }
+
+  get size(): number {
+    return this.anomalies.size;
+  }
+
+  /**
+   * Insert or update anomalies, returns how many were new
+   */
+  upsert(items: SensorAnomaly[]): number {
+    let added = 0;
+    for (const item of items) {
+      const existing = this.anomalies.get(item.id);
+      if (existing) {
+        this.anomalies.set(item.id, {
+          ...item,
+          detectedAt: existing.detectedAt,
+        });
+        continue;
+      }
+      this.anomalies.set(item.id, item);
+      const seriesKey = `${item.stationId}|${item.measurement}|${item.field}`;
+      let ids = this.bySeries.get(seriesKey);
+      if (!ids) {
+        ids = new Set();
+        this.bySeries.set(seriesKey, ids);
+      }
+      ids.add(item.id);
+      added++;
+    }
+    this.prune();
+    return added;
+  }
+
+  /**
+   * Anomalies matching the filter, most recent first
+   */
+  list(filter: AnomalyFilter = {}): SensorAnomaly[] {
+    const { stationId, measurement, field, kind, since, limit = 100 } = filter;
+    return Array.from(this.anomalies.values())
+      .filter(
+        (a) =>
+          (!stationId || a.stationId === stationId) &&
+          (!measurement || a.measurement === measurement) &&
+          (!field || a.field === field) &&
+          (!kind || a.kind === kind) &&
+          (!since || a.end >= since),
+      )
+      .sort((a, b) => b.end.localeCompare(a.end) || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+
+  /**
+   * Whether the value of a field at time is covered by an anomaly
+   */
+  isFlagged(
+    stationId: string,
+    measurement: string,
+    field: string,
+    time: string,
+  ): boolean {
+    const ids = this.bySeries.get(`${stationId}|${measurement}|${field}`);
+    if (!ids) return false;
+    const ms = new Date(time).getTime();
+    for (const id of ids) {
+      const anomaly = this.anomalies.get(id)!;
+      if (
+        ms >= new Date(anomaly.start).getTime() &&
+        ms <= new Date(anomaly.end).getTime()
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  countByKind(): Record<AnomalyKind, number> {
+    const counts = {
+      out_of_range: 0,
+      spike: 0,
+      rate_of_change: 0,
+      flatline: 0,
+    };
+    for (const anomaly of this.anomalies.values()) counts[anomaly.kind]++;
+    return counts;
+  }
+
+  /**
+   * Drop anomalies older than the retention, then the oldest above MAX_STORED_ANOMALIES
+   */
+  private prune(): void {
+    const cutoff = new Date(Date.now() - this.retentionMs).toISOString();
+    const expired = Array.from(this.anomalies.values()).filter(
+      (a) => a.end < cutoff,
+    );
+    const overflow =
+      this.anomalies.size - expired.length - MAX_STORED_ANOMALIES;
+    if (overflow > 0) {
+      expired.push(
+        ...Array.from(this.anomalies.values())
+          .filter((a) => a.end >= cutoff)
+          .sort((a, b) => a.end.localeCompare(b.end))
+          .slice(0, overflow),
+      );
+    }
+
+    for (const anomaly of expired) {
+      this.anomalies.delete(anomaly.id);
+      const seriesKey = `${anomaly.stationId}|${anomaly.measurement}|${anomaly.field}`;
+      const ids = this.bySeries.get(seriesKey);
+      ids?.delete(anomaly.id);
+      if (ids?.size === 0) this.bySeries.delete(seriesKey);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import {
+  DEFAULT_STATISTICS,
+  buildProfile,
+  isFluxDuration,
+  isFluxTime,
+  parseStatistics,
+  parseUtcOffset,
+  percentile,
+  statisticFlux,
+  summarize,
+} from './influxdb-statistics';
+
+describe('influxdb-statistics', () => {
+  describe('parseStatistics', () => {
+    it('defaults to DEFAULT_STATISTICS', () => {
+      expect(parseStatistics()).toEqual(DEFAULT_STATISTICS);
+      expect(parseStatistics(' , ')).toEqual(DEFAULT_STATISTICS);
+    });
+
+    it('accepts Flux aggregates, median and percentiles', () => {
+      expect(parseStatistics('min, p95,median,p99.9,min')).toEqual([
+        'min',
+        'p95',
+        'median',
+        'p99.9',
+      ]);
+    });
+
+    it.each(['avg', 'p100', 'p', 'toString', 'constructor', '__proto__'])(
+      'rejects %p',
+      (stat) => {
+        expect(() => parseStatistics(stat)).toThrow(BadRequestException);
+      },
+    );
+  });
+
+  it('translates statistics to Flux', () => {
+    expect(statisticFlux('max')).toBe('max()');
+    expect(statisticFlux('median')).toBe(
+      'quantile(q: 0.5, method: "exact_mean")',
+    );
+    expect(statisticFlux('p95')).toBe(
+      'quantile(q: 0.95, method: "exact_mean")',
+    );
+    expect(() => statisticFlux('toString')).toThrow(BadRequestException);
+  });
+
+  it('recognizes Flux durations', () => {
+    expect(isFluxDuration('1d')).toBe(true);
+    expect(isFluxDuration('1mo')).toBe(true);
+    expect(isFluxDuration('1h30m')).toBe(true);
+    expect(isFluxDuration('1d) |> drop()')).toBe(false);
+  });
+
+  it.each([
+    'now()',
+    '-24h',
+    '-1h30m',
+    '7d',
+    '2025-11-01',
+    '2025-11-01T08:00:00Z',
+  ])('accepts range bound %p', (value) => {
+    expect(isFluxTime(value)).toBe(true);
+  });
+
+  it.each([
+    '',
+    'now',
+    '-1h) |> drop(columns: ["_value"]',
+    '2025-11-01T08:00:00',
+    '2025-11-01T08:00:00.000Z, stop: now()) |> yield()',
+    'time(v: "2025-11-01")',
+  ])('rejects range bound %p', (value) => {
+    expect(isFluxTime(value)).toBe(false);
+  });
+
+  it('parses UTC offsets', () => {
+    expect(parseUtcOffset('+07:00')).toBe(420);
+    expect(parseUtcOffset('-0530')).toBe(-330);
+    expect(() => parseUtcOffset('GMT+7')).toThrow(BadRequestException);
+  });
+
+  describe('summarize', () => {
+    it('interpolates percentiles between ranks', () => {
+      expect(percentile([10, 20, 30, 40], 50)).toBe(25);
+      expect(percentile([10, 20, 30, 40], 95)).toBeCloseTo(38.5);
+      expect(percentile([], 95)).toBeNull();
+    });
+
+    it('computes every statistic', () => {
+      expect(
+        summarize(
+          [2, 4, 4, 4, 5, 5, 7, 9],
+          ['min', 'max', 'mean', 'median', 'count', 'sum', 'distinctCount'],
+        ),
+      ).toEqual({
+        min: 2,
+        max: 9,
+        mean: 5,
+        median: 4.5,
+        count: 8,
+        sum: 40,
+        distinctCount: 5,
+      });
+      expect(
+        summarize([2, 4, 4, 4, 5, 5, 7, 9], ['stddev']).stddev,
+      ).toBeCloseTo(2.138);
+    });
+
+    it('returns null for statistics of too few values', () => {
+      expect(summarize([], ['mean', 'min', 'p95'])).toEqual({
+        mean: null,
+        min: null,
+        p95: null,
+      });
+      expect(summarize([3], ['stddev'])).toEqual({ stddev: null });
+    });
+  });
+
+  describe('buildProfile', () => {
+    const points = [
+      { time: '2025-11-03T01:00:00Z', value: 80 }, // Monday 08:00 in Hanoi
+      { time: '2025-11-04T01:00:00Z', value: 100 }, // Tuesday 08:00
+      { time: '2025-11-04T13:00:00Z', value: 40 }, // Tuesday 20:00
+    ];
+
+    it('buckets by local hour of day', () => {
+      const profile = buildProfile(points, 'hour', ['mean'], 420);
+      expect(profile).toHaveLength(24);
+      expect(profile[8]).toEqual({
+        bucket: 8,
+        samples: 2,
+        values: { mean: 90 },
+      });
+      expect(profile[20].values.mean).toBe(40);
+      expect(profile[1]).toEqual({
+        bucket: 1,
+        samples: 0,
+        values: { mean: null },
+      });
+    });
+
+    it('buckets by ISO weekday', () => {
+      const profile = buildProfile(points, 'weekday', ['max'], 420);
+      expect(profile.map((b) => b.bucket)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(profile[0].values.max).toBe(80);
+      expect(profile[1].values.max).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Window statistics and time-of-day profiles of station history
+ *
+ * Statistics are named after the Flux aggregates (min, max, mean, median,
+ * stddev, count, sum, ...) plus percentiles written pNN, e.g. p95.
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { FLUX_AGGREGATES, AggregateFunction } from './influxdb.service';
+
+export const DEFAULT_STATISTICS = [
+  'min',
+  'max',
+  'mean',
+  'median',
+  'p95',
+  'stddev',
+  'count',
+  'sum',
+];
+
+export const PROFILE_KINDS = ['hour', 'weekday'] as const;
+
+export type ProfileKind = (typeof PROFILE_KINDS)[number];
+
+/**
+ * Offset of Vietnam local time (no daylight saving), used for profiles
+ */
+export const DEFAULT_UTC_OFFSET = '+07:00';
+
+export interface ProfileBucket {
+  bucket: number; // hour 0-23, or ISO weekday 1 (Monday) - 7 (Sunday)
+  samples: number;
+  values: Record<string, number | null>;
+}
+
+function percentileOf(stat: string): number | null {
+  if (stat === 'median') return 50;
+  const match = /^p(\d{1,2}(?:\.\d+)?)$/.exec(stat);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parse a comma-separated statistics list, DEFAULT_STATISTICS when empty
+ *
+ * @throws BadRequestException on unknown statistics
+ *
+ * @example
+ * parseStatistics('min,p95,max') // ['min', 'p95', 'max']
+ */
+export function parseStatistics(value?: string): string[] {
+  const stats = [
+    ...new Set(
+      (value || '')
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean),
+    ),
+  ];
+  if (stats.length === 0) return DEFAULT_STATISTICS;
+
+  const invalid = stats.filter(
+    (s) => !Object.hasOwn(FLUX_AGGREGATES, s) && percentileOf(s) === null,
+  );
+  if (invalid.length > 0) {
+    throw new BadRequestException(
+      `Invalid statistics: ${invalid.join(', ')}. Available: ${Object.keys(FLUX_AGGREGATES).join(', ')}, median, p1-p99`,
+    );
+  }
+  return stats;
+}
+
+/**
+ * Flux aggregate computing a statistic over each table
+ *
+ * @example
+ * statisticFlux('p95') // 'quantile(q: 0.95, method: "exact_mean")'
+ */
+export function statisticFlux(stat: string): string {
+  const percentile = percentileOf(stat);
+  if (percentile !== null) {
+    return `quantile(q: ${percentile / 100}, method: "exact_mean")`;
+  }
+  if (!Object.hasOwn(FLUX_AGGREGATES, stat)) {
+    throw new BadRequestException(`Invalid statistic: ${stat}`);
+  }
+  return FLUX_AGGREGATES[stat as AggregateFunction];
+}
+
+/**
+ * Flux duration literal such as 1h, 1d or 1mo
+ */
+export function isFluxDuration(value: string): boolean {
+  return /^(\d+(y|mo|w|d|h|m|s|ms|us|ns))+$/.test(value);
+}
+
+/**
+ * Bound of a Flux range(): now(), a duration relative to now such as -24h,
+ * or an RFC3339 date or timestamp
+ *
+ * @example
+ * isFluxTime('-7d') // true
+ * isFluxTime('2025-11-01T08:00:00Z') // true
+ */
+export function isFluxTime(value: string): boolean {
+  return (
+    value === 'now()' ||
+    (value.startsWith('-')
+      ? isFluxDuration(value.slice(1))
+      : isFluxDuration(value)) ||
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{1,9})?(Z|[+-]\d{2}:\d{2}))?$/.test(
+      value,
+    )
+  );
+}
+
+/**
+ * Parse a UTC offset such as +07:00 or -0530 into minutes
+ *
+ * @throws BadRequestException on malformed offsets
+ */
+export function parseUtcOffset(value: string): number {
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[2]) > 14 || Number(match[3]) > 59) {
+    throw new BadRequestException(
+      `Invalid UTC offset: ${value} (expected e.g. +07:00)`,
+    );
+  }
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Linear interpolation between closest ranks, as Flux quantile exact_mean
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Compute statistics of a list of values in memory, null when undefined
+ * (e.g. stddev of a single value)
+ */
+export function summarize(
+  values: number[],
+  stats: string[],
+): Record<string, number | null> {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const sum = sorted.reduce((acc, v) => acc + v, 0);
+  const mean = n > 0 ? sum / n : null;
+
+  const result: Record<string, number | null> = {};
+  for (const stat of stats) {
+    const p = percentileOf(stat);
+    if (p !== null) {
+      result[stat] = percentile(sorted, p);
+      continue;
+    }
+    switch (stat as AggregateFunction) {
+      case 'count':
+        result[stat] = n;
+        break;
+      case 'distinctCount':
+        result[stat] = new Set(sorted).size;
+        break;
+      case 'sum':
+        result[stat] = sum;
+        break;
+      case 'sumsq':
+        result[stat] = sorted.reduce((acc, v) => acc + v * v, 0);
+        break;
+      case 'mean':
+        result[stat] = mean;
+        break;
+      case 'min':
+        result[stat] = n > 0 ? sorted[0] : null;
+        break;
+      case 'max':
+        result[stat] = n > 0 ? sorted[n - 1] : null;
+        break;
+      case 'stddev':
+        // Sample standard deviation, as Flux stddev(mode: "sample")
+        result[stat] =
+          mean !== null && n > 1
+            ? Math.sqrt(
+                sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1),
+              )
+            : null;
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Bucket time series by local hour of day or weekday and summarize each bucket
+ *
+ * Every bucket is returned, empty ones with samples 0.
+ *
+ * @example
+ * // typical AQI by hour of day in Hanoi from hourly means
+ * buildProfile(hourlyAqi, 'hour', ['mean', 'p95'], 420)
+ */
+export function buildProfile(
+  points: { time: string; value: number }[],
+  by: ProfileKind,
+  stats: string[],
+  utcOffsetMinutes: number,
+): ProfileBucket[] {
+  const buckets =
+    by === 'hour'
+      ? Array.from({ length: 24 }, (_, i) => i)
+      : Array.from({ length: 7 }, (_, i) => i + 1);
+  const values = new Map<number, number[]>(buckets.map((b) => [b, []]));
+
+  for (const { time, value } of points) {
+    const local = new Date(
+      new Date(time).getTime() + utcOffsetMinutes * 60 * 1000,
+    );
+    if (isNaN(local.getTime()) || !Number.isFinite(value)) continue;
+    const bucket = by === 'hour' ? local.getUTCHours() : local.getUTCDay() || 7;
+    values.get(bucket)!.push(value);
+  }
+
+  return buckets.map((bucket) => {
+    const bucketValues = values.get(bucket)!;
+    return {
+      bucket,
+      samples: bucketValues.length,
+      values: summarize(bucketValues, stats),
+    };
+  });
+}
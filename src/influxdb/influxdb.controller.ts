@@ -22,16 +22,26 @@ import {
   Query,
   Body,
   BadRequestException,
+  NotFoundException,
 } from '@nestjs/common';
+import { InfluxDBService, MeasurementType } from './influxdb.service';
 import {
-  InfluxDBService,
-  MeasurementType,
-  MEASUREMENTS,
-} from './influxdb.service';
+  DEFAULT_UTC_OFFSET,
+  PROFILE_KINDS,
+  ProfileKind,
+  parseStatistics,
+  parseUtcOffset,
+} from './influxdb-statistics';
+import { AnomalyDetectionService } from './anomaly-detection.service';
+import { ANOMALY_KINDS, AnomalyKind } from './anomaly-detection';
+import { computeAqi, parseAqiStandard } from '../common/aqi';
 
 @Controller('influxdb')
 export class InfluxDBController {
-  constructor(private readonly influxDBService: InfluxDBService) {}
+  constructor(
+    private readonly influxDBService: InfluxDBService,
+    private readonly anomalyDetectionService: AnomalyDetectionService,
+  ) {}
 
   /**
    * Get available measurements and their fields
@@ -46,13 +56,14 @@ export class InfluxDBController {
 
   /**
    * Get latest data for a specific station
-   * GET /influxdb/latest?stationId=HoGuom&measurement=air_quality&fields=pm25,pm10
+   * GET /influxdb/latest?stationId=HoGuom&measurement=air_quality&fields=pm25,pm10&maskAnomalies=true
    */
   @Get('latest')
   async getLatest(
     @Query('stationId') stationId: string,
     @Query('measurement') measurement: string,
     @Query('fields') fieldsStr?: string,
+    @Query('maskAnomalies') maskAnomalies?: string,
   ) {
     if (!stationId) {
       throw new BadRequestException('stationId is required');
@@ -69,6 +80,8 @@ export class InfluxDBController {
       stationId,
       measurement: measurement as MeasurementType,
       fields,
+      maskAnomalies:
+        maskAnomalies === undefined ? undefined : maskAnomalies === 'true',
     });
 
     return {
@@ -117,14 +130,207 @@ export class InfluxDBController {
     };
   }
 
+  /**
+   * Statistics per window for one or more stations (monthly reports, comparisons)
+   * GET /influxdb/statistics?stationIds=HoGuom,Lang&measurement=air_quality&fields=aqi&start=-30d&every=1d&stats=min,max,median,p95
+   */
+  @Get('statistics')
+  async getStatistics(
+    @Query('stationIds') stationIdsStr: string,
+    @Query('measurement') measurement: string,
+    @Query('fields') fieldsStr?: string,
+    @Query('start') start: string = '-24h',
+    @Query('stop') stop: string = 'now()',
+    @Query('every') every?: string,
+    @Query('stats') statsStr?: string,
+  ) {
+    const stationIds = this.parseList(stationIdsStr);
+    if (!stationIds) {
+      throw new BadRequestException('stationIds is required');
+    }
+    if (!measurement) {
+      throw new BadRequestException('measurement is required');
+    }
+    const stats = parseStatistics(statsStr);
+
+    const results = await this.influxDBService.getStatistics({
+      stationIds,
+      measurement: measurement as MeasurementType,
+      fields: this.parseList(fieldsStr),
+      start,
+      stop,
+      every,
+      stats,
+    });
+
+    return {
+      success: true,
+      stats,
+      count: results.length,
+      data: results,
+    };
+  }
+
+  /**
+   * Typical values by local hour of day or weekday for one or more stations
+   * GET /influxdb/profile?stationIds=HoGuom&measurement=air_quality&fields=aqi&start=-30d&by=hour&stats=mean,p95
+   */
+  @Get('profile')
+  async getProfile(
+    @Query('stationIds') stationIdsStr: string,
+    @Query('measurement') measurement: string,
+    @Query('fields') fieldsStr?: string,
+    @Query('start') start: string = '-30d',
+    @Query('stop') stop: string = 'now()',
+    @Query('by') by: string = 'hour',
+    @Query('stats') statsStr: string = 'mean,median,p95',
+    @Query('utcOffset') utcOffset: string = DEFAULT_UTC_OFFSET,
+  ) {
+    const stationIds = this.parseList(stationIdsStr);
+    if (!stationIds) {
+      throw new BadRequestException('stationIds is required');
+    }
+    if (!measurement) {
+      throw new BadRequestException('measurement is required');
+    }
+    if (!PROFILE_KINDS.includes(by as ProfileKind)) {
+      throw new BadRequestException(
+        `Invalid by: ${by}. Available: ${PROFILE_KINDS.join(', ')}`,
+      );
+    }
+    const stats = parseStatistics(statsStr);
+
+    const results = await this.influxDBService.getProfile({
+      stationIds,
+      measurement: measurement as MeasurementType,
+      fields: this.parseList(fieldsStr),
+      start,
+      stop,
+      by: by as ProfileKind,
+      stats,
+      utcOffsetMinutes: parseUtcOffset(utcOffset),
+    });
+
+    return {
+      success: true,
+      by,
+      utcOffset,
+      stats,
+      count: results.length,
+      data: results,
+    };
+  }
+
+  /**
+   * AQI with dominant pollutant and health advice, from the latest values of
+   * a station or from given concentrations (µg/m³)
+   * GET /influxdb/aqi?stationId=HoGuom&standard=VN_AQI
+   * GET /influxdb/aqi?pm25=35&pm10=80&standard=US_EPA
+   */
+  @Get('aqi')
+  async getAqi(
+    @Query('stationId') stationId?: string,
+    @Query('pm25') pm25?: string,
+    @Query('pm10') pm10?: string,
+    @Query('standard') standardStr?: string,
+  ) {
+    const standard = parseAqiStandard(standardStr);
+
+    if (stationId) {
+      const result = await this.influxDBService.getAqiByStation({
+        stationId,
+        standard,
+      });
+      if (!result) {
+        throw new NotFoundException(
+          `No PM2.5/PM10 data in the last 24h for station ${stationId}`,
+        );
+      }
+      return { success: true, data: result };
+    }
+
+    if (pm25 === undefined && pm10 === undefined) {
+      throw new BadRequestException('stationId or pm25/pm10 is required');
+    }
+    const concentrations = {
+      pm25: pm25 === undefined ? null : parseFloat(pm25),
+      pm10: pm10 === undefined ? null : parseFloat(pm10),
+    };
+    if (
+      Object.values(concentrations).some(
+        (c) => c !== null && !(Number.isFinite(c) && c >= 0),
+      )
+    ) {
+      throw new BadRequestException(
+        'pm25 and pm10 must be non-negative numbers',
+      );
+    }
+
+    return {
+      success: true,
+      data: { concentrations, ...computeAqi(concentrations, standard) },
+    };
+  }
+
+  /**
+   * Sensor anomalies flagged by the detector, most recent first
+   * GET /influxdb/anomalies?stationId=HoGuom&measurement=weather&field=temperature&kind=flatline&since=2025-11-01T00:00:00Z&limit=50
+   */
+  @Get('anomalies')
+  getAnomalies(
+    @Query('stationId') stationId?: string,
+    @Query('measurement') measurement?: string,
+    @Query('field') field?: string,
+    @Query('kind') kind?: string,
+    @Query('since') since?: string,
+    @Query('limit') limit: string = '100',
+  ) {
+    if (kind && !ANOMALY_KINDS.includes(kind as AnomalyKind)) {
+      throw new BadRequestException(
+        `Invalid kind: ${kind}. Available: ${ANOMALY_KINDS.join(', ')}`,
+      );
+    }
+    if (since && isNaN(new Date(since).getTime())) {
+      throw new BadRequestException(`Invalid since: ${since}`);
+    }
+
+    const results = this.anomalyDetectionService.list({
+      stationId,
+      measurement,
+      field,
+      kind: kind as AnomalyKind | undefined,
+      since: since ? new Date(since).toISOString() : undefined,
+      limit: Math.min(Math.max(parseInt(limit, 10) || 100, 1), 1000),
+    });
+
+    return {
+      success: true,
+      count: results.length,
+      data: results,
+    };
+  }
+
+  /**
+   * Anomaly detector status and last run report
+   * GET /influxdb/anomalies/status
+   */
+  @Get('anomalies/status')
+  getAnomalyStatus() {
+    return {
+      success: true,
+      data: this.anomalyDetectionService.getStatus(),
+    };
+  }
+
   /**
    * Get latest data for all stations of a measurement type
-   * GET /influxdb/stations?measurement=air_quality&fields=pm25,pm10
+   * GET /influxdb/stations?measurement=air_quality&fields=pm25,pm10&maskAnomalies=true
    */
   @Get('stations')
   async getAllStations(
     @Query('measurement') measurement: string,
     @Query('fields') fieldsStr?: string,
+    @Query('maskAnomalies') maskAnomalies?: string,
   ) {
     if (!measurement) {
       throw new BadRequestException('measurement is required');
@@ -137,6 +343,8 @@ export class InfluxDBController {
     const results = await this.influxDBService.getLatestAllStations({
       measurement: measurement as MeasurementType,
       fields,
+      maskAnomalies:
+        maskAnomalies === undefined ? undefined : maskAnomalies === 'true',
     });
 
     return {
@@ -215,4 +423,17 @@ export class InfluxDBController {
       data: forecast,
     };
   }
+
+  /**
+   * Split a comma-separated query parameter, undefined when empty
+   */
+  private parseList(value?: string): string[] | undefined {
+    const items = value
+      ? value
+          .split(',')
+          .map((v) => v.trim())
+          .filter(Boolean)
+      : [];
+    return items.length > 0 ? items : undefined;
+  }
 }
@@ -18,11 +18,13 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { InfluxDBService } from './influxdb.service';
 import { InfluxDBController } from './influxdb.controller';
+import { AnomalyStoreService } from './anomaly-store.service';
+import { AnomalyDetectionService } from './anomaly-detection.service';
 
 @Module({
   imports: [ConfigModule],
   controllers: [InfluxDBController],
-  providers: [InfluxDBService],
-  exports: [InfluxDBService],
+  providers: [InfluxDBService, AnomalyStoreService, AnomalyDetectionService],
+  exports: [InfluxDBService, AnomalyDetectionService],
 })
 export class InfluxDBModule {}
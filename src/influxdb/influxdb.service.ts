@@ -23,8 +23,22 @@ import {
   HttpException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { InfluxDB, QueryApi } from '@influxdata/influxdb-client';
-import { firstValueFrom } from 'rxjs/internal/firstValueFrom';
+import { InfluxDB, Point, QueryApi } from '@influxdata/influxdb-client';
+import { AnomalyStoreService } from './anomaly-store.service';
+import {
+  AqiPollutant,
+  AqiResult,
+  AqiStandard,
+  computeAqi,
+} from '../common/aqi';
+import {
+  ProfileBucket,
+  ProfileKind,
+  buildProfile,
+  isFluxDuration,
+  isFluxTime,
+  statisticFlux,
+} from './influxdb-statistics';
 
 // Define measurement configurations
 export const MEASUREMENTS = {
@@ -48,6 +62,37 @@ export const MEASUREMENTS = {
 
 export type MeasurementType = keyof typeof MEASUREMENTS;
 
+/**
+ * Plausible [min, max] of every field, in the units of UNIT_CODES
+ */
+export const FIELD_RANGES: Record<string, [number, number]> = {
+  aqi: [0, 500],
+  pm25: [0, 1000],
+  pm10: [0, 2000],
+  temperature: [-40, 60],
+  humidity: [0, 100],
+  wind_speed: [0, 100],
+  rain_1h: [0, 500],
+  water_level: [-5, 20],
+  noise_level: [0, 150],
+  avg_speed: [0, 200],
+  intensity: [0, 1000],
+};
+
+/**
+ * Row of a Flux query result, as returned by tableMeta.toObject
+ */
+export interface FluxRow {
+  _time: string;
+  _start: string;
+  _stop: string;
+  _measurement: string;
+  _field: string;
+  _value: number | null;
+  station_id: string;
+  [column: string]: unknown;
+}
+
 export interface SensorDataPoint {
   time: string;
   stationId: string;
@@ -56,11 +101,85 @@ export interface SensorDataPoint {
   value: number;
 }
 
+/**
+ * Observation written with writePoints
+ */
+export interface SensorWritePoint {
+  stationId: string;
+  measurement: MeasurementType;
+  field: string;
+  value: number;
+  time: string; // ISO timestamp
+}
+
+export interface AggregatedDataPoint {
+  stationId: string;
+  measurement: string;
+  field: string;
+  value: number;
+  start: string;
+  end: string;
+}
+
+/**
+ * Aggregations available for getAggregatedHistoryByStation
+ */
+export type AggregateFunction =
+  | 'count'
+  | 'distinctCount'
+  | 'sum'
+  | 'mean'
+  | 'min'
+  | 'max'
+  | 'stddev'
+  | 'sumsq';
+
+export const FLUX_AGGREGATES: Record<AggregateFunction, string> = {
+  count: 'count()',
+  distinctCount: 'distinct() |> count()',
+  sum: 'sum()',
+  mean: 'mean()',
+  min: 'min()',
+  max: 'max()',
+  stddev: 'stddev()',
+  sumsq:
+    'map(fn: (r) => ({ r with _value: float(v: r._value) * float(v: r._value) })) |> sum()',
+};
+
+/**
+ * Statistics of one station field, per window
+ */
+export interface StatisticsSeries {
+  stationId: string;
+  measurement: string;
+  field: string;
+  windows: {
+    start: string;
+    end: string;
+    values: Record<string, number | null>;
+  }[];
+}
+
+/**
+ * Profile of one station field by hour of day or weekday
+ */
+export interface ProfileSeries {
+  stationId: string;
+  measurement: string;
+  field: string;
+  by: ProfileKind;
+  buckets: ProfileBucket[];
+}
+
+// Stations compared in one statistics or profile request
+const MAX_COMPARED_STATIONS = 20;
+
 export interface StationData {
   stationId: string;
   measurement: string;
   data: Record<string, number | null>;
   timestamp: string;
+  masked?: string[]; // fields nulled because their value is a flagged anomaly
 }
 
 @Injectable()
@@ -70,8 +189,12 @@ export class InfluxDBService implements OnModuleInit {
   private queryApi: QueryApi;
   private readonly bucket: string;
   private readonly org: string;
+  private readonly maskAnomalies: boolean;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private readonly anomalyStore: AnomalyStoreService,
+  ) {
     const url =
       this.configService.get<string>('INFLUXDB_URL') || 'http://localhost:8086';
     const token = this.configService.get<string>('INFLUXDB_TOKEN') || '';
@@ -79,6 +202,9 @@ export class InfluxDBService implements OnModuleInit {
       this.configService.get<string>('INFLUXDB_BUCKET') || 'iot_data';
     this.org = this.configService.get<string>('INFLUXDB_ORG') || 'fithou';
 
+    this.maskAnomalies =
+      this.configService.get<string>('ANOMALY_MASKING') === 'true';
+
     this.influxDB = new InfluxDB({ url, token });
     this.queryApi = this.influxDB.getQueryApi(this.org);
   }
@@ -103,7 +229,7 @@ export class InfluxDBService implements OnModuleInit {
    * Validate measurement and fields
    */
   private validateMeasurement(measurement: string, fields?: string[]): void {
-    if (!MEASUREMENTS[measurement as MeasurementType]) {
+    if (!Object.hasOwn(MEASUREMENTS, measurement)) {
       throw new BadRequestException(
         `Invalid measurement: ${measurement}. Available: ${Object.keys(MEASUREMENTS).join(', ')}`,
       );
@@ -121,15 +247,39 @@ export class InfluxDBService implements OnModuleInit {
     }
   }
 
+  /**
+   * Validate the bounds interpolated into range(start, stop)
+   */
+  private validateRange(start: string, stop: string): void {
+    for (const [name, value] of [
+      ['start', start],
+      ['stop', stop],
+    ]) {
+      if (typeof value !== 'string' || !isFluxTime(value)) {
+        throw new BadRequestException(
+          `Invalid ${name}: ${value} (expected now(), a duration such as -24h or an RFC3339 timestamp)`,
+        );
+      }
+    }
+  }
+
   /**
    * Get latest data for a specific station
+   * With maskAnomalies (default: ANOMALY_MASKING env), latest values flagged
+   * by the anomaly detector are returned as null and listed in masked
    */
   async getLatestByStation(params: {
     stationId: string;
     measurement: MeasurementType;
     fields?: string[];
+    maskAnomalies?: boolean;
   }): Promise<StationData | null> {
-    const { stationId, measurement, fields } = params;
+    const {
+      stationId,
+      measurement,
+      fields,
+      maskAnomalies = this.maskAnomalies,
+    } = params;
     this.validateMeasurement(measurement, fields);
 
     const selectedFields =
@@ -149,12 +299,12 @@ export class InfluxDBService implements OnModuleInit {
     `;
 
     try {
-      const results: any[] = [];
+      const results: FluxRow[] = [];
 
       await new Promise<void>((resolve, reject) => {
         this.queryApi.queryRows(query, {
           next: (row, tableMeta) => {
-            results.push(tableMeta.toObject(row));
+            results.push(tableMeta.toObject(row) as FluxRow);
           },
           error: (error) => {
             this.logger.error(`InfluxDB query error: ${error.message}`);
@@ -176,8 +326,21 @@ export class InfluxDBService implements OnModuleInit {
         data[field] = null;
       }
 
+      const masked: string[] = [];
       for (const row of results) {
-        data[row._field] = row._value;
+        if (
+          maskAnomalies &&
+          this.anomalyStore.isFlagged(
+            stationId,
+            measurement,
+            row._field,
+            row._time,
+          )
+        ) {
+          masked.push(row._field);
+        } else {
+          data[row._field] = row._value;
+        }
         if (!latestTime || row._time > latestTime) {
           latestTime = row._time;
         }
@@ -188,6 +351,7 @@ export class InfluxDBService implements OnModuleInit {
         measurement,
         data,
         timestamp: latestTime,
+        ...(masked.length > 0 && { masked }),
       };
     } catch (error: any) {
       this.logger.error(`Failed to get latest data: ${error.message}`);
@@ -205,6 +369,8 @@ export class InfluxDBService implements OnModuleInit {
     start: string; // e.g., "-1h", "-24h", "-7d", or ISO timestamp
     stop?: string; // e.g., "now()", or ISO timestamp
     aggregateWindow?: string; // e.g., "1m", "5m", "1h"
+    lastN?: number; // last N points of each field
+    limit?: number; // first N points of each field
   }): Promise<SensorDataPoint[]> {
     const {
       stationId,
@@ -213,8 +379,11 @@ export class InfluxDBService implements OnModuleInit {
       start,
       stop = 'now()',
       aggregateWindow,
+      lastN,
+      limit,
     } = params;
     this.validateMeasurement(measurement, fields);
+    this.validateRange(start, stop);
 
     const selectedFields =
       fields && fields.length > 0 ? fields : MEASUREMENTS[measurement].fields;
@@ -237,6 +406,16 @@ export class InfluxDBService implements OnModuleInit {
       `;
     }
 
+    if (lastN) {
+      query += `
+        |> tail(n: ${Math.floor(lastN)})
+      `;
+    } else if (limit) {
+      query += `
+        |> limit(n: ${Math.floor(limit)})
+      `;
+    }
+
     query += `
         |> sort(columns: ["_time"])
     `;
@@ -271,14 +450,321 @@ export class InfluxDBService implements OnModuleInit {
     }
   }
 
+  /**
+   * AQI of a station computed from its latest PM2.5/PM10 values
+   * storedAqi is the aqi field as written by the station, for comparison
+   */
+  async getAqiByStation(params: {
+    stationId: string;
+    standard: AqiStandard;
+  }): Promise<
+    | (AqiResult & {
+        stationId: string;
+        timestamp: string;
+        concentrations: Partial<Record<AqiPollutant, number | null>>;
+        storedAqi: number | null;
+      })
+    | null
+  > {
+    const { stationId, standard } = params;
+    const latest = await this.getLatestByStation({
+      stationId,
+      measurement: 'air_quality',
+      fields: ['aqi', 'pm25', 'pm10'],
+    });
+    if (!latest) return null;
+
+    const concentrations = { pm25: latest.data.pm25, pm10: latest.data.pm10 };
+    const result = computeAqi(concentrations, standard);
+    if (!result) return null;
+    return {
+      stationId,
+      timestamp: latest.timestamp,
+      concentrations,
+      storedAqi: latest.data.aqi,
+      ...result,
+    };
+  }
+
+  /**
+   * Get raw historical data of every station for a measurement
+   */
+  async getHistoryAllStations(params: {
+    measurement: MeasurementType;
+    fields?: string[];
+    start: string;
+    stop?: string;
+  }): Promise<SensorDataPoint[]> {
+    const { measurement, fields, start, stop = 'now()' } = params;
+    this.validateMeasurement(measurement, fields);
+    this.validateRange(start, stop);
+
+    const selectedFields =
+      fields && fields.length > 0 ? fields : MEASUREMENTS[measurement].fields;
+
+    const fieldFilter = selectedFields
+      .map((f) => `r["_field"] == "${f}"`)
+      .join(' or ');
+
+    const rows = await this.executeQuery(`
+      from(bucket: "${this.bucket}")
+        |> range(start: ${start}, stop: ${stop})
+        |> filter(fn: (r) => r["_measurement"] == "${measurement}")
+        |> filter(fn: (r) => ${fieldFilter})
+        |> sort(columns: ["_time"])
+    `);
+    return rows
+      .filter((row) => row._value !== null && row._value !== undefined)
+      .map((row) => ({
+        time: row._time,
+        stationId: row.station_id,
+        measurement: row._measurement,
+        field: row._field,
+        value: Number(row._value),
+      }));
+  }
+
+  /**
+   * Aggregate historical data of a station per field
+   * Each point covers [start, end): one window of `every`, or the whole range if omitted
+   */
+  async getAggregatedHistoryByStation(params: {
+    stationId: string;
+    measurement: MeasurementType;
+    fields?: string[];
+    start: string;
+    stop?: string;
+    every?: string; // Flux duration, e.g., "1h", "1mo"
+    fn: AggregateFunction;
+  }): Promise<AggregatedDataPoint[]> {
+    const {
+      stationId,
+      measurement,
+      fields,
+      start,
+      stop = 'now()',
+      every,
+      fn,
+    } = params;
+    this.validateMeasurement(measurement, fields);
+    this.validateRange(start, stop);
+
+    const selectedFields =
+      fields && fields.length > 0 ? fields : MEASUREMENTS[measurement].fields;
+
+    const fieldFilter = selectedFields
+      .map((f) => `r["_field"] == "${f}"`)
+      .join(' or ');
+
+    const query = `
+      from(bucket: "${this.bucket}")
+        |> range(start: ${start}, stop: ${stop})
+        |> filter(fn: (r) => r["_measurement"] == "${measurement}")
+        |> filter(fn: (r) => r["station_id"] == "${stationId}")
+        |> filter(fn: (r) => ${fieldFilter})
+        ${every ? `|> window(every: ${every})` : ''}
+        |> ${FLUX_AGGREGATES[fn]}
+    `;
+
+    const rows = await this.executeQuery(query);
+    return rows
+      .filter((row) => row._value !== null && row._value !== undefined)
+      .map((row) => ({
+        stationId: row.station_id,
+        measurement: row._measurement,
+        field: row._field,
+        value: Number(row._value),
+        start: row._start,
+        end: row._stop,
+      }))
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  /**
+   * Statistics of several stations per field, computed by InfluxDB
+   * Each window covers [start, end): one window of `every`, or the whole range if omitted
+   */
+  async getStatistics(params: {
+    stationIds: string[];
+    measurement: MeasurementType;
+    fields?: string[];
+    start: string;
+    stop?: string;
+    every?: string; // Flux duration, e.g., "1h", "1d", "1mo"
+    stats: string[]; // see parseStatistics
+  }): Promise<StatisticsSeries[]> {
+    const { every, stats } = params;
+    if (every && !isFluxDuration(every)) {
+      throw new BadRequestException(
+        `Invalid window: ${every} (expected a Flux duration such as 1h, 1d or 1mo)`,
+      );
+    }
+    const base = this.buildStationsQuery(params);
+
+    // One query per statistic, so selectors (min, max) and aggregates never share a table
+    const results = await Promise.all(
+      stats.map(async (stat) => ({
+        stat,
+        rows: await this.executeQuery(`
+          ${base}
+            ${every ? `|> window(every: ${every})` : ''}
+            |> ${statisticFlux(stat)}
+        `),
+      })),
+    );
+
+    const series = new Map<string, StatisticsSeries>();
+    const windows = new Map<string, StatisticsSeries['windows'][number]>();
+    for (const { stat, rows } of results) {
+      for (const row of rows) {
+        const seriesKey = `${row.station_id}|${row._field}`;
+        let entry = series.get(seriesKey);
+        if (!entry) {
+          entry = {
+            stationId: row.station_id,
+            measurement: row._measurement,
+            field: row._field,
+            windows: [],
+          };
+          series.set(seriesKey, entry);
+        }
+
+        const windowKey = `${seriesKey}|${row._start}`;
+        let window = windows.get(windowKey);
+        if (!window) {
+          window = { start: row._start, end: row._stop, values: {} };
+          windows.set(windowKey, window);
+          entry.windows.push(window);
+        }
+        window.values[stat] =
+          row._value === null || row._value === undefined
+            ? null
+            : Number(row._value);
+      }
+    }
+
+    return Array.from(series.values())
+      .map((entry) => {
+        for (const window of entry.windows) {
+          for (const stat of stats) window.values[stat] ??= null;
+        }
+        entry.windows.sort((a, b) => a.start.localeCompare(b.start));
+        return entry;
+      })
+      .sort(
+        (a, b) =>
+          params.stationIds.indexOf(a.stationId) -
+            params.stationIds.indexOf(b.stationId) ||
+          a.field.localeCompare(b.field),
+      );
+  }
+
+  /**
+   * Typical values of several stations by local hour of day or weekday
+   * Hourly means are bucketed and summarized, e.g. the mean and p95 AQI at 8h
+   */
+  async getProfile(params: {
+    stationIds: string[];
+    measurement: MeasurementType;
+    fields?: string[];
+    start: string;
+    stop?: string;
+    by: ProfileKind;
+    stats: string[]; // see parseStatistics
+    utcOffsetMinutes: number;
+  }): Promise<ProfileSeries[]> {
+    const { by, stats, utcOffsetMinutes } = params;
+    const rows = await this.executeQuery(`
+      ${this.buildStationsQuery(params)}
+        |> aggregateWindow(every: 1h, fn: mean, createEmpty: false, timeSrc: "_start")
+    `);
+
+    const series = new Map<
+      string,
+      {
+        stationId: string;
+        measurement: string;
+        field: string;
+        points: { time: string; value: number }[];
+      }
+    >();
+    for (const row of rows) {
+      if (row._value === null || row._value === undefined) continue;
+      const key = `${row.station_id}|${row._field}`;
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          stationId: row.station_id,
+          measurement: row._measurement,
+          field: row._field,
+          points: [],
+        };
+        series.set(key, entry);
+      }
+      entry.points.push({ time: row._time, value: Number(row._value) });
+    }
+
+    return Array.from(series.values())
+      .map(({ points, ...entry }) => ({
+        ...entry,
+        by,
+        buckets: buildProfile(points, by, stats, utcOffsetMinutes),
+      }))
+      .sort(
+        (a, b) =>
+          params.stationIds.indexOf(a.stationId) -
+            params.stationIds.indexOf(b.stationId) ||
+          a.field.localeCompare(b.field),
+      );
+  }
+
+  /**
+   * Flux source of the selected fields of several stations over a time range
+   */
+  private buildStationsQuery(params: {
+    stationIds: string[];
+    measurement: MeasurementType;
+    fields?: string[];
+    start: string;
+    stop?: string;
+  }): string {
+    const { stationIds, measurement, fields, start, stop = 'now()' } = params;
+    this.validateMeasurement(measurement, fields);
+    this.validateRange(start, stop);
+    if (stationIds.length === 0) {
+      throw new BadRequestException('At least one station is required');
+    }
+    if (stationIds.length > MAX_COMPARED_STATIONS) {
+      throw new BadRequestException(
+        `At most ${MAX_COMPARED_STATIONS} stations can be compared`,
+      );
+    }
+
+    const selectedFields =
+      fields && fields.length > 0 ? fields : MEASUREMENTS[measurement].fields;
+
+    const fieldFilter = selectedFields
+      .map((f) => `r["_field"] == "${f}"`)
+      .join(' or ');
+
+    return `
+      from(bucket: "${this.bucket}")
+        |> range(start: ${start}, stop: ${stop})
+        |> filter(fn: (r) => r["_measurement"] == "${measurement}")
+        |> filter(fn: (r) => contains(value: r["station_id"], set: ${JSON.stringify(stationIds)}))
+        |> filter(fn: (r) => ${fieldFilter})
+    `;
+  }
+
   /**
    * Get latest data for all stations of a measurement type
    */
   async getLatestAllStations(params: {
     measurement: MeasurementType;
     fields?: string[];
+    maskAnomalies?: boolean;
   }): Promise<StationData[]> {
-    const { measurement, fields } = params;
+    const { measurement, fields, maskAnomalies = this.maskAnomalies } = params;
     this.validateMeasurement(measurement, fields);
 
     const selectedFields =
@@ -298,12 +784,12 @@ export class InfluxDBService implements OnModuleInit {
     `;
 
     try {
-      const results: any[] = [];
+      const results: FluxRow[] = [];
 
       await new Promise<void>((resolve, reject) => {
         this.queryApi.queryRows(query, {
           next: (row, tableMeta) => {
-            results.push(tableMeta.toObject(row));
+            results.push(tableMeta.toObject(row) as FluxRow);
           },
           error: (error) => {
             this.logger.error(`InfluxDB query error: ${error.message}`);
@@ -316,7 +802,11 @@ export class InfluxDBService implements OnModuleInit {
       // Group by station_id
       const stationMap = new Map<
         string,
-        { data: Record<string, number | null>; timestamp: string }
+        {
+          data: Record<string, number | null>;
+          timestamp: string;
+          masked: string[];
+        }
       >();
 
       for (const row of results) {
@@ -326,22 +816,39 @@ export class InfluxDBService implements OnModuleInit {
           for (const field of selectedFields) {
             initialData[field] = null;
           }
-          stationMap.set(stationId, { data: initialData, timestamp: '' });
+          stationMap.set(stationId, {
+            data: initialData,
+            timestamp: '',
+            masked: [],
+          });
         }
 
         const station = stationMap.get(stationId)!;
-        station.data[row._field] = row._value;
+        if (
+          maskAnomalies &&
+          this.anomalyStore.isFlagged(
+            stationId,
+            measurement,
+            row._field,
+            row._time,
+          )
+        ) {
+          station.masked.push(row._field);
+        } else {
+          station.data[row._field] = row._value;
+        }
         if (!station.timestamp || row._time > station.timestamp) {
           station.timestamp = row._time;
         }
       }
 
       return Array.from(stationMap.entries()).map(
-        ([stationId, { data, timestamp }]) => ({
+        ([stationId, { data, timestamp, masked }]) => ({
           stationId,
           measurement,
           data,
           timestamp,
+          ...(masked.length > 0 && { masked }),
         }),
       );
     } catch (error: any) {
@@ -399,19 +906,58 @@ export class InfluxDBService implements OnModuleInit {
     return allResults;
   }
 
+  /**
+   * Write sensor observations
+   * Fields of the same station, measurement and timestamp share one point
+   */
+  async writePoints(points: SensorWritePoint[]): Promise<void> {
+    for (const p of points) {
+      this.validateMeasurement(p.measurement, [p.field]);
+    }
+
+    const grouped = new Map<string, Point>();
+    for (const p of points) {
+      const key = `${p.stationId}|${p.measurement}|${p.time}`;
+      let point = grouped.get(key);
+      if (!point) {
+        point = new Point(p.measurement)
+          .tag('station_id', p.stationId)
+          .timestamp(new Date(p.time));
+        grouped.set(key, point);
+      }
+      point.floatField(p.field, p.value);
+    }
+
+    // One write API per request so that a failed flush is reported to its caller
+    const writeApi = this.influxDB.getWriteApi(this.org, this.bucket, 'ms', {
+      maxRetries: 0,
+    });
+    writeApi.writePoints(Array.from(grouped.values()));
+
+    try {
+      await writeApi.close();
+      this.logger.debug(
+        `Wrote ${grouped.size} points (${points.length} values) to InfluxDB`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to write points: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
   /**
    * Execute custom Flux query
    */
-  async executeQuery(query: string): Promise<any[]> {
+  async executeQuery(query: string): Promise<FluxRow[]> {
     this.logger.debug(`Executing custom query: ${query}`);
 
     try {
-      const results: any[] = [];
+      const results: FluxRow[] = [];
 
       await new Promise<void>((resolve, reject) => {
         this.queryApi.queryRows(query, {
           next: (row, tableMeta) => {
-            results.push(tableMeta.toObject(row));
+            results.push(tableMeta.toObject(row) as FluxRow);
           },
           error: (error) => {
             this.logger.error(`InfluxDB query error: ${error.message}`);
@@ -0,0 +1,78 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { IngestionService } from './ingestion.service';
+import { TIMESTAMP_PRECISIONS, TimestampPrecision } from './readings';
+
+@Controller('ingestion')
+export class IngestionController {
+  constructor(private readonly ingestionService: IngestionService) {}
+
+  /**
+   * Write JSON readings
+   * POST /ingestion/readings
+   *
+   * @example
+   * [{ "station_id": "HoGuom", "measurement": "air_quality", "fields": { "aqi": 87, "pm25": 31.5 }, "time": "2025-11-01T08:00:00Z" }]
+   */
+  @Post('readings')
+  @HttpCode(HttpStatus.OK)
+  async writeReadings(@Body() body: unknown) {
+    return this.ingestionService.ingestJson(body);
+  }
+
+  /**
+   * Write InfluxDB line protocol sent as text/plain
+   * POST /ingestion/line-protocol?precision=ms
+   *
+   * @example
+   * air_quality,station_id=HoGuom aqi=87i,pm25=31.5 1761984000000
+   */
+  @Post('line-protocol')
+  @HttpCode(HttpStatus.OK)
+  async writeLineProtocol(
+    @Body() body: unknown,
+    @Query('precision') precision?: string,
+  ) {
+    const p = (precision || 'ns') as TimestampPrecision;
+    if (!TIMESTAMP_PRECISIONS.includes(p)) {
+      throw new BadRequestException(
+        `Invalid precision: ${precision}. Available: ${TIMESTAMP_PRECISIONS.join(', ')}`,
+      );
+    }
+    return this.ingestionService.ingestLineProtocol(body as string, p);
+  }
+
+  /**
+   * Ingestion settings and known station cache
+   * GET /ingestion/status
+   */
+  @Get('status')
+  getStatus() {
+    return this.ingestionService.getStatus();
+  }
+}
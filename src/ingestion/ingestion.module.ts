@@ -0,0 +1,36 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Module } from '@nestjs/common';
+import { IngestionService } from './ingestion.service';
+import { IngestionController } from './ingestion.controller';
+import { FusekiModule } from '../fuseki/fuseki.module';
+import { InfluxDBModule } from '../influxdb/influxdb.module';
+
+/**
+ * Ingestion Module
+ *
+ * Lets field gateways post sensor readings (JSON or line protocol) through
+ * the backend instead of writing to InfluxDB with shared tokens. Lives apart
+ * from InfluxDBModule because station ids are checked against Fuseki.
+ */
+@Module({
+  imports: [FusekiModule, InfluxDBModule],
+  controllers: [IngestionController],
+  providers: [IngestionService],
+})
+export class IngestionModule {}
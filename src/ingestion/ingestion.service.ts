@@ -0,0 +1,290 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FusekiService } from '../fuseki/fuseki.service';
+import {
+  InfluxDBService,
+  SensorWritePoint,
+} from '../influxdb/influxdb.service';
+import {
+  IndexedReading,
+  ParsedReadings,
+  RejectedReading,
+  SensorReading,
+  TimestampPrecision,
+  parseJsonReadings,
+  parseLineProtocol,
+  readingsToPoints,
+  validateReading,
+} from './readings';
+
+// Known stations are reloaded from Fuseki after this long
+const STATION_CACHE_TTL_MS = 5 * 60 * 1000;
+// Unknown station ids trigger an early reload, at most this often
+const STATION_RELOAD_MIN_MS = 30 * 1000;
+// Rejections listed in a report
+const REPORT_MAX_ERRORS = 100;
+
+export interface IngestionReport {
+  received: number;
+  accepted: number;
+  rejected: number;
+  points: number;
+  batches: number;
+  errors: RejectedReading[];
+}
+
+/**
+ * IngestionService - Validated writes of gateway readings into InfluxDB
+ *
+ * Readings must use a measurement and fields of MEASUREMENTS, stay within
+ * FIELD_RANGES and come from a sosa:Sensor or sosa:Platform known to Fuseki.
+ * Valid readings are written in batches of INGESTION_BATCH_SIZE values, each
+ * batch retried with exponential backoff when InfluxDB is unavailable.
+ */
+@Injectable()
+export class IngestionService {
+  private readonly logger = new Logger(IngestionService.name);
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+
+  private knownStations: Set<string> | null = null;
+  private stationsLoadedAt = 0;
+  private loadingStations: Promise<Set<string>> | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fusekiService: FusekiService,
+    private readonly influxDBService: InfluxDBService,
+  ) {
+    this.batchSize =
+      parseInt(
+        this.configService.get<string>('INGESTION_BATCH_SIZE') || '',
+        10,
+      ) || 5000;
+    this.maxAttempts =
+      parseInt(
+        this.configService.get<string>('INGESTION_WRITE_ATTEMPTS') || '',
+        10,
+      ) || 3;
+  }
+
+  /**
+   * Ingest JSON readings, a single object or an array
+   */
+  async ingestJson(body: unknown): Promise<IngestionReport> {
+    if (!body || typeof body !== 'object') {
+      throw new BadRequestException(
+        'Body must be a reading object or an array of readings',
+      );
+    }
+    return this.ingest(parseJsonReadings(body));
+  }
+
+  /**
+   * Ingest an InfluxDB line protocol body
+   */
+  async ingestLineProtocol(
+    body: string,
+    precision: TimestampPrecision,
+  ): Promise<IngestionReport> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new BadRequestException(
+        'Body must be line protocol sent as text/plain',
+      );
+    }
+    return this.ingest(parseLineProtocol(body, precision));
+  }
+
+  /**
+   * Status of the known station cache
+   */
+  getStatus() {
+    return {
+      knownStations: this.knownStations?.size ?? 0,
+      stationsLoadedAt: this.stationsLoadedAt
+        ? new Date(this.stationsLoadedAt).toISOString()
+        : null,
+      batchSize: this.batchSize,
+      maxAttempts: this.maxAttempts,
+    };
+  }
+
+  private async ingest(parsed: ParsedReadings): Promise<IngestionReport> {
+    const now = new Date();
+    const rejected = [...parsed.rejected];
+    const valid: IndexedReading[] = [];
+
+    for (const item of parsed.readings) {
+      const reason = validateReading(item.reading, now);
+      if (reason) rejected.push({ index: item.index, reason });
+      else valid.push(item);
+    }
+
+    let stations = await this.getKnownStations();
+    if (
+      valid.some(({ reading }) => !stations.has(reading.stationId)) &&
+      Date.now() - this.stationsLoadedAt > STATION_RELOAD_MIN_MS
+    ) {
+      stations = await this.getKnownStations(true);
+    }
+
+    const accepted: SensorReading[] = [];
+    for (const { index, reading } of valid) {
+      if (stations.has(reading.stationId)) {
+        accepted.push(reading);
+      } else {
+        rejected.push({
+          index,
+          reason: `Unknown station: ${reading.stationId}`,
+        });
+      }
+    }
+
+    const received = parsed.readings.length + parsed.rejected.length;
+    const report: IngestionReport = {
+      received,
+      accepted: accepted.length,
+      rejected: rejected.length,
+      points: 0,
+      batches: 0,
+      errors: rejected
+        .sort((a, b) => a.index - b.index)
+        .slice(0, REPORT_MAX_ERRORS),
+    };
+
+    if (accepted.length === 0) {
+      throw new BadRequestException({
+        message: 'No valid readings',
+        ...report,
+      });
+    }
+
+    const points = readingsToPoints(accepted);
+    for (let i = 0; i < points.length; i += this.batchSize) {
+      const batch = points.slice(i, i + this.batchSize);
+      try {
+        await this.writeWithRetry(batch);
+      } catch (error) {
+        // Points are keyed by series and time, so resending the whole request is safe
+        throw new HttpException(
+          {
+            message: 'InfluxDB write failed, retry the request',
+            error: (error as Error).message,
+            ...report,
+          },
+          HttpStatus.SERVICE_UNAVAILABLE,
+        );
+      }
+      report.points += batch.length;
+      report.batches++;
+    }
+
+    this.logger.log(
+      `Ingested ${report.accepted}/${received} readings (${report.points} values, ${report.batches} batches)`,
+    );
+    return report;
+  }
+
+  private async writeWithRetry(points: SensorWritePoint[]): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.influxDBService.writePoints(points);
+        return;
+      } catch (error) {
+        const { message, statusCode: status } = error as Error & {
+          statusCode?: number;
+        };
+        const retryable =
+          status === undefined || status === 429 || status >= 500;
+        if (!retryable || attempt >= this.maxAttempts) throw error;
+
+        const delay = 500 * 2 ** (attempt - 1);
+        this.logger.warn(
+          `Write of ${points.length} values failed (attempt ${attempt}/${this.maxAttempts}): ${message}, retrying in ${delay} ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Ids of the sensors and stations in Fuseki, both full URIs and their
+   * last segment (HoGuom for urn:ngsi-ld:Device:Hanoi:station:HoGuom)
+   */
+  private async getKnownStations(force = false): Promise<Set<string>> {
+    if (
+      !force &&
+      this.knownStations &&
+      Date.now() - this.stationsLoadedAt < STATION_CACHE_TTL_MS
+    ) {
+      return this.knownStations;
+    }
+    if (!this.loadingStations) {
+      this.loadingStations = this.loadStations().finally(() => {
+        this.loadingStations = null;
+      });
+    }
+    return this.loadingStations;
+  }
+
+  private async loadStations(): Promise<Set<string>> {
+    let rows: { device?: string }[];
+    try {
+      rows = (await this.fusekiService.executeSelect(`
+        PREFIX sosa: <http://www.w3.org/ns/sosa/>
+        SELECT DISTINCT ?device
+        WHERE {
+          GRAPH ?g {
+            VALUES ?type { sosa:Sensor sosa:Platform }
+            ?device a ?type .
+          }
+        }
+      `)) as { device?: string }[];
+    } catch (error) {
+      const { message } = error as Error;
+      this.logger.error(`Failed to load stations: ${message}`);
+      if (this.knownStations) return this.knownStations;
+      throw new HttpException(
+        {
+          message: 'Station registry unavailable',
+          error: message,
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const stations = new Set<string>();
+    for (const { device } of rows) {
+      if (!device) continue;
+      stations.add(device);
+      stations.add(device.split(/[:/#]/).pop() || device);
+    }
+    this.knownStations = stations;
+    this.stationsLoadedAt = Date.now();
+    this.logger.log(`Loaded ${rows.length} known stations from Fuseki`);
+    return stations;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  parseJsonReadings,
+  parseLineProtocol,
+  readingsToPoints,
+  validateReading,
+} from './readings';
+
+describe('readings', () => {
+  const now = new Date('2025-11-01T09:00:00Z');
+
+  describe('parseLineProtocol', () => {
+    it('parses tags, numeric fields and timestamps', () => {
+      const { readings, rejected } = parseLineProtocol(
+        'air_quality,station_id=HoGuom,gateway=gw1 aqi=87i,pm25=31.5 1761984000000000000',
+        'ns',
+        now,
+      );
+      expect(rejected).toEqual([]);
+      expect(readings).toEqual([
+        {
+          index: 1,
+          reading: {
+            stationId: 'HoGuom',
+            measurement: 'air_quality',
+            fields: { aqi: 87, pm25: 31.5 },
+            time: '2025-11-01T08:00:00.000Z',
+          },
+        },
+      ]);
+    });
+
+    it('honours the precision and stamps lines without timestamp', () => {
+      const { readings } = parseLineProtocol(
+        'weather,station_id=Lang temperature=28 1761984000\nweather,station_id=Lang humidity=70',
+        's',
+        now,
+      );
+      expect(readings.map(({ reading }) => reading.time)).toEqual([
+        '2025-11-01T08:00:00.000Z',
+        '2025-11-01T09:00:00.000Z',
+      ]);
+    });
+
+    it('unescapes tag values', () => {
+      const { readings } = parseLineProtocol(
+        'flood,station_id=urn:ngsi-ld:Device:Hanoi:station:Ho\\ Tay water_level=1.2',
+        'ns',
+        now,
+      );
+      expect(readings[0].reading.stationId).toBe(
+        'urn:ngsi-ld:Device:Hanoi:station:Ho Tay',
+      );
+    });
+
+    it('skips comments and reports bad lines by line number', () => {
+      const { readings, rejected } = parseLineProtocol(
+        [
+          '# gateway gw1',
+          'traffic,station_id=Lang avg_speed=32',
+          '',
+          'traffic,station_id=Lang note="jam"',
+          'traffic,station_id=Lang',
+        ].join('\n'),
+        'ns',
+        now,
+      );
+      expect(readings.map(({ index }) => index)).toEqual([2]);
+      expect(rejected.map(({ index }) => index)).toEqual([4, 5]);
+      expect(rejected[0].reason).toMatch(/not a number/);
+    });
+  });
+
+  describe('parseJsonReadings', () => {
+    it('accepts a single reading or an array', () => {
+      const reading = {
+        station_id: 'HoGuom',
+        measurement: 'air_quality',
+        fields: { aqi: 87 },
+        time: '2025-11-01T08:00:00Z',
+      };
+      expect(parseJsonReadings(reading, now).readings).toHaveLength(1);
+      expect(
+        parseJsonReadings([reading, { ...reading, time: 1761984000000 }], now)
+          .readings[1].reading.time,
+      ).toBe('2025-11-01T08:00:00.000Z');
+    });
+
+    it('rejects non-numeric fields and invalid times by array index', () => {
+      const { readings, rejected } = parseJsonReadings(
+        [
+          {
+            stationId: 'Lang',
+            measurement: 'weather',
+            fields: { humidity: 70 },
+          },
+          {
+            stationId: 'Lang',
+            measurement: 'weather',
+            fields: { humidity: '70' },
+          },
+          {
+            stationId: 'Lang',
+            measurement: 'weather',
+            fields: {},
+            time: 'soon',
+          },
+        ],
+        now,
+      );
+      expect(readings[0].reading.time).toBe(now.toISOString());
+      expect(rejected.map(({ index }) => index)).toEqual([1, 2]);
+    });
+  });
+
+  describe('validateReading', () => {
+    const reading = {
+      stationId: 'HoGuom',
+      measurement: 'air_quality',
+      fields: { aqi: 87 },
+      time: '2025-11-01T08:00:00.000Z',
+    };
+
+    it('accepts a valid reading', () => {
+      expect(validateReading(reading, now)).toBeNull();
+    });
+
+    it.each([
+      [{ stationId: '' }, /station_id/],
+      [{ measurement: 'radiation' }, /Invalid measurement/],
+      [{ measurement: 'constructor' }, /Invalid measurement/],
+      [{ fields: { constructor: 1 } }, /Invalid field/],
+      [{ fields: { aqi: Number.NaN } }, /not a finite number/],
+      [{ fields: { temperature: 30 } }, /Invalid field/],
+      [{ fields: { aqi: 900 } }, /out of range/],
+      [{ fields: {} }, /At least one field/],
+      [{ time: '2025-11-01T10:00:00.000Z' }, /future/],
+    ])('rejects %p', (override, reason) => {
+      expect(validateReading({ ...reading, ...override }, now)).toMatch(reason);
+    });
+  });
+
+  it('flattens readings into one point per field', () => {
+    expect(
+      readingsToPoints([
+        {
+          stationId: 'Lang',
+          measurement: 'weather',
+          fields: { temperature: 28, humidity: 70 },
+          time: '2025-11-01T08:00:00.000Z',
+        },
+      ]),
+    ).toEqual([
+      {
+        stationId: 'Lang',
+        measurement: 'weather',
+        field: 'temperature',
+        value: 28,
+        time: '2025-11-01T08:00:00.000Z',
+      },
+      {
+        stationId: 'Lang',
+        measurement: 'weather',
+        field: 'humidity',
+        value: 70,
+        time: '2025-11-01T08:00:00.000Z',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Sensor readings posted by field gateways, as JSON or InfluxDB line protocol
+ *
+ * Readings are checked against MEASUREMENTS and FIELD_RANGES one by one so a
+ * single bad line does not reject the rest of the batch.
+ *
+ * @see https://docs.influxdata.com/influxdb/v2/reference/syntax/line-protocol/
+ */
+
+import {
+  FIELD_RANGES,
+  MEASUREMENTS,
+  MeasurementType,
+  SensorWritePoint,
+} from '../influxdb/influxdb.service';
+
+/**
+ * Readings may be timestamped up to this far ahead of the server clock
+ */
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const TIMESTAMP_PRECISIONS = ['ns', 'us', 'ms', 's'] as const;
+
+export type TimestampPrecision = (typeof TIMESTAMP_PRECISIONS)[number];
+
+/**
+ * One station, one measurement, several fields at one instant
+ */
+export interface SensorReading {
+  stationId: string;
+  measurement: string;
+  fields: Record<string, number>;
+  time: string; // ISO timestamp
+}
+
+/**
+ * index is the position in the JSON array, or the line number of line protocol
+ */
+export interface IndexedReading {
+  index: number;
+  reading: SensorReading;
+}
+
+export interface RejectedReading {
+  index: number;
+  reason: string;
+}
+
+export interface ParsedReadings {
+  readings: IndexedReading[];
+  rejected: RejectedReading[];
+}
+
+/**
+ * Split on sep outside of backslash escapes and double quoted strings
+ */
+function splitUnescaped(text: string, sep: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length && parts.length < limit - 1; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === sep && !quoted) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Parse a line protocol field value; only numeric fields are accepted
+ */
+function parseFieldValue(raw: string): number {
+  const match = raw.match(
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)([iu]?)$/,
+  );
+  if (!match) {
+    throw new Error(`Field value ${raw} is not a number`);
+  }
+  if (match[2] && !/^[+-]?\d+$/.test(match[1])) {
+    throw new Error(`Field value ${raw} is not an integer`);
+  }
+  return Number(match[1]);
+}
+
+function toIsoFromEpoch(raw: string, precision: TimestampPrecision): string {
+  if (!/^-?\d+$/.test(raw)) {
+    throw new Error(`Invalid timestamp: ${raw}`);
+  }
+  // BigInt keeps nanosecond timestamps exact until they are cut to milliseconds
+  const divisor = { ns: 1000000n, us: 1000n, ms: 1n, s: 1n }[precision];
+  const multiplier = precision === 's' ? 1000n : 1n;
+  const ms = Number((BigInt(raw) * multiplier) / divisor);
+  const date = new Date(ms);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp: ${raw}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Parse one line: measurement,tag=value,... field=value,... [timestamp]
+ *
+ * station_id is the only tag written to InfluxDB, other tags are ignored.
+ */
+function parseLine(
+  line: string,
+  precision: TimestampPrecision,
+  now: Date,
+): SensorReading {
+  const [head, fieldSet, timestamp, extra] = splitUnescaped(line, ' ');
+  if (!fieldSet || extra !== undefined) {
+    throw new Error('Expected "measurement,tags fields [timestamp]"');
+  }
+
+  const [measurement, ...tagPairs] = splitUnescaped(head, ',');
+  const tags: Record<string, string> = {};
+  for (const pair of tagPairs) {
+    const [key, value] = splitUnescaped(pair, '=', 2);
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid tag: ${pair}`);
+    }
+    tags[unescape(key)] = unescape(value);
+  }
+
+  const fields: Record<string, number> = {};
+  for (const pair of splitUnescaped(fieldSet, ',')) {
+    const [key, value] = splitUnescaped(pair, '=', 2);
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid field: ${pair}`);
+    }
+    fields[unescape(key)] = parseFieldValue(value);
+  }
+
+  return {
+    stationId: tags.station_id ?? '',
+    measurement: unescape(measurement),
+    fields,
+    time: timestamp ? toIsoFromEpoch(timestamp, precision) : now.toISOString(),
+  };
+}
+
+/**
+ * Parse a line protocol body, one reading per line
+ *
+ * Blank lines and # comments are skipped. Lines without a timestamp are
+ * stamped with the server time.
+ *
+ * @example
+ * parseLineProtocol('air_quality,station_id=HoGuom aqi=87i,pm25=31.5 1730448000000', 'ms')
+ * // { readings: [{ index: 1, reading: { stationId: 'HoGuom', measurement: 'air_quality', fields: { aqi: 87, pm25: 31.5 }, time: '2024-11-01T08:00:00.000Z' } }], rejected: [] }
+ */
+export function parseLineProtocol(
+  body: string,
+  precision: TimestampPrecision = 'ns',
+  now = new Date(),
+): ParsedReadings {
+  const readings: IndexedReading[] = [];
+  const rejected: RejectedReading[] = [];
+
+  body.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    try {
+      readings.push({ index: i + 1, reading: parseLine(line, precision, now) });
+    } catch (e) {
+      rejected.push({ index: i + 1, reason: (e as Error).message });
+    }
+  });
+
+  return { readings, rejected };
+}
+
+/**
+ * Normalize JSON readings: a single object or an array of
+ * { station_id | stationId, measurement, fields, time? }
+ *
+ * time is an ISO string or epoch milliseconds and defaults to the server time.
+ */
+export function parseJsonReadings(
+  body: unknown,
+  now = new Date(),
+): ParsedReadings {
+  const items: unknown[] = Array.isArray(body) ? body : [body];
+  const readings: IndexedReading[] = [];
+  const rejected: RejectedReading[] = [];
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      rejected.push({ index, reason: 'Reading must be an object' });
+      return;
+    }
+    const { station_id, stationId, measurement, fields, time } = item as Record<
+      string,
+      unknown
+    >;
+
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      rejected.push({ index, reason: 'fields must be an object of numbers' });
+      return;
+    }
+    const nonNumeric = Object.entries(fields).find(
+      ([, value]) => typeof value !== 'number',
+    );
+    if (nonNumeric) {
+      rejected.push({
+        index,
+        reason: `Field ${nonNumeric[0]} is not a number`,
+      });
+      return;
+    }
+
+    let iso = now.toISOString();
+    if (time !== undefined) {
+      const date =
+        typeof time === 'string' || typeof time === 'number'
+          ? new Date(time)
+          : null;
+      if (!date || isNaN(date.getTime())) {
+        rejected.push({
+          index,
+          reason: `Invalid time: ${JSON.stringify(time)}`,
+        });
+        return;
+      }
+      iso = date.toISOString();
+    }
+
+    const id = station_id ?? stationId;
+    readings.push({
+      index,
+      reading: {
+        stationId: typeof id === 'string' ? id : '',
+        measurement: typeof measurement === 'string' ? measurement : '',
+        fields: fields as Record<string, number>,
+        time: iso,
+      },
+    });
+  });
+
+  return { readings, rejected };
+}
+
+/**
+ * Reason a reading cannot be written, or null when it is valid
+ *
+ * Checks the measurement and field names against MEASUREMENTS, values against
+ * FIELD_RANGES and rejects timestamps in the future beyond MAX_CLOCK_SKEW_MS.
+ * Station ids are checked separately against Fuseki.
+ */
+export function validateReading(
+  reading: SensorReading,
+  now = new Date(),
+): string | null {
+  if (!reading.stationId) {
+    return 'station_id is required';
+  }
+  if (!Object.hasOwn(MEASUREMENTS, reading.measurement)) {
+    return `Invalid measurement: ${reading.measurement}. Available: ${Object.keys(MEASUREMENTS).join(', ')}`;
+  }
+
+  const validFields = MEASUREMENTS[reading.measurement as MeasurementType]
+    .fields as readonly string[];
+  const entries = Object.entries(reading.fields);
+  if (entries.length === 0) {
+    return 'At least one field is required';
+  }
+  for (const [field, value] of entries) {
+    if (!validFields.includes(field)) {
+      return `Invalid field for ${reading.measurement}: ${field}. Available: ${validFields.join(', ')}`;
+    }
+    if (!Number.isFinite(value)) {
+      return `${field}=${value} is not a finite number`;
+    }
+    if (Object.hasOwn(FIELD_RANGES, field)) {
+      const [min, max] = FIELD_RANGES[field];
+      if (value < min || value > max) {
+        return `${field}=${value} is out of range [${min}, ${max}]`;
+      }
+    }
+  }
+
+  if (new Date(reading.time).getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+    return `Timestamp ${reading.time} is in the future`;
+  }
+  return null;
+}
+
+/**
+ * Flatten readings into the points written by InfluxDBService.writePoints
+ */
+export function readingsToPoints(
+  readings: SensorReading[],
+): SensorWritePoint[] {
+  return readings.flatMap((reading) =>
+    Object.entries(reading.fields).map(([field, value]) => ({
+      stationId: reading.stationId,
+      measurement: reading.measurement as MeasurementType,
+      field,
+      value,
+      time: reading.time,
+    })),
+  );
+}
@@ -16,17 +16,35 @@
  */
 
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { json } from 'express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // NGSI-LD clients post application/ld+json
+  const jsonTypes = ['application/json', 'application/ld+json'];
+  // NGSI-LD batch operations send thousands of entities per request,
+  // registered first so the default limit does not apply to them
+  app.use(
+    '/api/ngsi-ld/v1/entityOperations',
+    json({ limit: process.env.BODY_LIMIT || '10mb', type: jsonTypes }),
+  );
+  app.useBodyParser('json', { type: jsonTypes });
+  // Field gateways post InfluxDB line protocol as text/plain
+  app.useBodyParser('text', {
+    limit: process.env.BODY_LIMIT || '10mb',
+    type: 'text/plain',
+  });
 
   app.setGlobalPrefix('api');
 
   app.enableCors({
     origin: '*',
     methods: 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
-    allowedHeaders: 'Content-Type,Authorization',
+    allowedHeaders: 'Content-Type,Authorization,Accept,Link',
+    exposedHeaders: 'Link,Location,X-Total-Count',
     credentials: true,
     maxAge: 3600,
   });
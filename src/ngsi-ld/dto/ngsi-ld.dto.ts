@@ -20,10 +20,13 @@ import {
   IsString,
   IsNumber,
   IsEnum,
+  IsIn,
   Min,
   Max,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import type { MeasurementType } from '../../influxdb/influxdb.service';
+import type { GeoJsonGeometry } from '../../common/geo-utils';
 
 /**
  * Options format for NGSI-LD responses
@@ -34,19 +37,33 @@ export enum NgsiLdOptions {
 }
 
 /**
- * Aggregation methods for temporal queries
+ * Aggregation methods for temporal queries (ETSI GS CIM 009, clause 4.5.19)
  */
 export enum AggregationMethod {
+  TOTAL_COUNT = 'totalCount',
+  DISTINCT_COUNT = 'distinctCount',
+  SUM = 'sum',
   AVG = 'avg',
   MIN = 'min',
   MAX = 'max',
-  SUM = 'sum',
+  STDDEV = 'stddev',
+  SUMSQ = 'sumsq',
+}
+
+/**
+ * Temporal representations selected with options= on temporal queries
+ */
+export enum NgsiLdTemporalOptions {
+  TEMPORAL_VALUES = 'temporalValues',
+  AGGREGATED_VALUES = 'aggregatedValues',
 }
 
 /**
  * Query parameters for GET /ngsi-ld/v1/entities/{entityId}
  * @property options - Response format: normalized (default) or keyValues for simplified
  * @property attrs - Comma-separated list of attributes to include
+ * @property geometryProperty - GeoProperty used as Feature geometry with Accept: application/geo+json (default: location)
+ * @property local - 'true' to skip the registered context sources
  */
 export class GetEntityDto {
   @IsOptional()
@@ -56,20 +73,30 @@ export class GetEntityDto {
   @IsOptional()
   @IsString()
   attrs?: string;
+
+  @IsOptional()
+  @IsString()
+  geometryProperty?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  local?: 'true' | 'false';
 }
 
 /**
  * Query parameters for GET /ngsi-ld/v1/entities
  * @property type - Entity type to filter (e.g., 'PointOfInterest', 'Device')
  * @property idPattern - Pattern to match entity IDs (regex)
- * @property q - Query language filter (e.g., amenity=="atm")
- * @property georel - Spatial relationship (e.g., near;maxDistance==1000)
- * @property geometry - GeoJSON geometry type (e.g., Point)
- * @property coordinates - Coordinates for spatial query (JSON format)
+ * @property q - NGSI-LD query language filter (e.g., amenity=="atm";aqi<100, see ngsi-ld-query.ts)
+ * @property georel - Spatial relationship: near;maxDistance==1000, near;minDistance==500, within, contains, intersects, disjoint, equals, overlaps
+ * @property geometry - GeoJSON geometry type (Point, MultiPoint, LineString, MultiLineString, Polygon, MultiPolygon; default: Point)
+ * @property coordinates - GeoJSON coordinates of the geometry (JSON format)
  * @property limit - Maximum number of results (default: 20, max: 1000)
  * @property offset - Pagination offset
  * @property attrs - Comma-separated attributes to include
  * @property options - Response format
+ * @property geometryProperty - GeoProperty used as Feature geometry with Accept: application/geo+json (default: location)
+ * @property local - 'true' to skip the registered context sources
  */
 export class QueryEntitiesDto {
   @IsString()
@@ -115,24 +142,41 @@ export class QueryEntitiesDto {
   @IsOptional()
   @IsEnum(NgsiLdOptions)
   options?: NgsiLdOptions = NgsiLdOptions.NORMALIZED;
+
+  @IsOptional()
+  @IsString()
+  geometryProperty?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  local?: 'true' | 'false';
 }
 
 /**
  * Query parameters for GET /ngsi-ld/v1/temporal/entities/{entityId}
- * @property timeAt - Start time (ISO 8601 format)
- * @property endTimeAt - End time (ISO 8601 format)
+ * @property timerel - before, after or between (default: between if endTimeAt is set, after if only timeAt is set)
+ * @property timeAt - Reference time (ISO 8601 format)
+ * @property endTimeAt - End time for timerel=between (ISO 8601 format)
  * @property attrs - Comma-separated attributes to include
- * @property lastN - Return only last N values
+ * @property lastN - Return only the last N instances of each attribute
  * @property timeproperty - Temporal property to query (default: observedAt)
- * @property aggrMethod - Aggregation method (avg, min, max, sum)
- * @property aggrPeriodDuration - Aggregation period (ISO 8601 duration, e.g., PT1H)
+ * @property aggrMethods - Comma-separated aggregation methods (totalCount, distinctCount, sum, avg, min, max, stddev, sumsq)
+ * @property aggrMethod - Alias of aggrMethods
+ * @property aggrPeriodDuration - Aggregation period (ISO 8601 duration, e.g., PT1H, P1D); whole range if omitted
+ * @property options - temporalValues (simplified) or aggregatedValues
  */
 export class TemporalQueryDto {
+  @IsOptional()
+  @IsIn(['before', 'after', 'between'])
+  timerel?: 'before' | 'after' | 'between';
+
+  @IsOptional()
   @IsString()
-  timeAt: string;
+  timeAt?: string;
 
+  @IsOptional()
   @IsString()
-  endTimeAt: string;
+  endTimeAt?: string;
 
   @IsOptional()
   @IsString()
@@ -149,12 +193,20 @@ export class TemporalQueryDto {
   timeproperty?: string = 'observedAt';
 
   @IsOptional()
-  @IsEnum(AggregationMethod)
-  aggrMethod?: AggregationMethod;
+  @IsString()
+  aggrMethods?: string;
+
+  @IsOptional()
+  @IsString()
+  aggrMethod?: string;
 
   @IsOptional()
   @IsString()
   aggrPeriodDuration?: string;
+
+  @IsOptional()
+  @IsString()
+  options?: string;
 }
 
 /**
@@ -206,6 +258,24 @@ export interface NgsiLdEntityCollection {
   entities: NgsiLdEntity[];
 }
 
+/**
+ * GeoJSON Feature rendering of an NGSI-LD entity (Accept: application/geo+json)
+ */
+export interface NgsiLdFeature {
+  id: string;
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, any>;
+}
+
+/**
+ * GeoJSON FeatureCollection rendering of an NGSI-LD entity collection
+ */
+export interface NgsiLdFeatureCollection {
+  type: 'FeatureCollection';
+  features: NgsiLdFeature[];
+}
+
 /**
  * NGSI-LD Error response
  */
@@ -235,16 +305,220 @@ export const UNIT_CODES = {
 };
 
 /**
- * Default NGSI-LD context
+ * NGSI-LD attribute names of sensor values and where they live in InfluxDB
+ */
+export const SENSOR_ATTRIBUTES: Record<
+  string,
+  { measurement: MeasurementType; field: string }
+> = {
+  temperature: { measurement: 'weather', field: 'temperature' },
+  humidity: { measurement: 'weather', field: 'humidity' },
+  windSpeed: { measurement: 'weather', field: 'wind_speed' },
+  rainfall: { measurement: 'weather', field: 'rain_1h' },
+  aqi: { measurement: 'air_quality', field: 'aqi' },
+  pm25: { measurement: 'air_quality', field: 'pm25' },
+  pm10: { measurement: 'air_quality', field: 'pm10' },
+  noiseLevel: { measurement: 'traffic', field: 'noise_level' },
+  trafficIntensity: { measurement: 'traffic', field: 'intensity' },
+  avgSpeed: { measurement: 'traffic', field: 'avg_speed' },
+  waterLevel: { measurement: 'flood', field: 'water_level' },
+};
+
+/**
+ * InfluxDB field name -> NGSI-LD attribute name
+ */
+export const FIELD_TO_ATTRIBUTE: Record<string, string> = Object.fromEntries(
+  Object.entries(SENSOR_ATTRIBUTES).map(([attr, { field }]) => [field, attr]),
+);
+
+/**
+ * Device entity ID of an InfluxDB station
+ */
+export const stationEntityId = (stationId: string): string =>
+  `http://opendatafithou.org/sensor/station:${stationId}`;
+
+/**
+ * NGSI-LD core context URL
+ */
+export const NGSI_LD_CORE_CONTEXT =
+  'https://uri.etsi.org/ngsi-ld/v1/ngsi-ld-core-context.jsonld';
+
+/**
+ * RDF predicates used to store NGSI-LD POI attributes in Fuseki
+ * Attributes not listed here are stored under the ext: namespace
+ */
+export const ATTRIBUTE_PREDICATES: Record<string, string> = {
+  name: 'http://schema.org/name',
+  address: 'http://schema.org/address',
+  brand: 'http://schema.org/brand',
+  operator: 'http://schema.org/operator',
+  amenity: 'http://opendatafithou.org/def/extension/amenity',
+  highway: 'http://opendatafithou.org/def/extension/highway',
+  leisure: 'http://opendatafithou.org/def/extension/leisure',
+  access: 'http://opendatafithou.org/def/extension/access',
+  fee: 'http://opendatafithou.org/def/extension/fee',
+  location: 'http://www.opengis.net/ont/geosparql#asWKT',
+};
+
+/**
+ * Relationships stored in the topology graph (schema.org predicates)
  */
-export const NGSI_LD_CONTEXT = [
-  'https://uri.etsi.org/ngsi-ld/v1/ngsi-ld-core-context.jsonld',
-  {
-    sosa: 'http://www.w3.org/ns/sosa/',
-    schema: 'http://schema.org/',
-    property: 'http://opendatafithou.org/property/',
-  },
-];
+export const TOPOLOGY_RELATIONSHIPS: Record<string, string> = {
+  isNextTo: 'http://schema.org/isNextTo',
+  containedInPlace: 'http://schema.org/containedInPlace',
+  amenityFeature: 'http://schema.org/amenityFeature',
+};
+
+/**
+ * Options for entity write operations
+ * @property options - keyValues for simplified payloads, noOverwrite to keep existing attributes on append
+ */
+export class WriteEntityDto {
+  @IsOptional()
+  @IsString()
+  options?: string;
+}
+
+/**
+ * Result of PATCH/POST /entities/{entityId}/attrs
+ * An empty notUpdated list means every attribute was written (HTTP 204)
+ */
+export interface NgsiLdUpdateResult {
+  updated: string[];
+  notUpdated: { attributeName: string; reason: string }[];
+}
+
+/**
+ * Query parameters for POST /ngsi-ld/v1/entityOperations/*
+ * @property options - keyValues for simplified payloads; upsert: update (default replace); update: noOverwrite
+ * @property limit - Maximum number of results (query only)
+ * @property offset - Pagination offset (query only)
+ */
+export class BatchOperationDto {
+  @IsOptional()
+  @IsString()
+  options?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 20;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  offset?: number = 0;
+}
+
+/**
+ * Result of a batch operation: IDs that succeeded and one ProblemDetails per failed entity
+ */
+export interface NgsiLdBatchOperationResult {
+  success: string[];
+  errors: { entityId: string; error: NgsiLdError }[];
+}
+
+/**
+ * Query parameters for GET /ngsi-ld/v1/subscriptions
+ */
+export class QuerySubscriptionsDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 20;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  offset?: number = 0;
+}
+
+/**
+ * Entity selector of a subscription or context source registration
+ */
+export interface NgsiLdEntitySelector {
+  type: string;
+  id?: string;
+  idPattern?: string;
+}
+
+/**
+ * Notification parameters and delivery status of a subscription
+ * status/timesSent/last* are maintained by the server
+ */
+export interface NgsiLdNotificationParams {
+  attributes?: string[];
+  format?: NgsiLdOptions;
+  endpoint: {
+    uri: string;
+    accept?: string;
+  };
+  status?: 'ok' | 'failed';
+  timesSent?: number;
+  lastNotification?: string;
+  lastSuccess?: string;
+  lastFailure?: string;
+}
+
+/**
+ * NGSI-LD Subscription (ETSI GS CIM 009, clause 5.2.12)
+ */
+export interface NgsiLdSubscription {
+  id: string;
+  type: 'Subscription';
+  subscriptionName?: string;
+  description?: string;
+  entities: NgsiLdEntitySelector[];
+  watchedAttributes?: string[];
+  q?: string;
+  throttling?: number; // seconds between two notifications
+  expiresAt?: string;
+  isActive: boolean;
+  status?: 'active' | 'paused' | 'expired';
+  notification: NgsiLdNotificationParams;
+  jsonldContext?: unknown; // @context of the attribute names (default: smartcity)
+}
+
+/**
+ * Query parameters for GET /ngsi-ld/v1/csourceRegistrations
+ */
+export class QueryCSourceRegistrationsDto extends QuerySubscriptionsDto {}
+
+/**
+ * Entities and attributes provided by a context source
+ * An empty or missing list means "any"
+ */
+export interface NgsiLdRegistrationInfo {
+  entities?: NgsiLdEntitySelector[];
+  propertyNames?: string[];
+  relationshipNames?: string[];
+}
+
+/**
+ * Context source registration (ETSI GS CIM 009, clause 5.2.9)
+ * endpoint is the base URL of an NGSI-LD broker: requests are forwarded to
+ * {endpoint}/ngsi-ld/v1/entities. status/lastSuccess/lastFailure are
+ * maintained by the server
+ */
+export interface NgsiLdCSourceRegistration {
+  id: string;
+  type: 'ContextSourceRegistration';
+  registrationName?: string;
+  description?: string;
+  information: NgsiLdRegistrationInfo[];
+  location?: GeoJsonGeometry;
+  endpoint: string;
+  expiresAt?: string;
+  status?: 'ok' | 'failed';
+  lastSuccess?: string;
+  lastFailure?: string;
+}
 
 /**
  * Query parameters for GET /ngsi-ld/v1/temporal/entities (batch temporal query)
@@ -315,12 +589,11 @@ export interface NgsiLdAttributeDetails {
 }
 
 /**
- * JSON-LD Context information
+ * JSON-LD Context information (GET /jsonldContexts)
  */
 export interface JsonLdContextInfo {
-  '@context': string | (string | Record<string, string>)[];
   id: string;
-  type: 'ContextSourceRegistration';
   url: string;
   kind: 'Hosted' | 'Cached' | 'Implicit';
+  createdAt?: string;
 }
@@ -1,4 +1,12 @@
 export * from './ngsi-ld.module';
 export * from './ngsi-ld.controller';
 export * from './ngsi-ld.service';
+export * from './ngsi-ld-subscription.service';
+export * from './ngsi-ld-context.service';
+export * from './ngsi-ld-registration.service';
+export * from './ngsi-ld-query';
+export * from './ngsi-ld-media';
+export * from './ngsi-ld-context';
+export * from './ngsi-ld-temporal';
 export * from './dto';
+export * from './ngsi-ld.errors';
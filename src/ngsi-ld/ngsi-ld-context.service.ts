@@ -0,0 +1,353 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { FusekiService } from '../fuseki/fuseki.service';
+import { JsonLdContextInfo, NGSI_LD_CORE_CONTEXT } from './dto';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+import {
+  ResolvedContext,
+  SMARTCITY_CONTEXT_ID,
+  SMARTCITY_CONTEXT_VERSIONS,
+  buildSmartCityContext,
+  compactIri,
+  expandTerm,
+  resolveContextDefinitions,
+  smartCityContextId,
+  translateEntity,
+} from './ngsi-ld-context';
+
+const CONTEXT_CLASS = 'http://www.w3.org/ns/json-ld#Context';
+const PAYLOAD_PREDICATE = 'http://opendatafithou.org/def/extension/payload';
+
+/**
+ * A context document served by GET /jsonldContexts/{contextId}
+ */
+interface StoredContext {
+  info: JsonLdContextInfo;
+  document: { '@context': any };
+}
+
+/**
+ * NGSI-LD JSON-LD Context Service
+ *
+ * Serves every version of the smartcity @context (generated from the
+ * attribute tables) and user contexts registered with POST /jsonldContexts, which are
+ * persisted in a Fuseki named graph like subscriptions.
+ *
+ * Entities are compacted to / expanded from any served context by renaming
+ * their attributes (see ngsi-ld-context.ts). Remote contexts are never
+ * fetched: they must be registered first.
+ */
+@Injectable()
+export class NgsiLdContextService implements OnModuleInit {
+  private readonly logger = new Logger(NgsiLdContextService.name);
+  private readonly contexts = new Map<string, StoredContext>();
+  private readonly smartCity: ResolvedContext;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fusekiService: FusekiService,
+  ) {
+    this.smartCity = resolveContextDefinitions([buildSmartCityContext()]);
+    for (const version of SMARTCITY_CONTEXT_VERSIONS) {
+      const id = smartCityContextId(version);
+      this.contexts.set(id, {
+        info: { id, url: this.contextUrl(id), kind: 'Hosted' },
+        document: {
+          '@context': [NGSI_LD_CORE_CONTEXT, buildSmartCityContext(version)],
+        },
+      });
+    }
+  }
+
+  async onModuleInit() {
+    try {
+      await this.loadContexts();
+      this.logger.log(
+        `Loaded ${this.contexts.size - SMARTCITY_CONTEXT_VERSIONS.length} registered JSON-LD contexts`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to load JSON-LD contexts: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private get contextsGraph(): string {
+    return (
+      this.configService.get<string>('FUSEKI_GRAPH_CONTEXTS') ||
+      'http://localhost:3030/graph/contexts'
+    );
+  }
+
+  /**
+   * Public URL of the jsonldContexts endpoint, used to build context URLs
+   */
+  private get baseUrl(): string {
+    return (
+      this.configService.get<string>('NGSI_LD_CONTEXT_BASE_URL') ||
+      'http://localhost:3000/api/ngsi-ld/v1/jsonldContexts'
+    ).replace(/\/+$/, '');
+  }
+
+  private contextUrl(id: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(id)}`;
+  }
+
+  /**
+   * URL of the current smartcity context (hosted by this backend)
+   */
+  get defaultContextUrl(): string {
+    return this.contextUrl(SMARTCITY_CONTEXT_ID);
+  }
+
+  /**
+   * @context of every entity returned by the API
+   */
+  get defaultContext(): string[] {
+    return [NGSI_LD_CORE_CONTEXT, this.defaultContextUrl];
+  }
+
+  private escapeSparqlString(str: string): string {
+    return str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+
+  private async loadContexts(): Promise<void> {
+    const rows = (await this.fusekiService.executeSelect(`
+      SELECT ?s ?payload
+      WHERE {
+        GRAPH <${this.contextsGraph}> {
+          ?s a <${CONTEXT_CLASS}> ;
+             <${PAYLOAD_PREDICATE}> ?payload .
+        }
+      }
+    `)) as { s: string; payload: string }[];
+
+    for (const row of rows) {
+      try {
+        const stored = JSON.parse(row.payload) as StoredContext;
+        this.contexts.set(stored.info.id, stored);
+      } catch {
+        this.logger.warn(`Skipping unreadable JSON-LD context ${row.s}`);
+      }
+    }
+  }
+
+  /**
+   * GET /jsonldContexts
+   */
+  listContexts(): JsonLdContextInfo[] {
+    return [
+      {
+        id: 'urn:ngsi-ld:Context:core',
+        url: NGSI_LD_CORE_CONTEXT,
+        kind: 'Implicit',
+      },
+      ...Array.from(this.contexts.values()).map((c) => c.info),
+    ];
+  }
+
+  /**
+   * GET /jsonldContexts/{contextId}
+   * Accepts the full ID, the short name of a hosted context ('smartcity' is the latest version)
+   */
+  getContext(contextId: string): { '@context': any } {
+    const stored = this.findContext(contextId);
+    if (!stored) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `JSON-LD Context '${contextId}' not found`,
+      );
+    }
+    return stored.document;
+  }
+
+  /**
+   * POST /jsonldContexts
+   * Register a user context ({ "@context": ... }) and return its ID
+   */
+  async registerContext(payload: Record<string, any>): Promise<string> {
+    const context: unknown = payload?.['@context'];
+    if (
+      context === undefined ||
+      context === null ||
+      (typeof context !== 'object' && typeof context !== 'string')
+    ) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'The payload must be a JSON-LD document with an @context',
+      );
+    }
+
+    // Fails early on contexts that reference unknown remote documents
+    this.resolve(context);
+
+    const id = `urn:ngsi-ld:Context:${randomUUID()}`;
+    const stored: StoredContext = {
+      info: {
+        id,
+        url: this.contextUrl(id),
+        kind: 'Hosted',
+        createdAt: new Date().toISOString(),
+      },
+      document: { '@context': context },
+    };
+
+    const json = this.escapeSparqlString(JSON.stringify(stored));
+    await this.fusekiService.update(`
+      INSERT DATA {
+        GRAPH <${this.contextsGraph}> {
+          <${id}> a <${CONTEXT_CLASS}> ;
+            <${PAYLOAD_PREDICATE}> "${json}" .
+        }
+      }
+    `);
+    this.contexts.set(id, stored);
+    this.logger.log(`Registered JSON-LD context ${id}`);
+    return id;
+  }
+
+  /**
+   * DELETE /jsonldContexts/{contextId}
+   * Only registered contexts can be deleted
+   */
+  async deleteContext(contextId: string): Promise<void> {
+    const stored = this.findContext(contextId);
+    if (!stored) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `JSON-LD Context '${contextId}' not found`,
+      );
+    }
+    if (this.isSmartCityContext(stored.info.id)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'The smartcity context is built-in and cannot be deleted',
+      );
+    }
+
+    await this.fusekiService.update(`
+      DELETE WHERE { GRAPH <${this.contextsGraph}> { <${stored.info.id}> ?p ?o } }
+    `);
+    this.contexts.delete(stored.info.id);
+  }
+
+  /**
+   * Rename the attributes of entities to the terms of a user context
+   */
+  compact<T extends Record<string, any>>(entities: T[], context: unknown): T[] {
+    const target = this.resolve(context);
+    return entities.map((entity) =>
+      translateEntity(entity, this.smartCity, target),
+    );
+  }
+
+  /**
+   * Rename the attributes of a payload from its @context to the smartcity terms
+   */
+  expand<T extends Record<string, any>>(payload: T): T {
+    if (payload['@context'] === undefined) return payload;
+    return translateEntity(
+      payload,
+      this.resolve(payload['@context']),
+      this.smartCity,
+    );
+  }
+
+  private isSmartCityContext(id: string): boolean {
+    return SMARTCITY_CONTEXT_VERSIONS.some(
+      (version) => smartCityContextId(version) === id,
+    );
+  }
+
+  /**
+   * Rename attribute names from a context to the smartcity terms
+   * (unchanged without context)
+   */
+  expandTerms(names: string[], context: unknown): string[] {
+    if (context === undefined) return names;
+    const source = this.resolve(context);
+    return names.map((name) =>
+      compactIri(expandTerm(name, source), this.smartCity),
+    );
+  }
+
+  private findContext(contextIdOrUrl: string): StoredContext | undefined {
+    let id = contextIdOrUrl;
+    if (id.startsWith(`${this.baseUrl}/`)) {
+      id = decodeURIComponent(id.slice(this.baseUrl.length + 1));
+    }
+    if (id === 'smartcity') id = SMARTCITY_CONTEXT_ID;
+
+    return (
+      this.contexts.get(id) ||
+      this.contexts.get(`urn:ngsi-ld:Context:${id}`) ||
+      Array.from(this.contexts.values()).find((c) => c.info.url === id)
+    );
+  }
+
+  /**
+   * Resolve an @context value (URL, inline object or array) to term definitions
+   */
+  private resolve(context: unknown, depth = 0): ResolvedContext {
+    const definitions: Record<string, any>[] = [];
+    const collect = (value: unknown) => {
+      if (Array.isArray(value)) {
+        value.forEach(collect);
+      } else if (typeof value === 'string') {
+        if (value === NGSI_LD_CORE_CONTEXT) return;
+        const stored = this.findContext(value);
+        if (!stored || depth > 5) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.LD_CONTEXT_NOT_AVAILABLE,
+            `JSON-LD context ${value} is not available, register it with POST /ngsi-ld/v1/jsonldContexts`,
+          );
+        }
+        if (stored.info.id === SMARTCITY_CONTEXT_ID) {
+          definitions.push(...this.toDefinitions(this.smartCity));
+        } else {
+          definitions.push(
+            ...this.toDefinitions(
+              this.resolve(stored.document['@context'], depth + 1),
+            ),
+          );
+        }
+      } else if (value && typeof value === 'object') {
+        definitions.push(value as Record<string, any>);
+      }
+    };
+
+    collect(context);
+    return resolveContextDefinitions(definitions);
+  }
+
+  private toDefinitions(resolved: ResolvedContext): Record<string, any>[] {
+    return [
+      resolved.vocab
+        ? { ...resolved.terms, '@vocab': resolved.vocab }
+        : resolved.terms,
+    ];
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { FusekiService } from '../fuseki/fuseki.service';
+import {
+  SMARTCITY_CONTEXT_ID,
+  buildSmartCityContext,
+  resolveContextDefinitions,
+  translateEntity,
+} from './ngsi-ld-context';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+
+describe('NGSI-LD JSON-LD contexts', () => {
+  const smartCity = resolveContextDefinitions([buildSmartCityContext()]);
+  const user = resolveContextDefinitions([
+    {
+      s: 'http://schema.org/',
+      ten: 's:name',
+      chatLuongKhongKhi: 'http://opendatafithou.org/property/aqi',
+      ganVoi: { '@id': 's:isNextTo', '@type': '@id' },
+    },
+  ]);
+
+  const atm = {
+    '@context': ['https://uri.etsi.org/ngsi-ld/v1/ngsi-ld-core-context.jsonld'],
+    id: 'https://www.openstreetmap.org/node/1',
+    type: 'PointOfInterest',
+    name: { type: 'Property', value: 'ATM Vietcombank' },
+    aqi: { type: 'Property', value: 120, observedAt: '2025-01-01T00:00:00Z' },
+    isNextTo: { type: 'Relationship', object: 'urn:ngsi-ld:Road:1' },
+    location: {
+      type: 'GeoProperty',
+      value: { type: 'Point', coordinates: [105.85, 21.03] },
+    },
+    cuisine: { type: 'Property', value: 'pho' },
+  };
+
+  it('defines every sensor attribute and relationship', () => {
+    expect(smartCity.terms.waterLevel).toBe(
+      'http://opendatafithou.org/property/waterLevel',
+    );
+    expect(smartCity.terms.isNextTo).toBe('http://schema.org/isNextTo');
+    expect(smartCity.terms.location).toBeUndefined(); // core term
+  });
+
+  it('compacts entity attributes to a user context', () => {
+    const compacted = translateEntity(atm, smartCity, user);
+    expect(Object.keys(compacted)).toEqual([
+      '@context',
+      'id',
+      'type',
+      'ten',
+      'chatLuongKhongKhi',
+      'ganVoi',
+      'location',
+      'http://opendatafithou.org/def/extension/cuisine',
+    ]);
+    expect(compacted.type).toBe('http://schema.org/Place');
+  });
+
+  it('expands a user payload back to the smartcity terms', () => {
+    const compacted = translateEntity(atm, smartCity, user);
+    expect(translateEntity(compacted, user, smartCity)).toEqual(atm);
+  });
+});
+
+describe('NgsiLdContextService', () => {
+  const baseUrl = 'http://localhost:3000/api/ngsi-ld/v1/jsonldContexts';
+  const service = new NgsiLdContextService(
+    new ConfigService({}),
+    {} as FusekiService,
+  );
+
+  it('keeps serving previous versions of the smartcity context', () => {
+    const previous = service.getContext(
+      `${baseUrl}/urn%3Angsi-ld%3AContext%3Asmartcity%3A1.0.0`,
+    );
+    const [, terms] = previous['@context'] as Record<string, string>[];
+    expect(terms.aqi).toBe('property:aqi');
+    expect(terms.airQualityLevel).toBeUndefined();
+
+    const [, latest] = service.getContext('smartcity')['@context'] as Record<
+      string,
+      string
+    >[];
+    expect(latest.airQualityLevel).toBe('property:airQualityLevel');
+    expect(service.defaultContextUrl).toBe(
+      `${baseUrl}/${encodeURIComponent(SMARTCITY_CONTEXT_ID)}`,
+    );
+  });
+
+  it('compacts entities to a previous smartcity version', () => {
+    const [entity] = service.compact(
+      [
+        {
+          id: 'urn:ngsi-ld:Device:1',
+          aqi: { type: 'Property', value: 42 },
+          airQualityLevel: { type: 'Property', value: 'good' },
+        },
+      ],
+      'urn:ngsi-ld:Context:smartcity:1.0.0',
+    );
+    expect(Object.keys(entity)).toEqual([
+      'id',
+      'aqi',
+      'property:airQualityLevel',
+    ]);
+  });
+});
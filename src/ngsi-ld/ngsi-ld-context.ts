@@ -0,0 +1,281 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { MEASUREMENTS } from '../influxdb/influxdb.service';
+import {
+  ATTRIBUTE_PREDICATES,
+  TOPOLOGY_RELATIONSHIPS,
+  FIELD_TO_ATTRIBUTE,
+  UNIT_CODES,
+} from './dto';
+
+/**
+ * JSON-LD @context handling for the opendatafithou vocabulary
+ *
+ * The smartcity context is generated from the same tables the service uses
+ * to read and write entities, so every emitted term has a definition.
+ * Term translation between contexts is a flat rename of entity attributes
+ * (no full JSON-LD processing): expand the term with one context, compact
+ * the IRI with the other.
+ */
+
+/**
+ * Hosted versions of the smartcity context, oldest first. Previous versions
+ * stay hosted so documents that reference them keep resolving.
+ * Bump when a term changes meaning; new terms only need a minor bump
+ */
+export const SMARTCITY_CONTEXT_VERSIONS = ['1.0.0', '1.1.0'];
+
+export const SMARTCITY_CONTEXT_VERSION =
+  SMARTCITY_CONTEXT_VERSIONS[SMARTCITY_CONTEXT_VERSIONS.length - 1];
+
+export function smartCityContextId(version: string): string {
+  return `urn:ngsi-ld:Context:smartcity:${version}`;
+}
+
+export const SMARTCITY_CONTEXT_ID = smartCityContextId(
+  SMARTCITY_CONTEXT_VERSION,
+);
+
+/**
+ * Terms added by each version after the first one
+ */
+const SMARTCITY_TERMS_SINCE: Record<string, string[]> = {
+  '1.1.0': ['airQualityLevel', 'dominantPollutant'],
+};
+
+const PREFIXES = {
+  schema: 'http://schema.org/',
+  sosa: 'http://www.w3.org/ns/sosa/',
+  geo: 'http://www.opengis.net/ont/geosparql#',
+  ext: 'http://opendatafithou.org/def/extension/',
+  property: 'http://opendatafithou.org/property/',
+  uncefact: 'https://vocabulary.uncefact.org/UnitMeasureCode#',
+};
+
+/**
+ * Terms owned by the NGSI-LD core context (protected, never redefined or renamed)
+ */
+const CORE_TERMS = new Set([
+  'id',
+  'type',
+  'location',
+  'observationSpace',
+  'operationSpace',
+  'observedAt',
+  'createdAt',
+  'modifiedAt',
+  'unitCode',
+  'datasetId',
+  'scope',
+]);
+
+/**
+ * Term definitions of a context, resolved to absolute IRIs
+ */
+export interface ResolvedContext {
+  terms: Record<string, string>;
+  vocab?: string;
+}
+
+/**
+ * Build the term definitions of the smartcity context
+ *
+ * - POI properties: ATTRIBUTE_PREDICATES (same predicates as in Fuseki)
+ * - Sensor attributes: every field in MEASUREMENTS, the computed AQI
+ *   category (airQualityLevel, dominantPollutant) and distance
+ * - Unit codes: UN/CEFACT codes used in unitCode
+ * - Relationships: topology graph predicates and sosa:hosts
+ * - Anything else falls back to @vocab (ext:), like attributes written to Fuseki
+ *
+ * Previous versions leave out the terms added after them.
+ */
+export function buildSmartCityContext(
+  version = SMARTCITY_CONTEXT_VERSION,
+): Record<string, any> {
+  const context: Record<string, any> = {
+    ...PREFIXES,
+    '@vocab': PREFIXES.ext,
+    PointOfInterest: 'schema:Place',
+    Device: 'sosa:Sensor',
+  };
+
+  for (const [attr, predicate] of Object.entries(ATTRIBUTE_PREDICATES)) {
+    if (!CORE_TERMS.has(attr)) context[attr] = predicate;
+  }
+
+  const sensorAttributes = Object.values(MEASUREMENTS).flatMap(({ fields }) =>
+    (fields as readonly string[]).map(
+      (field) => FIELD_TO_ATTRIBUTE[field] || field,
+    ),
+  );
+  for (const attr of [
+    ...sensorAttributes,
+    'airQualityLevel',
+    'dominantPollutant',
+    'distance',
+  ]) {
+    context[attr] = `property:${attr}`;
+  }
+
+  for (const code of Object.values(UNIT_CODES)) {
+    if (code) context[code] = `uncefact:${code}`;
+  }
+
+  for (const [attr, predicate] of Object.entries(TOPOLOGY_RELATIONSHIPS)) {
+    context[attr] = { '@id': predicate, '@type': '@id' };
+  }
+  context.hosts = { '@id': 'sosa:hosts', '@type': '@id' };
+
+  const index = SMARTCITY_CONTEXT_VERSIONS.indexOf(version);
+  if (index < 0)
+    throw new Error(`Unknown smartcity context version ${version}`);
+  for (const later of SMARTCITY_CONTEXT_VERSIONS.slice(index + 1)) {
+    for (const term of SMARTCITY_TERMS_SINCE[later] || []) delete context[term];
+  }
+
+  return context;
+}
+
+/**
+ * Resolve context definition objects (in order, later ones win) to absolute IRIs
+ */
+export function resolveContextDefinitions(
+  definitions: Record<string, unknown>[],
+): ResolvedContext {
+  const raw: Record<string, string> = {};
+  let vocab: string | undefined;
+
+  for (const definition of definitions) {
+    for (const [term, value] of Object.entries(definition)) {
+      if (term === '@vocab' && typeof value === 'string') {
+        vocab = value;
+      } else if (term.startsWith('@')) {
+        continue;
+      } else if (typeof value === 'string') {
+        raw[term] = value;
+      } else {
+        const id = (value as { '@id'?: unknown } | null)?.['@id'];
+        if (typeof id === 'string') raw[term] = id;
+      }
+    }
+  }
+
+  const resolved: ResolvedContext = { terms: {} };
+  for (const [term, value] of Object.entries(raw)) {
+    resolved.terms[term] = expandCompactIri(value, raw);
+  }
+  if (vocab) resolved.vocab = expandCompactIri(vocab, raw);
+  return resolved;
+}
+
+/**
+ * Expand a term to an IRI, or return it unchanged if the context does not define it
+ */
+export function expandTerm(term: string, context: ResolvedContext): string {
+  if (CORE_TERMS.has(term)) return term;
+  if (context.terms[term]) return context.terms[term];
+  if (term.includes(':')) return expandCompactIri(term, context.terms);
+  return context.vocab ? context.vocab + term : term;
+}
+
+/**
+ * Compact an IRI to the shortest term of a context (term, @vocab-relative, prefix:suffix)
+ */
+export function compactIri(iri: string, context: ResolvedContext): string {
+  if (!isAbsoluteIri(iri)) return iri;
+
+  const exact = Object.entries(context.terms).find(
+    ([, value]) => value === iri && !isPrefixIri(value),
+  );
+  if (exact) return exact[0];
+
+  if (context.vocab && iri.startsWith(context.vocab)) {
+    const suffix = iri.slice(context.vocab.length);
+    if (/^[A-Za-z_][\w-]*$/.test(suffix) && !context.terms[suffix]) {
+      return suffix;
+    }
+  }
+
+  const prefix = Object.entries(context.terms)
+    .filter(([, value]) => isPrefixIri(value) && iri.startsWith(value))
+    .sort((a, b) => b[1].length - a[1].length)[0];
+  if (prefix) return `${prefix[0]}:${iri.slice(prefix[1].length)}`;
+
+  return iri;
+}
+
+/**
+ * Rename the attributes (and explicitly defined type) of an entity from one context to another
+ *
+ * Used to compact responses to a user context and to expand user payloads
+ * back to the smartcity terms. Sub-attributes and values are left untouched.
+ */
+export function translateEntity<T extends Record<string, any>>(
+  entity: T,
+  from: ResolvedContext,
+  to: ResolvedContext,
+): T {
+  const translated: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(entity)) {
+    if (key === '@context' || key === 'id') {
+      translated[key] = value;
+    } else if (key === 'type') {
+      translated.type = Array.isArray(value)
+        ? value.map((t) => translateType(t, from, to))
+        : translateType(value, from, to);
+    } else {
+      translated[compactIri(expandTerm(key, from), to)] = value;
+    }
+  }
+
+  return translated as T;
+}
+
+function translateType(
+  type: unknown,
+  from: ResolvedContext,
+  to: ResolvedContext,
+): unknown {
+  if (typeof type !== 'string') return type;
+  const iri = from.terms[type] || (isAbsoluteIri(type) ? type : undefined);
+  if (!iri) return type;
+
+  const term = Object.entries(to.terms).find(([, value]) => value === iri);
+  return term ? term[0] : iri;
+}
+
+function expandCompactIri(
+  value: string,
+  terms: Record<string, string>,
+): string {
+  const separator = value.indexOf(':');
+  if (separator <= 0 || value.slice(separator + 1).startsWith('//')) {
+    return value;
+  }
+  const prefix = terms[value.slice(0, separator)];
+  return prefix ? prefix + value.slice(separator + 1) : value;
+}
+
+function isAbsoluteIri(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(value);
+}
+
+function isPrefixIri(value: string): boolean {
+  return value.endsWith('/') || value.endsWith('#');
+}
@@ -0,0 +1,157 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { NotAcceptableException } from '@nestjs/common';
+import {
+  JSON_LD_CONTEXT_REL,
+  MEDIA_TYPE_GEO_JSON,
+  MEDIA_TYPE_JSON,
+  MEDIA_TYPE_JSON_LD,
+  NgsiLdMediaType,
+  entitiesToFeatureCollection,
+  negotiateMediaType,
+  parseContextLink,
+} from './ngsi-ld-media';
+
+describe('NGSI-LD media types', () => {
+  describe('negotiateMediaType', () => {
+    const supported: NgsiLdMediaType[] = [
+      MEDIA_TYPE_JSON_LD,
+      MEDIA_TYPE_JSON,
+      MEDIA_TYPE_GEO_JSON,
+    ];
+
+    it.each([
+      [undefined, MEDIA_TYPE_JSON_LD],
+      ['', MEDIA_TYPE_JSON_LD],
+      ['application/json', MEDIA_TYPE_JSON],
+      ['Application/GEO+JSON', MEDIA_TYPE_GEO_JSON],
+      [
+        'application/json;q=0.5, application/geo+json;q=0.9',
+        MEDIA_TYPE_GEO_JSON,
+      ],
+      ['application/json, application/ld+json', MEDIA_TYPE_JSON],
+      ['text/html, */*;q=0.1', MEDIA_TYPE_JSON_LD],
+      ['application/ld+json;q=0, application/*', MEDIA_TYPE_JSON],
+    ])('picks %p -> %p', (accept, expected) => {
+      expect(negotiateMediaType(accept, supported)).toBe(expected);
+    });
+
+    it('returns 406 when no accepted type is supported', () => {
+      expect(() =>
+        negotiateMediaType('text/html, application/xml', supported),
+      ).toThrow(NotAcceptableException);
+      expect(() =>
+        negotiateMediaType('application/geo+json', [
+          MEDIA_TYPE_JSON_LD,
+          MEDIA_TYPE_JSON,
+        ]),
+      ).toThrow(NotAcceptableException);
+      expect(() =>
+        negotiateMediaType('application/json;q=0', supported),
+      ).toThrow(NotAcceptableException);
+    });
+  });
+
+  describe('parseContextLink', () => {
+    const context = 'https://example.org/context.jsonld';
+
+    it('reads the JSON-LD context relation', () => {
+      expect(
+        parseContextLink(
+          `<${context}>; rel="${JSON_LD_CONTEXT_REL}"; type="application/ld+json"`,
+        ),
+      ).toBe(context);
+      expect(
+        parseContextLink(`< ${context} >;rel=${JSON_LD_CONTEXT_REL}`),
+      ).toBe(context);
+    });
+
+    it('skips the other relations', () => {
+      expect(
+        parseContextLink(
+          `<https://example.org/next>; rel="next", <${context}>; rel="${JSON_LD_CONTEXT_REL}"`,
+        ),
+      ).toBe(context);
+      expect(
+        parseContextLink('<https://example.org/next>; rel="next"'),
+      ).toBeUndefined();
+      expect(parseContextLink(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('entitiesToFeatureCollection', () => {
+    const atm = {
+      '@context': [
+        'https://uri.etsi.org/ngsi-ld/v1/ngsi-ld-core-context.jsonld',
+      ],
+      id: 'urn:ngsi-ld:PointOfInterest:1',
+      type: 'PointOfInterest',
+      name: { type: 'Property', value: 'ATM Vietcombank' },
+      location: {
+        type: 'GeoProperty',
+        value: { type: 'Point', coordinates: [105.85, 21.03] },
+      },
+      coverage: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [105.8, 21],
+            [105.9, 21],
+            [105.9, 21.1],
+            [105.8, 21],
+          ],
+        ],
+      },
+    };
+
+    it('renders each entity as a Feature of its location', () => {
+      expect(
+        entitiesToFeatureCollection([
+          atm,
+          { id: 'urn:ngsi-ld:Device:1', type: 'Device' },
+        ]),
+      ).toEqual({
+        type: 'FeatureCollection',
+        features: [
+          {
+            id: atm.id,
+            type: 'Feature',
+            geometry: atm.location.value,
+            properties: {
+              type: 'PointOfInterest',
+              name: atm.name,
+              location: atm.location,
+              coverage: atm.coverage,
+            },
+          },
+          {
+            id: 'urn:ngsi-ld:Device:1',
+            type: 'Feature',
+            geometry: null,
+            properties: { type: 'Device' },
+          },
+        ],
+      });
+    });
+
+    it('uses the requested geometry property (keyValues form)', () => {
+      const [feature] = entitiesToFeatureCollection([atm], 'coverage').features;
+      expect(feature.geometry).toEqual(atm.coverage);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  NotAcceptableException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+import type { GeoJsonGeometry } from '../common/geo-utils';
+import type {
+  NgsiLdEntity,
+  NgsiLdFeature,
+  NgsiLdFeatureCollection,
+} from './dto';
+
+/**
+ * Content negotiation for the NGSI-LD API (ETSI GS CIM 009, clause 6.3)
+ *
+ * - application/ld+json: @context inline in the body
+ * - application/json: @context in a Link header
+ * - application/geo+json: entities rendered as GeoJSON Features, @context in a Link header
+ */
+
+export const MEDIA_TYPE_JSON = 'application/json';
+export const MEDIA_TYPE_JSON_LD = 'application/ld+json';
+export const MEDIA_TYPE_GEO_JSON = 'application/geo+json';
+
+export type NgsiLdMediaType =
+  | typeof MEDIA_TYPE_JSON
+  | typeof MEDIA_TYPE_JSON_LD
+  | typeof MEDIA_TYPE_GEO_JSON;
+
+/**
+ * Link relation carrying the JSON-LD @context of a plain JSON document
+ */
+export const JSON_LD_CONTEXT_REL = 'http://www.w3.org/ns/json-ld#context';
+
+/**
+ * Pick the response media type from an Accept header
+ *
+ * A missing Accept header or a wildcard resolves to the first supported type
+ * that is not refused with q=0. Throws 406 if none of the accepted types is
+ * supported.
+ *
+ * @example
+ * negotiateMediaType('application/geo+json, application/json;q=0.8', [MEDIA_TYPE_JSON_LD, MEDIA_TYPE_JSON, MEDIA_TYPE_GEO_JSON])
+ * // 'application/geo+json'
+ */
+export function negotiateMediaType(
+  accept: string | undefined,
+  supported: NgsiLdMediaType[],
+): NgsiLdMediaType {
+  if (!accept || !accept.trim()) return supported[0];
+
+  const ranges = accept
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.split(';').map((p) => p.trim());
+      const qParam = params.find((p) => p.startsWith('q='));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      return {
+        range: range.toLowerCase(),
+        q: Number.isNaN(q) ? 0 : q,
+        index,
+      };
+    })
+    .filter((r) => r.range);
+  const refused = new Set(ranges.filter((r) => r.q <= 0).map((r) => r.range));
+  const accepted = ranges
+    .filter((r) => r.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { range } of accepted) {
+    const match =
+      range === '*/*' || range === 'application/*'
+        ? supported.find((type) => !refused.has(type))
+        : supported.find((type) => type === range);
+    if (match) return match;
+  }
+
+  throw new NotAcceptableException(
+    `None of the accepted media types is supported: ${supported.join(', ')}`,
+  );
+}
+
+/**
+ * Extract the @context URL from a Link header
+ *
+ * @example
+ * parseContextLink('<https://example.org/ctx.jsonld>; rel="http://www.w3.org/ns/json-ld#context"; type="application/ld+json"')
+ * // 'https://example.org/ctx.jsonld'
+ */
+export function parseContextLink(link: string | undefined): string | undefined {
+  if (!link) return undefined;
+
+  for (const match of link.matchAll(/<([^>]*)>([^,]*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+    if (rel && rel[1].trim() === JSON_LD_CONTEXT_REL) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format a Link header pointing to a JSON-LD @context
+ */
+export function formatContextLink(contextUrl: string): string {
+  return `<${contextUrl}>; rel="${JSON_LD_CONTEXT_REL}"; type="${MEDIA_TYPE_JSON_LD}"`;
+}
+
+/**
+ * Resolve the @context of incoming entity payloads from Content-Type and Link
+ *
+ * - application/ld+json: every payload must carry its own @context
+ * - application/json: the Link header @context (if any) is attached to every payload
+ *
+ * Throws 415 for other content types.
+ */
+export function applyRequestContext(
+  payloads: unknown[],
+  contentType: string | undefined,
+  link: string | undefined,
+): void {
+  const mediaType = (contentType || MEDIA_TYPE_JSON)
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  const contextUrl = parseContextLink(link);
+  const objects = payloads.filter(
+    (p): p is Record<string, any> =>
+      typeof p === 'object' && p !== null && !Array.isArray(p),
+  );
+
+  if (mediaType === MEDIA_TYPE_JSON_LD) {
+    if (contextUrl) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'A JSON-LD context Link header must not be used with application/ld+json',
+      );
+    }
+    if (objects.some((p) => p['@context'] === undefined)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'application/ld+json payloads must contain an @context',
+      );
+    }
+    return;
+  }
+
+  if (mediaType !== MEDIA_TYPE_JSON) {
+    throw new UnsupportedMediaTypeException(
+      `Unsupported Content-Type ${mediaType}, use ${MEDIA_TYPE_JSON} or ${MEDIA_TYPE_JSON_LD}`,
+    );
+  }
+
+  if (contextUrl) {
+    for (const payload of objects) {
+      payload['@context'] = contextUrl;
+    }
+  }
+}
+
+/**
+ * Render an entity as a GeoJSON Feature
+ *
+ * The geometry comes from the given GeoProperty (normalized or keyValues),
+ * every other attribute goes to properties
+ */
+export function entityToFeature(
+  entity: NgsiLdEntity | Record<string, any>,
+  geometryProperty = 'location',
+): NgsiLdFeature {
+  const properties: Record<string, unknown> = { type: entity.type };
+  for (const [key, value] of Object.entries(entity)) {
+    if (['@context', 'id', 'type'].includes(key)) continue;
+    properties[key] = value;
+  }
+
+  return {
+    id: entity.id as string,
+    type: 'Feature',
+    geometry: extractGeometry(entity[geometryProperty]),
+    properties,
+  };
+}
+
+/**
+ * Render a list of entities as a GeoJSON FeatureCollection
+ */
+export function entitiesToFeatureCollection(
+  entities: (NgsiLdEntity | Record<string, any>)[],
+  geometryProperty = 'location',
+): NgsiLdFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: entities.map((entity) =>
+      entityToFeature(entity, geometryProperty),
+    ),
+  };
+}
+
+function extractGeometry(attribute: unknown): GeoJsonGeometry | null {
+  const property = attribute as { type?: unknown; value?: unknown } | null;
+  const value = (
+    property?.type === 'GeoProperty' ? property.value : attribute
+  ) as Partial<GeoJsonGeometry> | null;
+  if (
+    value &&
+    typeof value.type === 'string' &&
+    Array.isArray(value.coordinates)
+  ) {
+    return value as GeoJsonGeometry;
+  }
+  return null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  parseQuery,
+  evaluateQuery,
+  compileQueryToSparql,
+  findRequiredValues,
+} from './ngsi-ld-query';
+import { NgsiLdException } from './ngsi-ld.errors';
+
+describe('NGSI-LD query language', () => {
+  const atm = {
+    id: 'https://www.openstreetmap.org/node/1',
+    type: 'FinancialService',
+    name: { type: 'Property', value: 'ATM Vietcombank' },
+    amenity: { type: 'Property', value: 'atm' },
+    aqi: {
+      type: 'Property',
+      value: 120,
+      observedAt: '2025-01-01T00:00:00Z',
+    },
+    address: {
+      type: 'Property',
+      value: { city: 'Hanoi', street: 'Tran Duy Hung' },
+      verified: { type: 'Property', value: true },
+    },
+  };
+
+  describe('evaluateQuery', () => {
+    it.each([
+      ['amenity=="atm"', true],
+      ['amenity!="atm"', false],
+      ['aqi>100', true],
+      ['aqi<=100', false],
+      ['aqi==100..150', true],
+      ['aqi==1..50', false],
+      ['amenity=="bank","atm"', true],
+      ['name~="(?i)vietcombank"', true],
+      ['name!~="^ATM"', false],
+      ['brand', false],
+      ['address[city]=="Hanoi"', true],
+      ['address.verified==true', true],
+      ['aqi.observedAt>"2024-12-31T00:00:00Z"', true],
+      ['amenity=="bank";aqi>100', false],
+      ['amenity=="bank"|aqi>100', true],
+      ['(amenity=="bank"|amenity=="atm");aqi<150', true],
+    ])('%s -> %s', (q, expected) => {
+      expect(evaluateQuery(parseQuery(q), atm)).toBe(expected);
+    });
+
+    it('evaluates keyValues entities', () => {
+      const query = parseQuery('waterLevel>=40');
+      expect(evaluateQuery(query, { waterLevel: 42 })).toBe(true);
+      expect(evaluateQuery(query, { waterLevel: null })).toBe(false);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('binds ; tighter than |', () => {
+      const query = parseQuery('a==1|b==2;c==3');
+      expect(query.kind).toBe('or');
+    });
+
+    it.each([
+      '',
+      'aqi>',
+      '(aqi>1',
+      'aqi>1)',
+      'name~="("',
+      'name~="(a+)+$"',
+      'name~="(\\w+\\s?)*x"',
+      'name~="(a?a?)*b"',
+    ])('rejects %p', (q) => {
+      expect(() => parseQuery(q)).toThrow(NgsiLdException);
+    });
+  });
+
+  describe('findRequiredValues', () => {
+    it('returns equality values from a top-level AND', () => {
+      const query = parseQuery('amenity=="atm","bank";aqi<100');
+      expect(findRequiredValues(query, 'amenity')).toEqual(['atm', 'bank']);
+    });
+
+    it('ignores values inside an OR', () => {
+      const query = parseQuery('amenity=="atm"|aqi<100');
+      expect(findRequiredValues(query, 'amenity')).toBeNull();
+    });
+  });
+
+  describe('compileQueryToSparql', () => {
+    const stored = ['name', 'amenity'];
+    const resolve = (term: { path: string[] }) =>
+      stored.includes(term.path[0]) ? `?${term.path[0]}` : null;
+
+    it('compiles comparisons, lists and patterns', () => {
+      expect(
+        compileQueryToSparql(
+          parseQuery('amenity=="atm","bank";name~="(?i)^vcb"'),
+          resolve,
+        ),
+      ).toBe(
+        '(STR(?amenity) IN ("atm", "bank") && REGEX(STR(?name), "^vcb", "i"))',
+      );
+    });
+
+    it('drops terms it cannot compile from AND groups', () => {
+      expect(
+        compileQueryToSparql(parseQuery('amenity=="atm";aqi>100'), resolve),
+      ).toBe('(STR(?amenity) = "atm")');
+    });
+
+    it('gives up on OR groups with uncompilable terms', () => {
+      expect(
+        compileQueryToSparql(parseQuery('amenity=="atm"|aqi>100'), resolve),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,667 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+
+/**
+ * NGSI-LD Query Language (ETSI GS CIM 009, clause 4.9)
+ *
+ * Supported syntax:
+ * - Comparisons: ==, !=, <, <=, >, >= (e.g. `aqi>150`, `name=="Vincom"`)
+ * - Ranges and lists: `aqi==50..100`, `amenity=="atm","bank"`
+ * - Patterns: `name~="(?i)vietcombank"`, `name!~="^ATM"`
+ * - Existence: `brand` (attribute is present)
+ * - Logic: `;` (AND), `|` (OR) and parentheses, `;` binds tighter than `|`
+ * - Paths: `address.streetAddress` (sub-attribute) and `address[city]` (compound value)
+ *
+ * @example
+ * const query = parseQuery('(amenity=="atm"|amenity=="bank");aqi<100');
+ * evaluateQuery(query, entity); // entity in normalized or keyValues form
+ */
+
+export type QueryOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '~='
+  | '!~=';
+
+export type QueryScalar = string | number | boolean;
+
+export type QueryOperand =
+  | { kind: 'value'; value: QueryScalar }
+  | { kind: 'range'; min: QueryScalar; max: QueryScalar }
+  | { kind: 'list'; values: QueryScalar[] };
+
+/**
+ * Single condition on an attribute
+ * No operator means an existence check
+ */
+export interface QueryTerm {
+  kind: 'term';
+  path: string[];
+  compound?: string[];
+  operator?: QueryOperator;
+  operand?: QueryOperand;
+  pattern?: string;
+}
+
+export interface QueryGroup {
+  kind: 'and' | 'or';
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryTerm | QueryGroup;
+
+// Longest operators first so that `<=` is not read as `<`
+const OPERATORS: QueryOperator[] = [
+  '!~=',
+  '~=',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+];
+
+const NAME_REGEX = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+const XSD_DOUBLE = '<http://www.w3.org/2001/XMLSchema#double>';
+
+/**
+ * Recursive descent parser for the q grammar
+ */
+class QueryParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.fail(`unexpected '${this.text[this.pos]}'`);
+    }
+    return node;
+  }
+
+  private fail(reason: string): never {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      `Invalid q expression at position ${this.pos}: ${reason}`,
+    );
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private peek(): string | undefined {
+    this.skipWhitespace();
+    return this.text[this.pos];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek() === '|') {
+      this.pos++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseFactor()];
+    while (this.peek() === ';') {
+      this.pos++;
+      children.push(this.parseFactor());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseFactor(): QueryNode {
+    if (this.peek() === '(') {
+      this.pos++;
+      const node = this.parseOr();
+      if (this.peek() !== ')') {
+        this.fail("missing ')'");
+      }
+      this.pos++;
+      return node;
+    }
+    return this.parseTerm();
+  }
+
+  private parseName(): string {
+    this.skipWhitespace();
+    NAME_REGEX.lastIndex = this.pos;
+    const match = NAME_REGEX.exec(this.text);
+    if (!match) {
+      this.fail('expected attribute name');
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private parsePath(): string[] {
+    const path = [this.parseName()];
+    while (this.text[this.pos] === '.') {
+      this.pos++;
+      path.push(this.parseName());
+    }
+    return path;
+  }
+
+  private parseTerm(): QueryTerm {
+    const term: QueryTerm = { kind: 'term', path: this.parsePath() };
+
+    if (this.text[this.pos] === '[') {
+      this.pos++;
+      term.compound = this.parsePath();
+      if (this.text[this.pos] !== ']') {
+        this.fail("missing ']'");
+      }
+      this.pos++;
+    }
+
+    this.skipWhitespace();
+    const operator = OPERATORS.find((op) => this.text.startsWith(op, this.pos));
+    if (!operator) {
+      return term; // existence check
+    }
+    this.pos += operator.length;
+    term.operator = operator;
+
+    if (operator === '~=' || operator === '!~=') {
+      term.pattern = this.parsePattern();
+    } else {
+      term.operand = this.parseOperand();
+    }
+    return term;
+  }
+
+  /**
+   * A pattern is a quoted string or raw text up to the next `;`, `|` or `)`
+   * outside of the pattern's own parentheses
+   */
+  private parsePattern(): string {
+    let pattern: string;
+    if (this.peek() === '"') {
+      pattern = this.parseQuoted();
+    } else {
+      const start = this.pos;
+      let depth = 0;
+      while (this.pos < this.text.length) {
+        const ch = this.text[this.pos];
+        if (ch === '\\') {
+          this.pos += 2;
+          continue;
+        }
+        if (ch === '(') depth++;
+        if (ch === ')') {
+          if (depth === 0) break;
+          depth--;
+        }
+        if (depth === 0 && (ch === ';' || ch === '|')) break;
+        this.pos++;
+      }
+      pattern = this.text.slice(start, this.pos).trim();
+    }
+
+    try {
+      toRegExp(pattern);
+    } catch (error) {
+      this.fail(`invalid pattern ${pattern} (${(error as Error).message})`);
+    }
+    return pattern;
+  }
+
+  private parseOperand(): QueryOperand {
+    const first = this.parseScalar();
+    this.skipWhitespace();
+
+    if (this.text.startsWith('..', this.pos)) {
+      this.pos += 2;
+      return { kind: 'range', min: first, max: this.parseScalar() };
+    }
+
+    if (this.text[this.pos] === ',') {
+      const values = [first];
+      while (this.peek() === ',') {
+        this.pos++;
+        values.push(this.parseScalar());
+      }
+      return { kind: 'list', values };
+    }
+
+    return { kind: 'value', value: first };
+  }
+
+  private parseQuoted(): string {
+    this.pos++; // opening quote
+    let value = '';
+    while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+      if (this.text[this.pos] === '\\' && this.pos + 1 < this.text.length) {
+        this.pos++;
+      }
+      value += this.text[this.pos++];
+    }
+    if (this.text[this.pos] !== '"') {
+      this.fail('unterminated string');
+    }
+    this.pos++;
+    return value;
+  }
+
+  private parseScalar(): QueryScalar {
+    if (this.peek() === '"') {
+      return this.parseQuoted();
+    }
+
+    const start = this.pos;
+    while (
+      this.pos < this.text.length &&
+      !';|),'.includes(this.text[this.pos]) &&
+      !this.text.startsWith('..', this.pos)
+    ) {
+      this.pos++;
+    }
+    const raw = this.text.slice(start, this.pos).trim();
+    if (!raw) {
+      this.fail('expected a value');
+    }
+
+    if (raw === 'true' || raw === 'false') {
+      return raw === 'true';
+    }
+    if (NUMBER_REGEX.test(raw)) {
+      return Number(raw);
+    }
+    return raw; // unquoted text or DateTime literal
+  }
+}
+
+/**
+ * Strip the `(?i)` prefix used by NGSI-LD clients for case-insensitive patterns
+ */
+function toJsPattern(pattern: string): string {
+  return pattern.replace(/^\(\?i\)/, '');
+}
+
+function toRegExp(pattern: string): RegExp {
+  return compilePattern(
+    toJsPattern(pattern),
+    pattern.startsWith('(?i)') ? 'i' : undefined,
+  );
+}
+
+const MAX_PATTERN_LENGTH = 256;
+
+/**
+ * Compile a client-supplied regular expression (q patterns, idPattern)
+ *
+ * Patterns that can backtrack exponentially are rejected: backreferences
+ * and repeated groups that contain a quantifier or an alternation, e.g.
+ * `(a+)+` or `(a|aa)*`.
+ * @throws Error if the pattern is invalid or unsafe
+ */
+export function compilePattern(pattern: string, flags?: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  const regex = new RegExp(pattern, flags);
+
+  // One flag per open group: it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    let repeatsInside = false;
+    if (ch === '(') {
+      groups.push(false);
+      continue;
+    } else if (ch === '|') {
+      markGroup();
+      continue;
+    } else if (ch === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        throw new Error('backreferences are not supported');
+      }
+      i++;
+    } else if (ch === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (ch === ')') {
+      repeatsInside = groups.pop() ?? false;
+      if (repeatsInside) markGroup();
+    }
+
+    // Quantifier of the atom that ends at i ({n} is a plain copy)
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})/.exec(
+      pattern.slice(i + 1),
+    )?.[0];
+    if (!quantifier || /^\{\d+\}$/.test(quantifier)) continue;
+    if (repeatsInside && quantifier !== '?') {
+      throw new Error('nested quantifiers are not supported');
+    }
+    markGroup();
+    i += quantifier.length;
+  }
+
+  return regex;
+}
+
+/**
+ * Parse a q expression
+ * @throws NgsiLdException (BadRequestData) on syntax errors
+ */
+export function parseQuery(q: string): QueryNode {
+  if (!q || !q.trim()) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      'Invalid q expression: empty query',
+    );
+  }
+  return new QueryParser(q).parse();
+}
+
+/**
+ * List every term of a query
+ */
+export function getQueryTerms(node: QueryNode): QueryTerm[] {
+  return node.kind === 'term' ? [node] : node.children.flatMap(getQueryTerms);
+}
+
+/**
+ * List the top-level attribute names referenced by a query
+ */
+export function getQueryAttributes(node: QueryNode): string[] {
+  return [...new Set(getQueryTerms(node).map((term) => term.path[0]))];
+}
+
+/**
+ * Values an attribute is required to equal for the whole query to match
+ * (the term is the query itself or one operand of a top-level AND)
+ *
+ * @example
+ * findRequiredValues(parseQuery('amenity=="atm","bank";aqi<100'), 'amenity') // ['atm', 'bank']
+ */
+export function findRequiredValues(
+  node: QueryNode,
+  attribute: string,
+): QueryScalar[] | null {
+  const candidates = node.kind === 'and' ? node.children : [node];
+  for (const child of candidates) {
+    if (
+      child.kind === 'term' &&
+      child.path.length === 1 &&
+      !child.compound &&
+      child.path[0] === attribute &&
+      child.operator === '=='
+    ) {
+      if (child.operand?.kind === 'value') return [child.operand.value];
+      if (child.operand?.kind === 'list') return child.operand.values;
+    }
+  }
+  return null;
+}
+
+const ATTRIBUTE_TYPES = [
+  'Property',
+  'GeoProperty',
+  'Relationship',
+  'LanguageProperty',
+];
+
+interface NormalizedAttribute {
+  type: string;
+  value?: unknown;
+  object?: unknown;
+  languageMap?: Record<string, unknown>;
+  [subAttribute: string]: unknown;
+}
+
+function isNormalizedAttribute(node: unknown): node is NormalizedAttribute {
+  return (
+    !!node &&
+    typeof node === 'object' &&
+    ATTRIBUTE_TYPES.includes((node as { type?: unknown }).type as string)
+  );
+}
+
+function unwrap(node: unknown): unknown {
+  if (!isNormalizedAttribute(node)) {
+    return node;
+  }
+  if (node.type === 'Relationship') return node.object;
+  if (node.type === 'LanguageProperty') {
+    return Object.values(node.languageMap ?? {});
+  }
+  return node.value;
+}
+
+/**
+ * Resolve a term's path against an entity (normalized or keyValues)
+ */
+function resolveValue(
+  entity: Record<string, unknown>,
+  term: QueryTerm,
+): unknown {
+  let current = entity[term.path[0]];
+
+  for (const segment of term.path.slice(1)) {
+    if (current === undefined || current === null) return undefined;
+    // Sub-attribute of a normalized attribute, else key of a keyValues compound value
+    current =
+      isNormalizedAttribute(current) && segment in current
+        ? current[segment]
+        : (unwrap(current) as Record<string, unknown> | null)?.[segment];
+  }
+
+  let value = unwrap(current);
+  for (const segment of term.compound || []) {
+    if (value === undefined || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function compare(actual: any, expected: QueryScalar): number | null {
+  if (typeof expected === 'number') {
+    const num = typeof actual === 'number' ? actual : Number(actual);
+    return Number.isNaN(num) ? null : num - expected;
+  }
+  if (typeof expected === 'boolean') {
+    return String(actual) === String(expected) ? 0 : null;
+  }
+  const text = typeof actual === 'string' ? actual : JSON.stringify(actual);
+  return text < expected ? -1 : text > expected ? 1 : 0;
+}
+
+function equalsOperand(actual: any, operand: QueryOperand): boolean {
+  switch (operand.kind) {
+    case 'value':
+      return compare(actual, operand.value) === 0;
+    case 'list':
+      return operand.values.some((v) => compare(actual, v) === 0);
+    case 'range': {
+      const low = compare(actual, operand.min);
+      const high = compare(actual, operand.max);
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+  }
+}
+
+function matchesScalar(term: QueryTerm, actual: any): boolean {
+  const { operator, operand, pattern } = term;
+
+  if (operator === '~=' || operator === '!~=') {
+    const text = typeof actual === 'string' ? actual : JSON.stringify(actual);
+    const found = toRegExp(pattern!).test(text);
+    return operator === '~=' ? found : !found;
+  }
+  if (operator === '==') return equalsOperand(actual, operand!);
+  if (operator === '!=') return !equalsOperand(actual, operand!);
+
+  if (operand!.kind !== 'value') {
+    return false; // ranges and lists only make sense with == and !=
+  }
+  const diff = compare(actual, operand!.value);
+  if (diff === null) return false;
+  switch (operator) {
+    case '<':
+      return diff < 0;
+    case '<=':
+      return diff <= 0;
+    case '>':
+      return diff > 0;
+    default:
+      return diff >= 0;
+  }
+}
+
+function matchesTerm(term: QueryTerm, entity: Record<string, any>): boolean {
+  const actual = resolveValue(entity, term);
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  if (!term.operator) {
+    return true;
+  }
+  // Multi-valued attributes match if any value matches
+  return Array.isArray(actual)
+    ? actual.some((item) => matchesScalar(term, item))
+    : matchesScalar(term, actual);
+}
+
+/**
+ * Evaluate a query against an entity in normalized or keyValues form
+ */
+export function evaluateQuery(
+  node: QueryNode,
+  entity: Record<string, any>,
+): boolean {
+  switch (node.kind) {
+    case 'term':
+      return matchesTerm(node, entity);
+    case 'and':
+      return node.children.every((child) => evaluateQuery(child, entity));
+    case 'or':
+      return node.children.some((child) => evaluateQuery(child, entity));
+  }
+}
+
+function escapeSparqlString(str: string): string {
+  return str
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+function sparqlLiteral(value: QueryScalar): string {
+  return typeof value === 'number'
+    ? String(value)
+    : `"${escapeSparqlString(String(value))}"`;
+}
+
+function compileTerm(term: QueryTerm, variable: string): string {
+  if (!term.operator) {
+    return `BOUND(${variable})`;
+  }
+
+  if (term.operator === '~=' || term.operator === '!~=') {
+    const flags = term.pattern!.startsWith('(?i)') ? ', "i"' : '';
+    const regex = `REGEX(STR(${variable}), "${escapeSparqlString(toJsPattern(term.pattern!))}"${flags})`;
+    return term.operator === '~=' ? regex : `!${regex}`;
+  }
+
+  const operand = term.operand!;
+  const scalars =
+    operand.kind === 'value'
+      ? [operand.value]
+      : operand.kind === 'list'
+        ? operand.values
+        : [operand.min, operand.max];
+  const numeric = scalars.every((v) => typeof v === 'number');
+  const lhs = numeric ? `${XSD_DOUBLE}(STR(${variable}))` : `STR(${variable})`;
+  const literal = (v: QueryScalar) =>
+    numeric ? sparqlLiteral(v) : sparqlLiteral(String(v));
+
+  let equality: string;
+  switch (operand.kind) {
+    case 'value':
+      equality = `${lhs} = ${literal(operand.value)}`;
+      break;
+    case 'list':
+      equality = `${lhs} IN (${operand.values.map(literal).join(', ')})`;
+      break;
+    case 'range':
+      equality = `(${lhs} >= ${literal(operand.min)} && ${lhs} <= ${literal(operand.max)})`;
+      break;
+  }
+
+  if (term.operator === '==') return equality;
+  if (term.operator === '!=') return `!(${equality})`;
+  return `${lhs} ${term.operator} ${literal(scalars[0])}`;
+}
+
+/**
+ * Compile a query into a SPARQL FILTER expression
+ *
+ * `resolveVariable` maps a term to the SPARQL variable bound to its attribute,
+ * or null if the attribute is not available in SPARQL (e.g. live sensor values).
+ * Terms that cannot be compiled are dropped from AND groups, so the result may
+ * match more than the query: always re-check rows with evaluateQuery.
+ *
+ * @returns FILTER expression (without FILTER keyword), or null if nothing compiles
+ */
+export function compileQueryToSparql(
+  node: QueryNode,
+  resolveVariable: (term: QueryTerm) => string | null,
+): string | null {
+  switch (node.kind) {
+    case 'term': {
+      const variable = resolveVariable(node);
+      return variable ? compileTerm(node, variable) : null;
+    }
+    case 'and': {
+      const parts = node.children
+        .map((child) => compileQueryToSparql(child, resolveVariable))
+        .filter((part): part is string => part !== null);
+      return parts.length > 0 ? `(${parts.join(' && ')})` : null;
+    }
+    case 'or': {
+      const parts = node.children.map((child) =>
+        compileQueryToSparql(child, resolveVariable),
+      );
+      return parts.every((part) => part !== null)
+        ? `(${parts.join(' || ')})`
+        : null;
+    }
+  }
+}
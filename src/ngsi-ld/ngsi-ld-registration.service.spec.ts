@@ -0,0 +1,172 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import type { FusekiService } from '../fuseki/fuseki.service';
+import {
+  NgsiLdRegistrationService,
+  mergeEntities,
+} from './ngsi-ld-registration.service';
+import { NgsiLdException } from './ngsi-ld.errors';
+import { NgsiLdEntity } from './dto';
+
+// The real FusekiService pulls in the chat tools; only executeSelect/update are used
+jest.mock('../fuseki/fuseki.service', () => ({ FusekiService: class {} }));
+
+describe('NgsiLdRegistrationService', () => {
+  const flow = {
+    id: 'urn:ngsi-ld:TrafficFlowObserved:1',
+    type: 'TrafficFlowObserved',
+    intensity: { type: 'Property', value: 120 },
+  } as unknown as NgsiLdEntity;
+
+  let server: Server;
+  let endpoint: string;
+  const requests: string[] = [];
+  let service: NgsiLdRegistrationService;
+
+  // Stub broker: one entity, 404 for any other id
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url || '');
+      const path = (req.url || '').split('?')[0];
+      if (path === '/ngsi-ld/v1/entities') {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('NGSILD-Results-Count', '1');
+        res.end(JSON.stringify([flow]));
+      } else if (
+        path === `/ngsi-ld/v1/entities/${encodeURIComponent(flow.id)}`
+      ) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(flow));
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests.length = 0;
+    const fuseki = {
+      executeSelect: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new NgsiLdRegistrationService(
+      { get: () => undefined } as unknown as ConfigService,
+      fuseki as unknown as FusekiService,
+    );
+    await service.createRegistration({
+      id: 'urn:ngsi-ld:ContextSourceRegistration:traffic',
+      type: 'ContextSourceRegistration',
+      endpoint,
+      information: [
+        {
+          entities: [{ type: 'TrafficFlowObserved' }],
+          propertyNames: ['intensity'],
+        },
+      ],
+      location: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [105.7, 20.9],
+            [106, 20.9],
+            [106, 21.1],
+            [105.7, 21.1],
+            [105.7, 20.9],
+          ],
+        ],
+      },
+    });
+  });
+
+  it('rejects invalid registrations', async () => {
+    await expect(
+      service.createRegistration({ endpoint: 'ftp://x', information: [{}] }),
+    ).rejects.toThrow(NgsiLdException);
+    await expect(
+      service.createRegistration({ endpoint, information: [] }),
+    ).rejects.toThrow(NgsiLdException);
+  });
+
+  it('matches registrations on type, attributes and geo scope', () => {
+    expect(service.findSources({ type: 'TrafficFlowObserved' })).toHaveLength(
+      1,
+    );
+    expect(service.findSources({ type: 'PointOfInterest' })).toHaveLength(0);
+    expect(
+      service.findSources({ type: 'TrafficFlowObserved', attrs: ['aqi'] }),
+    ).toHaveLength(0);
+    expect(
+      service.findSources({
+        type: 'TrafficFlowObserved',
+        bbox: [105.8, 21, 105.9, 21.05],
+      }),
+    ).toHaveLength(1);
+    expect(
+      service.findSources({
+        type: 'TrafficFlowObserved',
+        bbox: [106.6, 10.7, 106.8, 10.9],
+      }),
+    ).toHaveLength(0);
+  });
+
+  it('forwards queries to the context source', async () => {
+    const result = await service.queryEntities(
+      service.findSources({ type: 'TrafficFlowObserved' }),
+      { type: 'TrafficFlowObserved', q: 'intensity>100', limit: 20 },
+    );
+    expect(result).toEqual({ entities: [flow], totalCount: 1 });
+    expect(requests[0]).toBe(
+      '/ngsi-ld/v1/entities?type=TrafficFlowObserved&q=intensity%3E100&limit=20&count=true&local=true',
+    );
+  });
+
+  it('skips missing entities and unreachable sources', async () => {
+    const [source] = service.findSources({});
+    expect(await service.retrieveEntity([source], flow.id, {})).toEqual([flow]);
+    expect(
+      await service.retrieveEntity([source], 'urn:ngsi-ld:Other:1', {}),
+    ).toEqual([]);
+
+    const down = { ...source, endpoint: 'http://127.0.0.1:1' };
+    expect(await service.retrieveEntity([down], flow.id, {})).toEqual([]);
+    expect(down.status).toBe('failed');
+  });
+
+  it('merges entities with the same id, first attribute value wins', () => {
+    const local = {
+      id: flow.id,
+      type: flow.type,
+      name: 'local',
+    } as unknown as NgsiLdEntity;
+    expect(mergeEntities([local, { ...flow, name: 'remote' }])).toEqual([
+      { ...flow, name: 'local' },
+    ]);
+  });
+});
@@ -0,0 +1,469 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { FusekiService } from '../fuseki/fuseki.service';
+import { BBox, getBBox } from '../common/geo-utils';
+import {
+  NgsiLdCSourceRegistration,
+  NgsiLdEntity,
+  NgsiLdRegistrationInfo,
+} from './dto';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+import { compilePattern } from './ngsi-ld-query';
+
+const REGISTRATION_CLASS =
+  'https://uri.etsi.org/ngsi-ld/ContextSourceRegistration';
+const PAYLOAD_PREDICATE = 'http://opendatafithou.org/def/extension/payload';
+
+// Remote brokers that do not answer in time are skipped
+const FORWARD_TIMEOUT_MS = 5000;
+
+/**
+ * What a request needs from a context source
+ */
+export interface RegistrationFilter {
+  id?: string;
+  type?: string;
+  attrs?: string[];
+  bbox?: BBox;
+}
+
+/**
+ * Entities returned by the context sources of a query
+ */
+export interface RemoteQueryResult {
+  entities: NgsiLdEntity[];
+  totalCount: number;
+}
+
+/**
+ * Merge entities with the same id, keeping the first value of each attribute
+ * (local entities are passed first so they win over remote ones)
+ */
+export function mergeEntities(entities: NgsiLdEntity[]): NgsiLdEntity[] {
+  const merged = new Map<string, NgsiLdEntity>();
+  for (const entity of entities) {
+    const existing = merged.get(entity.id);
+    merged.set(entity.id, existing ? { ...entity, ...existing } : entity);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * NGSI-LD Context Source Registration Service
+ *
+ * Stores registrations of external NGSI-LD brokers (e.g. a city Orion-LD) in a
+ * Fuseki named graph like subscriptions, and forwards entity queries and
+ * retrievals to the registrations that match the requested type, attributes
+ * and geo scope. Unreachable sources are logged and skipped so that local
+ * data is always returned.
+ */
+@Injectable()
+export class NgsiLdRegistrationService implements OnModuleInit {
+  private readonly logger = new Logger(NgsiLdRegistrationService.name);
+  private readonly registrations = new Map<string, NgsiLdCSourceRegistration>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fusekiService: FusekiService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.loadRegistrations();
+      this.logger.log(
+        `Loaded ${this.registrations.size} context source registrations`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to load context source registrations: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private get registrationsGraph(): string {
+    return (
+      this.configService.get<string>('FUSEKI_GRAPH_REGISTRATIONS') ||
+      'http://localhost:3030/graph/registrations'
+    );
+  }
+
+  private escapeSparqlString(str: string): string {
+    return str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+
+  private async loadRegistrations(): Promise<void> {
+    const rows = (await this.fusekiService.executeSelect(`
+      SELECT ?s ?payload
+      WHERE {
+        GRAPH <${this.registrationsGraph}> {
+          ?s a <${REGISTRATION_CLASS}> ;
+             <${PAYLOAD_PREDICATE}> ?payload .
+        }
+      }
+    `)) as { s: string; payload: string }[];
+
+    for (const row of rows) {
+      try {
+        const registration = JSON.parse(
+          row.payload,
+        ) as NgsiLdCSourceRegistration;
+        this.registrations.set(registration.id, registration);
+      } catch {
+        this.logger.warn(`Skipping unreadable registration ${row.s}`);
+      }
+    }
+  }
+
+  private async persist(
+    registration: NgsiLdCSourceRegistration,
+  ): Promise<void> {
+    const payload = this.escapeSparqlString(JSON.stringify(registration));
+    await this.fusekiService.update(`
+      DELETE WHERE { GRAPH <${this.registrationsGraph}> { <${registration.id}> ?p ?o } } ;
+      INSERT DATA {
+        GRAPH <${this.registrationsGraph}> {
+          <${registration.id}> a <${REGISTRATION_CLASS}> ;
+            <${PAYLOAD_PREDICATE}> "${payload}" .
+        }
+      }
+    `);
+  }
+
+  /**
+   * @throws NgsiLdException (BadRequestData) if the registration is invalid
+   */
+  private validateRegistration(reg: NgsiLdCSourceRegistration): void {
+    const fail = (detail: string): never => {
+      throw new NgsiLdException(NgsiLdErrorType.BAD_REQUEST_DATA, detail);
+    };
+
+    if (!/^[a-z][a-z0-9+.-]*:[^\s<>"{}|\\^`]+$/i.test(reg.id)) {
+      fail(`Registration id must be a URI: ${reg.id}`);
+    }
+    if (reg.type !== 'ContextSourceRegistration') {
+      fail('Registration type must be "ContextSourceRegistration"');
+    }
+    if (!reg.endpoint || !/^https?:\/\//i.test(reg.endpoint)) {
+      fail('endpoint must be an http(s) URL');
+    }
+
+    if (!Array.isArray(reg.information) || reg.information.length === 0) {
+      fail('information must be a non-empty array');
+    }
+    for (const info of reg.information) {
+      if (!info || typeof info !== 'object') {
+        fail('Each information item must be an object');
+      }
+      for (const selector of info.entities || []) {
+        if (!selector || typeof selector.type !== 'string') {
+          fail('Each entities item must have a type');
+        }
+        if (selector.idPattern) {
+          try {
+            compilePattern(selector.idPattern);
+          } catch (error) {
+            fail(
+              `Invalid idPattern: ${selector.idPattern} (${(error as Error).message})`,
+            );
+          }
+        }
+      }
+      for (const names of [info.propertyNames, info.relationshipNames]) {
+        if (
+          names !== undefined &&
+          (!Array.isArray(names) || names.some((n) => typeof n !== 'string'))
+        ) {
+          fail('propertyNames and relationshipNames must be arrays of names');
+        }
+      }
+    }
+
+    if (reg.location !== undefined) {
+      try {
+        getBBox(reg.location);
+      } catch {
+        fail('location must be a GeoJSON geometry');
+      }
+    }
+    if (reg.expiresAt !== undefined && isNaN(Date.parse(reg.expiresAt))) {
+      fail(`Invalid expiresAt: ${reg.expiresAt}`);
+    }
+  }
+
+  /**
+   * Create a registration
+   * @returns the registration id
+   */
+  async createRegistration(payload: Record<string, any>): Promise<string> {
+    const body: Record<string, unknown> = { ...payload };
+    delete body['@context'];
+    delete body.status;
+    delete body.lastSuccess;
+    delete body.lastFailure;
+    const registration = {
+      ...body,
+      id:
+        (body.id as string) ||
+        `urn:ngsi-ld:ContextSourceRegistration:${randomUUID()}`,
+      type: (body.type as string) || 'ContextSourceRegistration',
+    } as NgsiLdCSourceRegistration;
+
+    this.validateRegistration(registration);
+    if (this.registrations.has(registration.id)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.ALREADY_EXISTS,
+        `Registration ${registration.id} already exists`,
+      );
+    }
+
+    await this.persist(registration);
+    this.registrations.set(registration.id, registration);
+    this.logger.log(
+      `Registered context source ${registration.endpoint} (${registration.id})`,
+    );
+    return registration.id;
+  }
+
+  /**
+   * List registrations (paginated)
+   */
+  listRegistrations(limit = 20, offset = 0): NgsiLdCSourceRegistration[] {
+    return Array.from(this.registrations.values()).slice(
+      offset,
+      offset + limit,
+    );
+  }
+
+  /**
+   * Get a registration by id
+   */
+  getRegistration(registrationId: string): NgsiLdCSourceRegistration {
+    const registration = this.registrations.get(registrationId);
+    if (!registration) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Registration not found: ${registrationId}`,
+      );
+    }
+    return registration;
+  }
+
+  /**
+   * Update a registration (PATCH semantics, id and type cannot change)
+   */
+  async updateRegistration(
+    registrationId: string,
+    patch: Record<string, any>,
+  ): Promise<void> {
+    const current = this.getRegistration(registrationId);
+    const changes: Record<string, any> = { ...patch };
+    for (const key of [
+      '@context',
+      'id',
+      'type',
+      'status',
+      'lastSuccess',
+      'lastFailure',
+    ]) {
+      delete changes[key];
+    }
+
+    const updated: NgsiLdCSourceRegistration = { ...current, ...changes };
+    this.validateRegistration(updated);
+    await this.persist(updated);
+    this.registrations.set(registrationId, updated);
+  }
+
+  /**
+   * Delete a registration
+   */
+  async deleteRegistration(registrationId: string): Promise<void> {
+    this.getRegistration(registrationId);
+    await this.fusekiService.update(
+      `DELETE WHERE { GRAPH <${this.registrationsGraph}> { <${registrationId}> ?p ?o } }`,
+    );
+    this.registrations.delete(registrationId);
+    this.logger.log(`Deleted registration ${registrationId}`);
+  }
+
+  /**
+   * Registrations (not expired) that may hold entities matching the filter
+   */
+  findSources(filter: RegistrationFilter): NgsiLdCSourceRegistration[] {
+    const now = Date.now();
+    return Array.from(this.registrations.values()).filter(
+      (reg) =>
+        !(reg.expiresAt && Date.parse(reg.expiresAt) <= now) &&
+        reg.information.some((info) => this.matchesInfo(info, filter)) &&
+        this.matchesLocation(reg, filter.bbox),
+    );
+  }
+
+  private matchesInfo(
+    info: NgsiLdRegistrationInfo,
+    filter: RegistrationFilter,
+  ): boolean {
+    const { id, type, attrs } = filter;
+
+    const entitiesMatch =
+      !info.entities ||
+      info.entities.length === 0 ||
+      info.entities.some(
+        (selector) =>
+          (!type || selector.type === type) &&
+          (!id ||
+            (selector.id
+              ? selector.id === id
+              : !selector.idPattern ||
+                compilePattern(selector.idPattern).test(id))),
+      );
+
+    const names = [
+      ...(info.propertyNames || []),
+      ...(info.relationshipNames || []),
+    ];
+    const attrsMatch =
+      !attrs ||
+      attrs.length === 0 ||
+      names.length === 0 ||
+      attrs.some((attr) => names.includes(attr));
+
+    return entitiesMatch && attrsMatch;
+  }
+
+  private matchesLocation(
+    reg: NgsiLdCSourceRegistration,
+    bbox: BBox | undefined,
+  ): boolean {
+    if (!bbox || !reg.location) return true;
+    const scope = getBBox(reg.location);
+    return (
+      scope[0] <= bbox[2] &&
+      bbox[0] <= scope[2] &&
+      scope[1] <= bbox[3] &&
+      bbox[1] <= scope[3]
+    );
+  }
+
+  /**
+   * Forward GET /entities to each source
+   * Sources that fail or time out are skipped
+   */
+  async queryEntities(
+    sources: NgsiLdCSourceRegistration[],
+    params: Record<string, string | number | undefined>,
+  ): Promise<RemoteQueryResult> {
+    const results = await Promise.all(
+      sources.map(async (reg) => {
+        const res = await this.forward(reg, '/ngsi-ld/v1/entities', {
+          ...params,
+          count: 'true',
+        });
+        if (!res) return null;
+        const count = Number(res.headers.get('NGSILD-Results-Count'));
+        return {
+          entities: Array.isArray(res.body) ? (res.body as NgsiLdEntity[]) : [],
+          totalCount: Number.isFinite(count) && count > 0 ? count : 0,
+        };
+      }),
+    );
+
+    return results.reduce<RemoteQueryResult>(
+      (acc, result) => {
+        if (result) {
+          acc.entities.push(...result.entities);
+          acc.totalCount += result.totalCount || result.entities.length;
+        }
+        return acc;
+      },
+      { entities: [], totalCount: 0 },
+    );
+  }
+
+  /**
+   * Forward GET /entities/{entityId} to each source
+   * @returns the entities found (404 and failed sources are skipped)
+   */
+  async retrieveEntity(
+    sources: NgsiLdCSourceRegistration[],
+    entityId: string,
+    params: Record<string, string | number | undefined>,
+  ): Promise<NgsiLdEntity[]> {
+    const results = await Promise.all(
+      sources.map(async (reg) => {
+        const res = await this.forward(
+          reg,
+          `/ngsi-ld/v1/entities/${encodeURIComponent(entityId)}`,
+          params,
+        );
+        return res?.body && typeof res.body === 'object'
+          ? (res.body as NgsiLdEntity)
+          : null;
+      }),
+    );
+    return results.filter((entity): entity is NgsiLdEntity => !!entity);
+  }
+
+  /**
+   * GET a path of a context source and parse the JSON body
+   * @returns null if the source answered 404, failed or timed out
+   */
+  private async forward(
+    reg: NgsiLdCSourceRegistration,
+    path: string,
+    params: Record<string, string | number | undefined>,
+  ): Promise<{ body: unknown; headers: Headers } | null> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    }
+    // Loop protection: the source must answer from its own data only
+    query.set('local', 'true');
+    const search = query.toString();
+    const url = `${reg.endpoint.replace(/\/+$/, '')}${path}${search ? `?${search}` : ''}`;
+
+    try {
+      const res = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+      });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      const body: unknown = res.status === 404 ? null : await res.json();
+      reg.status = 'ok';
+      reg.lastSuccess = new Date().toISOString();
+      return body === null ? null : { body, headers: res.headers };
+    } catch (error) {
+      reg.status = 'failed';
+      reg.lastFailure = new Date().toISOString();
+      this.logger.warn(
+        `Context source ${reg.id} (${url}) failed: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+}
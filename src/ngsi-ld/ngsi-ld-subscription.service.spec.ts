@@ -0,0 +1,232 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import type { FusekiService } from '../fuseki/fuseki.service';
+import type {
+  InfluxDBService,
+  StationData,
+} from '../influxdb/influxdb.service';
+import { NgsiLdSubscriptionService } from './ngsi-ld-subscription.service';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import { NgsiLdException } from './ngsi-ld.errors';
+
+// The real FusekiService pulls in the chat tools; only executeSelect/update are used
+jest.mock('../fuseki/fuseki.service', () => ({ FusekiService: class {} }));
+
+describe('NgsiLdSubscriptionService', () => {
+  let server: Server;
+  let endpoint: string;
+  const notifications: { data: Record<string, unknown>[] }[] = [];
+  let stations: StationData[];
+  let service: NgsiLdSubscriptionService;
+
+  // Stub notification endpoint
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        notifications.push(
+          JSON.parse(body) as { data: Record<string, unknown>[] },
+        );
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/notify`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const station = (
+    stationId: string,
+    waterLevel: number,
+    timestamp: string,
+  ): StationData =>
+    ({
+      stationId,
+      data: { water_level: waterLevel, rain_1h: 2 },
+      timestamp,
+    }) as unknown as StationData;
+
+  beforeEach(() => {
+    notifications.length = 0;
+    stations = [
+      station('flood-1', 50, '2025-01-01T00:00:00Z'),
+      station('flood-2', 10, '2025-01-01T00:00:00Z'),
+      station('traffic-1', 60, '2025-01-01T00:00:00Z'),
+    ];
+    const config = new ConfigService({});
+    const fuseki = {
+      executeSelect: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(undefined),
+    } as unknown as FusekiService;
+    const influx = {
+      getLatestAllStations: jest.fn(() => Promise.resolve(stations)),
+    } as unknown as InfluxDBService;
+    service = new NgsiLdSubscriptionService(
+      config,
+      fuseki,
+      influx,
+      new NgsiLdContextService(config, fuseki),
+    );
+  });
+
+  const subscribe = (payload: Record<string, any>) =>
+    service.createSubscription({
+      type: 'Subscription',
+      entities: [
+        {
+          type: 'Device',
+          idPattern: '^http://opendatafithou.org/sensor/station:flood',
+        },
+      ],
+      notification: { endpoint: { uri: endpoint } },
+      ...payload,
+    });
+
+  const notifiedIds = () =>
+    notifications.flatMap((n) => n.data.map((entity) => entity.id));
+
+  it('notifies the stations matching the selector and q', async () => {
+    await subscribe({
+      q: 'waterLevel>40',
+      notification: {
+        endpoint: { uri: endpoint },
+        attributes: ['water_level'],
+      },
+    });
+
+    await service.evaluateSubscriptions();
+
+    expect(notifiedIds()).toEqual([
+      'http://opendatafithou.org/sensor/station:flood-1',
+    ]);
+    const [entity] = notifications[0].data;
+    expect(Object.keys(entity)).toEqual(['id', 'type', 'waterLevel']);
+    expect(entity.waterLevel).toMatchObject({ type: 'Property', value: 50 });
+  });
+
+  it('notifies each observation once', async () => {
+    await subscribe({});
+
+    await service.evaluateSubscriptions();
+    await service.evaluateSubscriptions();
+    expect(notifications).toHaveLength(1);
+
+    stations[1] = station('flood-2', 10, '2025-01-01T00:10:00Z');
+    await service.evaluateSubscriptions();
+    expect(notifiedIds().slice(2)).toEqual([
+      'http://opendatafithou.org/sensor/station:flood-2',
+    ]);
+  });
+
+  it('only notifies changes of the watchedAttributes', async () => {
+    await subscribe({ watchedAttributes: ['waterLevel'] });
+    await service.evaluateSubscriptions();
+    notifications.length = 0;
+
+    stations[0] = station('flood-1', 50, '2025-01-01T00:10:00Z');
+    stations[1] = station('flood-2', 12, '2025-01-01T00:10:00Z');
+    await service.evaluateSubscriptions();
+
+    expect(notifiedIds()).toEqual([
+      'http://opendatafithou.org/sensor/station:flood-2',
+    ]);
+  });
+
+  it('waits for the throttling period between notifications', async () => {
+    const id = await subscribe({ throttling: 60 });
+    await service.evaluateSubscriptions();
+
+    stations[0] = station('flood-1', 55, '2025-01-01T00:10:00Z');
+    await service.evaluateSubscriptions();
+    expect(notifications).toHaveLength(1);
+
+    const sub = service.getSubscription(id);
+    expect(sub.notification.timesSent).toBe(1);
+    expect(sub.notification.status).toBe('ok');
+
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(Date.parse(sub.notification.lastNotification!) + 61000);
+    await service.evaluateSubscriptions();
+    jest.restoreAllMocks();
+    expect(notifiedIds().slice(2)).toEqual([
+      'http://opendatafithou.org/sensor/station:flood-1',
+    ]);
+  });
+
+  it('uses the terms of the subscription context', async () => {
+    const context = {
+      mucNuoc: 'http://opendatafithou.org/property/waterLevel',
+    };
+    await subscribe({
+      '@context': context,
+      watchedAttributes: ['mucNuoc'],
+      q: 'mucNuoc>40',
+      notification: {
+        endpoint: { uri: endpoint },
+        attributes: ['mucNuoc'],
+        format: 'keyValues',
+      },
+    });
+
+    await service.evaluateSubscriptions();
+
+    expect(notifications[0].data).toEqual([
+      {
+        id: 'http://opendatafithou.org/sensor/station:flood-1',
+        type: 'http://www.w3.org/ns/sosa/Sensor', // not defined by the context
+        mucNuoc: 50,
+      },
+    ]);
+  });
+
+  it('notifies the station selected by its Device ID', async () => {
+    await subscribe({
+      entities: [
+        {
+          type: 'Device',
+          id: 'http://opendatafithou.org/sensor/station:flood-2',
+        },
+      ],
+    });
+
+    await service.evaluateSubscriptions();
+
+    expect(notifiedIds()).toEqual([
+      'http://opendatafithou.org/sensor/station:flood-2',
+    ]);
+  });
+
+  it.each(['(a+)+$', '^(\\w|\\d)*x', '(a)\\1', 'x'.repeat(300)])(
+    'rejects the idPattern %p',
+    async (idPattern) => {
+      await expect(
+        subscribe({ entities: [{ type: 'Device', idPattern }] }),
+      ).rejects.toThrow(NgsiLdException);
+    },
+  );
+});
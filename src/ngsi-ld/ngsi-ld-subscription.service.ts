@@ -0,0 +1,640 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { FusekiService } from '../fuseki/fuseki.service';
+import {
+  InfluxDBService,
+  MeasurementType,
+  MEASUREMENTS,
+} from '../influxdb/influxdb.service';
+import {
+  NgsiLdEntity,
+  NgsiLdOptions,
+  NgsiLdSubscription,
+  NgsiLdNotificationParams,
+  UNIT_CODES,
+  SENSOR_ATTRIBUTES,
+  FIELD_TO_ATTRIBUTE,
+  stationEntityId,
+} from './dto';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import { formatContextLink } from './ngsi-ld-media';
+import {
+  QueryNode,
+  parseQuery,
+  getQueryAttributes,
+  evaluateQuery,
+  compilePattern,
+} from './ngsi-ld-query';
+
+const SUBSCRIPTION_CLASS = 'https://uri.etsi.org/ngsi-ld/Subscription';
+const PAYLOAD_PREDICATE = 'http://opendatafithou.org/def/extension/payload';
+
+/**
+ * Latest sensor values of one IoT station, keyed by NGSI-LD attribute name
+ */
+interface StationSnapshot {
+  stationId: string;
+  values: Record<string, number | null>;
+  timestamp: string;
+}
+
+/**
+ * Last observation of a station seen by a subscription
+ */
+interface ObservedState {
+  timestamp: string;
+  watched: (number | null)[]; // values of the watchedAttributes
+}
+
+/**
+ * NGSI-LD Subscription Service
+ *
+ * Stores subscriptions in a Fuseki named graph (one JSON payload per subscription)
+ * and periodically evaluates them against the latest InfluxDB values of every
+ * station. Matching Device entities are POSTed to the subscription endpoint.
+ *
+ * A station triggers a notification when it has a newer observation than the
+ * last one seen for that subscription and the q filter matches. With
+ * watchedAttributes, only a change of one of them triggers a notification.
+ *
+ * Attribute names (watchedAttributes, q, notification.attributes) use the
+ * terms of the @context the subscription was created with (jsonldContext),
+ * notifications are compacted to it.
+ */
+@Injectable()
+export class NgsiLdSubscriptionService implements OnModuleInit {
+  private readonly logger = new Logger(NgsiLdSubscriptionService.name);
+  private readonly subscriptions = new Map<string, NgsiLdSubscription>();
+  // subscriptionId -> stationId -> last observation seen
+  private readonly lastObserved = new Map<string, Map<string, ObservedState>>();
+  private evaluating = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fusekiService: FusekiService,
+    private readonly influxDBService: InfluxDBService,
+    private readonly contextService: NgsiLdContextService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.loadSubscriptions();
+      this.logger.log(
+        `Loaded ${this.subscriptions.size} NGSI-LD subscriptions`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to load subscriptions: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private get subscriptionsGraph(): string {
+    return (
+      this.configService.get<string>('FUSEKI_GRAPH_SUBSCRIPTIONS') ||
+      'http://localhost:3030/graph/subscriptions'
+    );
+  }
+
+  private escapeSparqlString(str: string): string {
+    return str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+
+  private async loadSubscriptions(): Promise<void> {
+    const rows = (await this.fusekiService.executeSelect(`
+      SELECT ?s ?payload
+      WHERE {
+        GRAPH <${this.subscriptionsGraph}> {
+          ?s a <${SUBSCRIPTION_CLASS}> ;
+             <${PAYLOAD_PREDICATE}> ?payload .
+        }
+      }
+    `)) as { s: string; payload: string }[];
+
+    for (const row of rows) {
+      try {
+        const subscription = JSON.parse(row.payload) as NgsiLdSubscription;
+        this.subscriptions.set(subscription.id, subscription);
+      } catch {
+        this.logger.warn(`Skipping unreadable subscription ${row.s}`);
+      }
+    }
+  }
+
+  private async persist(subscription: NgsiLdSubscription): Promise<void> {
+    const payload = this.escapeSparqlString(JSON.stringify(subscription));
+    await this.fusekiService.update(`
+      DELETE WHERE { GRAPH <${this.subscriptionsGraph}> { <${subscription.id}> ?p ?o } } ;
+      INSERT DATA {
+        GRAPH <${this.subscriptionsGraph}> {
+          <${subscription.id}> a <${SUBSCRIPTION_CLASS}> ;
+            <${PAYLOAD_PREDICATE}> "${payload}" .
+        }
+      }
+    `);
+  }
+
+  /**
+   * Validate a subscription payload and return the parsed q filter
+   * @throws NgsiLdException (BadRequestData) if the subscription is invalid
+   */
+  private validateSubscription(sub: NgsiLdSubscription): QueryNode | null {
+    const fail = (detail: string): never => {
+      throw new NgsiLdException(NgsiLdErrorType.BAD_REQUEST_DATA, detail);
+    };
+
+    if (!/^[a-z][a-z0-9+.-]*:[^\s<>"{}|\\^`]+$/i.test(sub.id)) {
+      fail(`Subscription id must be a URI: ${sub.id}`);
+    }
+    if (sub.type !== 'Subscription') {
+      fail('Subscription type must be "Subscription"');
+    }
+
+    const hasEntities = Array.isArray(sub.entities) && sub.entities.length > 0;
+    const hasWatched =
+      Array.isArray(sub.watchedAttributes) && sub.watchedAttributes.length > 0;
+    if (!hasEntities && !hasWatched) {
+      fail('Either entities or watchedAttributes must be provided');
+    }
+    for (const selector of sub.entities || []) {
+      if (!selector || typeof selector.type !== 'string') {
+        fail('Each entities item must have a type');
+      }
+      if (selector.idPattern) {
+        try {
+          compilePattern(selector.idPattern);
+        } catch (error) {
+          fail(
+            `Invalid idPattern: ${selector.idPattern} (${(error as Error).message})`,
+          );
+        }
+      }
+    }
+    if (
+      sub.watchedAttributes !== undefined &&
+      (!Array.isArray(sub.watchedAttributes) ||
+        sub.watchedAttributes.some((a) => typeof a !== 'string'))
+    ) {
+      fail('watchedAttributes must be an array of attribute names');
+    }
+
+    if (
+      sub.throttling !== undefined &&
+      (typeof sub.throttling !== 'number' || sub.throttling < 0)
+    ) {
+      fail('throttling must be a non-negative number of seconds');
+    }
+    if (sub.expiresAt !== undefined && isNaN(Date.parse(sub.expiresAt))) {
+      fail(`Invalid expiresAt: ${sub.expiresAt}`);
+    }
+
+    const uri = sub.notification?.endpoint?.uri;
+    if (!uri || !/^https?:\/\//i.test(uri)) {
+      fail('notification.endpoint.uri must be an http(s) URL');
+    }
+    if (
+      sub.notification.format !== undefined &&
+      !Object.values(NgsiLdOptions).includes(sub.notification.format)
+    ) {
+      fail(`Unsupported notification format: ${sub.notification.format}`);
+    }
+
+    // Throws LdContextNotAvailable for unknown contexts
+    this.toSmartCityTerms(sub, sub.watchedAttributes || []);
+
+    return sub.q ? parseQuery(sub.q) : null;
+  }
+
+  private computeStatus(
+    sub: NgsiLdSubscription,
+  ): 'active' | 'paused' | 'expired' {
+    if (sub.expiresAt && Date.parse(sub.expiresAt) <= Date.now()) {
+      return 'expired';
+    }
+    return sub.isActive ? 'active' : 'paused';
+  }
+
+  /**
+   * Create a subscription
+   * @returns the subscription id
+   */
+  async createSubscription(payload: Record<string, any>): Promise<string> {
+    const body: Record<string, unknown> = { ...payload };
+    delete body['@context'];
+    const notification = body.notification as
+      | Partial<NgsiLdNotificationParams>
+      | undefined;
+    const subscription = {
+      ...body,
+      jsonldContext: body.jsonldContext ?? payload['@context'],
+      id: (body.id as string) || `urn:ngsi-ld:Subscription:${randomUUID()}`,
+      type: (body.type as string) || 'Subscription',
+      isActive: body.isActive !== false,
+      notification: {
+        ...notification,
+        format: notification?.format || NgsiLdOptions.NORMALIZED,
+        timesSent: 0,
+      },
+    } as NgsiLdSubscription;
+
+    this.validateSubscription(subscription);
+    if (this.subscriptions.has(subscription.id)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.ALREADY_EXISTS,
+        `Subscription ${subscription.id} already exists`,
+      );
+    }
+
+    subscription.status = this.computeStatus(subscription);
+    await this.persist(subscription);
+    this.subscriptions.set(subscription.id, subscription);
+    this.logger.log(`Created subscription ${subscription.id}`);
+    return subscription.id;
+  }
+
+  /**
+   * List subscriptions (paginated)
+   */
+  listSubscriptions(limit = 20, offset = 0): NgsiLdSubscription[] {
+    return Array.from(this.subscriptions.values())
+      .slice(offset, offset + limit)
+      .map((sub) => ({ ...sub, status: this.computeStatus(sub) }));
+  }
+
+  /**
+   * Get a subscription by id
+   */
+  getSubscription(subscriptionId: string): NgsiLdSubscription {
+    const sub = this.subscriptions.get(subscriptionId);
+    if (!sub) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Subscription not found: ${subscriptionId}`,
+      );
+    }
+    return { ...sub, status: this.computeStatus(sub) };
+  }
+
+  /**
+   * Update a subscription (PATCH semantics, id and type cannot change)
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    patch: Record<string, any>,
+  ): Promise<void> {
+    const current = this.getSubscription(subscriptionId);
+    const changes: Record<string, unknown> = { ...patch };
+    delete changes['@context'];
+    delete changes.id;
+    delete changes.type;
+    if (
+      patch['@context'] !== undefined &&
+      changes.jsonldContext === undefined
+    ) {
+      changes.jsonldContext = patch['@context'];
+    }
+
+    const notification = changes.notification as
+      | Partial<NgsiLdNotificationParams>
+      | undefined;
+    const updated: NgsiLdSubscription = {
+      ...current,
+      ...changes,
+      notification: notification
+        ? {
+            ...current.notification,
+            ...notification,
+            // delivery status is server-managed
+            status: current.notification.status,
+            timesSent: current.notification.timesSent,
+            lastNotification: current.notification.lastNotification,
+            lastSuccess: current.notification.lastSuccess,
+            lastFailure: current.notification.lastFailure,
+          }
+        : current.notification,
+    };
+
+    this.validateSubscription(updated);
+    updated.status = this.computeStatus(updated);
+    await this.persist(updated);
+    this.subscriptions.set(subscriptionId, updated);
+    // Filter may have changed: re-evaluate every station on the next run
+    this.lastObserved.delete(subscriptionId);
+  }
+
+  /**
+   * Delete a subscription
+   */
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    this.getSubscription(subscriptionId);
+    await this.fusekiService.update(
+      `DELETE WHERE { GRAPH <${this.subscriptionsGraph}> { <${subscriptionId}> ?p ?o } }`,
+    );
+    this.subscriptions.delete(subscriptionId);
+    this.lastObserved.delete(subscriptionId);
+    this.logger.log(`Deleted subscription ${subscriptionId}`);
+  }
+
+  /**
+   * Expand attribute names of the subscription context to the smartcity terms
+   * (NGSI-LD names, raw InfluxDB field names are mapped to them)
+   */
+  private toSmartCityTerms(sub: NgsiLdSubscription, names: string[]): string[] {
+    return this.contextService
+      .expandTerms(names, sub.jsonldContext)
+      .map((name) => FIELD_TO_ATTRIBUTE[name] || name);
+  }
+
+  /**
+   * Map the attributes used in a subscription to the measurements that have to be read
+   */
+  private getMeasurementsFor(attrs: string[]): MeasurementType[] {
+    const measurements = new Set<MeasurementType>();
+    for (const attr of attrs) {
+      if (Object.hasOwn(SENSOR_ATTRIBUTES, attr)) {
+        measurements.add(SENSOR_ATTRIBUTES[attr].measurement);
+      }
+    }
+    return measurements.size > 0
+      ? Array.from(measurements)
+      : (Object.keys(MEASUREMENTS) as MeasurementType[]);
+  }
+
+  private async fetchMeasurement(
+    measurement: MeasurementType,
+    snapshots: Map<string, StationSnapshot>,
+  ): Promise<void> {
+    const stations = await this.influxDBService.getLatestAllStations({
+      measurement,
+    });
+
+    for (const station of stations) {
+      let snapshot = snapshots.get(station.stationId);
+      if (!snapshot) {
+        snapshot = { stationId: station.stationId, values: {}, timestamp: '' };
+        snapshots.set(station.stationId, snapshot);
+      }
+      for (const [field, value] of Object.entries(station.data)) {
+        snapshot.values[FIELD_TO_ATTRIBUTE[field] || field] = value;
+      }
+      if (station.timestamp > snapshot.timestamp) {
+        snapshot.timestamp = station.timestamp;
+      }
+    }
+  }
+
+  private matchesSelector(sub: NgsiLdSubscription, stationId: string): boolean {
+    if (!sub.entities || sub.entities.length === 0) {
+      return true;
+    }
+    const entityId = stationEntityId(stationId);
+    return sub.entities.some(
+      (selector) =>
+        selector.type === 'Device' &&
+        (!selector.id || selector.id === entityId) &&
+        (!selector.idPattern ||
+          compilePattern(selector.idPattern).test(entityId)),
+    );
+  }
+
+  /**
+   * q may reference NGSI-LD names (waterLevel) or InfluxDB fields (water_level),
+   * in the terms of the subscription context
+   */
+  private toQueryValues(
+    sub: NgsiLdSubscription,
+    snapshot: StationSnapshot,
+  ): Record<string, number | null> {
+    const values: Record<string, number | null> = { ...snapshot.values };
+    for (const [attr, { field }] of Object.entries(SENSOR_ATTRIBUTES)) {
+      if (attr in snapshot.values) {
+        values[field] = snapshot.values[attr];
+      }
+    }
+    if (sub.jsonldContext === undefined) return values;
+    return {
+      ...values,
+      ...this.contextService.compact([snapshot.values], sub.jsonldContext)[0],
+    };
+  }
+
+  private buildNotificationEntity(
+    sub: NgsiLdSubscription,
+    snapshot: StationSnapshot,
+  ): NgsiLdEntity {
+    const keyValues = sub.notification.format === NgsiLdOptions.KEY_VALUES;
+    const wanted =
+      sub.notification.attributes &&
+      this.toSmartCityTerms(sub, sub.notification.attributes);
+
+    const entity: NgsiLdEntity = {
+      '@context': this.contextService.defaultContext,
+      id: stationEntityId(snapshot.stationId),
+      type: 'Device',
+    };
+
+    for (const [attr, value] of Object.entries(snapshot.values)) {
+      if (value === null || (wanted && !wanted.includes(attr))) continue;
+      const field = Object.hasOwn(SENSOR_ATTRIBUTES, attr)
+        ? SENSOR_ATTRIBUTES[attr].field
+        : attr;
+      entity[attr] = keyValues
+        ? value
+        : {
+            type: 'Property',
+            value,
+            unitCode: UNIT_CODES[field as keyof typeof UNIT_CODES],
+            observedAt: snapshot.timestamp,
+          };
+    }
+
+    if (sub.jsonldContext === undefined) return entity;
+    const [compacted] = this.contextService.compact(
+      [entity],
+      sub.jsonldContext,
+    );
+    compacted['@context'] = sub.jsonldContext as NgsiLdEntity['@context'];
+    return compacted;
+  }
+
+  private async sendNotification(
+    sub: NgsiLdSubscription,
+    entities: NgsiLdEntity[],
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const accept = sub.notification.endpoint.accept || 'application/json';
+    const ldJson = accept === 'application/ld+json';
+
+    const body = {
+      id: `urn:ngsi-ld:Notification:${randomUUID()}`,
+      type: 'Notification',
+      subscriptionId: sub.id,
+      notifiedAt: now,
+      data: entities.map((entity) => {
+        const data: Record<string, any> = { ...entity };
+        if (!ldJson) delete data['@context'];
+        return data;
+      }),
+    };
+
+    sub.notification.lastNotification = now;
+    sub.notification.timesSent = (sub.notification.timesSent || 0) + 1;
+
+    try {
+      const res = await fetch(sub.notification.endpoint.uri, {
+        method: 'POST',
+        headers: {
+          'Content-Type': ldJson ? 'application/ld+json' : 'application/json',
+          ...(ldJson
+            ? {}
+            : {
+                Link: formatContextLink(
+                  typeof sub.jsonldContext === 'string'
+                    ? sub.jsonldContext
+                    : this.contextService.defaultContextUrl,
+                ),
+              }),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(10000),
+      });
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      sub.notification.status = 'ok';
+      sub.notification.lastSuccess = now;
+    } catch (error) {
+      sub.notification.status = 'failed';
+      sub.notification.lastFailure = now;
+      this.logger.warn(
+        `Notification for ${sub.id} to ${sub.notification.endpoint.uri} failed: ${(error as Error).message}`,
+      );
+    }
+
+    await this.persist(sub).catch((error: Error) =>
+      this.logger.error(`Failed to save status of ${sub.id}: ${error.message}`),
+    );
+  }
+
+  /**
+   * Evaluate every active subscription against the latest sensor values
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async evaluateSubscriptions(): Promise<void> {
+    if (this.evaluating || this.subscriptions.size === 0) return;
+    this.evaluating = true;
+
+    try {
+      const now = Date.now();
+      const active = Array.from(this.subscriptions.values()).filter((sub) => {
+        sub.status = this.computeStatus(sub);
+        if (sub.status !== 'active') return false;
+        const last = sub.notification.lastNotification;
+        return (
+          !sub.throttling ||
+          !last ||
+          now - Date.parse(last) >= sub.throttling * 1000
+        );
+      });
+      if (active.length === 0) return;
+
+      // Read each needed measurement once for all subscriptions
+      const parsed = new Map<string, QueryNode | null>();
+      const needed = new Set<MeasurementType>();
+      for (const sub of active) {
+        const query = sub.q ? parseQuery(sub.q) : null;
+        parsed.set(sub.id, query);
+        const attrs = this.toSmartCityTerms(sub, [
+          ...(sub.watchedAttributes || []),
+          ...(sub.notification.attributes || []),
+          ...(query ? getQueryAttributes(query) : []),
+        ]);
+        this.getMeasurementsFor(attrs).forEach((m) => needed.add(m));
+      }
+
+      const snapshots = new Map<string, StationSnapshot>();
+      for (const measurement of needed) {
+        try {
+          await this.fetchMeasurement(measurement, snapshots);
+        } catch (error) {
+          this.logger.debug(
+            `No ${measurement} data for subscriptions: ${(error as Error).message}`,
+          );
+        }
+      }
+
+      for (const sub of active) {
+        const query = parsed.get(sub.id) ?? null;
+        const watched = this.toSmartCityTerms(sub, sub.watchedAttributes || []);
+        const seen =
+          this.lastObserved.get(sub.id) || new Map<string, ObservedState>();
+        this.lastObserved.set(sub.id, seen);
+
+        const matched: NgsiLdEntity[] = [];
+        for (const snapshot of snapshots.values()) {
+          if (!this.matchesSelector(sub, snapshot.stationId)) continue;
+          if (!snapshot.timestamp) continue;
+
+          const previous = seen.get(snapshot.stationId);
+          if (previous && snapshot.timestamp <= previous.timestamp) continue;
+          const values = watched.map((attr) => snapshot.values[attr] ?? null);
+          seen.set(snapshot.stationId, {
+            timestamp: snapshot.timestamp,
+            watched: values,
+          });
+
+          if (
+            watched.length > 0 &&
+            (values.every((value) => value === null) ||
+              (previous &&
+                values.every((value, i) => value === previous.watched[i])))
+          ) {
+            continue;
+          }
+          if (
+            query &&
+            !evaluateQuery(query, this.toQueryValues(sub, snapshot))
+          ) {
+            continue;
+          }
+          matched.push(this.buildNotificationEntity(sub, snapshot));
+        }
+
+        if (matched.length > 0) {
+          await this.sendNotification(sub, matched);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Subscription evaluation failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.evaluating = false;
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import 'reflect-metadata';
+import {
+  isoDurationToFlux,
+  parseAggrMethods,
+  resolveTimeRange,
+  temporalAttributesToPoints,
+} from './ngsi-ld-temporal';
+import { AggregationMethod } from './dto';
+import { NgsiLdException } from './ngsi-ld.errors';
+
+describe('NGSI-LD temporal queries', () => {
+  describe('isoDurationToFlux', () => {
+    it.each([
+      ['PT1H', '1h'],
+      ['PT15M', '15m'],
+      ['P1D', '1d'],
+      ['P1M', '1mo'],
+      ['P1W', '1w'],
+      ['P1DT12H30M', '1d12h30m'],
+    ])('%s -> %s', (iso, flux) => {
+      expect(isoDurationToFlux(iso)).toBe(flux);
+    });
+
+    it.each(['', 'P', 'PT0S', '1h', 'PT1.5H'])('rejects %p', (iso) => {
+      expect(() => isoDurationToFlux(iso)).toThrow(NgsiLdException);
+    });
+  });
+
+  describe('parseAggrMethods', () => {
+    it('parses a comma-separated list', () => {
+      expect(parseAggrMethods('avg, max,avg')).toEqual([
+        AggregationMethod.AVG,
+        AggregationMethod.MAX,
+      ]);
+    });
+
+    it('rejects unknown methods', () => {
+      expect(() => parseAggrMethods('avg,median')).toThrow(NgsiLdException);
+    });
+  });
+
+  describe('resolveTimeRange', () => {
+    const timeAt = '2025-01-01T00:00:00Z';
+    const endTimeAt = '2025-01-02T00:00:00Z';
+
+    it('maps timerel to Flux ranges', () => {
+      expect(resolveTimeRange({ timerel: 'before', timeAt })).toEqual({
+        start: '1970-01-01T00:00:00.000Z',
+        stop: '2025-01-01T00:00:00.000Z',
+      });
+      expect(resolveTimeRange({ timerel: 'after', timeAt })).toEqual({
+        start: '2025-01-01T00:00:00.000Z',
+        stop: 'now()',
+      });
+      expect(
+        resolveTimeRange({ timerel: 'between', timeAt, endTimeAt }),
+      ).toEqual({
+        start: '2025-01-01T00:00:00.000Z',
+        stop: '2025-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('defaults to between when endTimeAt is set', () => {
+      expect(resolveTimeRange({ timeAt, endTimeAt }).stop).toBe(
+        '2025-01-02T00:00:00.000Z',
+      );
+    });
+
+    it.each([
+      { timerel: 'before' },
+      { timerel: 'between', timeAt },
+      { timerel: 'between', timeAt: endTimeAt, endTimeAt: timeAt },
+      { timerel: 'after', timeAt: 'yesterday' },
+      { timerel: 'during', timeAt },
+    ])('rejects %p', (params) => {
+      expect(() => resolveTimeRange(params)).toThrow(NgsiLdException);
+    });
+  });
+
+  describe('temporalAttributesToPoints', () => {
+    const stationId = 'http://opendatafithou.org/sensor/station:Lang';
+    const observedAt = '2025-11-01T08:00:00Z';
+
+    it('maps attributes and field names to measurements', () => {
+      expect(
+        temporalAttributesToPoints(stationId, {
+          id: stationId,
+          type: 'Device',
+          aqi: [{ type: 'Property', value: 87, observedAt }],
+          water_level: {
+            type: 'Property',
+            value: 0.42,
+            unitCode: 'MTR',
+            observedAt,
+          },
+        }),
+      ).toEqual([
+        {
+          stationId,
+          measurement: 'air_quality',
+          field: 'aqi',
+          value: 87,
+          time: '2025-11-01T08:00:00.000Z',
+        },
+        {
+          stationId,
+          measurement: 'flood',
+          field: 'water_level',
+          value: 0.42,
+          time: '2025-11-01T08:00:00.000Z',
+        },
+      ]);
+    });
+
+    it.each<Record<string, any>>([
+      { name: { type: 'Property', value: 'Lang', observedAt } },
+      {
+        temperature: {
+          type: 'Property',
+          value: 24,
+          unitCode: 'FAH',
+          observedAt,
+        },
+      },
+      { aqi: { type: 'Property', value: 87, unitCode: 'P1', observedAt } },
+      { aqi: { type: 'Property', value: '87', observedAt } },
+      { aqi: { type: 'Property', value: 87 } },
+      { id: stationId, type: 'Device' },
+      { constructor: { type: 'Property', value: 1, observedAt } },
+      { toString: { type: 'Property', value: 1, observedAt } },
+    ])('rejects %p', (payload) => {
+      expect(() => temporalAttributesToPoints(stationId, payload)).toThrow(
+        NgsiLdException,
+      );
+    });
+  });
+});
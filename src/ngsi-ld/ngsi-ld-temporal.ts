@@ -0,0 +1,283 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type {
+  AggregateFunction,
+  SensorWritePoint,
+} from '../influxdb/influxdb.service';
+import {
+  AggregationMethod,
+  FIELD_TO_ATTRIBUTE,
+  SENSOR_ATTRIBUTES,
+  UNIT_CODES,
+} from './dto';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+
+/**
+ * Temporal API (ETSI GS CIM 009, clause 4.11) translated to Flux queries and InfluxDB points
+ */
+
+/**
+ * Flux aggregate used for each NGSI-LD aggrMethod
+ */
+export const AGGREGATION_FUNCTIONS: Record<
+  AggregationMethod,
+  AggregateFunction
+> = {
+  [AggregationMethod.TOTAL_COUNT]: 'count',
+  [AggregationMethod.DISTINCT_COUNT]: 'distinctCount',
+  [AggregationMethod.SUM]: 'sum',
+  [AggregationMethod.AVG]: 'mean',
+  [AggregationMethod.MIN]: 'min',
+  [AggregationMethod.MAX]: 'max',
+  [AggregationMethod.STDDEV]: 'stddev',
+  [AggregationMethod.SUMSQ]: 'sumsq',
+};
+
+/**
+ * Start of the time range when the query has no lower bound
+ */
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+const DURATION_UNITS = ['y', 'mo', 'w', 'd', 'h', 'm', 's'];
+
+/**
+ * Parse a comma-separated aggrMethods list
+ *
+ * @example
+ * parseAggrMethods('avg,max') // [AggregationMethod.AVG, AggregationMethod.MAX]
+ */
+export function parseAggrMethods(value?: string): AggregationMethod[] {
+  if (!value) return [];
+
+  const known = Object.values(AggregationMethod) as string[];
+  const methods = [
+    ...new Set(
+      value
+        .split(',')
+        .map((m) => m.trim())
+        .filter(Boolean),
+    ),
+  ];
+  const invalid = methods.filter((m) => !known.includes(m));
+  if (invalid.length > 0) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      `Invalid aggrMethods: ${invalid.join(', ')}. Available: ${known.join(', ')}`,
+    );
+  }
+  return methods as AggregationMethod[];
+}
+
+/**
+ * Convert an ISO 8601 duration to a Flux duration literal
+ *
+ * @example
+ * isoDurationToFlux('PT1H') // '1h'
+ * isoDurationToFlux('P1M') // '1mo'
+ * isoDurationToFlux('P1DT12H') // '1d12h'
+ */
+export function isoDurationToFlux(duration: string): string {
+  const match =
+    /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(
+      duration.trim(),
+    );
+  const parts = match
+    ? match
+        .slice(1)
+        .map((amount, i) =>
+          amount && Number(amount) > 0
+            ? `${Number(amount)}${DURATION_UNITS[i]}`
+            : '',
+        )
+        .join('')
+    : '';
+
+  if (!parts) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      `Invalid aggrPeriodDuration: ${duration} (expected an ISO 8601 duration such as PT1H or P1D)`,
+    );
+  }
+  return parts;
+}
+
+/**
+ * Translate timerel/timeAt/endTimeAt into a Flux range (start inclusive, stop exclusive)
+ *
+ * - before: [epoch, timeAt)
+ * - after: [timeAt, now)
+ * - between: [timeAt, endTimeAt)
+ * - no timerel: between if endTimeAt is set, after if only timeAt is set, whole history otherwise
+ */
+export function resolveTimeRange(params: {
+  timerel?: string;
+  timeAt?: string;
+  endTimeAt?: string;
+}): { start: string; stop: string } {
+  const timerel =
+    params.timerel ||
+    (params.endTimeAt ? 'between' : params.timeAt ? 'after' : undefined);
+  if (!timerel) return { start: EPOCH, stop: 'now()' };
+
+  if (!params.timeAt) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      `timeAt is required with timerel=${timerel}`,
+    );
+  }
+  const timeAt = toIsoTimestamp(params.timeAt, 'timeAt');
+
+  switch (timerel) {
+    case 'before':
+      return { start: EPOCH, stop: timeAt };
+    case 'after':
+      return { start: timeAt, stop: 'now()' };
+    case 'between': {
+      if (!params.endTimeAt) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          'endTimeAt is required with timerel=between',
+        );
+      }
+      const endTimeAt = toIsoTimestamp(params.endTimeAt, 'endTimeAt');
+      if (endTimeAt <= timeAt) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          'endTimeAt must be later than timeAt',
+        );
+      }
+      return { start: timeAt, stop: endTimeAt };
+    }
+    default:
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `Invalid timerel: ${timerel} (expected before, after or between)`,
+      );
+  }
+}
+
+/**
+ * Convert the attribute instances of a temporal entity fragment to InfluxDB points
+ *
+ * Every attribute other than id/type is a sensor attribute of SENSOR_ATTRIBUTES
+ * (InfluxDB field names are accepted too) holding one instance or an array of
+ * instances: { type: 'Property', value: number, observedAt, unitCode? }.
+ * unitCode is optional but must match UNIT_CODES for the field when given.
+ *
+ * @example
+ * temporalAttributesToPoints('http://opendatafithou.org/sensor/station:Lang', {
+ *   aqi: [{ type: 'Property', value: 87, observedAt: '2025-11-01T08:00:00Z' }],
+ * }) // [{ stationId, measurement: 'air_quality', field: 'aqi', value: 87, time: '2025-11-01T08:00:00.000Z' }]
+ */
+export function temporalAttributesToPoints(
+  stationId: string,
+  payload: Record<string, any>,
+): SensorWritePoint[] {
+  const points: SensorWritePoint[] = [];
+
+  for (const [attrName, attrValue] of Object.entries(payload)) {
+    if (attrName === '@context' || attrName === 'id' || attrName === 'type') {
+      continue;
+    }
+
+    const sensorAttr = Object.hasOwn(SENSOR_ATTRIBUTES, attrName)
+      ? attrName
+      : Object.hasOwn(FIELD_TO_ATTRIBUTE, attrName)
+        ? FIELD_TO_ATTRIBUTE[attrName]
+        : undefined;
+    const sensor =
+      sensorAttr && Object.hasOwn(SENSOR_ATTRIBUTES, sensorAttr)
+        ? SENSOR_ATTRIBUTES[sensorAttr]
+        : undefined;
+    if (!sensor) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `${attrName} is not a sensor attribute. Available: ${Object.keys(SENSOR_ATTRIBUTES).join(', ')}`,
+      );
+    }
+    const unitCode = UNIT_CODES[sensor.field as keyof typeof UNIT_CODES];
+
+    const instances: unknown[] = Array.isArray(attrValue)
+      ? attrValue
+      : [attrValue];
+    for (const instance of instances) {
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        (instance as { type?: unknown }).type !== 'Property'
+      ) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          `Instances of ${attrName} must be Property objects`,
+        );
+      }
+      const {
+        value,
+        observedAt,
+        unitCode: instanceUnit,
+      } = instance as Record<string, any>;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          `${attrName} value must be a number`,
+        );
+      }
+      if (typeof observedAt !== 'string') {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          `observedAt is required on every instance of ${attrName}`,
+        );
+      }
+      if (instanceUnit !== undefined && instanceUnit !== unitCode) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          unitCode
+            ? `Invalid unitCode for ${attrName}: ${instanceUnit} (expected ${unitCode})`
+            : `${attrName} has no unit, unitCode must be omitted`,
+        );
+      }
+
+      points.push({
+        stationId,
+        measurement: sensor.measurement,
+        field: sensor.field,
+        value,
+        time: toIsoTimestamp(observedAt, 'observedAt'),
+      });
+    }
+  }
+
+  if (points.length === 0) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      'The payload has no attribute instances to write',
+    );
+  }
+  return points;
+}
+
+function toIsoTimestamp(value: string, name: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new NgsiLdException(
+      NgsiLdErrorType.BAD_REQUEST_DATA,
+      `${name} must be an ISO 8601 timestamp: ${value}`,
+    );
+  }
+  return date.toISOString();
+}
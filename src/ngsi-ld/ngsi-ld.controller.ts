@@ -18,23 +18,56 @@
 import {
   Controller,
   Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Headers,
   Param,
   Query,
+  Res,
   HttpCode,
   HttpStatus,
   Header,
   ValidationPipe,
   UsePipes,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { NgsiLdService } from './ngsi-ld.service';
+import { NgsiLdSubscriptionService } from './ngsi-ld-subscription.service';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import { NgsiLdRegistrationService } from './ngsi-ld-registration.service';
 import {
   GetEntityDto,
   QueryEntitiesDto,
   TemporalQueryDto,
   BatchTemporalQueryDto,
+  WriteEntityDto,
+  QuerySubscriptionsDto,
+  QueryCSourceRegistrationsDto,
+  BatchOperationDto,
   NgsiLdEntity,
   NgsiLdEntityCollection,
+  NgsiLdUpdateResult,
+  NgsiLdBatchOperationResult,
+  NgsiLdOptions,
+  NgsiLdFeature,
+  NgsiLdFeatureCollection,
+  JsonLdContextInfo,
 } from './dto';
+import type { NgsiLdSubscription, NgsiLdCSourceRegistration } from './dto';
+import {
+  MEDIA_TYPE_JSON,
+  MEDIA_TYPE_JSON_LD,
+  MEDIA_TYPE_GEO_JSON,
+  NgsiLdMediaType,
+  negotiateMediaType,
+  parseContextLink,
+  formatContextLink,
+  applyRequestContext,
+  entityToFeature,
+  entitiesToFeatureCollection,
+} from './ngsi-ld-media';
 
 /**
  * NGSI-LD API Controller
@@ -43,20 +76,54 @@ import {
  * Available endpoints:
  * - GET /ngsi-ld/v1/entities/{entityId} - Retrieve single entity
  * - GET /ngsi-ld/v1/entities - Query multiple entities with filters
+ * - POST /ngsi-ld/v1/entities - Create entity
+ * - PATCH /ngsi-ld/v1/entities/{entityId}/attrs - Update entity attributes
+ * - POST /ngsi-ld/v1/entities/{entityId}/attrs - Append entity attributes
+ * - DELETE /ngsi-ld/v1/entities/{entityId} - Delete entity
+ * - DELETE /ngsi-ld/v1/entities/{entityId}/attrs/{attrName} - Delete attribute
  * - GET /ngsi-ld/v1/temporal/entities/{entityId} - Historical time-series data
  * - GET /ngsi-ld/v1/temporal/entities - Batch temporal query
+ * - POST /ngsi-ld/v1/temporal/entities - Ingest sensor observations
+ * - POST /ngsi-ld/v1/temporal/entities/{entityId}/attrs - Add attribute instances
  * - GET /ngsi-ld/v1/types - List available entity types
  * - GET /ngsi-ld/v1/types/{type} - Get type details
  * - GET /ngsi-ld/v1/attributes - List available attributes
  * - GET /ngsi-ld/v1/attributes/{attrName} - Get attribute details
+ * - POST /ngsi-ld/v1/entityOperations/{create|upsert|update|delete} - Batch writes
+ * - POST /ngsi-ld/v1/entityOperations/query - Query with a Query object body
+ * - POST /ngsi-ld/v1/subscriptions - Create subscription
+ * - GET /ngsi-ld/v1/subscriptions - List subscriptions
+ * - GET /ngsi-ld/v1/subscriptions/{subscriptionId} - Get subscription
+ * - PATCH /ngsi-ld/v1/subscriptions/{subscriptionId} - Update subscription
+ * - DELETE /ngsi-ld/v1/subscriptions/{subscriptionId} - Delete subscription
+ * - POST /ngsi-ld/v1/csourceRegistrations - Register a context source
+ * - GET /ngsi-ld/v1/csourceRegistrations - List context source registrations
+ * - GET /ngsi-ld/v1/csourceRegistrations/{registrationId} - Get registration
+ * - PATCH /ngsi-ld/v1/csourceRegistrations/{registrationId} - Update registration
+ * - DELETE /ngsi-ld/v1/csourceRegistrations/{registrationId} - Delete registration
  * - GET /ngsi-ld/v1/jsonldContexts - List JSON-LD contexts
+ * - POST /ngsi-ld/v1/jsonldContexts - Register a user context
  * - GET /ngsi-ld/v1/jsonldContexts/{contextId} - Get specific context
+ * - DELETE /ngsi-ld/v1/jsonldContexts/{contextId} - Delete a user context
+ *
+ * Content negotiation (Accept header):
+ * - application/ld+json (default): @context inline, a Link header @context replaces the default one
+ * - application/json: @context moved to a Link header
+ * - application/geo+json (entity routes): GeoJSON Feature/FeatureCollection built from geometryProperty
+ *
+ * Write routes accept application/ld+json with an inline @context,
+ * or application/json with an optional Link header @context
  *
  * @see https://www.etsi.org/deliver/etsi_gs/CIM/001_099/009/01.06.01_60/gs_CIM009v010601p.pdf
  */
 @Controller('ngsi-ld/v1')
 export class NgsiLdController {
-  constructor(private readonly ngsiLdService: NgsiLdService) {}
+  constructor(
+    private readonly ngsiLdService: NgsiLdService,
+    private readonly subscriptionService: NgsiLdSubscriptionService,
+    private readonly contextService: NgsiLdContextService,
+    private readonly registrationService: NgsiLdRegistrationService,
+  ) {}
 
   /**
    * GET /ngsi-ld/v1/entities/{entityId}
@@ -67,6 +134,7 @@ export class NgsiLdController {
    * @param entityId - Original Fuseki URI (e.g., https://www.openstreetmap.org/node/1000087341)
    * @param params.options - Response format: 'normalized' (default) or 'keyValues'
    * @param params.attrs - Comma-separated list of attributes to include
+   * @param params.geometryProperty - Feature geometry for Accept: application/geo+json
    *
    * @example
    * GET /ngsi-ld/v1/entities/https://www.openstreetmap.org/node/1000087341
@@ -79,8 +147,21 @@ export class NgsiLdController {
   async getEntity(
     @Param('entityId') entityId: string,
     @Query() params: GetEntityDto,
-  ): Promise<NgsiLdEntity | any> {
-    return this.ngsiLdService.getEntity(entityId, params);
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdEntity | NgsiLdFeature | any> {
+    const mediaType = this.negotiate(headers, true);
+    const entity = (await this.ngsiLdService.getEntity(
+      entityId,
+      params,
+    )) as Record<string, any>;
+    return this.render(
+      entity,
+      mediaType,
+      headers,
+      res,
+      params.geometryProperty,
+    );
   }
 
   /**
@@ -96,10 +177,12 @@ export class NgsiLdController {
    * @param params.offset - Pagination offset
    * @param params.attrs - Comma-separated attributes to include
    * @param params.options - Response format
+   * @param params.geometryProperty - Feature geometry for Accept: application/geo+json
    *
    * @example
    * GET /ngsi-ld/v1/entities?type=PointOfInterest&q=amenity=="atm"
    * GET /ngsi-ld/v1/entities?type=PointOfInterest&georel=near;maxDistance==1000&geometry=Point&coordinates=[105.8542,21.0285]
+   * GET /ngsi-ld/v1/entities?type=PointOfInterest&q=amenity=="atm" (Accept: application/geo+json, e.g. for a Leaflet layer)
    */
   @Get('entities')
   @HttpCode(HttpStatus.OK)
@@ -107,26 +190,384 @@ export class NgsiLdController {
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async queryEntities(
     @Query() params: QueryEntitiesDto,
-  ): Promise<NgsiLdEntityCollection> {
-    return this.ngsiLdService.queryEntities(params);
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdEntityCollection | NgsiLdFeatureCollection> {
+    const mediaType = this.negotiate(headers, true);
+    const collection = await this.ngsiLdService.queryEntities(params);
+    return this.render(
+      collection,
+      mediaType,
+      headers,
+      res,
+      params.geometryProperty,
+    );
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entities
+   * Create a new entity in Fuseki (normalized or keyValues payload)
+   *
+   * Responds 201 with a Location header, 409 AlreadyExists if the ID is taken
+   *
+   * @example
+   * POST /ngsi-ld/v1/entities
+   * { "id": "urn:ngsi-ld:PointOfInterest:Hanoi:atm:1", "type": "FinancialService",
+   *   "name": { "type": "Property", "value": "ATM Vietcombank" },
+   *   "amenity": { "type": "Property", "value": "atm" },
+   *   "location": { "type": "GeoProperty", "value": { "type": "Point", "coordinates": [105.85, 21.03] } } }
+   */
+  @Post('entities')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createEntity(
+    @Body() payload: Record<string, any>,
+    @Query() params: WriteEntityDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    const id = await this.ngsiLdService.createEntity(
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    res.setHeader('Location', `entities/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * PATCH /ngsi-ld/v1/entities/{entityId}/attrs
+   * Update attributes that already exist on the entity
+   *
+   * Responds 204 if every attribute was updated, otherwise 207 with an UpdateResult
+   */
+  @Patch('entities/:entityId/attrs')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateEntityAttrs(
+    @Param('entityId') entityId: string,
+    @Body() payload: Record<string, any>,
+    @Query() params: WriteEntityDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdUpdateResult | void> {
+    const result = await this.ngsiLdService.updateEntityAttrs(
+      entityId,
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    return this.sendUpdateResult(result, res);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entities/{entityId}/attrs
+   * Append attributes to the entity (options=noOverwrite keeps existing ones)
+   *
+   * Responds 204 if every attribute was written, otherwise 207 with an UpdateResult
+   */
+  @Post('entities/:entityId/attrs')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async appendEntityAttrs(
+    @Param('entityId') entityId: string,
+    @Body() payload: Record<string, any>,
+    @Query() params: WriteEntityDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdUpdateResult | void> {
+    const result = await this.ngsiLdService.appendEntityAttrs(
+      entityId,
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    return this.sendUpdateResult(result, res);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/entities/{entityId}
+   * Delete an entity and the relationships pointing to it
+   */
+  @Delete('entities/:entityId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteEntity(@Param('entityId') entityId: string): Promise<void> {
+    await this.ngsiLdService.deleteEntity(entityId);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/entities/{entityId}/attrs/{attrName}
+   * Delete a single attribute of an entity
+   */
+  @Delete('entities/:entityId/attrs/:attrName')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteEntityAttr(
+    @Param('entityId') entityId: string,
+    @Param('attrName') attrName: string,
+  ): Promise<void> {
+    await this.ngsiLdService.deleteEntityAttr(entityId, attrName);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/create
+   * Create up to 5000 entities with a few SPARQL updates
+   *
+   * Responds 201 with the created IDs, or 207 with a BatchOperationResult if some failed
+   */
+  @Post('entityOperations/create')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async batchCreate(
+    @Body() payload: Record<string, any>[],
+    @Query() params: BatchOperationDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdBatchOperationResult | string[]> {
+    const result = await this.ngsiLdService.batchCreate(
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    if (result.errors.length > 0) {
+      res.status(HttpStatus.MULTI_STATUS);
+      return result;
+    }
+    res.status(HttpStatus.CREATED);
+    return result.success;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/upsert
+   * Create or replace entities (options=update only overwrites the given attributes)
+   *
+   * Responds 201 with the IDs of new entities, 204 if all already existed,
+   * or 207 with a BatchOperationResult if some failed
+   */
+  @Post('entityOperations/upsert')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async batchUpsert(
+    @Body() payload: Record<string, any>[],
+    @Query() params: BatchOperationDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdBatchOperationResult | string[] | void> {
+    const { result, created } = await this.ngsiLdService.batchUpsert(
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    if (result.errors.length > 0) {
+      res.status(HttpStatus.MULTI_STATUS);
+      return result;
+    }
+    if (created.length > 0) {
+      res.status(HttpStatus.CREATED);
+      return created;
+    }
+    res.status(HttpStatus.NO_CONTENT);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/update
+   * Update attributes of existing entities (options=noOverwrite keeps existing ones)
+   *
+   * Responds 204, or 207 with a BatchOperationResult if some failed
+   */
+  @Post('entityOperations/update')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async batchUpdate(
+    @Body() payload: Record<string, any>[],
+    @Query() params: BatchOperationDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdBatchOperationResult | void> {
+    const result = await this.ngsiLdService.batchUpdate(
+      this.expandPayloads(payload, headers),
+      params.options,
+    );
+    return this.sendBatchResult(result, res);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/delete
+   * Delete entities given as an array of IDs
+   *
+   * Responds 204, or 207 with a BatchOperationResult if some failed
+   */
+  @Post('entityOperations/delete')
+  async batchDelete(
+    @Body() entityIds: any[],
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdBatchOperationResult | void> {
+    const result = await this.ngsiLdService.batchDelete(entityIds);
+    return this.sendBatchResult(result, res);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/query
+   * Same as GET /entities, with the filters in a Query object body
+   * (useful for large geoQ polygons that do not fit in a URL)
+   * geometryProperty of the body selects the Feature geometry for Accept: application/geo+json
+   */
+  @Post('entityOperations/query')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/ld+json')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async batchQuery(
+    @Body() body: Record<string, any>,
+    @Query() params: BatchOperationDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NgsiLdEntityCollection | NgsiLdFeatureCollection> {
+    applyRequestContext([body], headers['content-type'], headers.link);
+    const mediaType = this.negotiate(headers, true);
+    const collection = await this.ngsiLdService.batchQuery(body, {
+      limit: params.limit,
+      offset: params.offset,
+      options:
+        params.options === NgsiLdOptions.KEY_VALUES
+          ? NgsiLdOptions.KEY_VALUES
+          : NgsiLdOptions.NORMALIZED,
+    });
+    const geometryProperty: unknown = body.geometryProperty;
+    return this.render(
+      collection,
+      mediaType,
+      headers,
+      res,
+      typeof geometryProperty === 'string' ? geometryProperty : 'location',
+    );
+  }
+
+  /**
+   * 204 when every entity succeeded, 207 Multi-Status otherwise
+   */
+  private sendBatchResult(
+    result: NgsiLdBatchOperationResult,
+    res: Response,
+  ): NgsiLdBatchOperationResult | void {
+    if (result.errors.length === 0) {
+      res.status(HttpStatus.NO_CONTENT);
+      return;
+    }
+    res.status(HttpStatus.MULTI_STATUS);
+    return result;
+  }
+
+  /**
+   * Check Content-Type/Link of write payloads and expand them to the smartcity terms
+   */
+  private expandPayloads<T>(
+    payload: T,
+    headers: Record<string, string | undefined>,
+  ): T {
+    const payloads: unknown[] = Array.isArray(payload) ? payload : [payload];
+    applyRequestContext(payloads, headers['content-type'], headers.link);
+    const expanded = payloads.map((p) =>
+      p && typeof p === 'object' && !Array.isArray(p)
+        ? this.contextService.expand(p as Record<string, any>)
+        : p,
+    );
+    return (Array.isArray(payload) ? expanded : expanded[0]) as T;
+  }
+
+  /**
+   * Pick the response media type before doing any work (406 if unsupported)
+   */
+  private negotiate(
+    headers: Record<string, string | undefined>,
+    allowGeoJson: boolean,
+  ): NgsiLdMediaType {
+    return negotiateMediaType(
+      headers.accept,
+      allowGeoJson
+        ? [MEDIA_TYPE_JSON_LD, MEDIA_TYPE_JSON, MEDIA_TYPE_GEO_JSON]
+        : [MEDIA_TYPE_JSON_LD, MEDIA_TYPE_JSON],
+    );
+  }
+
+  /**
+   * Shape an entity, entity list or EntityCollection for the negotiated media type
+   *
+   * A Link header @context compacts the attributes to its terms. ld+json keeps
+   * @context inline, json and geo+json send it as a Link header instead
+   */
+  private render<T>(
+    body: Record<string, any>,
+    mediaType: NgsiLdMediaType,
+    headers: Record<string, string | undefined>,
+    res: Response,
+    geometryProperty?: string,
+  ): T {
+    const contextUrl = parseContextLink(headers.link);
+    let entities: Record<string, any>[] = Array.isArray(body)
+      ? (body as Record<string, any>[])
+      : body.type === 'EntityCollection'
+        ? (body.entities as Record<string, any>[])
+        : [body];
+    res.setHeader('Content-Type', mediaType);
+
+    if (contextUrl) {
+      entities = this.contextService.compact(entities, contextUrl);
+      body = Array.isArray(body)
+        ? entities
+        : body.type === 'EntityCollection'
+          ? { ...body, entities }
+          : entities[0];
+    }
+
+    if (mediaType === MEDIA_TYPE_JSON_LD) {
+      if (contextUrl) {
+        for (const doc of Array.isArray(body) ? entities : [body]) {
+          doc['@context'] = contextUrl;
+        }
+      }
+      return body as T;
+    }
+
+    res.setHeader(
+      'Link',
+      formatContextLink(contextUrl || this.contextService.defaultContextUrl),
+    );
+    for (const doc of [body, ...entities]) {
+      delete doc['@context'];
+    }
+
+    if (mediaType === MEDIA_TYPE_GEO_JSON) {
+      return (
+        Array.isArray(body) || body.type === 'EntityCollection'
+          ? entitiesToFeatureCollection(entities, geometryProperty)
+          : entityToFeature(body, geometryProperty)
+      ) as T;
+    }
+    return body as T;
+  }
+
+  /**
+   * 204 when every attribute was written, 207 Multi-Status otherwise
+   */
+  private sendUpdateResult(
+    result: NgsiLdUpdateResult,
+    res: Response,
+  ): NgsiLdUpdateResult | void {
+    if (result.notUpdated.length === 0) {
+      res.status(HttpStatus.NO_CONTENT);
+      return;
+    }
+    res.status(HttpStatus.MULTI_STATUS);
+    return result;
   }
 
   /**
    * GET /ngsi-ld/v1/temporal/entities/{entityId}
    * Retrieve historical time-series data (Temporal Evolution)
    *
-   * Currently only supports Device entities (IoT stations).
+   * Supports Device entities (IoT stations) and POIs sampled by a station.
    *
-   * @param entityId - Original Fuseki URI for the device
-   * @param params.timeAt - Start time (ISO 8601)
-   * @param params.endTimeAt - End time (ISO 8601)
+   * @param entityId - Original Fuseki URI for the device or POI
+   * @param params.timerel - before, after or between
+   * @param params.timeAt - Reference time (ISO 8601)
+   * @param params.endTimeAt - End time for timerel=between (ISO 8601)
    * @param params.attrs - Comma-separated attributes to include
-   * @param params.lastN - Return only last N values
-   * @param params.aggrMethod - Aggregation method (avg, min, max, sum)
+   * @param params.lastN - Return only the last N instances of each attribute
+   * @param params.aggrMethods - totalCount, distinctCount, sum, avg, min, max, stddev, sumsq
    * @param params.aggrPeriodDuration - Aggregation period (ISO 8601 duration)
+   * @param params.options - temporalValues or aggregatedValues
    *
    * @example
-   * GET /ngsi-ld/v1/temporal/entities/http://opendatafithou.org/sensor/station:Lang?timeAt=2025-11-01T00:00:00Z&endTimeAt=2025-12-01T00:00:00Z&attrs=temperature,aqi
+   * GET /ngsi-ld/v1/temporal/entities/http://opendatafithou.org/sensor/station:Lang?timerel=between&timeAt=2025-11-01T00:00:00Z&endTimeAt=2025-12-01T00:00:00Z&attrs=temperature,aqi
+   * GET /ngsi-ld/v1/temporal/entities/http://opendatafithou.org/sensor/station:Lang?timerel=after&timeAt=2025-11-01T00:00:00Z&attrs=aqi&aggrMethods=avg,max&aggrPeriodDuration=PT1H
    */
   @Get('temporal/entities/:entityId')
   @HttpCode(HttpStatus.OK)
@@ -135,8 +576,12 @@ export class NgsiLdController {
   async getTemporalEntity(
     @Param('entityId') entityId: string,
     @Query() params: TemporalQueryDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<NgsiLdEntity> {
-    return this.ngsiLdService.getTemporalEntity(entityId, params);
+    const mediaType = this.negotiate(headers, false);
+    const entity = await this.ngsiLdService.getTemporalEntity(entityId, params);
+    return this.render(entity, mediaType, headers, res);
   }
 
   /**
@@ -222,15 +667,18 @@ export class NgsiLdController {
    * @param params.id - Comma-separated entity IDs
    * @param params.idPattern - Pattern to match entity IDs
    * @param params.q - Query filter
-   * @param params.timeAt - Start time (ISO 8601)
-   * @param params.endTimeAt - End time (ISO 8601)
+   * @param params.timerel - before, after or between
+   * @param params.timeAt - Reference time (ISO 8601)
+   * @param params.endTimeAt - End time for timerel=between (ISO 8601)
    * @param params.attrs - Comma-separated attributes to include
-   * @param params.lastN - Return only last N values
-   * @param params.aggrMethod - Aggregation method
+   * @param params.lastN - Return only the last N instances of each attribute
+   * @param params.aggrMethods - Aggregation methods
    * @param params.aggrPeriodDuration - Aggregation period
+   * @param params.options - temporalValues or aggregatedValues
    *
    * @example
-   * GET /ngsi-ld/v1/temporal/entities?type=Device&timeAt=2025-01-01T00:00:00Z&endTimeAt=2025-01-02T00:00:00Z
+   * GET /ngsi-ld/v1/temporal/entities?type=Device&timerel=between&timeAt=2025-01-01T00:00:00Z&endTimeAt=2025-01-02T00:00:00Z
+   * GET /ngsi-ld/v1/temporal/entities?type=Device&attrs=aqi&lastN=24&options=temporalValues
    * GET /ngsi-ld/v1/temporal/entities?id=urn:ngsi-ld:Device:station1,urn:ngsi-ld:Device:station2&timeAt=...
    */
   @Get('temporal/entities')
@@ -239,60 +687,303 @@ export class NgsiLdController {
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async queryTemporalEntities(
     @Query() params: BatchTemporalQueryDto,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<NgsiLdEntity[]> {
+    const mediaType = this.negotiate(headers, false);
     const ids = params.id
       ? params.id.split(',').map((id) => id.trim())
       : undefined;
-    const attrs = params.attrs
-      ? params.attrs.split(',').map((a) => a.trim())
-      : undefined;
 
-    return this.ngsiLdService.queryTemporalEntities({
-      type: params.type,
-      ids,
-      idPattern: params.idPattern,
-      q: params.q,
-      attrs,
-      timeAt: params.timeAt,
-      endTimeAt: params.endTimeAt,
-      lastN: params.lastN,
-      aggrMethod: params.aggrMethod,
-      aggrPeriodDuration: params.aggrPeriodDuration,
-    });
+    const entities = await this.ngsiLdService.queryTemporalEntities(
+      {
+        type: params.type,
+        ids,
+        idPattern: params.idPattern,
+        q: params.q,
+      },
+      params,
+    );
+    return this.render(entities, mediaType, headers, res);
   }
 
   /**
-   * GET /ngsi-ld/v1/jsonldContexts
-   * List available JSON-LD contexts
+   * POST /ngsi-ld/v1/temporal/entities
+   * Ingest sensor observations of a Device (or of the device sampling a POI)
+   *
+   * Each sensor attribute holds Property instances with observedAt; they are
+   * written to the InfluxDB measurement/field of the attribute. Responds 201
+   * with a Location header for entities unknown to Fuseki, 204 otherwise
+   *
+   * @example
+   * POST /ngsi-ld/v1/temporal/entities
+   * { "id": "http://opendatafithou.org/sensor/station:Lang", "type": "Device",
+   *   "aqi": [{ "type": "Property", "value": 87, "observedAt": "2025-11-01T08:00:00Z" }],
+   *   "temperature": [{ "type": "Property", "value": 24.5, "unitCode": "CEL", "observedAt": "2025-11-01T08:00:00Z" }] }
+   */
+  @Post('temporal/entities')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createTemporalEntity(
+    @Body() payload: Record<string, any>,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    const entity = this.expandPayloads(payload, headers);
+    const created = await this.ngsiLdService.createTemporalEntity(entity);
+    if (created) {
+      res.status(HttpStatus.CREATED);
+      res.setHeader(
+        'Location',
+        `temporal/entities/${encodeURIComponent(entity.id as string)}`,
+      );
+    } else {
+      res.status(HttpStatus.NO_CONTENT);
+    }
+  }
+
+  /**
+   * POST /ngsi-ld/v1/temporal/entities/{entityId}/attrs
+   * Add attribute instances to the temporal representation of an entity
+   *
+   * @example
+   * POST /ngsi-ld/v1/temporal/entities/http://opendatafithou.org/sensor/station:Lang/attrs
+   * { "waterLevel": [{ "type": "Property", "value": 0.42, "unitCode": "MTR", "observedAt": "2025-11-01T08:00:00Z" }] }
+   */
+  @Post('temporal/entities/:entityId/attrs')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async appendTemporalAttrs(
+    @Param('entityId') entityId: string,
+    @Body() payload: Record<string, any>,
+    @Headers() headers: Record<string, string | undefined>,
+  ): Promise<void> {
+    await this.ngsiLdService.appendTemporalAttrs(
+      entityId,
+      this.expandPayloads(payload, headers),
+    );
+  }
+
+  /**
+   * POST /ngsi-ld/v1/subscriptions
+   * Subscribe to sensor values of Device entities
+   *
+   * Notifications are POSTed to notification.endpoint.uri whenever a station
+   * reports a new observation that matches q (and changes one of the
+   * watchedAttributes, if any). Attribute names use the request @context
+   *
+   * @example
+   * POST /ngsi-ld/v1/subscriptions
+   * { "type": "Subscription", "entities": [{ "type": "Device" }],
+   *   "watchedAttributes": ["waterLevel"], "q": "waterLevel>40", "throttling": 300,
+   *   "notification": { "endpoint": { "uri": "http://dashboard.local/alerts" } } }
+   */
+  @Post('subscriptions')
+  @HttpCode(HttpStatus.CREATED)
+  async createSubscription(
+    @Body() payload: Record<string, any>,
+    @Headers() headers: Record<string, string | undefined>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    applyRequestContext([payload], headers['content-type'], headers.link);
+    const id = await this.subscriptionService.createSubscription(payload);
+    res.setHeader('Location', `subscriptions/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * GET /ngsi-ld/v1/subscriptions
+   * List subscriptions with their notification status
+   */
+  @Get('subscriptions')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/ld+json')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  listSubscriptions(
+    @Query() params: QuerySubscriptionsDto,
+  ): NgsiLdSubscription[] {
+    return this.subscriptionService.listSubscriptions(
+      params.limit,
+      params.offset,
+    );
+  }
+
+  /**
+   * GET /ngsi-ld/v1/subscriptions/{subscriptionId}
+   * Includes status, timesSent, lastNotification, lastSuccess and lastFailure
+   */
+  @Get('subscriptions/:subscriptionId')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/ld+json')
+  getSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+  ): NgsiLdSubscription {
+    return this.subscriptionService.getSubscription(subscriptionId);
+  }
+
+  /**
+   * PATCH /ngsi-ld/v1/subscriptions/{subscriptionId}
+   * Update subscription fields (e.g. isActive=false to pause it)
+   */
+  @Patch('subscriptions/:subscriptionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async updateSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+    @Body() payload: Record<string, any>,
+    @Headers() headers: Record<string, string | undefined>,
+  ): Promise<void> {
+    applyRequestContext([payload], headers['content-type'], headers.link);
+    await this.subscriptionService.updateSubscription(subscriptionId, payload);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/subscriptions/{subscriptionId}
+   */
+  @Delete('subscriptions/:subscriptionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+  ): Promise<void> {
+    await this.subscriptionService.deleteSubscription(subscriptionId);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/csourceRegistrations
+   * Register an external NGSI-LD broker as a context source
+   *
+   * GET /entities and GET /entities/{entityId} are forwarded to the sources
+   * whose information (entity types/ids, attribute names) and location match
+   * the request, and their entities are merged with the local ones
    *
-   * @returns List of available JSON-LD context registrations
+   * @example
+   * POST /ngsi-ld/v1/csourceRegistrations
+   * { "type": "ContextSourceRegistration", "endpoint": "http://orion-ld.hanoi.local:1026",
+   *   "information": [{ "entities": [{ "type": "TrafficFlowObserved" }], "propertyNames": ["intensity"] }],
+   *   "location": { "type": "Polygon", "coordinates": [[[105.7, 20.9], [106, 20.9], [106, 21.1], [105.7, 21.1], [105.7, 20.9]]] } }
+   */
+  @Post('csourceRegistrations')
+  @HttpCode(HttpStatus.CREATED)
+  async createCSourceRegistration(
+    @Body() payload: Record<string, any>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    const id = await this.registrationService.createRegistration(payload);
+    res.setHeader('Location', `csourceRegistrations/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * GET /ngsi-ld/v1/csourceRegistrations
+   * List context source registrations with the status of the last forwarded request
+   */
+  @Get('csourceRegistrations')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/ld+json')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  listCSourceRegistrations(
+    @Query() params: QueryCSourceRegistrationsDto,
+  ): NgsiLdCSourceRegistration[] {
+    return this.registrationService.listRegistrations(
+      params.limit,
+      params.offset,
+    );
+  }
+
+  /**
+   * GET /ngsi-ld/v1/csourceRegistrations/{registrationId}
+   */
+  @Get('csourceRegistrations/:registrationId')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/ld+json')
+  getCSourceRegistration(
+    @Param('registrationId') registrationId: string,
+  ): NgsiLdCSourceRegistration {
+    return this.registrationService.getRegistration(registrationId);
+  }
+
+  /**
+   * PATCH /ngsi-ld/v1/csourceRegistrations/{registrationId}
+   * Update registration fields (e.g. endpoint, information or expiresAt)
+   */
+  @Patch('csourceRegistrations/:registrationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async updateCSourceRegistration(
+    @Param('registrationId') registrationId: string,
+    @Body() payload: Record<string, any>,
+  ): Promise<void> {
+    await this.registrationService.updateRegistration(registrationId, payload);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/csourceRegistrations/{registrationId}
+   */
+  @Delete('csourceRegistrations/:registrationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteCSourceRegistration(
+    @Param('registrationId') registrationId: string,
+  ): Promise<void> {
+    await this.registrationService.deleteRegistration(registrationId);
+  }
+
+  /**
+   * GET /ngsi-ld/v1/jsonldContexts
+   * List the hosted smartcity context and registered user contexts
    *
    * @example
    * GET /ngsi-ld/v1/jsonldContexts
    */
   @Get('jsonldContexts')
   @HttpCode(HttpStatus.OK)
-  @Header('Content-Type', 'application/ld+json')
-  async getJsonLdContexts() {
-    return this.ngsiLdService.getJsonLdContexts();
+  @Header('Content-Type', 'application/json')
+  getJsonLdContexts(): JsonLdContextInfo[] {
+    return this.contextService.listContexts();
+  }
+
+  /**
+   * POST /ngsi-ld/v1/jsonldContexts
+   * Register a user @context, usable afterwards in Link headers for
+   * compaction of responses and expansion of payloads
+   *
+   * @example
+   * POST /ngsi-ld/v1/jsonldContexts
+   * { "@context": { "ten": "http://schema.org/name", "chatLuongKhongKhi": "http://opendatafithou.org/property/aqi" } }
+   */
+  @Post('jsonldContexts')
+  @HttpCode(HttpStatus.CREATED)
+  async registerJsonLdContext(
+    @Body() payload: Record<string, any>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    const id = await this.contextService.registerContext(payload);
+    res.setHeader('Location', `jsonldContexts/${encodeURIComponent(id)}`);
   }
 
   /**
    * GET /ngsi-ld/v1/jsonldContexts/{contextId}
-   * Get a specific JSON-LD context by ID
+   * Get a context document by ID
    *
-   * @param contextId - Context ID (e.g., 'core', 'smartcity', or full URN)
-   * @returns The JSON-LD context definition
+   * @param contextId - Context ID ('smartcity' for the latest version, or full URN)
+   * @returns The JSON-LD context document
    *
    * @example
-   * GET /ngsi-ld/v1/jsonldContexts/core
    * GET /ngsi-ld/v1/jsonldContexts/smartcity
-   * GET /ngsi-ld/v1/jsonldContexts/urn:ngsi-ld:Context:core
+   * GET /ngsi-ld/v1/jsonldContexts/urn:ngsi-ld:Context:smartcity:1.1.0
    */
   @Get('jsonldContexts/:contextId')
   @HttpCode(HttpStatus.OK)
   @Header('Content-Type', 'application/ld+json')
-  async getJsonLdContextById(@Param('contextId') contextId: string) {
-    return this.ngsiLdService.getJsonLdContextById(contextId);
+  getJsonLdContextById(@Param('contextId') contextId: string): {
+    '@context': any;
+  } {
+    return this.contextService.getContext(contextId);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/jsonldContexts/{contextId}
+   * Delete a registered user context
+   */
+  @Delete('jsonldContexts/:contextId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteJsonLdContext(
+    @Param('contextId') contextId: string,
+  ): Promise<void> {
+    await this.contextService.deleteContext(contextId);
   }
 }
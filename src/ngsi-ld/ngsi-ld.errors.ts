@@ -0,0 +1,97 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { NgsiLdError } from './dto';
+
+/**
+ * NGSI-LD error types (ETSI GS CIM 009, clause 5.5.2)
+ */
+export enum NgsiLdErrorType {
+  INVALID_REQUEST = 'https://uri.etsi.org/ngsi-ld/errors/InvalidRequest',
+  BAD_REQUEST_DATA = 'https://uri.etsi.org/ngsi-ld/errors/BadRequestData',
+  ALREADY_EXISTS = 'https://uri.etsi.org/ngsi-ld/errors/AlreadyExists',
+  OPERATION_NOT_SUPPORTED = 'https://uri.etsi.org/ngsi-ld/errors/OperationNotSupported',
+  RESOURCE_NOT_FOUND = 'https://uri.etsi.org/ngsi-ld/errors/ResourceNotFound',
+  INTERNAL_ERROR = 'https://uri.etsi.org/ngsi-ld/errors/InternalError',
+  LD_CONTEXT_NOT_AVAILABLE = 'https://uri.etsi.org/ngsi-ld/errors/LdContextNotAvailable',
+  TOO_MANY_RESULTS = 'https://uri.etsi.org/ngsi-ld/errors/TooManyResults',
+}
+
+const ERROR_TITLES: Record<NgsiLdErrorType, string> = {
+  [NgsiLdErrorType.INVALID_REQUEST]: 'Invalid request',
+  [NgsiLdErrorType.BAD_REQUEST_DATA]: 'Bad request data',
+  [NgsiLdErrorType.ALREADY_EXISTS]: 'Already exists',
+  [NgsiLdErrorType.OPERATION_NOT_SUPPORTED]: 'Operation not supported',
+  [NgsiLdErrorType.RESOURCE_NOT_FOUND]: 'Resource not found',
+  [NgsiLdErrorType.INTERNAL_ERROR]: 'Internal error',
+  [NgsiLdErrorType.LD_CONTEXT_NOT_AVAILABLE]: 'LD context not available',
+  [NgsiLdErrorType.TOO_MANY_RESULTS]: 'Too many results',
+};
+
+const ERROR_STATUSES: Record<NgsiLdErrorType, HttpStatus> = {
+  [NgsiLdErrorType.INVALID_REQUEST]: HttpStatus.BAD_REQUEST,
+  [NgsiLdErrorType.BAD_REQUEST_DATA]: HttpStatus.BAD_REQUEST,
+  [NgsiLdErrorType.ALREADY_EXISTS]: HttpStatus.CONFLICT,
+  [NgsiLdErrorType.OPERATION_NOT_SUPPORTED]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [NgsiLdErrorType.RESOURCE_NOT_FOUND]: HttpStatus.NOT_FOUND,
+  [NgsiLdErrorType.INTERNAL_ERROR]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [NgsiLdErrorType.LD_CONTEXT_NOT_AVAILABLE]: HttpStatus.SERVICE_UNAVAILABLE,
+  [NgsiLdErrorType.TOO_MANY_RESULTS]: HttpStatus.FORBIDDEN,
+};
+
+/**
+ * HttpException whose response body is an NGSI-LD ProblemDetails object
+ *
+ * @example
+ * throw new NgsiLdException(NgsiLdErrorType.ALREADY_EXISTS, `Entity ${id} already exists`);
+ */
+export class NgsiLdException extends HttpException {
+  constructor(type: NgsiLdErrorType, detail: string) {
+    const status = ERROR_STATUSES[type];
+    const body: NgsiLdError = {
+      type,
+      title: ERROR_TITLES[type],
+      detail,
+      status,
+    };
+    super(body, status);
+  }
+
+  /**
+   * Convert any error into ProblemDetails, e.g. for BatchOperationResult errors
+   */
+  static toProblemDetails(error: unknown): NgsiLdError {
+    if (error instanceof NgsiLdException) {
+      return error.getResponse() as NgsiLdError;
+    }
+    if (error instanceof HttpException) {
+      const status = error.getStatus();
+      const type =
+        status >= 500
+          ? NgsiLdErrorType.INTERNAL_ERROR
+          : NgsiLdErrorType.BAD_REQUEST_DATA;
+      return { type, title: ERROR_TITLES[type], detail: error.message, status };
+    }
+    return {
+      type: NgsiLdErrorType.INTERNAL_ERROR,
+      title: ERROR_TITLES[NgsiLdErrorType.INTERNAL_ERROR],
+      detail: error instanceof Error ? error.message : String(error),
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+    };
+  }
+}
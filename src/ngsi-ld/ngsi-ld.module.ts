@@ -18,6 +18,9 @@
 import { Module } from '@nestjs/common';
 import { NgsiLdController } from './ngsi-ld.controller';
 import { NgsiLdService } from './ngsi-ld.service';
+import { NgsiLdSubscriptionService } from './ngsi-ld-subscription.service';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import { NgsiLdRegistrationService } from './ngsi-ld-registration.service';
 import { FusekiModule } from '../fuseki/fuseki.module';
 import { InfluxDBModule } from '../influxdb/influxdb.module';
 
@@ -29,13 +32,26 @@ import { InfluxDBModule } from '../influxdb/influxdb.module';
  * - Entity retrieval (combining static Fuseki data with IoT InfluxDB data)
  * - Entity discovery with geo-spatial filtering
  * - Temporal (historical) data queries
+ * - Subscriptions with notifications on sensor thresholds
+ * - Hosted JSON-LD contexts for the opendatafithou vocabulary
+ * - Context source registrations federating external NGSI-LD brokers
  *
  * @see https://www.etsi.org/deliver/etsi_gs/CIM/001_099/009/01.06.01_60/gs_CIM009v010601p.pdf
  */
 @Module({
   imports: [FusekiModule, InfluxDBModule],
   controllers: [NgsiLdController],
-  providers: [NgsiLdService],
-  exports: [NgsiLdService],
+  providers: [
+    NgsiLdService,
+    NgsiLdSubscriptionService,
+    NgsiLdContextService,
+    NgsiLdRegistrationService,
+  ],
+  exports: [
+    NgsiLdService,
+    NgsiLdSubscriptionService,
+    NgsiLdContextService,
+    NgsiLdRegistrationService,
+  ],
 })
 export class NgsiLdModule {}
@@ -0,0 +1,208 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ConfigService } from '@nestjs/config';
+import type { FusekiService } from '../fuseki/fuseki.service';
+import type { InfluxDBService } from '../influxdb/influxdb.service';
+import { NgsiLdService } from './ngsi-ld.service';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import type { NgsiLdRegistrationService } from './ngsi-ld-registration.service';
+import { NgsiLdEntity, NgsiLdEntityCollection } from './dto';
+
+// The real FusekiService pulls in the chat tools; only executeSelect/update are used
+jest.mock('../fuseki/fuseki.service', () => ({ FusekiService: class {} }));
+
+describe('NgsiLdService batch operations', () => {
+  const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+  const ids = [1, 2, 3].map((n) => `urn:ngsi-ld:PointOfInterest:${n}`);
+
+  let fuseki: { executeSelect: jest.Mock; update: jest.Mock };
+  let service: NgsiLdService;
+
+  beforeEach(() => {
+    const config = new ConfigService({});
+    fuseki = {
+      // Every entity exists in the atm graph
+      executeSelect: jest.fn((query: string) =>
+        Promise.resolve(
+          ids
+            .filter((id) => query.includes(`<${id}>`))
+            .map((s) => ({
+              s,
+              g: 'http://localhost:3030/graph/atm',
+              p: RDF_TYPE,
+            })),
+        ),
+      ),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new NgsiLdService(
+      config,
+      fuseki as unknown as FusekiService,
+      {} as InfluxDBService,
+      new NgsiLdContextService(config, fuseki as unknown as FusekiService),
+      { findSources: () => [] } as unknown as NgsiLdRegistrationService,
+    );
+  });
+
+  it('applies a batch in one update when it succeeds', async () => {
+    const result = await service.batchDelete(ids);
+
+    expect(result).toEqual({ success: ids, errors: [] });
+    expect(fuseki.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports each entity of a failed update separately', async () => {
+    fuseki.update.mockImplementation((update: string) =>
+      update.includes(`<${ids[1]}>`)
+        ? Promise.reject(new Error('Fuseki update failed'))
+        : Promise.resolve(),
+    );
+
+    const result = await service.batchDelete(ids);
+
+    expect(result.success).toEqual([ids[0], ids[2]]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ entityId: ids[1] }),
+    ]);
+    // The whole batch, then one update per entity
+    expect(fuseki.update).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports missing entities and invalid IDs without failing the others', async () => {
+    const result = await service.batchDelete([
+      ids[0],
+      'urn:ngsi-ld:PointOfInterest:404',
+      'not a uri',
+    ]);
+
+    expect(result.success).toEqual([ids[0]]);
+    expect(result.errors.map((e) => e.entityId)).toEqual([
+      'not a uri',
+      'urn:ngsi-ld:PointOfInterest:404',
+    ]);
+  });
+
+  it('reports an entity with an invalid geometry or relationship without failing the others', async () => {
+    const created = 'urn:ngsi-ld:PointOfInterest:4';
+    const result = await service.batchCreate([
+      {
+        id: 'urn:ngsi-ld:PointOfInterest:5',
+        type: 'PointOfInterest',
+        location: {
+          type: 'GeoProperty',
+          value: { type: 'Point', coordinates: ['x'] },
+        },
+      },
+      {
+        id: 'urn:ngsi-ld:PointOfInterest:6',
+        type: 'PointOfInterest',
+        refDevice: { type: 'Relationship', object: 'not a uri' },
+      },
+      {
+        id: created,
+        type: 'PointOfInterest',
+        location: {
+          type: 'GeoProperty',
+          value: { type: 'Point', coordinates: [105.85, 21.02] },
+        },
+      },
+    ]);
+
+    expect(result.success).toEqual([created]);
+    expect(result.errors.map((e) => e.entityId)).toEqual([
+      'urn:ngsi-ld:PointOfInterest:5',
+      'urn:ngsi-ld:PointOfInterest:6',
+    ]);
+  });
+
+  it('pages an amenity-only query without scanning the whole type', async () => {
+    const getPOIsByType = jest.fn().mockResolvedValue({
+      results: [
+        {
+          poi: 'http://opendatafithou.org/poi/bus_stop_1',
+          name: 'Bus stop',
+          amenity: 'bus_stop',
+        },
+      ],
+      count: 1,
+      totalCount: 42,
+      nextCursor: 'next',
+    });
+    Object.assign(fuseki, { getPOIsByType });
+
+    const result = await service.queryEntities({
+      type: 'PointOfInterest',
+      q: 'amenity=="bus_stop"',
+      limit: 1,
+    });
+
+    expect(getPOIsByType).toHaveBeenCalledTimes(1);
+    expect(getPOIsByType).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'bus_stop', limit: 1, count: true }),
+    );
+    expect(result.totalCount).toBe(42);
+    expect(result.entities).toHaveLength(1);
+  });
+
+  describe('batchQuery', () => {
+    const collection = (entities: NgsiLdEntity[]): NgsiLdEntityCollection => ({
+      '@context': [],
+      type: 'EntityCollection',
+      totalCount: entities.length,
+      entities,
+    });
+    const entity = (id: string, type: string) => ({ id, type }) as NgsiLdEntity;
+
+    it('merges the entities matching any selector', async () => {
+      const queryEntities = jest
+        .spyOn(service, 'queryEntities')
+        .mockImplementation((params) =>
+          Promise.resolve(
+            params.type === 'Device'
+              ? collection([
+                  entity('urn:ngsi-ld:Device:flood-1', 'Device'),
+                  entity('urn:ngsi-ld:Device:traffic-1', 'Device'),
+                ])
+              : collection([entity(ids[0], 'PointOfInterest')]),
+          ),
+        );
+
+      const result = await service.batchQuery(
+        {
+          type: 'Query',
+          entities: [
+            { type: 'PointOfInterest' },
+            { type: 'Device', idPattern: '^urn:ngsi-ld:Device:flood' },
+          ],
+          q: 'aqi<100',
+        },
+        { limit: 10 },
+      );
+
+      expect(queryEntities.mock.calls.map(([p]) => [p.type, p.q])).toEqual([
+        ['PointOfInterest', 'aqi<100'],
+        ['Device', 'aqi<100'],
+      ]);
+      expect(result.totalCount).toBe(2);
+      expect(result.entities.map((e) => e.id)).toEqual([
+        ids[0],
+        'urn:ngsi-ld:Device:flood-1',
+      ]);
+    });
+  });
+});
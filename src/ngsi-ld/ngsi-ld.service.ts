@@ -20,13 +20,15 @@ import {
   Logger,
   NotFoundException,
   BadRequestException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { FusekiService } from '../fuseki/fuseki.service';
 import {
   InfluxDBService,
   MeasurementType,
-  MEASUREMENTS,
+  StationData,
 } from '../influxdb/influxdb.service';
 import {
   NgsiLdEntity,
@@ -35,14 +37,153 @@ import {
   NgsiLdProperty,
   NgsiLdGeoProperty,
   NgsiLdRelationship,
-  NGSI_LD_CONTEXT,
   UNIT_CODES,
   GetEntityDto,
   QueryEntitiesDto,
   TemporalQueryDto,
-  AggregationMethod,
-  JsonLdContextInfo,
+  NgsiLdTemporalOptions,
+  ATTRIBUTE_PREDICATES,
+  TOPOLOGY_RELATIONSHIPS,
+  NgsiLdUpdateResult,
+  NgsiLdBatchOperationResult,
+  SENSOR_ATTRIBUTES,
+  FIELD_TO_ATTRIBUTE,
+  stationEntityId,
 } from './dto';
+import { NgsiLdException, NgsiLdErrorType } from './ngsi-ld.errors';
+import { NgsiLdContextService } from './ngsi-ld-context.service';
+import {
+  NgsiLdRegistrationService,
+  mergeEntities,
+} from './ngsi-ld-registration.service';
+import {
+  AGGREGATION_FUNCTIONS,
+  parseAggrMethods,
+  isoDurationToFlux,
+  resolveTimeRange,
+  temporalAttributesToPoints,
+} from './ngsi-ld-temporal';
+import {
+  BBox,
+  GeoJsonGeometry,
+  GeoRelation,
+  geoJsonToWkt,
+  wktToGeoJson,
+  geoRelationHolds,
+  getBBox,
+  expandBBox,
+  geometryDistanceMeters,
+} from '../common/geo-utils';
+import {
+  AqiStandard,
+  configuredAqiStandard,
+  withComputedAqi,
+} from '../common/aqi';
+import {
+  QueryNode,
+  parseQuery,
+  evaluateQuery,
+  compileQueryToSparql,
+  findRequiredValues,
+  getQueryAttributes,
+  compilePattern,
+} from './ngsi-ld-query';
+
+/**
+ * Attribute of an NGSI-LD write payload after normalization
+ */
+interface AttributeInput {
+  type: 'Property' | 'GeoProperty' | 'Relationship' | 'LanguageProperty';
+  value?: any;
+  object?: string | string[];
+  languageMap?: Record<string, string>;
+}
+
+const SPARQL_PREFIXES = `
+  PREFIX schema: <http://schema.org/>
+  PREFIX geo: <http://www.opengis.net/ont/geosparql#>
+  PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+`;
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
+// Batch operations: max entities per request, entities per SPARQL request
+const BATCH_MAX_ENTITIES = 5000;
+const BATCH_CHUNK_SIZE = 100;
+
+// Temporal queries: max instances per attribute when lastN is not set
+const TEMPORAL_MAX_INSTANCES = 10000;
+
+const XSD_DOUBLE = 'http://www.w3.org/2001/XMLSchema#double';
+// Captures lon ($1) and lat ($2) of the first position of any WKT inside a SPARQL REPLACE
+const WKT_FIRST_POSITION_REGEX =
+  '^[^(]*\\(+\\s*([-+0-9.eE]+)\\s+([-+0-9.eE]+).*$';
+const WKT_IS_POINT_REGEX = '^\\s*(<[^>]*>\\s*)?POINT';
+// Lines and polygons are bbox candidates when their first position lies within
+// this distance of the bbox, so they are assumed to span less than that
+const GEOMETRY_BBOX_MARGIN_METERS = 5000;
+// Filter queries page through matching entities, failing beyond the maximum
+const QUERY_PAGE_SIZE = 1000;
+const QUERY_MAX_CANDIDATES = 20000;
+
+const GEO_RELATIONS: GeoRelation[] = [
+  'within',
+  'contains',
+  'intersects',
+  'disjoint',
+  'equals',
+  'overlaps',
+];
+const GEO_QUERY_GEOMETRIES = [
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+];
+
+/**
+ * Parsed georel + geometry + coordinates
+ */
+interface GeoQuery {
+  relation: GeoRelation | 'near';
+  geometry: GeoJsonGeometry;
+  maxDistance?: number;
+  minDistance?: number;
+}
+
+/**
+ * Latest sensor values of a POI or device, by field
+ */
+interface SensorReadings {
+  timestamp?: string | null;
+  [field: string]: unknown;
+}
+
+/**
+ * POI or device row from Fuseki, before conversion to NGSI-LD
+ */
+interface PoiRecord {
+  poi: string;
+  wkt?: string | null;
+  lon?: number | null;
+  lat?: number | null;
+  distanceKm?: number;
+  device?: string | null;
+  sensorData?: SensorReadings | null;
+  [key: string]: any;
+}
+
+/**
+ * Validated entity payload, ready to be written
+ */
+interface PreparedEntity {
+  id: string;
+  type: string;
+  attrs: Record<string, AttributeInput>;
+  graphUri: string;
+}
 
 /**
  * Service for NGSI-LD API operations
@@ -52,15 +193,21 @@ import {
 export class NgsiLdService {
   private readonly logger = new Logger(NgsiLdService.name);
   private readonly queryEndpoint: string;
+  private readonly aqiStandard: AqiStandard;
 
   constructor(
     private configService: ConfigService,
     private fusekiService: FusekiService,
     private influxDBService: InfluxDBService,
+    private contextService: NgsiLdContextService,
+    private registrationService: NgsiLdRegistrationService,
   ) {
     this.queryEndpoint =
       this.configService.get<string>('FUSEKI_QUERY_ENDPOINT') ||
       `${this.configService.get<string>('FUSEKI_BASE_URL')}/${this.configService.get<string>('FUSEKI_DATASET')}/sparql`;
+    this.aqiStandard = configuredAqiStandard(
+      this.configService.get<string>('AQI_STANDARD'),
+    );
   }
 
   /**
@@ -190,7 +337,7 @@ export class NgsiLdService {
     }
 
     const entity: NgsiLdEntity = {
-      '@context': includeContext ? NGSI_LD_CONTEXT : [],
+      '@context': includeContext ? this.contextService.defaultContext : [],
       id: poi.poi, // Use original Fuseki URI as entity ID
       type: entityType,
     };
@@ -233,24 +380,19 @@ export class NgsiLdService {
       entity.distance = this.createProperty(poi.distanceKm * 1000, 'MTR');
     }
 
-    // Add sensor data if available
-    if (poi.sensorData) {
-      const { aqi, temperature, noise_level, timestamp } = poi.sensorData;
-      if (aqi !== null) {
-        entity.aqi = this.createProperty(aqi, UNIT_CODES.aqi, timestamp);
-      }
-      if (temperature !== null) {
-        entity.temperature = this.createProperty(
-          temperature,
-          UNIT_CODES.temperature,
-          timestamp,
-        );
-      }
-      if (noise_level !== null) {
-        entity.noiseLevel = this.createProperty(
-          noise_level,
-          UNIT_CODES.noise_level,
-          timestamp,
+    // Add sensor data if available, with the AQI computed like FusekiService does
+    const sensorData = poi.sensorData as SensorReadings | null | undefined;
+    if (sensorData) {
+      const { timestamp, ...values } = withComputedAqi(
+        sensorData,
+        this.aqiStandard,
+      );
+      for (const [field, value] of Object.entries(values)) {
+        if (value === null || value === undefined) continue;
+        entity[FIELD_TO_ATTRIBUTE[field] || field] = this.createProperty(
+          value,
+          UNIT_CODES[field as keyof typeof UNIT_CODES],
+          timestamp ?? undefined,
         );
       }
     }
@@ -347,13 +489,61 @@ export class NgsiLdService {
 
   /**
    * GET /ngsi-ld/v1/entities/{entityId}
-   * Retrieve the current state of a single entity
-   * entityId is the original Fuseki URI (unique identifier)
+   * Retrieve the current state of a single entity, merged with the matching
+   * context sources (local attributes win)
    */
   async getEntity(
     entityId: string,
     params: GetEntityDto,
   ): Promise<NgsiLdEntity | any> {
+    // local=true (set by forwarding brokers) stops the request at this broker
+    const sources =
+      params.local === 'true'
+        ? []
+        : this.registrationService.findSources({
+            id: entityId,
+            attrs: params.attrs?.split(',').map((a) => a.trim()),
+          });
+    if (sources.length === 0) {
+      return this.getLocalEntity(entityId, params);
+    }
+
+    const [local, remote] = await Promise.all([
+      (this.getLocalEntity(entityId, params) as Promise<NgsiLdEntity>).catch(
+        (error) => {
+          if (error instanceof NgsiLdException && error.getStatus() === 404) {
+            return null;
+          }
+          throw error;
+        },
+      ),
+      this.registrationService.retrieveEntity(sources, entityId, {
+        attrs: params.attrs,
+        options: params.options,
+      }),
+    ]);
+
+    const [entity] = mergeEntities(local ? [local, ...remote] : remote);
+    if (!entity) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Entity not found: ${entityId}`,
+      );
+    }
+    // Entities of remote sources are requested as application/json (no @context)
+    return {
+      ...entity,
+      '@context': entity['@context'] || this.contextService.defaultContext,
+    };
+  }
+
+  /**
+   * Entity from Fuseki (entityId is the original Fuseki URI)
+   */
+  private async getLocalEntity(
+    entityId: string,
+    params: GetEntityDto,
+  ): Promise<any> {
     this.logger.debug(`[getEntity] Fetching entity: ${entityId}`);
 
     // entityId is the original Fuseki URI - no conversion needed
@@ -364,7 +554,10 @@ export class NgsiLdService {
     });
 
     if (!result.found || !result.poi) {
-      throw new NotFoundException(`Entity not found: ${entityId}`);
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Entity not found: ${entityId}`,
+      );
     }
 
     // Convert to NGSI-LD format (URI is preserved as entity ID)
@@ -385,10 +578,90 @@ export class NgsiLdService {
 
   /**
    * GET /ngsi-ld/v1/entities
-   * Query entities with filters
+   * Query entities with filters, merged with the context sources that match
+   * the type, attributes and geo scope of the query
    */
   async queryEntities(
     params: QueryEntitiesDto,
+  ): Promise<NgsiLdEntityCollection> {
+    const { type, q, georel, coordinates, attrs } = params;
+    const queryAttrs = [
+      ...(attrs ? attrs.split(',').map((a) => a.trim()) : []),
+      ...(q ? getQueryAttributes(parseQuery(q)) : []),
+    ];
+    let bbox: BBox | undefined;
+    if (georel && coordinates) {
+      const geoQuery = this.parseGeoQuery(georel, params.geometry, coordinates);
+      if (geoQuery.relation === 'near') {
+        bbox =
+          geoQuery.maxDistance !== undefined
+            ? expandBBox(getBBox(geoQuery.geometry), geoQuery.maxDistance)
+            : undefined;
+      } else if (geoQuery.relation !== 'disjoint') {
+        bbox = getBBox(geoQuery.geometry);
+      }
+    }
+
+    const sources =
+      params.local === 'true'
+        ? []
+        : this.registrationService.findSources({
+            type,
+            attrs: queryAttrs,
+            bbox,
+          });
+    if (sources.length === 0) {
+      return this.queryLocalEntities(params);
+    }
+
+    // Both sides return their first offset+limit entities, merged then paginated
+    const offset = params.offset || 0;
+    const limit = params.limit || 20;
+    const window = {
+      ...params,
+      offset: 0,
+      limit: Math.min(offset + limit, 1000),
+    };
+    const [local, remote] = await Promise.all([
+      // Types the local store cannot query are served by the sources only
+      this.queryLocalEntities(window).catch((error) => {
+        if (error instanceof BadRequestException) return null;
+        throw error;
+      }),
+      this.registrationService.queryEntities(sources, {
+        type,
+        idPattern: params.idPattern,
+        q,
+        georel,
+        geometry: params.geometry,
+        coordinates,
+        attrs,
+        options: params.options,
+        limit: window.limit,
+        offset: 0,
+      }),
+    ]);
+
+    const fetched = [...(local?.entities || []), ...remote.entities];
+    const entities = mergeEntities(fetched);
+    // Entities found on several sides are counted once (exact within the window)
+    const duplicates = fetched.length - entities.length;
+    return {
+      '@context': this.contextService.defaultContext,
+      type: 'EntityCollection',
+      totalCount: Math.max(
+        (local?.totalCount || 0) + remote.totalCount - duplicates,
+        entities.length,
+      ),
+      entities: entities.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Query Fuseki POIs and InfluxDB devices
+   */
+  private async queryLocalEntities(
+    params: QueryEntitiesDto,
   ): Promise<NgsiLdEntityCollection> {
     this.logger.debug(
       `[queryEntities] Query params: ${JSON.stringify(params)}`,
@@ -406,91 +679,147 @@ export class NgsiLdService {
       options,
     } = params;
 
-    let results: any[] = [];
+    let results: PoiRecord[] = [];
     let totalCount = 0;
+    // Cleared when a branch already applied q in full
+    let filterByQuery = true;
 
-    // Parse q parameter for amenity filter
-    let amenityFilter: string | undefined;
-    if (q) {
-      const amenityMatch = q.match(/amenity\s*==\s*"?([^"]+)"?/);
-      if (amenityMatch) {
-        amenityFilter = amenityMatch[1];
-      }
-    }
+    // Parse q (NGSI-LD query language); amenity==... selects the POI graphs
+    const query = q ? parseQuery(q) : null;
+    const amenityValues = query
+      ? findRequiredValues(query, 'amenity')?.map(String)
+      : undefined;
 
     // Handle geo-spatial query
     if (georel && coordinates) {
-      // Parse coordinates
-      let coords: number[];
-      try {
-        coords = JSON.parse(coordinates);
-      } catch {
-        throw new BadRequestException(
-          'Invalid coordinates format. Expected JSON array [lon, lat]',
-        );
+      const geoQuery = this.parseGeoQuery(georel, geometry, coordinates);
+      const center =
+        geoQuery.geometry.type === 'Point'
+          ? (geoQuery.geometry.coordinates as number[])
+          : null;
+
+      if (geoQuery.relation === 'near' && center && !geoQuery.minDistance) {
+        // Use Fuseki nearby search
+        const searchResult = await this.fusekiService.searchNearby({
+          lat: center[1],
+          lon: center[0],
+          radiusKm: geoQuery.maxDistance! / 1000,
+          types: amenityValues || ['atm'], // default type
+          limit: limit || 20,
+          language: 'en',
+        });
+        results = searchResult.items;
+      } else {
+        // Candidates from the bounding box, exact geometry test below
+        let bbox: BBox | undefined;
+        if (geoQuery.relation === 'near') {
+          bbox =
+            geoQuery.maxDistance !== undefined
+              ? expandBBox(getBBox(geoQuery.geometry), geoQuery.maxDistance)
+              : undefined;
+        } else if (geoQuery.relation !== 'disjoint') {
+          bbox = getBBox(geoQuery.geometry);
+        }
+        results = await this.queryPoisByFilter(query, bbox);
       }
 
-      // Parse georel to extract maxDistance
-      let maxDistance = 1000; // default 1km
-      const distanceMatch = georel.match(/maxDistance\s*==\s*(\d+)/);
-      if (distanceMatch) {
-        maxDistance = parseInt(distanceMatch[1], 10);
+      results = results.filter((poi) => this.matchesGeoQuery(poi, geoQuery));
+      totalCount = results.length;
+    } else if (type === 'Device') {
+      // Query IoT devices (air quality + whatever sensor attributes q uses)
+      const measurements = new Set<MeasurementType>(['air_quality']);
+      for (const attr of query ? getQueryAttributes(query) : []) {
+        if (Object.hasOwn(SENSOR_ATTRIBUTES, attr)) {
+          measurements.add(SENSOR_ATTRIBUTES[attr].measurement);
+        }
       }
 
-      // Convert meters to kilometers
-      const radiusKm = maxDistance / 1000;
-
-      // Use Fuseki nearby search
-      const searchResult = await this.fusekiService.searchNearby({
-        lat: coords[1],
-        lon: coords[0],
-        radiusKm,
-        types: amenityFilter ? [amenityFilter] : ['atm'], // default type
-        limit: limit || 20,
-        language: 'en',
-      });
-
-      results = searchResult.items;
-      totalCount = searchResult.count;
-    } else if (type === 'Device') {
-      // Query IoT devices
-      const stations = await this.influxDBService.getLatestAllStations({
-        measurement: 'air_quality',
-      });
+      const devices = new Map<
+        string,
+        PoiRecord & { sensorData: SensorReadings & { timestamp: string } }
+      >();
+      for (const measurement of measurements) {
+        const stations = await this.influxDBService.getLatestAllStations({
+          measurement,
+        });
+        for (const station of stations) {
+          const device = devices.get(station.stationId) || {
+            poi: stationEntityId(station.stationId),
+            name: `IoT Station ${station.stationId}`,
+            device: station.stationId,
+            sensorData: { timestamp: station.timestamp },
+          };
+          Object.assign(device.sensorData, station.data);
+          if (station.timestamp > device.sensorData.timestamp) {
+            device.sensorData.timestamp = station.timestamp;
+          }
+          devices.set(station.stationId, device);
+        }
+      }
 
-      results = stations.map((station) => ({
-        poi: `http://opendatafithou.org/sensor/station:${station.stationId}`,
-        name: `IoT Station ${station.stationId}`,
-        device: station.stationId,
-        sensorData: {
-          aqi: station.data.aqi,
-          timestamp: station.timestamp,
-        },
-      }));
+      results = Array.from(devices.values());
+      totalCount = results.length;
+    } else if (amenityValues) {
+      // Query by POI type: when q is only the amenity equality the graphs
+      // already select it, so the first offset+limit of each type is enough;
+      // otherwise every entity is a candidate that q filters below
+      const typeOnly = query?.kind === 'term';
+      filterByQuery = !typeOnly;
+      const wanted = typeOnly
+        ? (offset || 0) + (limit || 20)
+        : QUERY_MAX_CANDIDATES + 1;
+      for (const amenity of amenityValues) {
+        let cursor: string | undefined;
+        let fetched = 0;
+        do {
+          const typeResult = await this.fusekiService.getPOIsByType({
+            type: amenity,
+            limit: Math.min(wanted - fetched, QUERY_PAGE_SIZE),
+            language: 'en',
+            cursor,
+            count: typeOnly && !cursor,
+          });
+          results.push(...(typeResult.results as PoiRecord[]));
+          fetched += typeResult.count;
+          if (typeResult.totalCount !== undefined) {
+            totalCount += typeResult.totalCount;
+          }
+          cursor = typeResult.nextCursor ?? undefined;
+        } while (cursor && fetched < wanted);
+      }
+      if (!typeOnly && results.length > QUERY_MAX_CANDIDATES) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.TOO_MANY_RESULTS,
+          `Query matches more than ${QUERY_MAX_CANDIDATES} entities, narrow it with q or georel`,
+        );
+      }
+    } else if (query) {
+      // Generic attribute filter compiled to SPARQL
+      results = await this.queryPoisByFilter(query);
       totalCount = results.length;
-    } else if (amenityFilter) {
-      // Query by POI type
-      const typeResult = await this.fusekiService.getPOIsByType({
-        type: amenityFilter,
-        limit: limit || 20,
-        language: 'en',
-      });
-
-      results = typeResult.results;
-      totalCount = typeResult.count;
     } else {
       throw new BadRequestException(
         'Query must include type with q filter or geo-spatial parameters',
       );
     }
 
+    // Convert to NGSI-LD entities and apply q to the full entity
+    // (covers live sensor attributes that SPARQL cannot see)
+    let candidates = results;
+    if (query && filterByQuery) {
+      await this.attachSensorData(results, query);
+      candidates = results.filter((poi) =>
+        evaluateQuery(query, this.poiToNgsiLd(poi, false)),
+      );
+      totalCount = candidates.length;
+    }
+
     // Apply pagination
-    const paginatedResults = results.slice(
+    const paginatedResults = candidates.slice(
       offset || 0,
       (offset || 0) + (limit || 20),
     );
 
-    // Convert to NGSI-LD entities
     const entities = paginatedResults.map((poi) => {
       let entity = this.poiToNgsiLd(poi, false);
       if (attrs) {
@@ -503,7 +832,7 @@ export class NgsiLdService {
     });
 
     return {
-      '@context': NGSI_LD_CONTEXT,
+      '@context': this.contextService.defaultContext,
       type: 'EntityCollection',
       totalCount,
       entities,
@@ -511,237 +840,1700 @@ export class NgsiLdService {
   }
 
   /**
-   * GET /ngsi-ld/v1/temporal/entities/{entityId}
-   * Retrieve historical time-series data
-   * entityId is the original Fuseki URI for the device
+   * Find POIs in any graph using the parts of q that map to stored attributes
+   * and an optional bounding box
+   * Points are tested against the bbox, lines and polygons by their first
+   * position against the bbox grown by GEOMETRY_BBOX_MARGIN_METERS
+   * Rows are re-checked against the full query by the caller
+   * Entities are paged by URI, more than QUERY_MAX_CANDIDATES fail the query
    */
-  async getTemporalEntity(
-    entityId: string,
-    params: TemporalQueryDto,
-  ): Promise<NgsiLdEntity> {
-    this.logger.debug(
-      `[getTemporalEntity] Fetching temporal data: ${entityId}`,
-    );
-
-    // Check if this is a Device entity (for temporal queries)
-    const entityType = this.getEntityTypeFromUri(entityId);
-    if (entityType !== 'Device') {
-      throw new BadRequestException(
-        'Temporal queries are only supported for Device entities',
+  private async queryPoisByFilter(
+    query: QueryNode | null,
+    bbox?: BBox,
+  ): Promise<PoiRecord[]> {
+    const columns = [
+      'name',
+      'amenity',
+      'highway',
+      'leisure',
+      'brand',
+      'operator',
+      'access',
+      'fee',
+    ];
+    const filter =
+      query &&
+      compileQueryToSparql(query, (term) =>
+        term.path.length === 1 &&
+        !term.compound &&
+        columns.includes(term.path[0])
+          ? `?${term.path[0]}`
+          : null,
       );
+
+    const optionals = columns
+      .map(
+        (column) =>
+          `OPTIONAL { ?poi <${ATTRIBUTE_PREDICATES[column]}> ?${column} . }`,
+      )
+      .join('\n            ');
+
+    const pattern = `
+        GRAPH ?g {
+          ?poi <${ATTRIBUTE_PREDICATES.location}> ?wkt .
+          ${optionals}
+        }
+        ${filter ? `FILTER(${filter})` : ''}
+        ${bbox ? this.bboxFilter(bbox) : ''}`;
+
+    const pois = new Map<string, PoiRecord>();
+    for (let offset = 0; ; offset += QUERY_PAGE_SIZE) {
+      // The subquery pages entities, the outer query fetches their rows
+      const rows = (await this.fusekiService.executeSelect(`
+        SELECT DISTINCT ?poi ?wkt ?device ${columns.map((c) => `?${c}`).join(' ')}
+        WHERE {
+          {
+            SELECT DISTINCT ?poi
+            WHERE {${pattern}
+            }
+            ORDER BY ?poi
+            LIMIT ${QUERY_PAGE_SIZE}
+            OFFSET ${offset}
+          }
+          ${pattern}
+          OPTIONAL {
+            GRAPH <${this.iotCoverageGraphUri}> {
+              ?poi <http://www.w3.org/ns/sosa/isSampledBy> ?device .
+            }
+          }
+        }
+      `)) as { poi: string; wkt: string; [column: string]: string }[];
+
+      // One row per language/value combination: keep the first row of each POI
+      const before = pois.size;
+      for (const row of rows) {
+        if (pois.has(row.poi)) continue;
+        const point = /^\s*POINT\s*\(\s*(\S+)\s+(\S+)\s*\)/i.exec(row.wkt);
+        pois.set(row.poi, {
+          ...row,
+          lon: point ? parseFloat(point[1]) : null,
+          lat: point ? parseFloat(point[2]) : null,
+        });
+      }
+
+      if (pois.size > QUERY_MAX_CANDIDATES) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.TOO_MANY_RESULTS,
+          `Query matches more than ${QUERY_MAX_CANDIDATES} entities, narrow it with q or georel`,
+        );
+      }
+      if (pois.size - before < QUERY_PAGE_SIZE) break;
     }
+    return Array.from(pois.values());
+  }
 
-    // Use the entityId (Fuseki URI) directly as station ID for InfluxDB
-    const stationId = entityId;
+  /**
+   * SPARQL filter keeping ?wkt geometries that may lie in a bounding box
+   */
+  private bboxFilter(bbox: BBox): string {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    const [gMinLon, gMinLat, gMaxLon, gMaxLat] = expandBBox(
+      bbox,
+      GEOMETRY_BBOX_MARGIN_METERS,
+    );
+    const position = (group: string) =>
+      `<${XSD_DOUBLE}>(REPLACE(STR(?wkt), "${this.escapeSparqlString(WKT_FIRST_POSITION_REGEX)}", "${group}"))`;
+    return `BIND(${position('$1')} AS ?lon)
+        BIND(${position('$2')} AS ?lat)
+        FILTER(IF(REGEX(STR(?wkt), "${this.escapeSparqlString(WKT_IS_POINT_REGEX)}", "i"),
+          ?lon >= ${minLon} && ?lat >= ${minLat} && ?lon <= ${maxLon} && ?lat <= ${maxLat},
+          ?lon >= ${gMinLon} && ?lat >= ${gMinLat} && ?lon <= ${gMaxLon} && ?lat <= ${gMaxLat}))`;
+  }
 
-    // Determine which measurements to query
-    let measurements: MeasurementType[] = [
-      'air_quality',
-      'weather',
-      'traffic',
-      'flood',
-    ];
-    let fieldsToQuery: string[] | undefined;
+  /**
+   * Parse georel/geometry/coordinates (ETSI GS CIM 009, clause 4.10)
+   * e.g. georel=near;maxDistance==1000, georel=within&geometry=Polygon
+   */
+  private parseGeoQuery(
+    georel: string,
+    geometry: string | undefined,
+    coordinates: string,
+  ): GeoQuery {
+    const fail = (detail: string): never => {
+      throw new NgsiLdException(NgsiLdErrorType.BAD_REQUEST_DATA, detail);
+    };
 
-    if (params.attrs) {
-      fieldsToQuery = params.attrs.split(',').map((a) => a.trim());
-      // Map NGSI-LD attribute names to InfluxDB fields
-      const attrToField: Record<
-        string,
-        { measurement: MeasurementType; field: string }
-      > = {
-        temperature: { measurement: 'weather', field: 'temperature' },
-        humidity: { measurement: 'weather', field: 'humidity' },
-        windSpeed: { measurement: 'weather', field: 'wind_speed' },
-        rainfall: { measurement: 'weather', field: 'rain_1h' },
-        aqi: { measurement: 'air_quality', field: 'aqi' },
-        pm25: { measurement: 'air_quality', field: 'pm25' },
-        pm10: { measurement: 'air_quality', field: 'pm10' },
-        noiseLevel: { measurement: 'traffic', field: 'noise_level' },
-        trafficIntensity: { measurement: 'traffic', field: 'intensity' },
-        avgSpeed: { measurement: 'traffic', field: 'avg_speed' },
-        waterLevel: { measurement: 'flood', field: 'water_level' },
-      };
+    let coords: unknown;
+    try {
+      coords = JSON.parse(coordinates);
+    } catch {
+      fail('Invalid coordinates format. Expected a GeoJSON coordinates array');
+    }
 
-      // Filter measurements based on requested attributes
-      measurements = [
-        ...new Set(
-          fieldsToQuery
-            .filter((f) => attrToField[f])
-            .map((f) => attrToField[f].measurement),
-        ),
-      ] as MeasurementType[];
-    }
-
-    // Convert ISO timestamps to InfluxDB format
-    const startTime = params.timeAt;
-    const endTime = params.endTimeAt;
-
-    // Calculate aggregation window if specified
-    let aggregateWindow: string | undefined;
-    if (params.aggrPeriodDuration) {
-      // Convert ISO 8601 duration to InfluxDB format
-      // PT1H -> 1h, PT30M -> 30m, P1D -> 1d
-      const durationMatch =
-        params.aggrPeriodDuration.match(/PT?(\d+)([HDMS])/i);
-      if (durationMatch) {
-        const value = durationMatch[1];
-        const unit = durationMatch[2].toLowerCase();
-        aggregateWindow = `${value}${unit}`;
-      }
+    const geoJson: GeoJsonGeometry = {
+      type: geometry || 'Point',
+      coordinates: coords,
+    };
+    if (!GEO_QUERY_GEOMETRIES.includes(geoJson.type)) {
+      fail(`Unsupported geometry: ${geoJson.type}`);
+    }
+    try {
+      getBBox(geoJson);
+    } catch {
+      fail(`Invalid coordinates for geometry ${geoJson.type}`);
     }
 
-    // Build temporal entity response
-    const temporalEntity: NgsiLdEntity = {
-      '@context': NGSI_LD_CONTEXT,
-      id: entityId,
-      type: 'Device',
+    const [relation, ...modifiers] = georel.split(';').map((p) => p.trim());
+    const geoQuery: GeoQuery = {
+      relation: relation as GeoQuery['relation'],
+      geometry: geoJson,
     };
 
-    // Query each measurement type
+    if (relation === 'near') {
+      for (const modifier of modifiers) {
+        const match = /^(maxDistance|minDistance)==(\d+(\.\d+)?)$/.exec(
+          modifier,
+        );
+        if (!match) {
+          return fail(`Invalid near modifier: ${modifier}`);
+        }
+        geoQuery[match[1] as 'maxDistance' | 'minDistance'] = parseFloat(
+          match[2],
+        );
+      }
+      if (
+        geoQuery.maxDistance === undefined &&
+        geoQuery.minDistance === undefined
+      ) {
+        geoQuery.maxDistance = 1000; // default 1km
+      }
+    } else if (!GEO_RELATIONS.includes(relation as GeoRelation)) {
+      fail(`Unsupported georel: ${relation}`);
+    } else if (modifiers.length > 0) {
+      fail(`georel ${relation} does not take modifiers`);
+    }
+
+    return geoQuery;
+  }
+
+  /**
+   * Exact geometry test of a candidate POI against a geo-query
+   */
+  private matchesGeoQuery(poi: PoiRecord, geoQuery: GeoQuery): boolean {
+    const subject =
+      (poi.wkt && wktToGeoJson(poi.wkt)) ||
+      (poi.lon !== null &&
+      poi.lon !== undefined &&
+      poi.lat !== null &&
+      poi.lat !== undefined
+        ? { type: 'Point', coordinates: [poi.lon, poi.lat] }
+        : null);
+    if (!subject) return false;
+
+    if (geoQuery.relation !== 'near') {
+      return geoRelationHolds(geoQuery.relation, subject, geoQuery.geometry);
+    }
+
+    // Distance between the closest points of both geometries
+    const distance = geometryDistanceMeters(subject, geoQuery.geometry);
+    poi.distanceKm = distance / 1000;
+    return (
+      (geoQuery.maxDistance === undefined ||
+        distance <= geoQuery.maxDistance) &&
+      (geoQuery.minDistance === undefined || distance >= geoQuery.minDistance)
+    );
+  }
+
+  /**
+   * Load the latest sensor values used by q for POIs monitored by a device
+   */
+  private async attachSensorData(
+    results: PoiRecord[],
+    query: QueryNode,
+  ): Promise<void> {
+    const measurements = new Set<MeasurementType>();
+    for (const attr of getQueryAttributes(query)) {
+      if (Object.hasOwn(SENSOR_ATTRIBUTES, attr)) {
+        measurements.add(SENSOR_ATTRIBUTES[attr].measurement);
+      }
+    }
+    if (measurements.size === 0 || results.length === 0) return;
+
+    // Resolve devices of POIs that don't carry one yet
+    const missing = results.filter((poi) => !poi.device && poi.poi);
+    if (missing.length > 0) {
+      const rows = await this.fusekiService.executeSelect(`
+        SELECT ?poi ?device
+        WHERE {
+          GRAPH <${this.iotCoverageGraphUri}> {
+            VALUES ?poi { ${missing.map((poi) => `<${poi.poi}>`).join(' ')} }
+            ?poi <http://www.w3.org/ns/sosa/isSampledBy> ?device .
+          }
+        }
+      `);
+      const deviceByPoi = new Map<string, string>(
+        rows.map((row) => [row.poi as string, row.device as string]),
+      );
+      for (const poi of missing) {
+        poi.device = deviceByPoi.get(poi.poi);
+      }
+    }
+
     for (const measurement of measurements) {
+      let stations: StationData[];
       try {
-        const measurementFields = MEASUREMENTS[measurement]
-          .fields as readonly string[];
-        const requestedFields = fieldsToQuery
-          ? measurementFields.filter((f) => {
-              // Check if any requested attr maps to this field
-              const attrToField: Record<string, string> = {
-                temperature: 'temperature',
-                humidity: 'humidity',
-                windSpeed: 'wind_speed',
-                rainfall: 'rain_1h',
-                aqi: 'aqi',
-                pm25: 'pm25',
-                pm10: 'pm10',
-                noiseLevel: 'noise_level',
-                trafficIntensity: 'intensity',
-                avgSpeed: 'avg_speed',
-                waterLevel: 'water_level',
-              };
-              return fieldsToQuery?.some((attr) => attrToField[attr] === f);
-            })
-          : [...measurementFields];
-
-        if (requestedFields.length === 0) continue;
-
-        const history = await this.influxDBService.getHistoryByStation({
-          stationId,
+        stations = await this.influxDBService.getLatestAllStations({
           measurement,
-          fields: requestedFields,
-          start: startTime,
-          stop: endTime,
-          aggregateWindow,
         });
+      } catch (e) {
+        this.logger.debug(
+          `No ${measurement} data for q filter: ${(e as Error).message}`,
+        );
+        continue;
+      }
 
-        // Group by field
-        const fieldData: Record<string, any[]> = {};
-        for (const point of history) {
-          if (!fieldData[point.field]) {
-            fieldData[point.field] = [];
+      const byStation = new Map(stations.map((st) => [st.stationId, st]));
+      for (const poi of results) {
+        const station = poi.device ? byStation.get(poi.device) : undefined;
+        if (!station) continue;
+        poi.sensorData = poi.sensorData || { timestamp: station.timestamp };
+        for (const [field, value] of Object.entries(station.data)) {
+          if (
+            poi.sensorData[field] === undefined ||
+            poi.sensorData[field] === null
+          ) {
+            poi.sensorData[field] = value;
           }
-          fieldData[point.field].push({
-            type: 'Property',
-            value: point.value,
-            unitCode: UNIT_CODES[point.field as keyof typeof UNIT_CODES],
-            observedAt: point.time,
-          });
         }
-
-        // Add to entity with NGSI-LD attribute names
-        const fieldToAttr: Record<string, string> = {
-          temperature: 'temperature',
-          humidity: 'humidity',
-          wind_speed: 'windSpeed',
-          rain_1h: 'rainfall',
-          aqi: 'aqi',
-          pm25: 'pm25',
-          pm10: 'pm10',
-          noise_level: 'noiseLevel',
-          intensity: 'trafficIntensity',
-          avg_speed: 'avgSpeed',
-          water_level: 'waterLevel',
-        };
-
-        for (const [field, values] of Object.entries(fieldData)) {
-          const attrName = fieldToAttr[field] || field;
-          // Apply lastN limit if specified
-          if (params.lastN && values.length > params.lastN) {
-            temporalEntity[attrName] = values.slice(-params.lastN);
-          } else {
-            temporalEntity[attrName] = values;
-          }
+        if (
+          !poi.sensorData.timestamp ||
+          station.timestamp > poi.sensorData.timestamp
+        ) {
+          poi.sensorData.timestamp = station.timestamp;
         }
-      } catch (e: any) {
-        this.logger.debug(`No ${measurement} data for station: ${e.message}`);
       }
     }
-
-    return temporalEntity;
   }
 
   /**
-   * Get available entity types
+   * Escape a string so it can be embedded in a SPARQL literal
    */
-  getEntityTypes(): string[] {
-    return ['Device', 'PointOfInterest'];
+  private escapeSparqlString(str: string): string {
+    return str
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
   }
 
   /**
-   * Get available attributes for an entity type
+   * Ensure a value can be safely embedded in SPARQL as an IRI (<...>)
    */
-  getAttributes(entityType: string): string[] {
-    if (entityType === 'Device') {
-      return [
-        'name',
-        'location',
-        'temperature',
-        'humidity',
-        'windSpeed',
-        'rainfall',
-        'aqi',
-        'pm25',
-        'pm10',
-        'noiseLevel',
-        'trafficIntensity',
-        'avgSpeed',
-        'waterLevel',
-      ];
+  private assertValidUri(
+    uri: any,
+    label: string = 'entity id',
+  ): asserts uri is string {
+    if (
+      typeof uri !== 'string' ||
+      !/^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s<>"{}|\\^`]+$/.test(uri)
+    ) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `Invalid ${label}: ${uri}. Expected a URI`,
+      );
     }
+  }
 
-    if (entityType === 'PointOfInterest') {
-      return [
-        'name',
-        'location',
-        'amenity',
-        'highway',
-        'leisure',
-        'brand',
-        'operator',
-        'access',
-        'fee',
-        'distance',
-        'isNextTo',
-        'containedInPlace',
-      ];
-    }
+  private get topologyGraphUri(): string {
+    return (
+      this.configService.get<string>('FUSEKI_GRAPH_TOPOLOGY') ||
+      'http://localhost:3030/graph/topology'
+    );
+  }
 
-    return [];
+  private get iotCoverageGraphUri(): string {
+    return (
+      this.configService.get<string>('FUSEKI_GRAPH_IOT_COVERAGE') ||
+      'http://localhost:3030/graph/iot-coverage'
+    );
   }
 
   /**
-   * Get detailed information about a specific entity type
-   * NGSI-LD Specification: GET /types/{type}
+   * Resolve the named graph a new entity is written to
+   * Uses the amenity/highway/leisure category (or the entity type) to find
+   * FUSEKI_GRAPH_<CATEGORY>, falling back to FUSEKI_GRAPH_NGSI_LD
    */
-  async getTypeDetails(typeName: string): Promise<any> {
-    const validTypes = await this.getEntityTypes();
-    if (!validTypes.includes(typeName)) {
-      throw new NotFoundException(`Entity type '${typeName}' not found`);
-    }
+  private resolveEntityGraph(
+    type: string,
+    attrs: Record<string, AttributeInput>,
+  ): string {
+    const category =
+      ['amenity', 'highway', 'leisure']
+        .map((key): unknown => attrs[key]?.value)
+        .find((v): v is string => typeof v === 'string') || type;
+
+    // ChargingStation -> CHARGING_STATION, bus-stop -> BUS_STOP
+    const key = category
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .toUpperCase();
+
+    return (
+      this.configService.get<string>(`FUSEKI_GRAPH_${key}`) ||
+      this.configService.get<string>('FUSEKI_GRAPH_NGSI_LD') ||
+      'http://localhost:3030/graph/ngsi-ld'
+    );
+  }
 
-    const attributes = await this.getAttributes(typeName);
+  /**
+   * Map an NGSI-LD attribute to the graph and predicate it is stored with
+   */
+  private resolveAttributeTarget(
+    attrName: string,
+    entityGraph: string,
+  ): { graphUri: string; predicate: string } {
+    this.assertValidAttrName(attrName);
+    if (Object.hasOwn(TOPOLOGY_RELATIONSHIPS, attrName)) {
+      return {
+        graphUri: this.topologyGraphUri,
+        predicate: TOPOLOGY_RELATIONSHIPS[attrName],
+      };
+    }
+    if (attrName === 'hosts') {
+      return {
+        graphUri: this.iotCoverageGraphUri,
+        predicate: 'http://www.w3.org/ns/sosa/isSampledBy',
+      };
+    }
+    return {
+      graphUri: entityGraph,
+      predicate: Object.hasOwn(ATTRIBUTE_PREDICATES, attrName)
+        ? ATTRIBUTE_PREDICATES[attrName]
+        : `http://opendatafithou.org/def/extension/${attrName}`,
+    };
+  }
 
-    // Count entities of this type
+  /**
+   * Attribute names become part of predicate IRIs
+   */
+  private assertValidAttrName(attrName: string): void {
+    if (
+      typeof attrName !== 'string' ||
+      !/^[A-Za-z_][A-Za-z0-9_]*$/.test(attrName)
+    ) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `Invalid attribute name: ${attrName}`,
+      );
+    }
+  }
+
+  /**
+   * Normalize one attribute of a write payload
+   * keyValues payloads carry raw values; the attribute kind is inferred from its name
+   */
+  private normalizeAttribute(
+    attrName: string,
+    raw: unknown,
+    keyValues: boolean,
+  ): AttributeInput {
+    this.assertValidAttrName(attrName);
+
+    if (keyValues) {
+      if (attrName === 'location') {
+        return { type: 'GeoProperty', value: raw };
+      }
+      if (
+        Object.hasOwn(TOPOLOGY_RELATIONSHIPS, attrName) ||
+        attrName === 'hosts'
+      ) {
+        return { type: 'Relationship', object: raw as string | string[] };
+      }
+      return { type: 'Property', value: raw };
+    }
+
+    if (Array.isArray(raw)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.OPERATION_NOT_SUPPORTED,
+        `Multi-attributes (datasetId) are not supported: ${attrName}`,
+      );
+    }
+    if (!raw || typeof raw !== 'object') {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `Attribute ${attrName} must be an object with a type`,
+      );
+    }
+
+    const attr = raw as {
+      type?: string;
+      value?: unknown;
+      object?: string | string[];
+      languageMap?: Record<string, string>;
+    };
+    switch (attr.type) {
+      case 'Property':
+      case 'GeoProperty':
+        if (attr.value === undefined || attr.value === null) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `Attribute ${attrName} is missing a value`,
+          );
+        }
+        return { type: attr.type, value: attr.value };
+      case 'Relationship':
+        if (!attr.object) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `Relationship ${attrName} is missing an object`,
+          );
+        }
+        return { type: 'Relationship', object: attr.object };
+      case 'LanguageProperty':
+        if (
+          !attr.languageMap ||
+          typeof attr.languageMap !== 'object' ||
+          Array.isArray(attr.languageMap)
+        ) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `LanguageProperty ${attrName} is missing a languageMap`,
+          );
+        }
+        for (const lang of Object.keys(attr.languageMap)) {
+          // BCP 47 language tag, e.g. vi, en, zh-Hant
+          if (!/^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/.test(lang)) {
+            throw new NgsiLdException(
+              NgsiLdErrorType.BAD_REQUEST_DATA,
+              `Invalid language tag in ${attrName}: ${lang}`,
+            );
+          }
+        }
+        return { type: 'LanguageProperty', languageMap: attr.languageMap };
+      default:
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          `Unsupported attribute type for ${attrName}: ${attr.type}`,
+        );
+    }
+  }
+
+  /**
+   * Extract and normalize every attribute of an entity fragment
+   */
+  private extractAttributes(
+    payload: Record<string, any>,
+    keyValues: boolean,
+  ): Record<string, AttributeInput> {
+    const attrs: Record<string, AttributeInput> = {};
+    for (const [key, raw] of Object.entries(payload)) {
+      if (['@context', 'id', 'type', 'scope'].includes(key)) continue;
+      const attr = this.normalizeAttribute(key, raw, keyValues);
+      // Geometries and relationship objects are checked here, before any
+      // write, so a batch reports the entity instead of failing as a whole
+      this.attributeToRdfObjects(key, attr);
+      attrs[key] = attr;
+    }
+    return attrs;
+  }
+
+  /**
+   * Convert a property value to a SPARQL literal
+   */
+  private toRdfLiteral(value: any): string {
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? `"${value}"^^xsd:integer`
+        : `"${value}"^^xsd:double`;
+    }
+    if (typeof value === 'boolean') {
+      return `"${value}"^^xsd:boolean`;
+    }
+    if (typeof value === 'string') {
+      return `"${this.escapeSparqlString(value)}"`;
+    }
+    // Structured values are kept as JSON strings
+    return `"${this.escapeSparqlString(JSON.stringify(value))}"`;
+  }
+
+  /**
+   * Convert a normalized attribute to the SPARQL terms of its objects
+   */
+  private attributeToRdfObjects(
+    attrName: string,
+    attr: AttributeInput,
+  ): string[] {
+    switch (attr.type) {
+      case 'GeoProperty':
+        try {
+          return [
+            `"${this.escapeSparqlString(geoJsonToWkt(attr.value as GeoJsonGeometry))}"^^geo:wktLiteral`,
+          ];
+        } catch (e) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `Invalid GeoProperty ${attrName}: ${(e as Error).message}`,
+          );
+        }
+      case 'Relationship': {
+        const objects = Array.isArray(attr.object)
+          ? attr.object
+          : [attr.object];
+        objects.forEach((o) =>
+          this.assertValidUri(o, `relationship object of ${attrName}`),
+        );
+        return objects.map((o) => `<${o}>`);
+      }
+      case 'LanguageProperty':
+        return Object.entries(attr.languageMap || {}).map(
+          ([lang, text]) =>
+            `"${this.escapeSparqlString(String(text))}"@${lang}`,
+        );
+      default:
+        return [this.toRdfLiteral(attr.value)];
+    }
+  }
+
+  /**
+   * Build an INSERT DATA update, grouping triples per named graph
+   */
+  private buildInsertData(
+    entityId: string,
+    entityGraph: string,
+    attrs: Record<string, AttributeInput>,
+    extraTriples: string[] = [],
+  ): string {
+    const graphTriples = new Map<string, string[]>();
+    const addTriple = (graphUri: string, triple: string) => {
+      if (!graphTriples.has(graphUri)) graphTriples.set(graphUri, []);
+      graphTriples.get(graphUri)!.push(triple);
+    };
+
+    extraTriples.forEach((t) => addTriple(entityGraph, t));
+
+    for (const [attrName, attr] of Object.entries(attrs)) {
+      const { graphUri, predicate } = this.resolveAttributeTarget(
+        attrName,
+        entityGraph,
+      );
+      for (const object of this.attributeToRdfObjects(attrName, attr)) {
+        addTriple(graphUri, `<${entityId}> <${predicate}> ${object} .`);
+      }
+    }
+
+    const graphBlocks = Array.from(graphTriples.entries())
+      .map(
+        ([graphUri, triples]) => `
+          GRAPH <${graphUri}> {
+            ${triples.join('\n            ')}
+          }`,
+      )
+      .join('');
+
+    return `INSERT DATA {${graphBlocks}
+        }`;
+  }
+
+  /**
+   * List the named graphs that hold triples about an entity
+   * The graph where the entity has an rdf:type comes first
+   */
+  private async findEntityGraphs(entityId: string): Promise<string[]> {
+    const rows = await this.fusekiService.executeSelect(`
+      SELECT ?g (MAX(IF(?p = <http://www.w3.org/1999/02/22-rdf-syntax-ns#type>, 1, 0)) AS ?typed)
+      WHERE {
+        GRAPH ?g { <${entityId}> ?p ?o }
+      }
+      GROUP BY ?g
+      ORDER BY DESC(?typed)
+    `);
+    return rows.map((row) => row.g as string);
+  }
+
+  /**
+   * List the predicates currently stored for an entity (all graphs)
+   */
+  private async findEntityPredicates(entityId: string): Promise<Set<string>> {
+    const rows = await this.fusekiService.executeSelect(`
+      SELECT DISTINCT ?p
+      WHERE {
+        GRAPH ?g { <${entityId}> ?p ?o }
+      }
+    `);
+    return new Set(rows.map((row) => row.p as string));
+  }
+
+  /**
+   * Resolve the main graph of an existing entity or throw ResourceNotFound
+   */
+  private async getExistingEntityGraph(entityId: string): Promise<string> {
+    this.assertValidUri(entityId);
+    const graphs = await this.findEntityGraphs(entityId);
+    if (graphs.length === 0) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Entity not found: ${entityId}`,
+      );
+    }
+    return graphs[0];
+  }
+
+  private hasOption(options: string | undefined, option: string): boolean {
+    return (options || '')
+      .split(',')
+      .map((o) => o.trim())
+      .includes(option);
+  }
+
+  /**
+   * Validate an entity payload and resolve where it will be stored
+   */
+  private prepareEntity(
+    payload: Record<string, any>,
+    keyValues: boolean,
+  ): PreparedEntity {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.INVALID_REQUEST,
+        'Request body must be an NGSI-LD entity',
+      );
+    }
+
+    const { id, type } = payload;
+    this.assertValidUri(id);
+    if (
+      typeof type !== 'string' ||
+      !(/^[A-Za-z][A-Za-z0-9_]*$/.test(type) || type.includes(':'))
+    ) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'Entity type is required and must be a name or a URI',
+      );
+    }
+    if (type.includes(':')) {
+      this.assertValidUri(type, 'entity type');
+    }
+
+    const attrs = this.extractAttributes(payload, keyValues);
+    return {
+      id,
+      type,
+      attrs,
+      graphUri: this.resolveEntityGraph(type, attrs),
+    };
+  }
+
+  /**
+   * INSERT DATA for a new entity: rdf:type (FIWARE PointOfInterest +
+   * schema.org class or the given URI) and its attributes
+   */
+  private buildEntityInsert(entity: PreparedEntity): string {
+    const rdfTypes = [
+      '<https://smartdatamodels.org/dataModel.PointOfInterest/PointOfInterest>',
+    ];
+    if (entity.type.includes(':')) {
+      rdfTypes.push(`<${entity.type}>`);
+    } else if (entity.type !== 'PointOfInterest') {
+      rdfTypes.push(`schema:${entity.type}`);
+    }
+
+    return this.buildInsertData(entity.id, entity.graphUri, entity.attrs, [
+      `<${entity.id}> a ${rdfTypes.join(' , ')} .`,
+    ]);
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entities
+   * Create a new entity from a normalized or keyValues payload
+   * @returns The ID of the created entity
+   */
+  async createEntity(
+    payload: Record<string, any>,
+    options?: string,
+  ): Promise<string> {
+    const entity = this.prepareEntity(
+      payload,
+      this.hasOption(options, NgsiLdOptions.KEY_VALUES),
+    );
+
+    const existing = await this.findEntityGraphs(entity.id);
+    if (existing.length > 0) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.ALREADY_EXISTS,
+        `Entity already exists: ${entity.id}`,
+      );
+    }
+
+    await this.fusekiService.update(`
+      ${SPARQL_PREFIXES}
+      ${this.buildEntityInsert(entity)}
+    `);
+    this.logger.log(
+      `[createEntity] Created ${entity.type} ${entity.id} in ${entity.graphUri}`,
+    );
+
+    return entity.id;
+  }
+
+  /**
+   * Decide which attributes of an existing entity get written and build the
+   * DELETE/INSERT operations that replace their previous values
+   * @returns update is null when nothing has to be written
+   */
+  private planAttrsWrite(
+    entityId: string,
+    entityGraph: string,
+    attrs: Record<string, AttributeInput>,
+    existingPredicates: Set<string>,
+    params: { onlyExisting: boolean; noOverwrite: boolean },
+  ): { result: NgsiLdUpdateResult; update: string | null } {
+    const result: NgsiLdUpdateResult = { updated: [], notUpdated: [] };
+    const toWrite: Record<string, AttributeInput> = {};
+    const deletes: string[] = [];
+
+    for (const [attrName, attr] of Object.entries(attrs)) {
+      const { predicate } = this.resolveAttributeTarget(attrName, entityGraph);
+      const exists = existingPredicates.has(predicate);
+
+      if (params.onlyExisting && !exists) {
+        result.notUpdated.push({
+          attributeName: attrName,
+          reason: 'Attribute does not exist',
+        });
+        continue;
+      }
+      if (params.noOverwrite && exists) {
+        result.notUpdated.push({
+          attributeName: attrName,
+          reason: 'Attribute already exists and noOverwrite was requested',
+        });
+        continue;
+      }
+
+      toWrite[attrName] = attr;
+      result.updated.push(attrName);
+      if (exists) {
+        deletes.push(
+          `DELETE WHERE { GRAPH ?g { <${entityId}> <${predicate}> ?o } }`,
+        );
+      }
+    }
+
+    if (result.updated.length === 0) {
+      return { result, update: null };
+    }
+    return {
+      result,
+      update: [
+        ...deletes,
+        this.buildInsertData(entityId, entityGraph, toWrite),
+      ].join(' ;\n'),
+    };
+  }
+
+  /**
+   * Write attributes of an existing entity, replacing the previous values
+   * @param onlyExisting - PATCH semantics: skip attributes the entity does not have
+   * @param noOverwrite - POST semantics with options=noOverwrite: skip attributes the entity already has
+   */
+  private async writeEntityAttrs(
+    entityId: string,
+    payload: Record<string, any>,
+    params: { keyValues: boolean; onlyExisting: boolean; noOverwrite: boolean },
+  ): Promise<NgsiLdUpdateResult> {
+    if (!payload || typeof payload !== 'object') {
+      throw new NgsiLdException(
+        NgsiLdErrorType.INVALID_REQUEST,
+        'Request body must be an NGSI-LD entity fragment',
+      );
+    }
+
+    const entityGraph = await this.getExistingEntityGraph(entityId);
+    const attrs = this.extractAttributes(payload, params.keyValues);
+    const existingPredicates = await this.findEntityPredicates(entityId);
+
+    const { result, update } = this.planAttrsWrite(
+      entityId,
+      entityGraph,
+      attrs,
+      existingPredicates,
+      params,
+    );
+    if (update) {
+      await this.fusekiService.update(`
+        ${SPARQL_PREFIXES}
+        ${update}
+      `);
+    }
+
+    this.logger.log(
+      `[writeEntityAttrs] ${entityId}: updated=${result.updated.length}, notUpdated=${result.notUpdated.length}`,
+    );
+    return result;
+  }
+
+  /**
+   * PATCH /ngsi-ld/v1/entities/{entityId}/attrs
+   * Update existing attributes of an entity
+   */
+  async updateEntityAttrs(
+    entityId: string,
+    payload: Record<string, any>,
+    options?: string,
+  ): Promise<NgsiLdUpdateResult> {
+    return this.writeEntityAttrs(entityId, payload, {
+      keyValues: this.hasOption(options, NgsiLdOptions.KEY_VALUES),
+      onlyExisting: true,
+      noOverwrite: false,
+    });
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entities/{entityId}/attrs
+   * Append attributes to an entity (overwrites unless options=noOverwrite)
+   */
+  async appendEntityAttrs(
+    entityId: string,
+    payload: Record<string, any>,
+    options?: string,
+  ): Promise<NgsiLdUpdateResult> {
+    return this.writeEntityAttrs(entityId, payload, {
+      keyValues: this.hasOption(options, NgsiLdOptions.KEY_VALUES),
+      onlyExisting: false,
+      noOverwrite: this.hasOption(options, 'noOverwrite'),
+    });
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/entities/{entityId}
+   * Remove every triple about the entity, including inbound relationships
+   */
+  async deleteEntity(entityId: string): Promise<void> {
+    await this.getExistingEntityGraph(entityId);
+
+    await this.fusekiService.update(`
+      DELETE WHERE { GRAPH ?g { <${entityId}> ?p ?o } } ;
+      DELETE WHERE { GRAPH ?g { ?s ?p <${entityId}> } }
+    `);
+    this.logger.log(`[deleteEntity] Deleted ${entityId}`);
+  }
+
+  /**
+   * DELETE /ngsi-ld/v1/entities/{entityId}/attrs/{attrName}
+   */
+  async deleteEntityAttr(entityId: string, attrName: string): Promise<void> {
+    this.assertValidAttrName(attrName);
+    const entityGraph = await this.getExistingEntityGraph(entityId);
+    const { predicate } = this.resolveAttributeTarget(attrName, entityGraph);
+
+    const existingPredicates = await this.findEntityPredicates(entityId);
+    if (!existingPredicates.has(predicate)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `Attribute ${attrName} not found on entity ${entityId}`,
+      );
+    }
+
+    await this.fusekiService.update(
+      `DELETE WHERE { GRAPH ?g { <${entityId}> <${predicate}> ?o } }`,
+    );
+    this.logger.log(`[deleteEntityAttr] Deleted ${attrName} of ${entityId}`);
+  }
+
+  /**
+   * Graphs (typed graph first) and predicates of many entities, in chunked SELECTs
+   * Entities that do not exist are absent from the map
+   */
+  private async findEntitiesState(
+    entityIds: string[],
+  ): Promise<Map<string, { graphs: string[]; predicates: Set<string> }>> {
+    const state = new Map<
+      string,
+      { graphs: string[]; predicates: Set<string> }
+    >();
+
+    for (let i = 0; i < entityIds.length; i += BATCH_CHUNK_SIZE) {
+      const chunk = entityIds.slice(i, i + BATCH_CHUNK_SIZE);
+      const rows = (await this.fusekiService.executeSelect(`
+        SELECT DISTINCT ?s ?g ?p
+        WHERE {
+          VALUES ?s { ${chunk.map((id) => `<${id}>`).join(' ')} }
+          GRAPH ?g { ?s ?p ?o }
+        }
+      `)) as { s: string; g: string; p: string }[];
+
+      for (const row of rows) {
+        let entry = state.get(row.s);
+        if (!entry) {
+          entry = { graphs: [], predicates: new Set<string>() };
+          state.set(row.s, entry);
+        }
+        entry.predicates.add(row.p);
+        if (row.p === RDF_TYPE) {
+          entry.graphs = [row.g, ...entry.graphs.filter((g) => g !== row.g)];
+        } else if (!entry.graphs.includes(row.g)) {
+          entry.graphs.push(row.g);
+        }
+      }
+    }
+
+    return state;
+  }
+
+  private assertBatchSize(items: unknown): asserts items is unknown[] {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.INVALID_REQUEST,
+        'Request body must be a non-empty array',
+      );
+    }
+    if (items.length > BATCH_MAX_ENTITIES) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        `A batch operation accepts at most ${BATCH_MAX_ENTITIES} entities`,
+      );
+    }
+  }
+
+  /**
+   * Validate every entity of a batch, moving invalid or duplicated ones to the errors list
+   */
+  private prepareBatch(
+    payloads: Record<string, any>[],
+    keyValues: boolean,
+    result: NgsiLdBatchOperationResult,
+  ): PreparedEntity[] {
+    const seen = new Set<string>();
+    const entities: PreparedEntity[] = [];
+
+    for (const payload of payloads) {
+      const entityId = String(payload?.id ?? '');
+      try {
+        if (seen.has(entityId)) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `Entity ${entityId} appears more than once in the batch`,
+          );
+        }
+        seen.add(entityId);
+        entities.push(this.prepareEntity(payload, keyValues));
+      } catch (e) {
+        result.errors.push({
+          entityId,
+          error: NgsiLdException.toProblemDetails(e),
+        });
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Send per-entity updates in chunks of BATCH_CHUNK_SIZE operations per request
+   * A chunk is applied atomically: if it fails, its entities are retried one
+   * by one so that each is reported with its own result
+   */
+  private async runBatchUpdates(
+    operations: { entityId: string; update: string }[],
+    result: NgsiLdBatchOperationResult,
+  ): Promise<void> {
+    const apply = (chunk: { update: string }[]) =>
+      this.fusekiService.update(`
+        ${SPARQL_PREFIXES}
+        ${chunk.map((op) => op.update).join(' ;\n')}
+      `);
+
+    for (let i = 0; i < operations.length; i += BATCH_CHUNK_SIZE) {
+      const chunk = operations.slice(i, i + BATCH_CHUNK_SIZE);
+      try {
+        await apply(chunk);
+        result.success.push(...chunk.map((op) => op.entityId));
+        continue;
+      } catch (e) {
+        if (chunk.length === 1) {
+          result.errors.push({
+            entityId: chunk[0].entityId,
+            error: NgsiLdException.toProblemDetails(e),
+          });
+          continue;
+        }
+      }
+
+      for (const op of chunk) {
+        try {
+          await apply([op]);
+          result.success.push(op.entityId);
+        } catch (e) {
+          result.errors.push({
+            entityId: op.entityId,
+            error: NgsiLdException.toProblemDetails(e),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/create
+   * Create many entities; existing IDs are reported as AlreadyExists
+   */
+  async batchCreate(
+    payloads: Record<string, any>[],
+    options?: string,
+  ): Promise<NgsiLdBatchOperationResult> {
+    this.assertBatchSize(payloads);
+    const result: NgsiLdBatchOperationResult = { success: [], errors: [] };
+    const entities = this.prepareBatch(
+      payloads,
+      this.hasOption(options, NgsiLdOptions.KEY_VALUES),
+      result,
+    );
+    const state = await this.findEntitiesState(entities.map((e) => e.id));
+
+    const operations: { entityId: string; update: string }[] = [];
+    for (const entity of entities) {
+      if (state.has(entity.id)) {
+        result.errors.push({
+          entityId: entity.id,
+          error: NgsiLdException.toProblemDetails(
+            new NgsiLdException(
+              NgsiLdErrorType.ALREADY_EXISTS,
+              `Entity already exists: ${entity.id}`,
+            ),
+          ),
+        });
+        continue;
+      }
+      operations.push({
+        entityId: entity.id,
+        update: this.buildEntityInsert(entity),
+      });
+    }
+
+    await this.runBatchUpdates(operations, result);
+    this.logger.log(
+      `[batchCreate] success=${result.success.length}, errors=${result.errors.length}`,
+    );
+    return result;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/upsert
+   * Create missing entities; existing ones are replaced entirely,
+   * or only have the given attributes overwritten with options=update
+   * @returns The batch result and the IDs of the entities that were created
+   */
+  async batchUpsert(
+    payloads: Record<string, any>[],
+    options?: string,
+  ): Promise<{ result: NgsiLdBatchOperationResult; created: string[] }> {
+    this.assertBatchSize(payloads);
+    const result: NgsiLdBatchOperationResult = { success: [], errors: [] };
+    const entities = this.prepareBatch(
+      payloads,
+      this.hasOption(options, NgsiLdOptions.KEY_VALUES),
+      result,
+    );
+    const state = await this.findEntitiesState(entities.map((e) => e.id));
+    const updateMode = this.hasOption(options, 'update');
+
+    const created: string[] = [];
+    const operations: { entityId: string; update: string }[] = [];
+    for (const entity of entities) {
+      const existing = state.get(entity.id);
+      if (!existing) {
+        created.push(entity.id);
+        operations.push({
+          entityId: entity.id,
+          update: this.buildEntityInsert(entity),
+        });
+      } else if (updateMode) {
+        const { update } = this.planAttrsWrite(
+          entity.id,
+          existing.graphs[0],
+          entity.attrs,
+          existing.predicates,
+          { onlyExisting: false, noOverwrite: false },
+        );
+        operations.push({
+          entityId: entity.id,
+          update: update || `INSERT DATA { }`,
+        });
+      } else {
+        operations.push({
+          entityId: entity.id,
+          update: `DELETE WHERE { GRAPH ?g { <${entity.id}> ?p ?o } } ;
+          ${this.buildEntityInsert(entity)}`,
+        });
+      }
+    }
+
+    await this.runBatchUpdates(operations, result);
+    const succeeded = new Set(result.success);
+    this.logger.log(
+      `[batchUpsert] success=${result.success.length}, errors=${result.errors.length}`,
+    );
+    return { result, created: created.filter((id) => succeeded.has(id)) };
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/update
+   * Append/overwrite attributes of existing entities (options=noOverwrite keeps existing ones)
+   */
+  async batchUpdate(
+    payloads: Record<string, any>[],
+    options?: string,
+  ): Promise<NgsiLdBatchOperationResult> {
+    this.assertBatchSize(payloads);
+    const result: NgsiLdBatchOperationResult = { success: [], errors: [] };
+    const keyValues = this.hasOption(options, NgsiLdOptions.KEY_VALUES);
+    const noOverwrite = this.hasOption(options, 'noOverwrite');
+
+    // Fragments only need an id, the type is optional for updates
+    const fragments: { id: string; attrs: Record<string, AttributeInput> }[] =
+      [];
+    const seen = new Set<string>();
+    for (const payload of payloads) {
+      const entityId = String(payload?.id ?? '');
+      try {
+        this.assertValidUri(payload?.id);
+        if (seen.has(entityId)) {
+          throw new NgsiLdException(
+            NgsiLdErrorType.BAD_REQUEST_DATA,
+            `Entity ${entityId} appears more than once in the batch`,
+          );
+        }
+        seen.add(entityId);
+        fragments.push({
+          id: entityId,
+          attrs: this.extractAttributes(payload, keyValues),
+        });
+      } catch (e) {
+        result.errors.push({
+          entityId,
+          error: NgsiLdException.toProblemDetails(e),
+        });
+      }
+    }
+
+    const state = await this.findEntitiesState(fragments.map((f) => f.id));
+    const operations: { entityId: string; update: string }[] = [];
+    for (const fragment of fragments) {
+      const existing = state.get(fragment.id);
+      if (!existing) {
+        result.errors.push({
+          entityId: fragment.id,
+          error: NgsiLdException.toProblemDetails(
+            new NgsiLdException(
+              NgsiLdErrorType.RESOURCE_NOT_FOUND,
+              `Entity not found: ${fragment.id}`,
+            ),
+          ),
+        });
+        continue;
+      }
+
+      const { update } = this.planAttrsWrite(
+        fragment.id,
+        existing.graphs[0],
+        fragment.attrs,
+        existing.predicates,
+        { onlyExisting: false, noOverwrite },
+      );
+      if (update) {
+        operations.push({ entityId: fragment.id, update });
+      } else {
+        result.success.push(fragment.id); // nothing to write
+      }
+    }
+
+    await this.runBatchUpdates(operations, result);
+    this.logger.log(
+      `[batchUpdate] success=${result.success.length}, errors=${result.errors.length}`,
+    );
+    return result;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/delete
+   * Delete many entities given as an array of IDs
+   */
+  async batchDelete(entityIds: any[]): Promise<NgsiLdBatchOperationResult> {
+    this.assertBatchSize(entityIds);
+    const result: NgsiLdBatchOperationResult = { success: [], errors: [] };
+
+    const ids: string[] = [];
+    for (const entityId of new Set(entityIds)) {
+      try {
+        this.assertValidUri(entityId);
+        ids.push(entityId);
+      } catch (e) {
+        result.errors.push({
+          entityId: String(entityId),
+          error: NgsiLdException.toProblemDetails(e),
+        });
+      }
+    }
+
+    const state = await this.findEntitiesState(ids);
+    const operations: { entityId: string; update: string }[] = [];
+    for (const entityId of ids) {
+      if (!state.has(entityId)) {
+        result.errors.push({
+          entityId,
+          error: NgsiLdException.toProblemDetails(
+            new NgsiLdException(
+              NgsiLdErrorType.RESOURCE_NOT_FOUND,
+              `Entity not found: ${entityId}`,
+            ),
+          ),
+        });
+        continue;
+      }
+      operations.push({
+        entityId,
+        update: `DELETE WHERE { GRAPH ?g { <${entityId}> ?p ?o } } ;
+          DELETE WHERE { GRAPH ?g { ?s ?p <${entityId}> } }`,
+      });
+    }
+
+    await this.runBatchUpdates(operations, result);
+    this.logger.log(
+      `[batchDelete] success=${result.success.length}, errors=${result.errors.length}`,
+    );
+    return result;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/entityOperations/query
+   * Query entities with a Query object in the body instead of URL parameters
+   * An entity matches if it matches any of the entities selectors
+   *
+   * @example
+   * { "type": "Query", "entities": [{ "type": "PointOfInterest" }], "q": "amenity==\"atm\"",
+   *   "geoQ": { "geometry": "Polygon", "coordinates": [[[105.8, 21.0], ...]], "georel": "within" } }
+   */
+  async batchQuery(
+    body: Record<string, any>,
+    params: { limit?: number; offset?: number; options?: NgsiLdOptions },
+  ): Promise<NgsiLdEntityCollection> {
+    if (!body || body.type !== 'Query') {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'Request body must be a Query object ("type": "Query")',
+      );
+    }
+
+    const query = body as {
+      entities?: unknown;
+      attrs?: string | string[];
+      q?: string;
+      geoQ?: { georel?: string; geometry?: string; coordinates?: unknown };
+    };
+    const selectors = (Array.isArray(query.entities) ? query.entities : []) as {
+      type?: string;
+      id?: string;
+      idPattern?: string;
+    }[];
+    const attrs = Array.isArray(query.attrs)
+      ? query.attrs.join(',')
+      : query.attrs;
+    const { limit = 20, offset = 0, options } = params;
+
+    // Selection by ID only: fetch the entities directly
+    if (
+      selectors.length > 0 &&
+      selectors.every((selector) => selector.id) &&
+      !query.q &&
+      !query.geoQ
+    ) {
+      const entities: NgsiLdEntity[] = [];
+      for (const selector of selectors) {
+        try {
+          const entity = (await this.getEntity(selector.id!, {
+            attrs,
+            options,
+          })) as NgsiLdEntity;
+          // the collection carries the context
+          delete (entity as Partial<NgsiLdEntity>)['@context'];
+          entities.push(entity);
+        } catch (e) {
+          if (!(e instanceof HttpException)) throw e;
+        }
+      }
+      return {
+        '@context': this.contextService.defaultContext,
+        type: 'EntityCollection',
+        totalCount: entities.length,
+        entities: entities.slice(offset, offset + limit),
+      };
+    }
+
+    const geoQ = query.geoQ || {};
+    const filters = {
+      q: query.q,
+      georel: geoQ.georel,
+      geometry: geoQ.geometry,
+      coordinates:
+        geoQ.coordinates === undefined || typeof geoQ.coordinates === 'string'
+          ? geoQ.coordinates
+          : JSON.stringify(geoQ.coordinates),
+      attrs,
+      options,
+    };
+    const [first] = selectors;
+    if (selectors.length <= 1 && !first?.id && !first?.idPattern) {
+      return this.queryEntities({
+        type: first?.type as string,
+        ...filters,
+        limit,
+        offset,
+      });
+    }
+
+    // Each selector returns its first offset+limit entities, merged then paginated
+    const window = Math.min(offset + limit, 1000);
+    const matched: NgsiLdEntity[] = [];
+    let totalCount = 0;
+    for (const selector of selectors) {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = selector.idPattern
+          ? compilePattern(selector.idPattern)
+          : null;
+      } catch (e) {
+        throw new NgsiLdException(
+          NgsiLdErrorType.BAD_REQUEST_DATA,
+          `Invalid idPattern: ${selector.idPattern} (${(e as Error).message})`,
+        );
+      }
+
+      const collection = await this.queryEntities({
+        type: selector.type as string,
+        ...filters,
+        limit: window,
+        offset: 0,
+      });
+      const entities = collection.entities.filter(
+        (entity) =>
+          (!selector.id || entity.id === selector.id) &&
+          (!pattern || pattern.test(entity.id)),
+      );
+      matched.push(...entities);
+      // Filtered selectors are counted within the window only
+      totalCount +=
+        selector.id || pattern ? entities.length : collection.totalCount;
+    }
+
+    const entities = mergeEntities(matched);
+    return {
+      '@context': this.contextService.defaultContext,
+      type: 'EntityCollection',
+      totalCount: totalCount - (matched.length - entities.length),
+      entities: entities.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * GET /ngsi-ld/v1/temporal/entities/{entityId}
+   * Retrieve historical time-series data
+   *
+   * entityId is the Fuseki URI of a device, or of a POI sampled by a device
+   * (sosa:isSampledBy in the IoT coverage graph). Representations:
+   * - normalized: array of Property instances per attribute
+   * - options=temporalValues: { type, values: [[value, observedAt], ...] }
+   * - aggrMethods (or options=aggregatedValues): { type, avg: [[value, start, end], ...], ... }
+   *   with one period per aggrPeriodDuration, or the whole range
+   */
+  async getTemporalEntity(
+    entityId: string,
+    params: TemporalQueryDto,
+  ): Promise<NgsiLdEntity> {
+    this.logger.debug(
+      `[getTemporalEntity] Fetching temporal data: ${entityId}`,
+    );
+
+    const entityType = this.getEntityTypeFromUri(entityId);
+    const stationId = await this.resolveStationId(entityId, entityType);
+
+    const { start, stop } = resolveTimeRange(params);
+    const options = params.options?.split(',').map((o) => o.trim()) || [];
+    const aggrMethods = parseAggrMethods(
+      params.aggrMethods || params.aggrMethod,
+    );
+    if (
+      options.includes(NgsiLdTemporalOptions.AGGREGATED_VALUES) &&
+      aggrMethods.length === 0
+    ) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'aggrMethods is required with options=aggregatedValues',
+      );
+    }
+    const every = params.aggrPeriodDuration
+      ? isoDurationToFlux(params.aggrPeriodDuration)
+      : undefined;
+    const temporalValues = options.includes(
+      NgsiLdTemporalOptions.TEMPORAL_VALUES,
+    );
+
+    // Requested sensor attributes grouped by measurement
+    const attrs = params.attrs?.split(',').map((a) => a.trim());
+    const fieldsByMeasurement = new Map<MeasurementType, string[]>();
+    for (const [attr, { measurement, field }] of Object.entries(
+      SENSOR_ATTRIBUTES,
+    )) {
+      if (attrs && !attrs.includes(attr)) continue;
+      const fields = fieldsByMeasurement.get(measurement) || [];
+      fields.push(field);
+      fieldsByMeasurement.set(measurement, fields);
+    }
+
+    const temporalEntity: NgsiLdEntity = {
+      '@context': this.contextService.defaultContext,
+      id: entityId,
+      type: entityType,
+    };
+
+    for (const [measurement, fields] of fieldsByMeasurement) {
+      try {
+        if (aggrMethods.length > 0) {
+          for (const method of aggrMethods) {
+            const points =
+              await this.influxDBService.getAggregatedHistoryByStation({
+                stationId,
+                measurement,
+                fields,
+                start,
+                stop,
+                every,
+                fn: AGGREGATION_FUNCTIONS[method],
+              });
+            for (const point of points) {
+              const attr = FIELD_TO_ATTRIBUTE[point.field] || point.field;
+              const attribute = (temporalEntity[attr] ||= {
+                type: 'Property',
+              }) as Record<string, unknown[][]>;
+              (attribute[method] ||= []).push([
+                point.value,
+                point.start,
+                point.end,
+              ]);
+            }
+          }
+          if (params.lastN) {
+            for (const field of fields) {
+              const attribute = temporalEntity[FIELD_TO_ATTRIBUTE[field]] as
+                | Record<string, unknown[][]>
+                | undefined;
+              for (const method of aggrMethods) {
+                if (attribute?.[method]) {
+                  attribute[method] = attribute[method].slice(-params.lastN);
+                }
+              }
+            }
+          }
+          continue;
+        }
+
+        // lastN is applied per field (one Flux table per field)
+        const history = await this.influxDBService.getHistoryByStation({
+          stationId,
+          measurement,
+          fields,
+          start,
+          stop,
+          lastN: params.lastN,
+          limit: TEMPORAL_MAX_INSTANCES,
+        });
+
+        for (const point of history) {
+          const attr = FIELD_TO_ATTRIBUTE[point.field] || point.field;
+          if (temporalValues) {
+            const attribute = (temporalEntity[attr] ||= {
+              type: 'Property',
+              values: [],
+            }) as { values: unknown[][] };
+            attribute.values.push([point.value, point.time]);
+          } else {
+            ((temporalEntity[attr] ||= []) as NgsiLdProperty[]).push(
+              this.createProperty(
+                point.value,
+                UNIT_CODES[point.field as keyof typeof UNIT_CODES],
+                point.time,
+              ),
+            );
+          }
+        }
+      } catch (e) {
+        this.logger.debug(
+          `No ${measurement} data for station: ${(e as Error).message}`,
+        );
+      }
+    }
+
+    return temporalEntity;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/temporal/entities
+   * Write the attribute instances of a temporal entity to InfluxDB
+   * @returns true if the entity is not registered in Fuseki yet (201), false otherwise (204)
+   */
+  async createTemporalEntity(payload: Record<string, any>): Promise<boolean> {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'The payload must be a JSON object',
+      );
+    }
+    this.assertValidUri(payload.id);
+    if (typeof payload.type !== 'string' || !payload.type) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'Entity type is required',
+      );
+    }
+
+    const stationId = await this.resolveStationId(payload.id, payload.type);
+    const points = temporalAttributesToPoints(stationId, payload);
+    const graphs = await this.findEntityGraphs(payload.id);
+
+    await this.influxDBService.writePoints(points);
+    this.logger.log(
+      `[createTemporalEntity] Wrote ${points.length} instances for ${payload.id}`,
+    );
+    return graphs.length === 0;
+  }
+
+  /**
+   * POST /ngsi-ld/v1/temporal/entities/{entityId}/attrs
+   * Add attribute instances to the temporal representation of an entity
+   */
+  async appendTemporalAttrs(
+    entityId: string,
+    payload: Record<string, any>,
+  ): Promise<void> {
+    this.assertValidUri(entityId);
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.BAD_REQUEST_DATA,
+        'The payload must be a JSON object',
+      );
+    }
+
+    const stationId = await this.resolveStationId(
+      entityId,
+      this.getEntityTypeFromUri(entityId),
+    );
+    const points = temporalAttributesToPoints(stationId, payload);
+
+    await this.influxDBService.writePoints(points);
+    this.logger.log(
+      `[appendTemporalAttrs] Wrote ${points.length} instances for ${entityId}`,
+    );
+  }
+
+  /**
+   * InfluxDB station_id of an entity: the device URI itself, or the device
+   * sampling a POI
+   */
+  private async resolveStationId(
+    entityId: string,
+    entityType: string,
+  ): Promise<string> {
+    const stationId =
+      entityType === 'Device'
+        ? entityId
+        : await this.findSamplingDevice(entityId);
+    if (!stationId) {
+      throw new NgsiLdException(
+        NgsiLdErrorType.RESOURCE_NOT_FOUND,
+        `No IoT station provides temporal data for ${entityId}`,
+      );
+    }
+    return stationId;
+  }
+
+  /**
+   * Device sampling a POI, from the IoT coverage graph
+   */
+  private async findSamplingDevice(poiUri: string): Promise<string | null> {
+    const rows = (await this.fusekiService.executeSelect(`
+      SELECT ?device
+      WHERE {
+        GRAPH <${this.iotCoverageGraphUri}> {
+          <${poiUri}> <http://www.w3.org/ns/sosa/isSampledBy> ?device .
+        }
+      }
+      LIMIT 1
+    `)) as { device?: string }[];
+    return rows[0]?.device || null;
+  }
+
+  /**
+   * Get available entity types
+   */
+  getEntityTypes(): string[] {
+    return ['Device', 'PointOfInterest'];
+  }
+
+  /**
+   * Get available attributes for an entity type
+   */
+  getAttributes(entityType: string): string[] {
+    if (entityType === 'Device') {
+      return [
+        'name',
+        'location',
+        'temperature',
+        'humidity',
+        'windSpeed',
+        'rainfall',
+        'aqi',
+        'pm25',
+        'pm10',
+        'noiseLevel',
+        'trafficIntensity',
+        'avgSpeed',
+        'waterLevel',
+      ];
+    }
+
+    if (entityType === 'PointOfInterest') {
+      return [
+        'name',
+        'location',
+        'amenity',
+        'highway',
+        'leisure',
+        'brand',
+        'operator',
+        'access',
+        'fee',
+        'distance',
+        'isNextTo',
+        'containedInPlace',
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Get detailed information about a specific entity type
+   * NGSI-LD Specification: GET /types/{type}
+   */
+  async getTypeDetails(typeName: string): Promise<any> {
+    const validTypes = await this.getEntityTypes();
+    if (!validTypes.includes(typeName)) {
+      throw new NotFoundException(`Entity type '${typeName}' not found`);
+    }
+
+    const attributes = await this.getAttributes(typeName);
+
+    // Count entities of this type
     let entityCount = 0;
     try {
       if (typeName === 'Device') {
@@ -769,7 +2561,7 @@ export class NgsiLdService {
     }));
 
     return {
-      '@context': NGSI_LD_CONTEXT,
+      '@context': this.contextService.defaultContext,
       id: `urn:ngsi-ld:EntityTypeInfo:${typeName}`,
       type: 'EntityTypeInformation',
       typeName: typeName,
@@ -862,7 +2654,7 @@ export class NgsiLdService {
     }
 
     return {
-      '@context': NGSI_LD_CONTEXT,
+      '@context': this.contextService.defaultContext,
       id: `urn:ngsi-ld:Attribute:${attrName}`,
       type: 'Attribute',
       attributeName: attrName,
@@ -876,24 +2668,20 @@ export class NgsiLdService {
    * Query temporal data for multiple entities (batch temporal query)
    * NGSI-LD Specification: GET /temporal/entities
    */
-  async queryTemporalEntities(params: {
-    type?: string;
-    ids?: string[];
-    idPattern?: string;
-    q?: string;
-    attrs?: string[];
-    timeAt: string;
-    endTimeAt: string;
-    lastN?: number;
-    aggrMethod?: AggregationMethod;
-    aggrPeriodDuration?: string;
-  }): Promise<NgsiLdEntity[]> {
+  async queryTemporalEntities(
+    params: {
+      type?: string;
+      ids?: string[];
+      idPattern?: string;
+      q?: string;
+    },
+    temporal: TemporalQueryDto,
+  ): Promise<NgsiLdEntity[]> {
     // First, get matching entities
     const queryParams: QueryEntitiesDto = {
       type: params.type || 'Device', // Default to Device for temporal queries
       q: params.q,
       idPattern: params.idPattern,
-      attrs: params.attrs?.join(','),
       limit: 100,
     };
 
@@ -915,125 +2703,30 @@ export class NgsiLdService {
       entities = collection.entities || [];
     }
 
-    // Filter to only devices (only devices have temporal data)
-    const deviceEntities = entities.filter((e) => e.type === 'Device');
+    // Only devices and POIs sampled by a device have temporal data
+    const sensedEntities = entities.filter(
+      (e) => e.type === 'Device' || e.hosts,
+    );
 
-    // Get temporal data for each device
     const temporalEntities: NgsiLdEntity[] = [];
-
-    for (const entity of deviceEntities) {
+    for (const entity of sensedEntities) {
       try {
-        const temporalParams: TemporalQueryDto = {
-          timeAt: params.timeAt,
-          endTimeAt: params.endTimeAt,
-          attrs: params.attrs?.join(','),
-          lastN: params.lastN,
-          aggrMethod: params.aggrMethod,
-          aggrPeriodDuration: params.aggrPeriodDuration,
-        };
-
-        const temporalEntity = await this.getTemporalEntity(
-          entity.id,
-          temporalParams,
+        temporalEntities.push(
+          await this.getTemporalEntity(entity.id, temporal),
         );
-        temporalEntities.push(temporalEntity);
-      } catch (e: any) {
+      } catch (e) {
+        if (
+          e instanceof NgsiLdException &&
+          (e.getStatus() as HttpStatus) === HttpStatus.BAD_REQUEST
+        ) {
+          throw e;
+        }
         this.logger.debug(
-          `No temporal data for entity ${entity.id}: ${e.message}`,
+          `No temporal data for entity ${entity.id}: ${(e as Error).message}`,
         );
       }
     }
 
     return temporalEntities;
   }
-
-  /**
-   * Get available JSON-LD contexts
-   * NGSI-LD Specification: GET /jsonldContexts
-   */
-  getJsonLdContexts(): JsonLdContextInfo[] {
-    return [
-      {
-        '@context': NGSI_LD_CONTEXT,
-        id: 'urn:ngsi-ld:Context:core',
-        type: 'ContextSourceRegistration',
-        url: 'https://uri.etsi.org/ngsi-ld/v1/ngsi-ld-core-context.jsonld',
-        kind: 'Implicit',
-      },
-      {
-        '@context': NGSI_LD_CONTEXT,
-        id: 'urn:ngsi-ld:Context:smartcity',
-        type: 'ContextSourceRegistration',
-        url: 'http://opendatafithou.org/contexts/smartcity.jsonld',
-        kind: 'Hosted',
-      },
-    ];
-  }
-
-  /**
-   * Get a specific JSON-LD context by ID
-   * NGSI-LD Specification: GET /jsonldContexts/{contextId}
-   */
-  getJsonLdContextById(contextId: string): Record<string, unknown> | JsonLdContextInfo {
-    const contexts = this.getJsonLdContexts();
-
-    // Try to find by full ID or partial match
-    const context = contexts.find(
-      (c) =>
-        c.id === contextId ||
-        c.id === `urn:ngsi-ld:Context:${contextId}` ||
-        c.id.endsWith(`:${contextId}`),
-    );
-
-    if (!context) {
-      throw new NotFoundException(`JSON-LD Context '${contextId}' not found`);
-    }
-
-    // Return the actual context content based on the context type
-    if (context.id === 'urn:ngsi-ld:Context:core') {
-      return {
-        '@context': {
-          'ngsi-ld': 'https://uri.etsi.org/ngsi-ld/',
-          id: '@id',
-          type: '@type',
-          Property: 'ngsi-ld:Property',
-          Relationship: 'ngsi-ld:Relationship',
-          GeoProperty: 'ngsi-ld:GeoProperty',
-          TemporalProperty: 'ngsi-ld:TemporalProperty',
-          value: 'ngsi-ld:hasValue',
-          object: 'ngsi-ld:hasObject',
-          observedAt: {
-            '@id': 'ngsi-ld:observedAt',
-            '@type': 'DateTime',
-          },
-          unitCode: 'ngsi-ld:unitCode',
-        },
-      };
-    }
-
-    if (context.id === 'urn:ngsi-ld:Context:smartcity') {
-      return {
-        '@context': {
-          '@vocab': 'http://opendatafithou.org/ontology/',
-          schema: 'http://schema.org/',
-          sosa: 'http://www.w3.org/ns/sosa/',
-          geo: 'http://www.w3.org/2003/01/geo/wgs84_pos#',
-          Device: 'sosa:Sensor',
-          PointOfInterest: 'schema:Place',
-          name: 'schema:name',
-          location: 'geo:location',
-          temperature: 'sosa:observes',
-          humidity: 'sosa:observes',
-          aqi: 'property:airQualityIndex',
-          pm25: 'property:pm25Concentration',
-          pm10: 'property:pm10Concentration',
-          noiseLevel: 'property:noiseLevel',
-          trafficIntensity: 'property:trafficIntensity',
-          waterLevel: 'property:waterLevel',
-        },
-      };
-    }
-
-    return context;
-  }
 }
@@ -23,10 +23,19 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { OverpassService } from './overpass.service';
+import { RoadNetworkService } from './road-network.service';
 
 @Controller('overpass')
 export class OverpassController {
-  constructor(private readonly overpassService: OverpassService) {}
+  constructor(
+    private readonly overpassService: OverpassService,
+    private readonly roadNetworkService: RoadNetworkService,
+  ) {}
+
+  @Get('road-network')
+  getRoadNetwork() {
+    return this.roadNetworkService.getStatus();
+  }
 
   @Get('raw/:qid')
   async getOverpassRaw(@Param('qid') qid: string) {
@@ -18,10 +18,11 @@
 import { Module } from '@nestjs/common';
 import { OverpassController } from './overpass.controller';
 import { OverpassService } from './overpass.service';
+import { RoadNetworkService } from './road-network.service';
 
 @Module({
   controllers: [OverpassController],
-  providers: [OverpassService],
-  exports: [OverpassService],
+  providers: [OverpassService, RoadNetworkService],
+  exports: [OverpassService, RoadNetworkService],
 })
 export class OverpassModule {}
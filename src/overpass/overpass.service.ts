@@ -16,6 +16,7 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
+import { RoadWay } from '../common/travel';
 
 export interface OverpassGeoJSON {
   type: string;
@@ -310,4 +311,27 @@ out geom qt;`;
       return { geojson: null, source: 'exception' };
     }
   }
+
+  /**
+   * Highway ways (with geometry) inside a bounding box [minLon, minLat, maxLon, maxLat]
+   */
+  async fetchRoadWays(bbox: number[]): Promise<RoadWay[]> {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    const query = `[out:json][timeout:90];
+way["highway"](${minLat},${minLon},${maxLat},${maxLon});
+out geom;`;
+
+    const res = await fetch(this.OVERPASS_API, {
+      method: 'POST',
+      body: query,
+    });
+    if (!res.ok) {
+      throw new Error(`Overpass error ${res.status}`);
+    }
+
+    const json = (await res.json()) as {
+      elements?: (RoadWay & { type: string })[];
+    };
+    return (json?.elements ?? []).filter((e) => e.type === 'way' && e.geometry);
+  }
 }
@@ -0,0 +1,114 @@
+/**
+ * Copyright (C) 2025 MFitHou
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { expandBBox } from '../common/geo-utils';
+import { RoadGraph, RoadWay, TravelMode } from '../common/travel';
+import { OverpassService } from './overpass.service';
+
+// Diện tích tối đa của vùng tải đường (độ²), khoảng 25 x 25 km quanh Hà Nội
+const MAX_AREA_DEG2 = 0.05;
+
+/**
+ * Local road network built from Overpass highway ways
+ *
+ * One area is loaded at a time (POST /admin/road-network). Travel time
+ * searches use it when their search circle lies inside the loaded area and
+ * fall back to straight-line estimates otherwise.
+ */
+@Injectable()
+export class RoadNetworkService {
+  private readonly logger = new Logger(RoadNetworkService.name);
+  private area: { bbox: number[]; ways: RoadWay[]; loadedAt: string } | null =
+    null;
+  // Graph theo từng phương tiện, dựng khi cần
+  private readonly graphs = new Map<TravelMode, RoadGraph>();
+
+  constructor(private readonly overpassService: OverpassService) {}
+
+  /**
+   * Load the highway ways of a bounding box [minLon, minLat, maxLon, maxLat]
+   */
+  async load(bbox: number[]) {
+    if (
+      bbox.length !== 4 ||
+      bbox.some((v) => !Number.isFinite(v)) ||
+      bbox[0] >= bbox[2] ||
+      bbox[1] >= bbox[3]
+    ) {
+      throw new Error('bbox phải có dạng [minLon, minLat, maxLon, maxLat]');
+    }
+    const area = (bbox[2] - bbox[0]) * (bbox[3] - bbox[1]);
+    if (area > MAX_AREA_DEG2) {
+      throw new Error(
+        `Vùng quá lớn (${area.toFixed(3)} độ², tối đa ${MAX_AREA_DEG2})`,
+      );
+    }
+
+    const ways = await this.overpassService.fetchRoadWays(bbox);
+    this.area = { bbox, ways, loadedAt: new Date().toISOString() };
+    this.graphs.clear();
+    this.logger.log(
+      `Loaded ${ways.length} road ways for bbox ${bbox.join(',')}`,
+    );
+    return this.getStatus();
+  }
+
+  getStatus() {
+    return {
+      loaded: this.area !== null,
+      bbox: this.area?.bbox ?? null,
+      ways: this.area?.ways.length ?? 0,
+      loadedAt: this.area?.loadedAt ?? null,
+      graphs: [...this.graphs.entries()].map(([mode, graph]) => ({
+        mode,
+        nodes: graph.nodeCount,
+      })),
+    };
+  }
+
+  /**
+   * Road graph of the mode if the loaded area covers the whole search circle
+   */
+  getGraph(
+    mode: TravelMode,
+    center: { lon: number; lat: number },
+    radiusKm: number,
+  ): RoadGraph | null {
+    if (!this.area) return null;
+    const [minLon, minLat, maxLon, maxLat] = expandBBox(
+      [center.lon, center.lat, center.lon, center.lat],
+      radiusKm * 1000,
+    );
+    const [aMinLon, aMinLat, aMaxLon, aMaxLat] = this.area.bbox;
+    if (
+      minLon < aMinLon ||
+      minLat < aMinLat ||
+      maxLon > aMaxLon ||
+      maxLat > aMaxLat
+    ) {
+      return null;
+    }
+
+    let graph = this.graphs.get(mode);
+    if (!graph) {
+      graph = new RoadGraph(this.area.ways, mode);
+      this.graphs.set(mode, graph);
+    }
+    return graph;
+  }
+}